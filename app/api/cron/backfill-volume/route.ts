@@ -0,0 +1,96 @@
+import { NextResponse } from "next/server"
+import {
+  backfillVolume,
+  findVolumeGaps,
+  DAILY_BACKFILL_DAYS,
+  HOURLY_BACKFILL_DAYS,
+} from "@/lib/volume-backfill"
+import { getTopPoolAddresses } from "@/lib/hourly-volume"
+
+/**
+ * Parse ?days=N, clamped to [1, max]
+ */
+function parseDays(value: string | null, fallback: number, max: number): number {
+  const days = Number(value)
+  return Number.isFinite(days) && days >= 1 ? Math.min(Math.floor(days), max) : fallback
+}
+
+/**
+ * POST /api/cron/backfill-volume
+ *
+ * Fills gaps in the daily volume history (volume:daily in KV).
+ * Safe to run repeatedly - only missing days and hours are written.
+ *
+ * This endpoint:
+ * 1. Finds days with no record and complete days with missing hours
+ * 2. Fills missing days from Dune, then GeckoTerminal daily OHLCV
+ * 3. Fills missing hours from GeckoTerminal hourly OHLCV
+ *
+ * Query params:
+ * - days=N: How many past days to check (default 30)
+ * - hourlyDays=N: How many past days to check for missing hours (default 7)
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET> (required in production)
+ */
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get("authorization")
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const url = new URL(request.url)
+    const days = parseDays(url.searchParams.get("days"), DAILY_BACKFILL_DAYS, 365)
+    const hourlyDays = parseDays(url.searchParams.get("hourlyDays"), HOURLY_BACKFILL_DAYS, 30)
+
+    const poolAddresses = await getTopPoolAddresses()
+    const result = await backfillVolume(poolAddresses, days, hourlyDays)
+
+    return NextResponse.json({
+      success: true,
+      ...result,
+      poolCount: poolAddresses.length,
+    })
+  } catch (error) {
+    console.error("[Backfill] Error:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/cron/backfill-volume
+ *
+ * Report current gaps without writing anything
+ */
+export async function GET(request: Request) {
+  try {
+    const url = new URL(request.url)
+    const days = parseDays(url.searchParams.get("days"), DAILY_BACKFILL_DAYS, 365)
+    const hourlyDays = parseDays(url.searchParams.get("hourlyDays"), HOURLY_BACKFILL_DAYS, 30)
+
+    const gaps = await findVolumeGaps(days, hourlyDays)
+
+    return NextResponse.json({
+      status: gaps.days.length === 0 && gaps.hours.length === 0 ? "complete" : "gaps",
+      gaps,
+      missingDays: gaps.days.length,
+      missingHours: gaps.hours.reduce((sum, d) => sum + d.hours.length, 0),
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
@@ -0,0 +1,77 @@
+import { NextResponse } from "next/server"
+import { scanGraduations, persistGraduations } from "@/lib/graduations"
+import { getCachedGraduations } from "@/lib/pool-cache"
+
+/**
+ * POST /api/cron/graduations
+ *
+ * Detects BonkFun graduations from the graduate program's transactions.
+ * Scans are incremental, so this is cheap to run often - run it at least
+ * hourly (e.g. cron-job.org) so no graduation falls outside a scan.
+ *
+ * This endpoint:
+ * 1. Fetches graduate program signatures since the last scan
+ * 2. Parses each transaction for the graduating mint and its pool deposit
+ * 3. Writes graduated_at / graduation_tx to bonkfun_tokens
+ * 4. Recounts new_tokens_graduated in daily_aggregates for the affected days
+ *
+ * Headers:
+ * - Authorization: Bearer <CRON_SECRET> (required in production)
+ */
+export async function POST(request: Request) {
+  try {
+    const authHeader = request.headers.get("authorization")
+    const cronSecret = process.env.CRON_SECRET
+
+    if (cronSecret && authHeader !== `Bearer ${cronSecret}`) {
+      return NextResponse.json({ error: "Unauthorized" }, { status: 401 })
+    }
+
+    const { log, newEvents, scannedSignatures } = await scanGraduations()
+    const persisted = await persistGraduations(newEvents)
+
+    return NextResponse.json({
+      success: true,
+      scannedSignatures,
+      detected: newEvents.length,
+      persisted,
+      newEvents,
+      totalEvents: log.events.length,
+    })
+  } catch (error) {
+    console.error("[Graduations] Error:", error)
+    return NextResponse.json(
+      {
+        success: false,
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
+
+/**
+ * GET /api/cron/graduations
+ *
+ * Report the state of the graduation log without scanning
+ */
+export async function GET() {
+  try {
+    const log = await getCachedGraduations()
+
+    return NextResponse.json({
+      status: log ? "ok" : "empty",
+      events: log?.events.length || 0,
+      newestSignature: log?.newestSignature || null,
+      scannedAt: log?.scannedAt || null,
+      latest: log?.events[0] || null,
+    })
+  } catch (error) {
+    return NextResponse.json(
+      {
+        error: error instanceof Error ? error.message : "Unknown error",
+      },
+      { status: 500 }
+    )
+  }
+}
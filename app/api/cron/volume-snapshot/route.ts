@@ -1,10 +1,27 @@
 import { NextResponse } from "next/server"
 import { saveVolumeSnapshot, getStorageStatus } from "@/lib/volume-store"
+import { writeTokenSnapshots } from "@/lib/token-snapshots"
+import {
+  runTokenPipeline,
+  raydiumDiscovery,
+  dexScreenerEnrichment,
+  geckoTerminalEnrichment,
+  onchainPriceEnrichment,
+  bonkFunVerification,
+  type TokenPipeline,
+} from "@/lib/token-pipeline"
 
 const USD1_MINT = "USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB"
 const RAYDIUM_API = "https://api-v3.raydium.io"
 const EXCLUDED_SYMBOLS = ["WLFI", "USD1", "USDC", "USDT", "SOL", "WSOL", "RAY", "FREYA", "REAL", "AOL"]
 
+// Per-token snapshots use the same token list as /api/tokens (minus holder counts)
+const SNAPSHOT_PIPELINE: TokenPipeline = {
+  discovery: [raydiumDiscovery],
+  enrichment: [dexScreenerEnrichment, geckoTerminalEnrichment, onchainPriceEnrichment],
+  tokenStages: [bonkFunVerification],
+}
+
 // Cron secret for authentication (set in Vercel environment variables)
 const CRON_SECRET = process.env.CRON_SECRET
 
@@ -142,6 +159,48 @@ async function fetchCurrentMetrics(): Promise<{
   }
 }
 
+/**
+ * Take one snapshot: aggregate KV snapshot plus per-token Supabase rows
+ * Supabase writes are hour-keyed upserts, so re-runs within an hour are idempotent
+ * Graduations come from their own cron (/api/cron/graduations) - the daily
+ * aggregate counts whatever it has recorded so far
+ */
+async function takeSnapshot() {
+  const now = new Date()
+
+  const [metrics, pipeline] = await Promise.all([
+    fetchCurrentMetrics(),
+    runTokenPipeline(SNAPSHOT_PIPELINE, "[Cron]").catch((error) => {
+      console.error("[Cron] Token pipeline failed:", error)
+      return null
+    }),
+  ])
+
+  await saveVolumeSnapshot({
+    timestamp: now.getTime(),
+    totalVolume24h: metrics.totalVolume24h,
+    totalLiquidity: metrics.totalLiquidity,
+    poolCount: metrics.poolCount,
+  })
+
+  let tokenSnapshots = null
+  if (pipeline && pipeline.tokens.length > 0) {
+    try {
+      tokenSnapshots = await writeTokenSnapshots(pipeline.tokens, now)
+    } catch (error) {
+      console.error("[Cron] Per-token snapshot write failed:", error)
+    }
+  }
+
+  return {
+    snapshot: {
+      timestamp: now.getTime(),
+      ...metrics,
+    },
+    tokenSnapshots,
+  }
+}
+
 /**
  * POST handler for cron job
  * Can be triggered by:
@@ -161,30 +220,17 @@ export async function POST(request: Request) {
   try {
     console.log("[Cron] Starting volume snapshot...")
 
-    // Fetch current metrics
-    const metrics = await fetchCurrentMetrics()
-
-    // Save snapshot
-    await saveVolumeSnapshot({
-      timestamp: Date.now(),
-      totalVolume24h: metrics.totalVolume24h,
-      totalLiquidity: metrics.totalLiquidity,
-      poolCount: metrics.poolCount,
-    })
+    const { snapshot, tokenSnapshots } = await takeSnapshot()
 
     // Get storage status for logging
     const status = await getStorageStatus()
 
-    console.log(`[Cron] Snapshot saved: $${metrics.totalVolume24h.toLocaleString()} volume, ${metrics.poolCount} pools`)
+    console.log(`[Cron] Snapshot saved: $${snapshot.totalVolume24h.toLocaleString()} volume, ${snapshot.poolCount} pools`)
 
     return NextResponse.json({
       success: true,
-      snapshot: {
-        timestamp: Date.now(),
-        totalVolume24h: metrics.totalVolume24h,
-        totalLiquidity: metrics.totalLiquidity,
-        poolCount: metrics.poolCount,
-      },
+      snapshot,
+      tokenSnapshots,
       storage: status,
     })
   } catch (error) {
@@ -223,22 +269,14 @@ export async function GET(request: Request) {
 
     // Trigger the POST handler logic
     try {
-      const metrics = await fetchCurrentMetrics()
-      await saveVolumeSnapshot({
-        timestamp: Date.now(),
-        totalVolume24h: metrics.totalVolume24h,
-        totalLiquidity: metrics.totalLiquidity,
-        poolCount: metrics.poolCount,
-      })
+      const { snapshot, tokenSnapshots } = await takeSnapshot()
 
       const status = await getStorageStatus()
 
       return NextResponse.json({
         success: true,
-        snapshot: {
-          timestamp: Date.now(),
-          ...metrics,
-        },
+        snapshot,
+        tokenSnapshots,
         storage: status,
       })
     } catch (error) {
@@ -263,5 +301,7 @@ export async function GET(request: Request) {
   })
 }
 
-// Enable edge runtime for better performance
-export const runtime = "edge"
+// Node runtime - the token pipeline (BonkFun verification included) can
+// outlast the edge time limit, which would cut the Supabase writes short
+export const runtime = "nodejs"
+export const maxDuration = 300
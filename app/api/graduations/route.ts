@@ -0,0 +1,41 @@
+import { NextResponse } from "next/server"
+import { getJustGraduated } from "@/lib/graduations"
+
+const DEFAULT_LIMIT = 20
+const MAX_LIMIT = 100
+const FEED_WINDOW_MS = 7 * 24 * 60 * 60 * 1000
+
+// Polling rescans at most once a minute - the cron job does the full scans
+const SCAN_MAX_AGE = 60 * 1000
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(request: Request) {
+  const limitParam = Number(new URL(request.url).searchParams.get("limit") || DEFAULT_LIMIT)
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(Math.floor(limitParam), 1), MAX_LIMIT)
+    : DEFAULT_LIMIT
+
+  try {
+    const graduations = await getJustGraduated(limit, FEED_WINDOW_MS, SCAN_MAX_AGE)
+
+    return NextResponse.json({
+      graduations,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      }
+    })
+  } catch (error) {
+    console.error("[Graduations] Fatal error:", error)
+    return NextResponse.json(
+      { graduations: [], error: "Unable to fetch graduations" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
@@ -0,0 +1,54 @@
+import { NextResponse } from "next/server"
+import { getPoolEvents } from "@/lib/pool-events"
+import { syncUSD1Pools } from "@/lib/pool-sync"
+
+const DEFAULT_WINDOW_MS = 24 * 60 * 60 * 1000
+const MAX_WINDOW_MS = 30 * 24 * 60 * 60 * 1000 // Event log retention
+const DEFAULT_LIMIT = 100
+const MAX_LIMIT = 500
+
+// ============================================
+// API HANDLER
+// ============================================
+
+/**
+ * Pools first seen by on-chain discovery after ?since= (ms timestamp, default 24h ago)
+ * Syncs the pool list first when it's due, so the log keeps up without other traffic
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const now = Date.now()
+
+  const sinceParam = Number(url.searchParams.get("since"))
+  const since = Number.isFinite(sinceParam) && sinceParam > 0
+    ? Math.max(sinceParam, now - MAX_WINDOW_MS)
+    : now - DEFAULT_WINDOW_MS
+
+  const limitParam = Number(url.searchParams.get("limit") || DEFAULT_LIMIT)
+  const limit = Number.isFinite(limitParam)
+    ? Math.min(Math.max(Math.floor(limitParam), 1), MAX_LIMIT)
+    : DEFAULT_LIMIT
+
+  try {
+    await syncUSD1Pools()
+    const events = await getPoolEvents(since, limit)
+
+    return NextResponse.json({
+      events,
+      since,
+      timestamp: now,
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=30, stale-while-revalidate=60',
+      }
+    })
+  } catch (error) {
+    console.error("[PoolEvents] Fatal error:", error)
+    return NextResponse.json(
+      { events: [], since, error: "Unable to fetch pool events" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
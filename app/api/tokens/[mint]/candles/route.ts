@@ -0,0 +1,55 @@
+import { NextResponse } from "next/server"
+import { getTokenCandles, isCandleInterval } from "@/lib/candles"
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  const { mint } = await params
+  const url = new URL(request.url)
+  const interval = url.searchParams.get("interval") || "1h"
+  const pool = url.searchParams.get("pool") || undefined
+
+  if (!MINT_REGEX.test(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 })
+  }
+
+  if (!isCandleInterval(interval)) {
+    return NextResponse.json({ error: "interval must be one of 5m, 1h, 1d" }, { status: 400 })
+  }
+
+  if (pool && !MINT_REGEX.test(pool)) {
+    return NextResponse.json({ error: "Invalid pool address" }, { status: 400 })
+  }
+
+  try {
+    const { candles, sources } = await getTokenCandles(mint, interval, pool)
+
+    return NextResponse.json({
+      mint,
+      interval,
+      candles,
+      sources,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      }
+    })
+  } catch (error) {
+    console.error("[Candles] Fatal error:", error)
+    return NextResponse.json(
+      { mint, interval, candles: [], error: "Unable to fetch candles" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
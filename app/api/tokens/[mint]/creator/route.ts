@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { fetchCreatorProfile } from "@/lib/creator-profile"
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  const { mint } = await params
+
+  if (!MINT_REGEX.test(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 })
+  }
+
+  try {
+    const profile = await fetchCreatorProfile(mint)
+
+    if (!profile) {
+      return NextResponse.json(
+        { mint, profile: null, error: "Creator unknown" },
+        { status: 404 }
+      )
+    }
+
+    return NextResponse.json({
+      mint,
+      profile,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    })
+  } catch (error) {
+    console.error("[Creator] Fatal error:", error)
+    return NextResponse.json(
+      { mint, profile: null, error: "Unable to fetch creator profile" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
@@ -0,0 +1,49 @@
+import { NextResponse } from "next/server"
+import { fetchHolderDistribution } from "@/lib/holder-fetcher"
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  _request: Request,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  const { mint } = await params
+
+  if (!MINT_REGEX.test(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 })
+  }
+
+  try {
+    const distribution = await fetchHolderDistribution(mint)
+
+    if (!distribution) {
+      return NextResponse.json(
+        { mint, distribution: null, error: "Holder data unavailable" },
+        { status: 503 }
+      )
+    }
+
+    return NextResponse.json({
+      mint,
+      distribution,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=600, stale-while-revalidate=3600',
+      }
+    })
+  } catch (error) {
+    console.error("[Holders] Fatal error:", error)
+    return NextResponse.json(
+      { mint, distribution: null, error: "Unable to fetch holders" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
@@ -0,0 +1,75 @@
+import { NextResponse } from "next/server"
+import { getTradePool, fetchRecentTrades } from "@/lib/trades"
+import { getSharedTokens } from "@/lib/token-feed"
+import { fetchDexScreenerTokens } from "@/lib/token-sources"
+import { detectWashTrading } from "@/lib/wash-trading"
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+// ============================================
+// TOKEN LABEL
+// ============================================
+
+/**
+ * Symbol and name for the trade rows - shared token list first, then DexScreener
+ */
+async function getTokenLabel(mint: string): Promise<{ symbol: string; name: string }> {
+  const token = (await getSharedTokens()).find((t) => t.address === mint)
+  if (token) return { symbol: token.symbol, name: token.name }
+
+  const market = (await fetchDexScreenerTokens([mint])).get(mint)
+  return { symbol: market?.symbol || "???", name: market?.name || "" }
+}
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  const { mint } = await params
+
+  if (!MINT_REGEX.test(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 })
+  }
+
+  // Optional pool hint (the token's pairAddress) when it has several USD1 pools
+  const poolParam = new URL(request.url).searchParams.get("pool")
+  const preferredPool = poolParam && MINT_REGEX.test(poolParam) ? poolParam : undefined
+
+  try {
+    const pool = await getTradePool(mint, preferredPool)
+
+    if (!pool) {
+      return NextResponse.json(
+        { mint, pool: null, trades: [], error: "No USD1 pool found" },
+        { status: 404 }
+      )
+    }
+
+    const trades = await fetchRecentTrades(pool, await getTokenLabel(mint))
+
+    return NextResponse.json({
+      mint,
+      pool: pool.poolAddress,
+      trades,
+      washTrading: detectWashTrading(trades),
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=5, stale-while-revalidate=10',
+      }
+    })
+  } catch (error) {
+    console.error("[Trades] Fatal error:", error)
+    return NextResponse.json(
+      { mint, pool: null, trades: [], error: "Unable to fetch trades" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
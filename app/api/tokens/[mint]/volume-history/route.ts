@@ -0,0 +1,70 @@
+import { NextResponse } from "next/server"
+import {
+  fetchTokenVolumeHistory,
+  buildCoverage,
+  calculateStats,
+  isVolumeHistoryPeriod,
+} from "@/lib/volume-history"
+import { getSharedTokens } from "@/lib/token-feed"
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(
+  request: Request,
+  { params }: { params: Promise<{ mint: string }> }
+) {
+  const { mint } = await params
+  const url = new URL(request.url)
+  const period = url.searchParams.get("period") || "24h"
+  const poolParam = url.searchParams.get("pool") || undefined
+
+  if (!MINT_REGEX.test(mint)) {
+    return NextResponse.json({ error: "Invalid mint address" }, { status: 400 })
+  }
+
+  if (!isVolumeHistoryPeriod(period)) {
+    return NextResponse.json({ error: "period must be one of 24h, 7d, 1m, all" }, { status: 400 })
+  }
+
+  if (poolParam && !MINT_REGEX.test(poolParam)) {
+    return NextResponse.json({ error: "Invalid pool address" }, { status: 400 })
+  }
+
+  try {
+    const token = (await getSharedTokens()).find((t) => t.address === mint)
+    const pool = poolParam || token?.pairAddress || undefined
+
+    const history = await fetchTokenVolumeHistory(mint, period, pool)
+    const coverage = buildCoverage(history)
+
+    return NextResponse.json({
+      mint,
+      history,
+      stats: calculateStats(history, token?.volume24h || 0, pool ? 1 : 0),
+      period,
+      dataPoints: history.length,
+      coverage,
+      source: coverage.covered === 0
+        ? "none"
+        : (coverage.sources.snapshots || 0) > 0 ? "snapshots" : "geckoterminal",
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      }
+    })
+  } catch (error) {
+    console.error("[TokenVolume] Fatal error:", error)
+    return NextResponse.json(
+      { mint, period, history: [], error: "Unable to fetch volume history" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
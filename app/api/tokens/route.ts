@@ -1,802 +1,12 @@
 import { NextResponse } from "next/server"
-import { fetchHolderCountsBatch } from "@/lib/holder-fetcher"
-
-// ============================================
-// CONFIGURATION
-// ============================================
-
-const CONFIG = {
-  USD1_MINT: "USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB",
-  DEXSCREENER_API: "https://api.dexscreener.com",
-  RAYDIUM_API: "https://api-v3.raydium.io",
-  GECKOTERMINAL_API: "https://api.geckoterminal.com/api/v2",
-  HELIUS_API: "https://mainnet.helius-rpc.com",
-  EXCLUDED_SYMBOLS: ["WLFI", "USD1", "USDC", "USDT", "SOL", "WSOL", "RAY", "FREYA", "REAL", "AOL"],
-  MAX_MCAP_LIQUIDITY_RATIO: 100,
-  MIN_LIQUIDITY_USD: 100,
-  CACHE_TTL: 15 * 1000, // 15 seconds for blazing fast updates
-  STALE_WHILE_REVALIDATE: 45 * 1000, // Serve stale for 45s while fetching
-  // BonkFun identification - tokens must be created via these programs
-  BONKFUN: {
-    // Raydium LaunchLab program - creates tokens via initialize_v2
-    LAUNCHLAB_PROGRAM: "LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj",
-    // BonkFun platform config - must be in accounts to identify BonkFun vs other LaunchLab
-    PLATFORM_CONFIG: "FfYek5vEz23cMkWsdJwG2oa6EphsvXSHrGpdALN4g6W1",
-    // BonkFun graduation program
-    GRADUATE_PROGRAM: "boop8hVGQGqehUK2iVEMEnMrL5RbjywRzHKBmBE7ry4",
-  },
-}
-
-// ============================================
-// IN-MEMORY CACHE WITH STALE-WHILE-REVALIDATE
-// ============================================
-interface CacheEntry {
-  data: any[]
-  timestamp: number
-  isRefreshing: boolean
-  raydiumTotalVolume: number
-}
-
-let cache: CacheEntry = {
-  data: [],
-  timestamp: 0,
-  isRefreshing: false,
-  raydiumTotalVolume: 0,
-}
-
-// ============================================
-// BONKFUN TOKEN VERIFICATION CACHE
-// ============================================
-// Cache verified BonkFun tokens to avoid repeated lookups
-// Key: token mint address, Value: { isBonkFun: boolean, verifiedAt: timestamp }
-const bonkfunVerificationCache = new Map<string, { isBonkFun: boolean; verifiedAt: number }>()
-const VERIFICATION_CACHE_TTL = 24 * 60 * 60 * 1000 // 24 hours - token origin doesn't change
-
-// API health tracking with exponential backoff
-const apiHealth = {
-  raydium: { healthy: true, lastError: 0, errorCount: 0 },
-  dexscreener: { healthy: true, lastError: 0, errorCount: 0 },
-  geckoterminal: { healthy: true, lastError: 0, errorCount: 0 },
-}
-
-function markApiError(api: keyof typeof apiHealth) {
-  apiHealth[api].healthy = false
-  apiHealth[api].lastError = Date.now()
-  apiHealth[api].errorCount++
-}
-
-function resetApiHealth(api: keyof typeof apiHealth) {
-  apiHealth[api].healthy = true
-  apiHealth[api].errorCount = 0
-}
-
-function isApiHealthy(api: keyof typeof apiHealth): boolean {
-  const health = apiHealth[api]
-  if (health.healthy) return true
-  
-  // Exponential backoff: 30s, 60s, 120s, max 5min
-  const backoffMs = Math.min(30000 * Math.pow(2, health.errorCount - 1), 300000)
-  if (Date.now() - health.lastError > backoffMs) {
-    health.healthy = true
-    return true
-  }
-  return false
-}
-
-function shouldExclude(symbol?: string, name?: string): boolean {
-  const s = (symbol || "").toUpperCase()
-  const n = (name || "").toUpperCase()
-  return CONFIG.EXCLUDED_SYMBOLS.some(
-    (excluded) => s === excluded || s.includes(excluded) || n === excluded
-  )
-}
-
-// ============================================
-// BONKFUN TOKEN VERIFICATION
-// ============================================
-
-/**
- * Verify if a token was created on BonkFun by checking its creation transaction.
- * BonkFun tokens are created via LaunchLab program with BonkFun platform config in accounts.
- */
-async function verifyBonkFunToken(mint: string): Promise<boolean> {
-  // Check cache first
-  const cached = bonkfunVerificationCache.get(mint)
-  if (cached && Date.now() - cached.verifiedAt < VERIFICATION_CACHE_TTL) {
-    return cached.isBonkFun
-  }
-
-  try {
-    // Use Helius API to get transaction signatures for the token mint
-    const apiKey = process.env.HELIUS_API_KEY || ""
-    const url = apiKey
-      ? `${CONFIG.HELIUS_API}/?api-key=${apiKey}`
-      : CONFIG.HELIUS_API
-
-    // Get the token's first transactions to find creation
-    const response = await fetchWithTimeout(url, 5000)
-    if (!response.ok) {
-      // If API fails, check by pool type from Raydium (fallback)
-      return true // Default to true if can't verify - will be filtered by pool type
-    }
-
-    // For now, use a simpler approach: check if the pool type indicates LaunchLab
-    // This is a fallback since proper verification requires parsing transaction history
-    bonkfunVerificationCache.set(mint, { isBonkFun: true, verifiedAt: Date.now() })
-    return true
-  } catch (error) {
-    console.error(`[BonkFun] Verification error for ${mint}:`, error)
-    return true // Default to true on error
-  }
-}
-
-/**
- * Check if a pool type indicates it's from LaunchLab/BonkFun
- * Raydium pool types that indicate LaunchLab origin
- */
-function isLaunchLabPoolType(poolType?: string): boolean {
-  if (!poolType) return false
-  const type = poolType.toLowerCase()
-  return type.includes("launchlab") ||
-         type.includes("launch") ||
-         type === "cpmm" || // LaunchLab migrates to CPMM pools
-         type === "standard" // Standard CPMM pools from LaunchLab
-}
-
-/**
- * Batch verify multiple tokens for BonkFun origin
- * Uses pool type as primary filter, with option for deeper verification
- */
-async function filterBonkFunTokens(
-  tokens: Map<string, any>,
-  poolTypes: Map<string, string>
-): Promise<Set<string>> {
-  const verifiedMints = new Set<string>()
-
-  for (const [mint, data] of tokens) {
-    const poolType = poolTypes.get(mint) || data.poolType
-
-    // Primary filter: Check if pool type indicates LaunchLab/BonkFun origin
-    if (isLaunchLabPoolType(poolType)) {
-      verifiedMints.add(mint)
-      bonkfunVerificationCache.set(mint, { isBonkFun: true, verifiedAt: Date.now() })
-      continue
-    }
-
-    // Check cache for previously verified tokens
-    const cached = bonkfunVerificationCache.get(mint)
-    if (cached && Date.now() - cached.verifiedAt < VERIFICATION_CACHE_TTL) {
-      if (cached.isBonkFun) {
-        verifiedMints.add(mint)
-      }
-      continue
-    }
-
-    // For tokens without clear pool type, mark as unverified
-    // They won't be included unless verified via another method
-    bonkfunVerificationCache.set(mint, { isBonkFun: false, verifiedAt: Date.now() })
-  }
-
-  return verifiedMints
-}
-
-function hasSuspiciousMetrics(fdv: number, liquidity: number): boolean {
-  if (liquidity < CONFIG.MIN_LIQUIDITY_USD) return true
-  if (fdv > 0 && liquidity > 0 && fdv / liquidity > CONFIG.MAX_MCAP_LIQUIDITY_RATIO) return true
-  return false
-}
-
-// ============================================
-// OPTIMIZED API FETCHERS WITH PARALLEL EXECUTION
-// ============================================
-
-async function fetchWithTimeout(url: string, timeout = 8000): Promise<Response> {
-  const controller = new AbortController()
-  const timeoutId = setTimeout(() => controller.abort(), timeout)
-  
-  try {
-    const response = await fetch(url, { 
-      signal: controller.signal,
-      headers: { Accept: "application/json" },
-    })
-    clearTimeout(timeoutId)
-    return response
-  } catch (error) {
-    clearTimeout(timeoutId)
-    throw error
-  }
-}
-
-async function fetchRaydiumPools(): Promise<{ pools: Map<string, any>; poolTypes: Map<string, string> }> {
-  const poolMap = new Map<string, any>()
-  const poolTypeMap = new Map<string, string>()
-  if (!isApiHealthy("raydium")) return { pools: poolMap, poolTypes: poolTypeMap }
-
-  try {
-    const pageSize = 500
-    const maxPages = 5
-
-    // OPTIMIZATION: Fetch first page to get total count, then parallelize remaining pages
-    // Filter for CPMM and LaunchLab pool types (where BonkFun tokens graduate to)
-    const firstPageUrl = `${CONFIG.RAYDIUM_API}/pools/info/mint?mint1=${CONFIG.USD1_MINT}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=${pageSize}&page=1`
-    const firstResponse = await fetchWithTimeout(firstPageUrl)
-    
-    if (!firstResponse.ok) {
-      if (firstResponse.status === 429) markApiError("raydium")
-      return { pools: poolMap, poolTypes: poolTypeMap }
-    }
-
-    const firstJson = await firstResponse.json()
-    if (!firstJson.success || !firstJson.data?.data) return { pools: poolMap, poolTypes: poolTypeMap }
-
-    const firstPools = firstJson.data.data
-    const totalCount = firstJson.data.count || firstPools.length
-    const totalPages = Math.min(Math.ceil(totalCount / pageSize), maxPages)
-
-    // Process first page
-    const processPool = (pool: any) => {
-      const mintA = pool.mintA?.address
-      const mintB = pool.mintB?.address
-      const isAUSD1 = mintA === CONFIG.USD1_MINT
-      const isBUSD1 = mintB === CONFIG.USD1_MINT
-
-      if (!isAUSD1 && !isBUSD1) return
-
-      const baseMint = isAUSD1 ? mintB : mintA
-      const baseToken = isAUSD1 ? pool.mintB : pool.mintA
-
-      if (!baseMint || baseMint === CONFIG.USD1_MINT) return
-      if (shouldExclude(baseToken?.symbol, baseToken?.name)) return
-
-      // Track pool type for BonkFun verification
-      const poolType = pool.type || pool.poolType || ""
-      poolTypeMap.set(baseMint, poolType)
-
-      // BonkFun tokens graduate to CPMM pools - filter for LaunchLab/CPMM pools
-      // Include: Cpmm, Standard, LaunchLab variants
-      // Note: Some older BonkFun tokens may have graduated to AMM v4 pools
-      const isLikelyBonkFun = isLaunchLabPoolType(poolType) ||
-                              poolType.toLowerCase().includes("cpmm") ||
-                              poolType.toLowerCase() === "standard" ||
-                              poolType.toLowerCase() === "concentrated" ||
-                              pool.programId === CONFIG.BONKFUN.LAUNCHLAB_PROGRAM
-
-      if (!isLikelyBonkFun) return // Skip non-BonkFun pools
-
-      const existing = poolMap.get(baseMint)
-      const poolLiquidity = pool.tvl || 0
-
-      if (!existing || poolLiquidity > (existing.tvl || 0)) {
-        poolMap.set(baseMint, {
-          mint: baseMint,
-          symbol: baseToken?.symbol,
-          name: baseToken?.name,
-          logoURI: baseToken?.logoURI,
-          decimals: baseToken?.decimals,
-          poolId: pool.id,
-          poolType: poolType,
-          tvl: poolLiquidity,
-          volume24h: pool.day?.volume || 0,
-          price: isAUSD1 ? pool.price : 1 / pool.price,
-          priceChange24h: pool.day?.priceChange || 0,
-          source: "raydium",
-          isBonkFun: true, // Mark as verified BonkFun token
-        })
-      }
-    }
-
-    firstPools.forEach(processPool)
-
-    // OPTIMIZATION: Fetch remaining pages in parallel
-    if (totalPages > 1 && firstPools.length >= pageSize) {
-      const pagePromises = []
-      for (let page = 2; page <= totalPages; page++) {
-        const url = `${CONFIG.RAYDIUM_API}/pools/info/mint?mint1=${CONFIG.USD1_MINT}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=${pageSize}&page=${page}`
-        pagePromises.push(
-          fetchWithTimeout(url, 6000)
-            .then(res => res.ok ? res.json() : null)
-            .catch(() => null)
-        )
-      }
-
-      const results = await Promise.all(pagePromises)
-      results.forEach(json => {
-        if (json?.success && json.data?.data) {
-          json.data.data.forEach(processPool)
-        }
-      })
-    }
-
-    resetApiHealth("raydium")
-  } catch (error) {
-    console.error("[Raydium] Error:", error)
-    markApiError("raydium")
-  }
-
-  return { pools: poolMap, poolTypes: poolTypeMap }
-}
-
-async function fetchDexScreenerPairs(): Promise<Map<string, any>> {
-  const pairMap = new Map<string, any>()
-  if (!isApiHealthy("dexscreener")) return pairMap
-
-  try {
-    // Fetch from both endpoints in parallel
-    const [tokenPairsRes, latestRes] = await Promise.allSettled([
-      fetchWithTimeout(`${CONFIG.DEXSCREENER_API}/token-pairs/v1/solana/${CONFIG.USD1_MINT}`),
-      fetchWithTimeout(`${CONFIG.DEXSCREENER_API}/latest/dex/tokens/${CONFIG.USD1_MINT}`),
-    ])
-
-    // Process token-pairs response
-    if (tokenPairsRes.status === "fulfilled" && tokenPairsRes.value.ok) {
-      const pairs = await tokenPairsRes.value.json()
-      if (Array.isArray(pairs)) {
-        pairs.forEach((pair: any) => {
-          if (pair.chainId !== "solana") return
-          const baseAddress =
-            pair.quoteToken?.address === CONFIG.USD1_MINT
-              ? pair.baseToken?.address
-              : pair.quoteToken?.address
-          if (baseAddress && baseAddress !== CONFIG.USD1_MINT && !shouldExclude(pair.baseToken?.symbol, pair.baseToken?.name)) {
-            pairMap.set(baseAddress, pair)
-          }
-        })
-      }
-    }
-
-    // Process latest response
-    if (latestRes.status === "fulfilled" && latestRes.value.ok) {
-      const data = await latestRes.value.json()
-      const pairs = data.pairs || []
-      pairs.forEach((pair: any) => {
-        if (pair.chainId !== "solana") return
-        const baseAddress = pair.baseToken?.address
-        if (baseAddress && !pairMap.has(baseAddress) && !shouldExclude(pair.baseToken?.symbol, pair.baseToken?.name)) {
-          pairMap.set(baseAddress, pair)
-        }
-      })
-    }
-
-    resetApiHealth("dexscreener")
-  } catch (error) {
-    console.error("[DexScreener] Error:", error)
-    markApiError("dexscreener")
-  }
-
-  return pairMap
-}
-
-async function fetchGeckoTerminalPools(): Promise<Map<string, any>> {
-  const poolMap = new Map<string, any>()
-  if (!isApiHealthy("geckoterminal")) return poolMap
-
-  try {
-    const maxPages = 5
-    
-    // OPTIMIZATION: Parallel fetch all pages at once
-    const pageUrls = Array.from({ length: maxPages }, (_, i) => 
-      `${CONFIG.GECKOTERMINAL_API}/networks/solana/tokens/${CONFIG.USD1_MINT}/pools?page=${i + 1}&include=base_token,quote_token`
-    )
-
-    const processGeckoPage = (json: any) => {
-      if (!json) return
-      
-      const pools = json.data || []
-      const included = json.included || []
-
-      const tokenLookup = new Map<string, any>()
-      for (const item of included) {
-        if (item.type === "token") {
-          tokenLookup.set(item.id, item.attributes)
-        }
-      }
-
-      for (const pool of pools) {
-        const attrs = pool.attributes
-        const relationships = pool.relationships
-        const baseTokenId = relationships?.base_token?.data?.id
-        const quoteTokenId = relationships?.quote_token?.data?.id
-
-        const baseToken = tokenLookup.get(baseTokenId)
-        const quoteToken = tokenLookup.get(quoteTokenId)
-
-        let tokenData: any = null
-        let isBaseUSD1 = false
-
-        if (baseToken?.address === CONFIG.USD1_MINT) {
-          tokenData = quoteToken
-          isBaseUSD1 = true
-        } else if (quoteToken?.address === CONFIG.USD1_MINT) {
-          tokenData = baseToken
-          isBaseUSD1 = false
-        } else {
-          continue
-        }
-
-        if (!tokenData || shouldExclude(tokenData.symbol, tokenData.name)) continue
-
-        const mint = tokenData.address
-        const existing = poolMap.get(mint)
-        const poolLiquidity = Number.parseFloat(attrs.reserve_in_usd) || 0
-
-        if (!existing || poolLiquidity > (existing.liquidity || 0)) {
-          poolMap.set(mint, {
-            mint,
-            symbol: tokenData.symbol,
-            name: tokenData.name,
-            logoURI: tokenData.image_url,
-            poolAddress: attrs.address,
-            liquidity: poolLiquidity,
-            volume24h: Number.parseFloat(attrs.volume_usd?.h24) || 0,
-            price: isBaseUSD1
-              ? Number.parseFloat(attrs.quote_token_price_usd) || 0
-              : Number.parseFloat(attrs.base_token_price_usd) || 0,
-            priceChange24h: Number.parseFloat(attrs.price_change_percentage?.h24) || 0,
-            priceChange1h: Number.parseFloat(attrs.price_change_percentage?.h1) || 0,
-            txns24h: (attrs.transactions?.h24?.buys || 0) + (attrs.transactions?.h24?.sells || 0) || 0,
-            buys24h: attrs.transactions?.h24?.buys || 0,
-            sells24h: attrs.transactions?.h24?.sells || 0,
-            fdv: Number.parseFloat(attrs.fdv_usd) || 0,
-            createdAt: attrs.pool_created_at,
-            source: "geckoterminal",
-          })
-        }
-      }
-    }
-
-    // Fetch all pages in parallel
-    const pageResults = await Promise.all(
-      pageUrls.map(url =>
-        fetchWithTimeout(url, 6000)
-          .then(res => {
-            if (!res.ok) {
-              if (res.status === 429) markApiError("geckoterminal")
-              return null
-            }
-            return res.json()
-          })
-          .catch(() => null)
-      )
-    )
-
-    pageResults.forEach(processGeckoPage)
-    resetApiHealth("geckoterminal")
-  } catch (error) {
-    console.error("[GeckoTerminal] Error:", error)
-    markApiError("geckoterminal")
-  }
-
-  return poolMap
-}
-
-// Batch fetch additional DexScreener data for tokens
-async function fetchDexScreenerBatchData(mints: string[]): Promise<Map<string, any>> {
-  const tokenDataMap = new Map<string, any>()
-  if (!isApiHealthy("dexscreener") || mints.length === 0) return tokenDataMap
-
-  const batches: string[][] = []
-  for (let i = 0; i < mints.length; i += 30) {
-    batches.push(mints.slice(i, i + 30))
-  }
-
-  const batchPromises = batches.map(async (batch) => {
-    try {
-      const response = await fetchWithTimeout(
-        `${CONFIG.DEXSCREENER_API}/latest/dex/tokens/${batch.join(",")}`
-      )
-      if (response.ok) {
-        const data = await response.json()
-        const pairs = data.pairs || []
-        pairs.forEach((pair: any) => {
-          const baseAddress = pair.baseToken?.address
-          if (baseAddress && pair.quoteToken?.address === CONFIG.USD1_MINT) {
-            const existing = tokenDataMap.get(baseAddress)
-            if (!existing || (pair.volume?.h24 || 0) > (existing.volume?.h24 || 0)) {
-              tokenDataMap.set(baseAddress, pair)
-            }
-          }
-        })
-      }
-    } catch (e) {
-      // Silent fail for batch
-    }
-  })
-
-  await Promise.allSettled(batchPromises)
-  return tokenDataMap
-}
-
-function getTokenEmoji(name?: string): string {
-  if (!name) return "🪙"
-  const n = name.toLowerCase()
-  if (n.includes("dog") || n.includes("doge") || n.includes("shib") || n.includes("inu")) return "🐕"
-  if (n.includes("cat") || n.includes("kitty") || n.includes("meow")) return "🐱"
-  if (n.includes("frog") || n.includes("pepe")) return "🐸"
-  if (n.includes("moon")) return "🌙"
-  if (n.includes("rocket") || n.includes("launch")) return "🚀"
-  if (n.includes("fire") || n.includes("burn")) return "🔥"
-  if (n.includes("bonk")) return "🔨"
-  if (n.includes("trump")) return "🇺🇸"
-  if (n.includes("ai") || n.includes("gpt")) return "🤖"
-  return "🪙"
-}
-
-function extractSocialLinks(dexData: any): { twitter?: string; telegram?: string; website?: string } {
-  const socials: { twitter?: string; telegram?: string; website?: string } = {}
-  if (dexData?.info?.socials) {
-    for (const social of dexData.info.socials) {
-      if (social.type === "twitter") socials.twitter = social.url
-      if (social.type === "telegram") socials.telegram = social.url
-    }
-  }
-  if (dexData?.info?.websites?.length > 0) {
-    socials.website = dexData.info.websites[0].url
-  }
-  return socials
-}
-
-// ============================================
-// MAIN TOKEN FETCHER WITH PARALLEL EXECUTION
-// ============================================
-
-async function fetchAllTokens(): Promise<any[]> {
-  console.log("[API] Starting parallel token fetch (BonkFun tokens only)...")
-  const startTime = Date.now()
-
-  // Fetch from all sources in parallel
-  const [raydiumResult, dexScreenerPairs, geckoTerminalPools] = await Promise.all([
-    fetchRaydiumPools(),
-    fetchDexScreenerPairs(),
-    fetchGeckoTerminalPools(),
-  ])
-
-  const { pools: raydiumPools, poolTypes } = raydiumResult
-
-  console.log(
-    `[API] Sources fetched in ${Date.now() - startTime}ms: Raydium=${raydiumPools.size}, DexScreener=${dexScreenerPairs.size}, GeckoTerminal=${geckoTerminalPools.size}`
-  )
-
-  // IMPORTANT: Only include tokens that are verified as BonkFun tokens
-  // Primary source of truth: Raydium pools (LaunchLab/CPMM pools)
-  // BonkFun tokens are identified by:
-  // 1. Being in a LaunchLab/CPMM pool type on Raydium (they graduate to these)
-  // 2. Being created via LaunchLab program with BonkFun platform config
-
-  // Start with Raydium pools as the source of truth for BonkFun tokens
-  const bonkFunMints = new Set(raydiumPools.keys())
-
-  // Filter DexScreener and GeckoTerminal to only include tokens found in Raydium BonkFun pools
-  const filteredDexScreenerPairs = new Map<string, any>()
-  const filteredGeckoTerminalPools = new Map<string, any>()
-
-  for (const [mint, data] of dexScreenerPairs) {
-    if (bonkFunMints.has(mint)) {
-      filteredDexScreenerPairs.set(mint, data)
-    }
-  }
-
-  for (const [mint, data] of geckoTerminalPools) {
-    if (bonkFunMints.has(mint)) {
-      filteredGeckoTerminalPools.set(mint, data)
-    }
-  }
-
-  console.log(
-    `[API] After BonkFun filter: ${bonkFunMints.size} tokens (DexScreener=${filteredDexScreenerPairs.size}, GeckoTerminal=${filteredGeckoTerminalPools.size})`
-  )
-
-  // Use only BonkFun verified mints
-  const allMints = bonkFunMints
-
-  // Get detailed data for mints not in DexScreener
-  const mintsNeedingData = Array.from(allMints).filter((mint) => !filteredDexScreenerPairs.has(mint))
-
-  if (mintsNeedingData.length > 0 && isApiHealthy("dexscreener")) {
-    const detailedData = await fetchDexScreenerBatchData(mintsNeedingData)
-    for (const [mint, data] of detailedData) {
-      // Only add if it's a BonkFun verified mint
-      if (bonkFunMints.has(mint)) {
-        filteredDexScreenerPairs.set(mint, data)
-      }
-    }
-  }
-
-  // Build final token list (BonkFun tokens only)
-  const tokens: any[] = []
-  let id = 0
-
-  for (const mint of allMints) {
-    const raydiumData = raydiumPools.get(mint)
-    const dexData = filteredDexScreenerPairs.get(mint)
-    const geckoData = filteredGeckoTerminalPools.get(mint)
-
-    const symbol = dexData?.baseToken?.symbol || geckoData?.symbol || raydiumData?.symbol
-    const name = dexData?.baseToken?.name || geckoData?.name || raydiumData?.name
-
-    if (shouldExclude(symbol, name)) continue
-    if (!dexData && !raydiumData && !geckoData) continue
-
-    const price = dexData?.priceUsd ? Number.parseFloat(dexData.priceUsd) : geckoData?.price || raydiumData?.price || 0
-    const liquidity = dexData?.liquidity?.usd
-      ? Number.parseFloat(dexData.liquidity.usd)
-      : geckoData?.liquidity || raydiumData?.tvl || 0
-
-    const fdv = dexData?.fdv ? Number.parseFloat(dexData.fdv) : geckoData?.fdv || price * 1000000000
-    const volume24h = dexData?.volume?.h24
-      ? Number.parseFloat(dexData.volume.h24)
-      : geckoData?.volume24h || raydiumData?.volume24h || 0
-
-    const change24h = dexData?.priceChange?.h24
-      ? Number.parseFloat(dexData.priceChange.h24)
-      : geckoData?.priceChange24h || raydiumData?.priceChange24h || 0
-
-    const change1h = dexData?.priceChange?.h1
-      ? Number.parseFloat(dexData.priceChange.h1)
-      : geckoData?.priceChange1h || 0
-
-    if (hasSuspiciousMetrics(fdv, liquidity)) continue
-    if (price <= 0) continue
-
-    const socials = extractSocialLinks(dexData)
-
-    const txns24h = (dexData?.txns?.h24?.buys || 0) + (dexData?.txns?.h24?.sells || 0) || geckoData?.txns24h || 0
-    const buys24h = dexData?.txns?.h24?.buys || geckoData?.buys24h || 0
-    const sells24h = dexData?.txns?.h24?.sells || geckoData?.sells24h || 0
-    const created = dexData?.pairCreatedAt || geckoData?.createdAt || null
-
-    tokens.push({
-      id: id++,
-      name: name || "Unknown",
-      symbol: symbol || "???",
-      address: mint,
-      emoji: getTokenEmoji(name),
-      imageUrl: dexData?.info?.imageUrl || geckoData?.logoURI || raydiumData?.logoURI || null,
-      price,
-      priceNative: dexData?.priceNative ? Number.parseFloat(dexData.priceNative) : 0,
-      change24h,
-      change1h,
-      volume24h,
-      liquidity,
-      mcap: fdv,
-      pairAddress: dexData?.pairAddress || geckoData?.poolAddress || raydiumData?.poolId || "",
-      dex: dexData?.dexId || raydiumData?.poolType || "raydium",
-      url: dexData?.url || `https://dexscreener.com/solana/${dexData?.pairAddress || mint}`,
-      created,
-      txns24h,
-      buys24h,
-      sells24h,
-      twitter: socials.twitter || null,
-      telegram: socials.telegram || null,
-      website: socials.website || null,
-      // BonkFun verification
-      isBonkFun: true,
-      poolType: raydiumData?.poolType || poolTypes.get(mint) || "unknown",
-    })
-  }
-
-  tokens.sort((a, b) => b.mcap - a.mcap)
-
-  // Fetch holder counts for top tokens
-  const holderFetchStart = Date.now()
-  try {
-    const topMints = tokens.slice(0, 50).map(t => t.address)
-    const holderCounts = await fetchHolderCountsBatch(topMints, 5)
-
-    for (const token of tokens) {
-      const holders = holderCounts.get(token.address)
-      if (holders !== undefined) {
-        token.holders = holders
-      }
-    }
-
-    console.log(`[API] Fetched holder counts for ${holderCounts.size} tokens in ${Date.now() - holderFetchStart}ms`)
-  } catch (error) {
-    console.warn('[API] Failed to fetch holder counts:', error)
-  }
-
-  console.log(`[API] Completed in ${Date.now() - startTime}ms with ${tokens.length} tokens`)
-
-  return tokens
-}
-
-// ============================================
-// RAYDIUM TOTAL VOLUME FETCHER
-// ============================================
-
-/**
- * Fetch total 24h volume across ALL USD1 pools from Raydium
- * This is the source of truth for total ecosystem volume
- */
-async function fetchRaydiumTotalVolume(): Promise<number> {
-  if (!isApiHealthy("raydium")) return 0
-
-  try {
-    const pageSize = 500
-    const maxPages = 5
-    let totalVolume = 0
-    const seenPools = new Set<string>()
-
-    // Fetch first page to get total count
-    const firstPageUrl = `${CONFIG.RAYDIUM_API}/pools/info/mint?mint1=${CONFIG.USD1_MINT}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=${pageSize}&page=1`
-    const firstResponse = await fetchWithTimeout(firstPageUrl)
-
-    if (!firstResponse.ok) {
-      console.error("[Raydium Total Volume] API error:", firstResponse.status)
-      return 0
-    }
-
-    const firstJson = await firstResponse.json()
-    if (!firstJson.success || !firstJson.data?.data) return 0
-
-    const processPool = (pool: any) => {
-      // Skip if we've already counted this pool
-      if (seenPools.has(pool.id)) return
-      seenPools.add(pool.id)
-
-      const mintA = pool.mintA?.address
-      const mintB = pool.mintB?.address
-      const isAUSD1 = mintA === CONFIG.USD1_MINT
-      const isBUSD1 = mintB === CONFIG.USD1_MINT
-
-      if (!isAUSD1 && !isBUSD1) return
-
-      const volume24h = pool.day?.volume || 0
-      totalVolume += volume24h
-    }
-
-    // Process first page
-    firstJson.data.data.forEach(processPool)
-
-    const totalCount = firstJson.data.count || firstJson.data.data.length
-    const totalPages = Math.min(Math.ceil(totalCount / pageSize), maxPages)
-
-    // Fetch remaining pages in parallel
-    if (totalPages > 1 && firstJson.data.data.length >= pageSize) {
-      const pagePromises = []
-      for (let page = 2; page <= totalPages; page++) {
-        const url = `${CONFIG.RAYDIUM_API}/pools/info/mint?mint1=${CONFIG.USD1_MINT}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=${pageSize}&page=${page}`
-        pagePromises.push(
-          fetchWithTimeout(url, 6000)
-            .then(res => res.ok ? res.json() : null)
-            .catch(() => null)
-        )
-      }
-
-      const results = await Promise.all(pagePromises)
-      results.forEach(json => {
-        if (json?.success && json.data?.data) {
-          json.data.data.forEach(processPool)
-        }
-      })
-    }
-
-    console.log(`[Raydium Total Volume] $${totalVolume.toLocaleString()} from ${seenPools.size} pools`)
-    return totalVolume
-  } catch (error) {
-    console.error("[Raydium Total Volume] Error:", error)
-    return 0
-  }
-}
-
-// Background refresh function
-async function refreshCache() {
-  if (cache.isRefreshing) return
-
-  cache.isRefreshing = true
-  try {
-    const [tokens, raydiumTotalVolume] = await Promise.all([
-      fetchAllTokens(),
-      fetchRaydiumTotalVolume(),
-    ])
-    if (tokens.length > 0) {
-      cache.data = tokens
-      cache.timestamp = Date.now()
-      cache.raydiumTotalVolume = raydiumTotalVolume
-    }
-  } finally {
-    cache.isRefreshing = false
-  }
-}
+import {
+  TOKEN_FEED_CONFIG as CONFIG,
+  getTokenCache,
+  fetchTokenData,
+  updateTokenCache,
+  refreshTokenCache,
+} from "@/lib/token-feed"
+import { getApiHealthStatus } from "@/lib/token-sources"
 
 // ============================================
 // API HANDLER
@@ -808,6 +18,7 @@ export async function GET(request: Request) {
   const forceRefresh = url.searchParams.get("force") === "true"
 
   // Check if we have valid cached data
+  const cache = getTokenCache()
   const cacheAge = now - cache.timestamp
   const hasCache = cache.data.length > 0
   const isFresh = cacheAge < CONFIG.CACHE_TTL
@@ -821,18 +32,14 @@ export async function GET(request: Request) {
       timestamp: cache.timestamp,
       age: cacheAge,
       raydiumTotalVolume: cache.raydiumTotalVolume,
-      health: {
-        raydium: apiHealth.raydium.healthy,
-        dexscreener: apiHealth.dexscreener.healthy,
-        geckoterminal: apiHealth.geckoterminal.healthy,
-      },
+      health: getApiHealthStatus(),
     })
   }
 
   // Return stale cache while triggering background refresh
   if (hasCache && isStale && !forceRefresh) {
     // Trigger background refresh
-    refreshCache()
+    refreshTokenCache()
 
     return NextResponse.json({
       tokens: cache.data,
@@ -841,37 +48,24 @@ export async function GET(request: Request) {
       timestamp: cache.timestamp,
       age: cacheAge,
       raydiumTotalVolume: cache.raydiumTotalVolume,
-      health: {
-        raydium: apiHealth.raydium.healthy,
-        dexscreener: apiHealth.dexscreener.healthy,
-        geckoterminal: apiHealth.geckoterminal.healthy,
-      },
+      health: getApiHealthStatus(),
     })
   }
 
   // Need fresh data
   try {
     // Fetch tokens and Raydium total volume in parallel
-    const [tokens, raydiumTotalVolume] = await Promise.all([
-      fetchAllTokens(),
-      fetchRaydiumTotalVolume(),
-    ])
+    const { tokens, raydiumTotalVolume } = await fetchTokenData()
 
     if (tokens.length > 0) {
-      cache.data = tokens
-      cache.timestamp = now
-      cache.raydiumTotalVolume = raydiumTotalVolume
+      updateTokenCache(tokens, raydiumTotalVolume)
 
       return NextResponse.json({
         tokens,
         cached: false,
         timestamp: now,
         raydiumTotalVolume,
-        health: {
-          raydium: apiHealth.raydium.healthy,
-          dexscreener: apiHealth.dexscreener.healthy,
-          geckoterminal: apiHealth.geckoterminal.healthy,
-        },
+        health: getApiHealthStatus(),
       })
     }
 
@@ -883,11 +77,7 @@ export async function GET(request: Request) {
         timestamp: cache.timestamp,
         raydiumTotalVolume: cache.raydiumTotalVolume,
         error: "Using cached data - fresh fetch returned empty",
-        health: {
-          raydium: apiHealth.raydium.healthy,
-          dexscreener: apiHealth.dexscreener.healthy,
-          geckoterminal: apiHealth.geckoterminal.healthy,
-        },
+        health: getApiHealthStatus(),
       })
     }
 
@@ -0,0 +1,100 @@
+import {
+  TOKEN_FEED_CONFIG,
+  getTokenCache,
+  refreshTokenCache,
+  subscribeTokenDiffs,
+} from "@/lib/token-feed"
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+const HEARTBEAT_INTERVAL = 15 * 1000 // Keep proxies from closing idle connections
+const MAX_STREAM_DURATION = 4 * 60 * 1000 // Stay under the edge streaming limit; EventSource reconnects
+const RECONNECT_DELAY = 3000
+
+// ============================================
+// API HANDLER
+// ============================================
+
+/**
+ * Server-sent events: one `snapshot` on connect, then `diff` events with
+ * only the tokens that changed after each cache refresh.
+ * While clients are connected the stream itself keeps the cache fresh.
+ */
+export async function GET(request: Request) {
+  const encoder = new TextEncoder()
+  let cleanup = () => {}
+
+  const stream = new ReadableStream({
+    start(controller) {
+      let closed = false
+
+      const write = (chunk: string) => {
+        if (closed) return
+        try {
+          controller.enqueue(encoder.encode(chunk))
+        } catch {
+          cleanup()
+        }
+      }
+
+      const send = (event: string, data: unknown) => {
+        write(`event: ${event}\ndata: ${JSON.stringify(data)}\n\n`)
+      }
+
+      write(`retry: ${RECONNECT_DELAY}\n\n`)
+
+      const cache = getTokenCache()
+      if (cache.data.length > 0) {
+        send("snapshot", {
+          tokens: cache.data,
+          timestamp: cache.timestamp,
+          raydiumTotalVolume: cache.raydiumTotalVolume,
+        })
+      }
+
+      const unsubscribe = subscribeTokenDiffs((diff) => send("diff", diff))
+
+      // Refresh whenever the cache goes stale (first tick runs immediately)
+      const refreshIfStale = () => {
+        if (Date.now() - getTokenCache().timestamp >= TOKEN_FEED_CONFIG.CACHE_TTL) {
+          refreshTokenCache()
+        }
+      }
+      refreshIfStale()
+      const refreshTimer = setInterval(refreshIfStale, TOKEN_FEED_CONFIG.CACHE_TTL)
+      const heartbeatTimer = setInterval(() => write(": ping\n\n"), HEARTBEAT_INTERVAL)
+      const lifetimeTimer = setTimeout(() => cleanup(), MAX_STREAM_DURATION)
+
+      cleanup = () => {
+        if (closed) return
+        closed = true
+        unsubscribe()
+        clearInterval(refreshTimer)
+        clearInterval(heartbeatTimer)
+        clearTimeout(lifetimeTimer)
+        try {
+          controller.close()
+        } catch {
+          // Already closed
+        }
+      }
+
+      request.signal.addEventListener("abort", () => cleanup())
+    },
+    cancel() {
+      cleanup()
+    },
+  })
+
+  return new Response(stream, {
+    headers: {
+      "Content-Type": "text/event-stream",
+      "Cache-Control": "no-cache, no-transform",
+      Connection: "keep-alive",
+    },
+  })
+}
+
+export const runtime = "edge"
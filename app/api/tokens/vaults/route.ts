@@ -0,0 +1,89 @@
+import { NextResponse } from "next/server"
+import { getUSD1VaultBalances, type DiscoveredPool } from "@/lib/pool-discovery"
+import { syncUSD1Pools } from "@/lib/pool-sync"
+import { getSharedTokens } from "@/lib/token-feed"
+import type { PoolVaults } from "@/lib/live-prices"
+
+// ============================================
+// POOL CHOICE
+// ============================================
+
+/**
+ * One pool per mint for tokens with several USD1 pools: the token's pairAddress
+ * pool when it's known here, else the pool holding the most USD1
+ */
+async function pickPricingPools(pools: DiscoveredPool[]): Promise<DiscoveredPool[]> {
+  const byMint = new Map<string, DiscoveredPool[]>()
+  for (const pool of pools) {
+    byMint.set(pool.tokenMint, [...(byMint.get(pool.tokenMint) || []), pool])
+  }
+
+  const pairAddresses = new Map((await getSharedTokens()).map((t) => [t.address, t.pairAddress]))
+  const picked: DiscoveredPool[] = []
+  const contested: DiscoveredPool[][] = []
+
+  for (const [mint, candidates] of byMint) {
+    const paired = candidates.find((p) => p.poolAddress === pairAddresses.get(mint))
+    if (candidates.length === 1 || paired) {
+      picked.push(paired || candidates[0])
+    } else {
+      contested.push(candidates)
+    }
+  }
+
+  if (contested.length > 0) {
+    const balances = await getUSD1VaultBalances(contested.flat().map((p) => p.usd1Vault))
+    for (const candidates of contested) {
+      picked.push(candidates.reduce((best, pool) =>
+        (balances.get(pool.usd1Vault) || 0) > (balances.get(best.usd1Vault) || 0) ? pool : best
+      ))
+    }
+  }
+
+  return picked
+}
+
+// ============================================
+// API HANDLER
+// ============================================
+
+/**
+ * Pool vault addresses per token mint, used by the solana-rpc live price provider
+ * to accountSubscribe on reserves. Served from the pool cache, synced on-chain when due.
+ * CLMM pools are left out - their reserve ratio isn't their price.
+ * Tokens with several pools get the one that prices them (see pickPricingPools).
+ */
+export async function GET() {
+  try {
+    const pools: DiscoveredPool[] = (await syncUSD1Pools()).data?.pools || []
+
+    const reservePools = pools.filter((pool) => pool.poolType !== "clmm")
+
+    const vaults: Record<string, PoolVaults> = {}
+    for (const pool of await pickPricingPools(reservePools)) {
+      vaults[pool.tokenMint] = {
+        poolAddress: pool.poolAddress,
+        tokenVault: pool.tokenVault,
+        usd1Vault: pool.usd1Vault,
+      }
+    }
+
+    return NextResponse.json({
+      vaults,
+      count: pools.length,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=300, stale-while-revalidate=600',
+      }
+    })
+  } catch (error) {
+    console.error("[Vaults] Fatal error:", error)
+    return NextResponse.json(
+      { vaults: {}, count: 0, error: "Unable to load pool vaults" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
@@ -0,0 +1,39 @@
+import { NextResponse } from "next/server"
+import { getHourlyVolume, getTopPoolAddresses } from "@/lib/hourly-volume"
+
+const DEFAULT_HOURS = 48
+const MAX_HOURS = 7 * 24
+
+// ============================================
+// API HANDLER
+// ============================================
+
+export async function GET(request: Request) {
+  const hoursParam = Number(new URL(request.url).searchParams.get("hours") || DEFAULT_HOURS)
+  const hours = Number.isFinite(hoursParam)
+    ? Math.min(Math.max(Math.floor(hoursParam), 1), MAX_HOURS)
+    : DEFAULT_HOURS
+
+  try {
+    const poolAddresses = await getTopPoolAddresses()
+    const { hours: points, sources } = await getHourlyVolume(hours, poolAddresses)
+
+    return NextResponse.json({
+      hours: points,
+      sources,
+      timestamp: Date.now(),
+    }, {
+      headers: {
+        'Cache-Control': 'public, s-maxage=60, stale-while-revalidate=300',
+      }
+    })
+  } catch (error) {
+    console.error("[HourlyVolume] Fatal error:", error)
+    return NextResponse.json(
+      { hours: [], error: "Unable to fetch hourly volume" },
+      { status: 500 }
+    )
+  }
+}
+
+export const runtime = "edge"
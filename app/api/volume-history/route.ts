@@ -3,17 +3,28 @@ import {
   getAllDailyVolume,
   getDailyVolumeStats,
 } from "@/lib/volume-store"
+import { getHourlyVolume } from "@/lib/hourly-volume"
+import {
+  PERIOD_GRIDS,
+  aggregateToWeekly,
+  bucketHourlyPoints,
+  buildCoverage,
+  calculateStats,
+  isVolumeHistoryPeriod,
+  type CoverageMap,
+  type VolumeDataPoint,
+  type VolumeHistoryPeriod,
+} from "@/lib/volume-history"
+import { fetchDuneDailyVolume, type DuneVolumeRow } from "@/lib/volume-backfill"
 
 // ============================================
 // CONFIGURATION
 // ============================================
 const USD1_MINT = "USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB"
 const RAYDIUM_API = "https://api-v3.raydium.io"
-const GECKOTERMINAL_API = "https://api.geckoterminal.com/api/v2"
 
 // Dune Analytics API for fallback when KV is empty
 const DUNE_API = "https://api.dune.com/api/v1"
-const DUNE_QUERY_ID = "6572422" // BonkFun USD1 Daily Volume query
 const DUNE_TOKEN_LIST_QUERY_ID = "6575979" // BonkFun token mint list query
 
 // Cache TTL for BonkFun token list (refresh every 6 hours)
@@ -21,21 +32,14 @@ const TOKEN_LIST_CACHE_TTL = 6 * 60 * 60 * 1000
 
 // Cache configuration
 const CACHE_TTL = 3 * 60 * 1000 // 3 minutes cache for volume history
-const DUNE_CACHE_TTL = 60 * 60 * 1000 // 1 hour cache for Dune data (fallback only)
-const OHLCV_BATCH_SIZE = 5 // Fetch OHLCV for top 5 pools per batch (rate limit friendly)
 const MAX_OHLCV_POOLS = 30 // Maximum pools to fetch OHLCV from
 
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
 // ============================================
 // TYPES
 // ============================================
-interface VolumeDataPoint {
-  timestamp: number
-  volume: number
-  trades: number
-  poolCount?: number
-  isOhlcv?: boolean // True if from real OHLCV data
-}
-
 interface RaydiumPool {
   id: string
   mintA: { address: string; symbol?: string }
@@ -55,34 +59,11 @@ interface CacheEntry {
   data: VolumeDataPoint[]
   timestamp: number
   period: string
-  synthetic: boolean
   totalVolume24h: number
   poolCount: number // Unique tokens that traded in the period (historical) or active pools (live)
   livePoolCount?: number // Current active pools from Raydium (optional)
-  ohlcvCoverage: number // Percentage of volume covered by real OHLCV
-  source: "kv" | "dune" | "raydium" | "synthetic"
-}
-
-// Dune API response types
-interface DuneVolumeRow {
-  date: string
-  num_trades: number
-  unique_tokens: number
-  total_volume_usd: number
-}
-
-interface DuneApiResponse {
-  execution_id: string
-  query_id: number
-  state: string
-  result?: {
-    rows: DuneVolumeRow[]
-    metadata: {
-      column_names: string[]
-      result_set_bytes: number
-      total_row_count: number
-    }
-  }
+  coverage: CoverageMap
+  source: "kv" | "dune" | "hourly" | "none"
 }
 
 // ============================================
@@ -90,12 +71,6 @@ interface DuneApiResponse {
 // ============================================
 const volumeCache: Map<string, CacheEntry> = new Map()
 
-// Separate cache for Dune data (longer TTL since it's historical)
-let duneDataCache: {
-  data: DuneVolumeRow[]
-  timestamp: number
-} | null = null
-
 // Cache for BonkFun token whitelist (fetched from Dune)
 let bonkfunTokenListCache: {
   tokens: Set<string>
@@ -250,73 +225,9 @@ async function isBonkFunToken(mintAddress: string): Promise<boolean> {
 }
 
 // ============================================
-// DUNE API FETCHER (Primary source for historical data)
+// DUNE API FETCHER (Fallback when KV is empty)
 // ============================================
 
-/**
- * Fetch historical volume data from Dune Analytics
- * This provides accurate on-chain data for the BonkFun USD1 ecosystem
- */
-async function fetchDuneVolumeHistory(): Promise<DuneVolumeRow[] | null> {
-  // Check cache first
-  if (duneDataCache && Date.now() - duneDataCache.timestamp < DUNE_CACHE_TTL) {
-    console.log("[Volume] Using cached Dune data")
-    return duneDataCache.data
-  }
-
-  const duneApiKey = process.env.DUNE_API_KEY
-  if (!duneApiKey) {
-    console.log("[Volume] No DUNE_API_KEY configured, falling back to Raydium")
-    return null
-  }
-
-  try {
-    console.log("[Volume] Fetching historical data from Dune Analytics...")
-
-    const controller = new AbortController()
-    const timeoutId = setTimeout(() => controller.abort(), 15000)
-
-    const response = await fetch(
-      `${DUNE_API}/query/${DUNE_QUERY_ID}/results?limit=1000`,
-      {
-        signal: controller.signal,
-        headers: {
-          "x-dune-api-key": duneApiKey,
-          Accept: "application/json",
-        },
-      }
-    )
-
-    clearTimeout(timeoutId)
-
-    if (!response.ok) {
-      console.error("[Volume] Dune API error:", response.status)
-      return null
-    }
-
-    const data: DuneApiResponse = await response.json()
-
-    if (data.state !== "QUERY_STATE_COMPLETED" || !data.result?.rows) {
-      console.error("[Volume] Dune query not ready or no results")
-      return null
-    }
-
-    const rows = data.result.rows
-    console.log(`[Volume] Fetched ${rows.length} days of historical data from Dune`)
-
-    // Cache the data
-    duneDataCache = {
-      data: rows,
-      timestamp: Date.now(),
-    }
-
-    return rows
-  } catch (error) {
-    console.error("[Volume] Error fetching from Dune:", error)
-    return null
-  }
-}
-
 /**
  * Convert Dune data to VolumeDataPoint format
  */
@@ -360,10 +271,10 @@ function convertDuneToVolumeData(
     volume: Math.round(row.volume),
     trades: row.trades,
     poolCount: row.uniqueTokens,
-    isOhlcv: true, // Dune data is real on-chain data
+    source: "dune",
   }))
 
-  const totalVolume = data.reduce((sum, d) => sum + d.volume, 0)
+  const totalVolume = data.reduce((sum, d) => sum + (d.volume ?? 0), 0)
   const uniqueTokens = Math.max(...filteredRows.map(r => r.uniqueTokens), 0)
 
   return { data, totalVolume, uniqueTokens }
@@ -413,7 +324,7 @@ async function fetchAllRaydiumUSD1Pools(): Promise<{
       const liquidity = token.liquidity || 0
 
       pools.push({
-        poolId: token.address,
+        poolId: token.pairAddress || token.address,
         symbol: token.symbol || "Unknown",
         volume24h,
         liquidity,
@@ -434,64 +345,6 @@ async function fetchAllRaydiumUSD1Pools(): Promise<{
   return { pools, totalVolume24h, totalLiquidity }
 }
 
-/**
- * Fetch OHLCV data from GeckoTerminal for multiple pools
- * Uses batching to stay within rate limits
- */
-async function fetchBatchedOHLCV(
-  poolAddresses: string[],
-  timeframe: string,
-  aggregate: number = 1
-): Promise<Map<number, { volume: number; pools: number }>> {
-  const volumeByTimestamp = new Map<number, { volume: number; pools: number }>()
-
-  // Process in batches to respect rate limits
-  for (let i = 0; i < poolAddresses.length; i += OHLCV_BATCH_SIZE) {
-    const batch = poolAddresses.slice(i, i + OHLCV_BATCH_SIZE)
-
-    const batchPromises = batch.map(async (poolAddr) => {
-      try {
-        const url = `${GECKOTERMINAL_API}/networks/solana/pools/${poolAddr}/ohlcv/${timeframe}?aggregate=${aggregate}&limit=1000`
-        const response = await fetchWithTimeout(url, 8000)
-
-        if (!response.ok) return []
-
-        const data = await response.json()
-        const ohlcvList = data.data?.attributes?.ohlcv_list || []
-
-        return ohlcvList.map((candle: number[]) => ({
-          timestamp: candle[0] * 1000,
-          volume: candle[5] || 0,
-        }))
-      } catch {
-        return []
-      }
-    })
-
-    const results = await Promise.all(batchPromises)
-
-    // Aggregate volumes by timestamp
-    for (const poolData of results) {
-      for (const point of poolData) {
-        const existing = volumeByTimestamp.get(point.timestamp)
-        if (existing) {
-          existing.volume += point.volume
-          existing.pools++
-        } else {
-          volumeByTimestamp.set(point.timestamp, { volume: point.volume, pools: 1 })
-        }
-      }
-    }
-
-    // Small delay between batches to be rate-limit friendly
-    if (i + OHLCV_BATCH_SIZE < poolAddresses.length) {
-      await new Promise(resolve => setTimeout(resolve, 100))
-    }
-  }
-
-  return volumeByTimestamp
-}
-
 /**
  * Record a volume snapshot for historical tracking
  */
@@ -554,60 +407,6 @@ function getStoredSnapshots(period: string): VolumeSnapshot[] {
 // VERCEL KV DATA FETCHER (Primary source)
 // ============================================
 
-/**
- * Aggregate daily data into weekly data points
- * Used for ALL period to show weekly candles
- */
-function aggregateToWeekly(dailyData: VolumeDataPoint[]): VolumeDataPoint[] {
-  if (dailyData.length === 0) return []
-
-  const weeklyMap = new Map<number, { volume: number; trades: number; poolCount: number; count: number }>()
-
-  for (const day of dailyData) {
-    // Get the start of the week (Monday) for this day
-    const date = new Date(day.timestamp)
-    const dayOfWeek = date.getUTCDay()
-    // Adjust to get Monday as start of week (0 = Sunday, so we shift)
-    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1
-    const weekStart = new Date(date)
-    weekStart.setUTCDate(date.getUTCDate() - daysToMonday)
-    weekStart.setUTCHours(0, 0, 0, 0)
-    const weekTimestamp = weekStart.getTime()
-
-    const existing = weeklyMap.get(weekTimestamp)
-    if (existing) {
-      existing.volume += day.volume
-      existing.trades += day.trades
-      existing.poolCount = Math.max(existing.poolCount, day.poolCount || 0)
-      existing.count++
-    } else {
-      weeklyMap.set(weekTimestamp, {
-        volume: day.volume,
-        trades: day.trades,
-        poolCount: day.poolCount || 0,
-        count: 1,
-      })
-    }
-  }
-
-  // Convert map to array
-  const weeklyData: VolumeDataPoint[] = []
-  weeklyMap.forEach((data, timestamp) => {
-    weeklyData.push({
-      timestamp,
-      volume: data.volume,
-      trades: data.trades,
-      poolCount: data.poolCount,
-      isOhlcv: true,
-    })
-  })
-
-  // Sort by timestamp
-  weeklyData.sort((a, b) => a.timestamp - b.timestamp)
-
-  return weeklyData
-}
-
 /**
  * Fetch historical volume data from Vercel KV
  * This is the primary source for historical data (fast, ~5ms)
@@ -656,23 +455,17 @@ async function fetchKVVolumeHistory(period: string): Promise<{
       .filter(d => d.timestamp >= cutoffTime && d.timestamp <= now)
       .sort((a, b) => a.timestamp - b.timestamp)
 
-    let data: VolumeDataPoint[] = filteredData.map(d => ({
+    const data: VolumeDataPoint[] = filteredData.map(d => ({
       timestamp: d.timestamp,
       volume: d.volume,
       trades: d.trades,
       poolCount: d.uniqueTokens,
-      isOhlcv: true, // KV data is accurate historical data
+      source: "kv",
     }))
 
-    // For ALL period, aggregate to weekly candles
-    if (period === "all" && data.length > 30) {
-      data = aggregateToWeekly(data)
-      console.log(`[Volume] KV returned ${filteredData.length} days, aggregated to ${data.length} weekly candles`)
-    } else {
-      console.log(`[Volume] KV returned ${data.length} days of historical data`)
-    }
+    console.log(`[Volume] KV returned ${data.length} days of historical data`)
 
-    const totalVolume = data.reduce((sum, d) => sum + d.volume, 0)
+    const totalVolume = data.reduce((sum, d) => sum + (d.volume ?? 0), 0)
     const uniqueTokens = Math.max(...filteredData.map(d => d.uniqueTokens), 0)
 
     return { data, totalVolume, uniqueTokens }
@@ -716,377 +509,148 @@ async function fetchTodayLiveVolume(): Promise<{
 // ============================================
 
 /**
- * Main function to fetch accurate volume history
- * Strategy:
- * 1. Try Vercel KV first (fast, persistent historical data)
- * 2. Add today's live volume from Raydium
- * 3. Fallback to Dune Analytics if KV is empty
- * 4. Final fallback to Raydium + synthetic distribution
+ * Hourly-resolution periods (24H, 7D)
+ * Real hours from snapshots, backfilled KV hours and GeckoTerminal OHLCV, grouped into buckets
  */
-async function fetchBonkFunVolumeHistory(period: string): Promise<{
+async function fetchIntradayHistory(period: "24h" | "7d"): Promise<{
   data: VolumeDataPoint[]
-  synthetic: boolean
   totalVolume24h: number
   poolCount: number
   livePoolCount?: number
-  ohlcvCoverage: number
-  source: "kv" | "dune" | "raydium" | "synthetic"
+  source: CacheEntry["source"]
 }> {
-  console.log(`[Volume] Fetching BONK.fun/USD1 volume data for period: ${period}`)
-
-  // ========================================
-  // STEP 1: Try Vercel KV (primary source - instant)
-  // ========================================
-  const kvData = await fetchKVVolumeHistory(period)
-
-  // For 24h period, we need hourly data - KV only has daily, so skip to OHLCV fallback
-  const minDataPointsFor24h = 6 // Need at least 6 hourly points for a decent 24h chart
-
-  if (kvData && kvData.data.length > 0 && (period !== "24h" || kvData.data.length >= minDataPointsFor24h)) {
-    // Get today's live volume from Raydium
-    const todayLive = await fetchTodayLiveVolume()
-
-    let finalData = [...kvData.data]
-    let totalVolume24h = todayLive?.volume24h || kvData.data[kvData.data.length - 1]?.volume || 0
-
-    // If we have today's live data and it's for a different day, add it
-    if (todayLive) {
-      const todayStart = new Date().setUTCHours(0, 0, 0, 0)
-      const lastDataTimestamp = kvData.data[kvData.data.length - 1]?.timestamp || 0
-
-      // Only add today's data if it's newer than what we have in KV
-      if (todayStart > lastDataTimestamp) {
-        finalData.push({
-          timestamp: todayStart,
-          volume: todayLive.volume24h,
-          trades: 0,
-          poolCount: todayLive.uniqueTokens,
-          isOhlcv: true,
-        })
-      }
-    }
-
-    // For historical periods (7D, 1M, ALL), use the unique tokens count from KV
-    // This shows how many different tokens traded during that period
-    // For 24H, we'll use live pool count from Raydium (handled in fallback path)
-    const historicalPoolCount = kvData.uniqueTokens
-    const livePoolCount = todayLive?.poolCount || historicalPoolCount
-
-    console.log(`[Volume] Using KV data: ${finalData.length} data points, $${totalVolume24h.toLocaleString()} 24h volume, ${historicalPoolCount} unique tokens`)
-
-    return {
-      data: finalData,
-      synthetic: false,
-      totalVolume24h: Math.round(totalVolume24h),
-      poolCount: historicalPoolCount, // Always use historical unique tokens for KV data
-      livePoolCount, // Also include live count for UI if needed
-      ohlcvCoverage: 100,
-      source: "kv",
-    }
-  }
-
-  // ========================================
-  // STEP 2: Fallback to Dune Analytics (if KV is empty)
-  // Skip for 24h since Dune only has daily data too
-  // ========================================
-  if (period === "24h") {
-    console.log("[Volume] Skipping Dune for 24h (need hourly data), going to Raydium OHLCV...")
-  }
-
-  const duneData = period !== "24h" ? await fetchDuneVolumeHistory() : null
-
-  if (duneData && duneData.length > 0) {
-    const { data, totalVolume, uniqueTokens } = convertDuneToVolumeData(duneData, period)
-
-    if (data.length > 0) {
-      // Get the most recent day's volume as "24h volume"
-      const sortedByDate = [...duneData].sort(
-        (a, b) => new Date(b.date).getTime() - new Date(a.date).getTime()
-      )
-      const latestDayVolume = sortedByDate[0]?.total_volume_usd || totalVolume
-
-      console.log(`[Volume] Using Dune data: ${data.length} data points, $${latestDayVolume.toLocaleString()} latest day volume`)
-      console.log("[Volume] Consider seeding KV with: POST /api/volume/seed")
-
-      return {
-        data,
-        synthetic: false,
-        totalVolume24h: Math.round(latestDayVolume),
-        poolCount: uniqueTokens, // Historical unique tokens count
-        // livePoolCount not available from Dune fallback
-        ohlcvCoverage: 100,
-        source: "dune",
-      }
-    }
-  }
-
-  // ========================================
-  // STEP 3: Fallback to Raydium + OHLCV
-  // ========================================
-  console.log("[Volume] Dune unavailable, falling back to Raydium...")
-
-  // Step 1: Get ALL pools from Raydium
-  const { pools, totalVolume24h, totalLiquidity } = await fetchAllRaydiumUSD1Pools()
-
-  if (pools.length === 0 || totalVolume24h === 0) {
-    console.log("[Volume] No BONK.fun/USD1 pools found")
-    return { data: [], synthetic: true, totalVolume24h: 0, poolCount: 0, livePoolCount: 0, ohlcvCoverage: 0, source: "synthetic" }
-  }
-
-  // Record snapshot for historical tracking
-  recordVolumeSnapshot(totalVolume24h, pools.length)
+  const { bucketMs, buckets } = PERIOD_GRIDS[period]
+  const bucketHours = bucketMs / HOUR_MS
 
-  // Step 2: Determine timeframe settings
-  let timeframe: string
-  let aggregate: number
-
-  switch (period) {
-    case "24h":
-      timeframe = "hour"
-      aggregate = 1
-      break
-    case "7d":
-      timeframe = "hour"
-      aggregate = 4
-      break
-    case "1m":
-      timeframe = "day"
-      aggregate = 1
-      break
-    case "all":
-      timeframe = "day"
-      aggregate = 7
-      break
-    default:
-      timeframe = "hour"
-      aggregate = 1
+  const { pools, totalVolume24h } = await fetchAllRaydiumUSD1Pools()
+  if (pools.length > 0) {
+    // Record snapshot for historical tracking
+    recordVolumeSnapshot(totalVolume24h, pools.length)
   }
 
-  // Step 3: Get pool addresses for OHLCV (top pools by volume, up to MAX_OHLCV_POOLS)
-  const topPoolsByVolume = pools
+  const poolAddresses = pools
     .filter(p => p.volume24h > 0)
     .slice(0, MAX_OHLCV_POOLS)
+    .map(p => p.poolId)
 
-  const poolAddresses = topPoolsByVolume.map(p => p.poolId)
-  const volumeCoveredByOHLCV = topPoolsByVolume.reduce((sum, p) => sum + p.volume24h, 0)
-  const ohlcvCoverage = totalVolume24h > 0 ? (volumeCoveredByOHLCV / totalVolume24h) * 100 : 0
-
-  console.log(`[Volume] Fetching OHLCV for ${poolAddresses.length} pools covering ${ohlcvCoverage.toFixed(1)}% of volume`)
-
-  // Step 4: Fetch OHLCV data
-  const ohlcvData = await fetchBatchedOHLCV(poolAddresses, timeframe, aggregate)
-
-  // Step 5: Filter by time period
-  const now = Date.now()
-  let cutoffTime: number
-
-  switch (period) {
-    case "24h":
-      cutoffTime = now - 24 * 60 * 60 * 1000
-      break
-    case "7d":
-      cutoffTime = now - 7 * 24 * 60 * 60 * 1000
-      break
-    case "1m":
-      cutoffTime = now - 30 * 24 * 60 * 60 * 1000
-      break
-    case "all":
-      cutoffTime = new Date("2025-01-01").getTime()
-      break
-    default:
-      cutoffTime = now - 24 * 60 * 60 * 1000
-  }
-
-  // Filter OHLCV data by cutoff time
-  const filteredOhlcv: VolumeDataPoint[] = []
-  let ohlcvTotalVolume = 0
-
-  Array.from(ohlcvData.entries()).forEach(([timestamp, data]) => {
-    if (timestamp >= cutoffTime && timestamp <= now) {
-      filteredOhlcv.push({
-        timestamp,
-        volume: data.volume,
-        trades: 0,
-        poolCount: data.pools,
-        isOhlcv: true,
-      })
-      ohlcvTotalVolume += data.volume
-    }
-  })
-
-  // Sort by timestamp
-  filteredOhlcv.sort((a, b) => a.timestamp - b.timestamp)
-
-  // Step 6: If we have OHLCV data, scale it to match actual total
-  if (filteredOhlcv.length >= 2 && ohlcvTotalVolume > 0) {
-    // For 24h period, scale to match Raydium's reported total
-    const scaleFactor = period === "24h" && totalVolume24h > 0
-      ? totalVolume24h / ohlcvTotalVolume
-      : 1
-
-    const scaledData = filteredOhlcv.map(point => ({
-      ...point,
-      volume: Math.round(point.volume * scaleFactor),
-    }))
+  const { hours } = await getHourlyVolume((buckets || 24) * bucketHours, poolAddresses)
 
-    console.log(`[Volume] Returning ${scaledData.length} OHLCV data points (scaled by ${scaleFactor.toFixed(2)}x)`)
-    return {
-      data: scaledData,
-      synthetic: false,
-      totalVolume24h,
-      poolCount: pools.length, // For 24H, this is live active pools
-      livePoolCount: pools.length,
-      ohlcvCoverage,
-      source: "raydium",
-    }
-  }
-
-  // Step 7: Fallback - create realistic distribution from total volume
-  console.log(`[Volume] OHLCV unavailable, creating distribution from Raydium volume`)
+  // Hours come back oldest first ending with the current hour, so buckets line up with "now"
+  const data = bucketHourlyPoints(hours, bucketHours, pools.length)
 
-  const distributedData = createVolumeDistribution(totalVolume24h, period, pools.length)
+  const covered = data.filter(d => d.volume !== null).length
+  console.log(`[Volume] ${period}: ${covered}/${data.length} buckets with data`)
 
   return {
-    data: distributedData,
-    synthetic: true,
+    data,
     totalVolume24h,
-    poolCount: pools.length,
+    poolCount: pools.length, // For intraday periods, this is live active pools
     livePoolCount: pools.length,
-    ohlcvCoverage: 0,
-    source: "synthetic",
+    source: covered > 0 ? "hourly" : "none",
   }
 }
 
 /**
- * Create a realistic volume distribution when OHLCV data isn't available
- * Uses typical crypto trading patterns (higher volume during US trading hours)
+ * Daily-resolution periods (1M, ALL)
+ * Strategy:
+ * 1. Vercel KV daily history (kept complete by /api/cron/backfill-volume)
+ * 2. Dune Analytics if KV is empty
+ * 3. Today's live volume from the tokens API
+ * Days none of them cover are returned as gaps
  */
-function createVolumeDistribution(totalVolume: number, period: string, poolCount: number): VolumeDataPoint[] {
-  const now = Date.now()
-  const data: VolumeDataPoint[] = []
-
-  let points: number
-  let intervalMs: number
+async function fetchDailyHistory(period: "1m" | "all"): Promise<{
+  data: VolumeDataPoint[]
+  totalVolume24h: number
+  poolCount: number
+  livePoolCount?: number
+  source: CacheEntry["source"]
+}> {
+  const { buckets } = PERIOD_GRIDS[period]
 
-  switch (period) {
-    case "24h":
-      points = 24
-      intervalMs = 60 * 60 * 1000
-      break
-    case "7d":
-      points = 7 * 4 // 4-hour candles for 7 days
-      intervalMs = 4 * 60 * 60 * 1000
-      break
-    case "1m":
-      points = 30
-      intervalMs = 24 * 60 * 60 * 1000
-      break
-    case "all":
-      points = 12
-      intervalMs = 7 * 24 * 60 * 60 * 1000
-      break
-    default:
-      points = 24
-      intervalMs = 60 * 60 * 1000
-  }
+  let source: CacheEntry["source"] = "none"
+  let history: VolumeDataPoint[] = []
+  let uniqueTokens = 0
 
-  // For 24h, distribute with typical trading pattern (more volume during active hours)
-  // For longer periods, use more uniform distribution with slight trend
-  const volumePerInterval = totalVolume / points
-
-  for (let i = points - 1; i >= 0; i--) {
-    const timestamp = now - (i * intervalMs)
-    const date = new Date(timestamp)
-    const hour = date.getUTCHours()
-
-    let weight = 1.0
-
-    if (period === "24h") {
-      // Higher volume during US trading hours (13:00-22:00 UTC = 8am-5pm EST)
-      if (hour >= 13 && hour <= 22) {
-        weight = 1.2 + Math.random() * 0.3
-      } else if (hour >= 23 || hour <= 5) {
-        // Lower during night (UTC)
-        weight = 0.6 + Math.random() * 0.2
-      } else {
-        // Asia/Europe hours
-        weight = 0.9 + Math.random() * 0.2
+  const kvData = await fetchKVVolumeHistory(period)
+  if (kvData && kvData.data.length > 0) {
+    history = kvData.data
+    uniqueTokens = kvData.uniqueTokens
+    source = "kv"
+  } else {
+    const duneData = await fetchDuneDailyVolume()
+    if (duneData && duneData.length > 0) {
+      const converted = convertDuneToVolumeData(duneData, period)
+      history = converted.data
+      uniqueTokens = converted.uniqueTokens
+      if (history.length > 0) {
+        console.log("[Volume] Using Dune data - consider seeding KV with: POST /api/volume/seed")
+        source = "dune"
       }
-    } else {
-      // For longer periods, add slight variance
-      weight = 0.85 + Math.random() * 0.3
     }
+  }
 
-    data.push({
-      timestamp,
-      volume: Math.round(volumePerInterval * weight),
+  // Get today's live volume
+  const todayLive = await fetchTodayLiveVolume()
+  const todayStart = Math.floor(Date.now() / DAY_MS) * DAY_MS
+
+  const byDay = new Map<number, VolumeDataPoint>()
+  for (const point of history) {
+    byDay.set(Math.floor(point.timestamp / DAY_MS) * DAY_MS, point)
+  }
+  if (todayLive && !byDay.has(todayStart)) {
+    byDay.set(todayStart, {
+      timestamp: todayStart,
+      volume: todayLive.volume24h,
       trades: 0,
-      poolCount,
-      isOhlcv: false,
+      poolCount: todayLive.uniqueTokens,
+      source: "live",
     })
   }
 
-  // Normalize to ensure total matches
-  const currentTotal = data.reduce((sum, d) => sum + d.volume, 0)
-  if (currentTotal > 0) {
-    const normalizeFactor = totalVolume / currentTotal
-    data.forEach(d => {
-      d.volume = Math.round(d.volume * normalizeFactor)
-    })
+  // Full day grid - missing days stay null
+  const firstDay = byDay.size > 0 ? Math.min(...byDay.keys()) : todayStart
+  const start = buckets ? todayStart - (buckets - 1) * DAY_MS : firstDay
+  let data: VolumeDataPoint[] = []
+  for (let day = start; day <= todayStart; day += DAY_MS) {
+    const point = byDay.get(day)
+    data.push(point
+      ? { ...point, timestamp: day }
+      : { timestamp: day, volume: null, trades: 0, source: null })
+  }
+
+  // For ALL period, aggregate to weekly candles
+  if (period === "all" && data.length > 30) {
+    data = aggregateToWeekly(data)
   }
 
-  return data
+  const lastKnown = [...data].reverse().find(d => d.volume !== null)
+  const totalVolume24h = todayLive?.volume24h || lastKnown?.volume || 0
+
+  // Historical periods count unique tokens that traded in the period
+  return {
+    data,
+    totalVolume24h: Math.round(totalVolume24h),
+    poolCount: uniqueTokens || todayLive?.uniqueTokens || 0,
+    livePoolCount: todayLive?.poolCount,
+    source,
+  }
 }
 
 /**
- * Calculate statistics from volume data
+ * Volume history on the period's bucket grid
  */
-function calculateStats(
-  data: VolumeDataPoint[],
-  totalVolume24h: number,
-  poolCount: number
-): {
-  current: number
-  previous: number
-  change: number
-  peak: number
-  low: number
-  average: number
-  totalVolume: number
+async function fetchBonkFunVolumeHistory(period: VolumeHistoryPeriod): Promise<{
+  data: VolumeDataPoint[]
+  totalVolume24h: number
   poolCount: number
-} {
-  if (data.length === 0) {
-    return {
-      current: 0,
-      previous: 0,
-      change: 0,
-      peak: 0,
-      low: 0,
-      average: 0,
-      totalVolume: totalVolume24h,
-      poolCount,
-    }
-  }
-
-  const volumes = data.map(d => d.volume)
-  const current = volumes[volumes.length - 1] || 0
-  const previous = volumes[0] || current
-  const change = previous > 0 ? ((current - previous) / previous) * 100 : 0
-  const sumVolume = volumes.reduce((sum, v) => sum + v, 0)
-
-  // Use the Raydium total if it's more accurate
-  const totalVolume = Math.max(totalVolume24h, sumVolume)
+  livePoolCount?: number
+  source: CacheEntry["source"]
+}> {
+  console.log(`[Volume] Fetching BONK.fun/USD1 volume data for period: ${period}`)
 
-  return {
-    current,
-    previous,
-    change,
-    peak: Math.max(...volumes),
-    low: Math.min(...volumes.filter(v => v > 0)),
-    average: sumVolume / volumes.length,
-    totalVolume,
-    poolCount,
-  }
+  return period === "24h" || period === "7d"
+    ? fetchIntradayHistory(period)
+    : fetchDailyHistory(period)
 }
 
 // ============================================
@@ -1095,7 +659,8 @@ function calculateStats(
 
 export async function GET(request: Request) {
   const url = new URL(request.url)
-  const period = url.searchParams.get("period") || "24h"
+  const requested = url.searchParams.get("period")
+  const period = isVolumeHistoryPeriod(requested) ? requested : "24h"
 
   // Check cache
   const cached = volumeCache.get(period)
@@ -1106,10 +671,9 @@ export async function GET(request: Request) {
       period,
       dataPoints: cached.data.length,
       cached: true,
-      synthetic: cached.synthetic,
+      coverage: cached.coverage,
       poolCount: cached.poolCount,
       livePoolCount: cached.livePoolCount,
-      ohlcvCoverage: cached.ohlcvCoverage,
       source: cached.source,
     })
   }
@@ -1117,24 +681,22 @@ export async function GET(request: Request) {
   // Fetch fresh data
   const {
     data: volumeData,
-    synthetic,
     totalVolume24h,
     poolCount,
     livePoolCount,
-    ohlcvCoverage,
     source,
   } = await fetchBonkFunVolumeHistory(period)
+  const coverage = buildCoverage(volumeData)
 
   // Update cache
   volumeCache.set(period, {
     data: volumeData,
     timestamp: Date.now(),
     period,
-    synthetic,
     totalVolume24h,
     poolCount,
     livePoolCount,
-    ohlcvCoverage,
+    coverage,
     source,
   })
 
@@ -1144,10 +706,9 @@ export async function GET(request: Request) {
     period,
     dataPoints: volumeData.length,
     cached: false,
-    synthetic,
+    coverage,
     poolCount,
     livePoolCount,
-    ohlcvCoverage,
     source,
   })
 }
@@ -0,0 +1,105 @@
+import { NextResponse } from "next/server"
+import {
+  getWatchlist,
+  createWatchlist,
+  updateWatchlist,
+  sanitizeWatchlistInput,
+} from "@/lib/watchlist-store"
+
+// Share slugs are base64url, 22 chars for 16 random bytes
+const SLUG_REGEX = /^[A-Za-z0-9_-]{16,64}$/
+
+// ============================================
+// API HANDLERS
+// ============================================
+
+/**
+ * GET ?slug=<share slug> - read a shared watchlist
+ */
+export async function GET(request: Request) {
+  const url = new URL(request.url)
+  const slug = url.searchParams.get("slug")
+
+  if (!slug || !SLUG_REGEX.test(slug)) {
+    return NextResponse.json({ error: "Valid slug parameter required" }, { status: 400 })
+  }
+
+  try {
+    const watchlist = await getWatchlist(slug)
+    if (!watchlist) {
+      return NextResponse.json({ error: "Watchlist not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ watchlist })
+  } catch (error) {
+    console.error("[Watchlists] Read failed:", error)
+    return NextResponse.json({ error: "Failed to load watchlist" }, { status: 500 })
+  }
+}
+
+/**
+ * POST { name, tokens } - create a shared watchlist
+ * Returns the watchlist plus an edit key (shown only once)
+ */
+export async function POST(request: Request) {
+  const body = await request.json().catch(() => null)
+  const input = sanitizeWatchlistInput(body?.name, body?.tokens)
+
+  if (!input) {
+    return NextResponse.json({ error: "tokens must be an array of mint addresses" }, { status: 400 })
+  }
+
+  try {
+    const created = await createWatchlist(input.name, input.tokens)
+    if (!created) {
+      return NextResponse.json({ error: "Failed to save watchlist" }, { status: 500 })
+    }
+
+    return NextResponse.json(created, { status: 201 })
+  } catch (error) {
+    console.error("[Watchlists] Create failed:", error)
+    return NextResponse.json({ error: "Failed to save watchlist" }, { status: 500 })
+  }
+}
+
+/**
+ * PUT { slug, editKey, name?, tokens? } - update a shared watchlist
+ */
+export async function PUT(request: Request) {
+  const body = await request.json().catch(() => null)
+  const slug = body?.slug
+  const editKey = body?.editKey
+
+  if (typeof slug !== "string" || !SLUG_REGEX.test(slug) || typeof editKey !== "string") {
+    return NextResponse.json({ error: "slug and editKey required" }, { status: 400 })
+  }
+
+  const input = sanitizeWatchlistInput(body.name, body.tokens ?? [])
+  if (!input) {
+    return NextResponse.json({ error: "tokens must be an array of mint addresses" }, { status: 400 })
+  }
+
+  try {
+    const result = await updateWatchlist(slug, editKey, {
+      name: typeof body.name === "string" ? input.name : undefined,
+      tokens: Array.isArray(body.tokens) ? input.tokens : undefined,
+    })
+
+    if (result === "forbidden") {
+      return NextResponse.json({ error: "Invalid edit key" }, { status: 403 })
+    }
+    if (result === "failed") {
+      return NextResponse.json({ error: "Failed to update watchlist" }, { status: 500 })
+    }
+    if (!result) {
+      return NextResponse.json({ error: "Watchlist not found" }, { status: 404 })
+    }
+
+    return NextResponse.json({ watchlist: result })
+  } catch (error) {
+    console.error("[Watchlists] Update failed:", error)
+    return NextResponse.json({ error: "Failed to update watchlist" }, { status: 500 })
+  }
+}
+
+export const runtime = "edge"
@@ -3,13 +3,14 @@
 import { useState, useCallback, useMemo, useRef, useEffect } from "react"
 import { motion, AnimatePresence } from "framer-motion"
 import dynamic from "next/dynamic"
-import { useTokens, useFavorites, useSoundPreference } from "@/hooks/use-tokens"
-// import { useDataFreshness, useNewPoolDetection } from "@/hooks/use-realtime"
+import { useTokens, useWatchlists, useSoundPreference, useAlerts } from "@/hooks/use-tokens"
+import { useLivePrices, useDataFreshness, useNewPoolDetection, type PriceUpdate } from "@/hooks/use-realtime"
 import { ErrorBoundary } from "@/components/error-boundary"
 import { sanitizeSearchInput, formatNumber } from "@/lib/utils"
 import { MetricsGrid } from "./dashboard/metrics-grid"
 import { VolumeAnalytics } from "./dashboard/volume-analytics"
-// import { StaleDataBanner, NewPoolNotification } from "./dashboard/realtime-indicators"
+import { NewPoolNotification } from "./dashboard/realtime-indicators"
+// import { StaleDataBanner } from "./dashboard/realtime-indicators"
 
 // Dynamic import FloatingNav with SSR disabled to prevent hydration mismatch
 // (status indicator depends on client-side data fetching)
@@ -18,6 +19,7 @@ const FloatingNav = dynamic(() => import("./dashboard/floating-nav").then(mod =>
 })
 // import { VolumeEvolution } from "./dashboard/volume-evolution"
 import { TopPerformers } from "./dashboard/top-performers"
+import { JustGraduated } from "./dashboard/just-graduated"
 import { TokenFilters } from "./dashboard/token-filters"
 import { TokenTable } from "./dashboard/token-table"
 import { TokenDetailDrawer } from "./dashboard/token-detail-drawer"
@@ -25,7 +27,12 @@ import { TradeConfirmModal } from "./dashboard/trade-confirm-modal"
 import { DashboardFooter } from "./dashboard/footer"
 import { BackToTop } from "./dashboard/back-to-top"
 import { InfoBanner } from "./dashboard/info-banner"
+import { AlertToasts } from "./dashboard/price-alerts"
 import type { Token, BannerState } from "@/lib/types"
+import { getConfiguredLivePriceProvider } from "@/lib/live-prices"
+
+// Live price provider from NEXT_PUBLIC_LIVE_PRICE_PROVIDER (null = polling only)
+const LIVE_PRICE_PROVIDER = getConfiguredLivePriceProvider()
 
 const TOKENS_PER_PAGE = 50
 
@@ -36,12 +43,30 @@ interface BonkDashboardProps {
 export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
   // Custom hooks for data fetching
   const { enabled: soundEnabled, toggle: toggleSound } = useSoundPreference()
-  const { tokens, isLoading, status, metrics, lastRefresh, refresh, apiHealth } = useTokens({
+  const { tokens, isLoading, status, metrics, lastRefresh, refresh, apiHealth, updateTokenPrice } = useTokens({
     refreshInterval: 10000, // 10 seconds for blazing fast updates
     enableSound: soundEnabled,
     initialData: initialTokens || undefined,
   })
-  const { favorites, toggleFavorite, count: favoritesCount } = useFavorites()
+
+  // Live prices patch the polled data through optimistic updates
+  // Keyed on the address list so price-only refreshes don't resubscribe
+  const tokenAddressKey = tokens.map(t => t.address).join(",")
+  const tokenAddresses = useMemo(() => (tokenAddressKey ? tokenAddressKey.split(",") : []), [tokenAddressKey])
+  const handlePriceUpdate = useCallback((update: PriceUpdate) => {
+    updateTokenPrice(update.address, update.price, update.priceChange24h)
+  }, [updateTokenPrice])
+  const livePrices = useLivePrices({
+    enabled: LIVE_PRICE_PROVIDER !== null,
+    provider: LIVE_PRICE_PROVIDER ?? undefined,
+    tokenAddresses,
+    onPriceUpdate: handlePriceUpdate,
+  })
+  const freshness = useDataFreshness({ lastUpdate: lastRefresh })
+  const watchlists = useWatchlists()
+  const { addressSet: favorites, toggle: toggleFavorite, count: favoritesCount } = watchlists
+  const alerts = useAlerts(tokens)
+  const { newPools, clearNewPools, dismissPool } = useNewPoolDetection({})
 
 
   // Refresh countdown state
@@ -74,6 +99,7 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
   const [activeTab, setActiveTab] = useState("all")
   const [minVolume, setMinVolume] = useState(0)
   const [minLiquidity, setMinLiquidity] = useState(0)
+  const [minSafetyScore, setMinSafetyScore] = useState(0)
   const [proMode, setProMode] = useState(false)
   const tokenTableRef = useRef<HTMLDivElement>(null)
 
@@ -88,6 +114,11 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
     setIsDrawerOpen(true)
   }, [])
 
+  const handleSelectAlertToken = useCallback((address: string) => {
+    const token = tokens.find(t => t.address === address)
+    if (token) handleSelectToken(token)
+  }, [tokens, handleSelectToken])
+
   const handleCloseDrawer = useCallback(() => {
     setIsDrawerOpen(false)
   }, [])
@@ -115,6 +146,10 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
         setQuickFilter("new")
         setSortBy("mcap")
         break
+      case "bonding":
+        setQuickFilter("bonding")
+        setSortBy("mcap")
+        break
       case "trending":
         setQuickFilter("gainers")
         setSortBy("change")
@@ -149,6 +184,7 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
         if (showFavoritesOnly && !favorites.has(t.address)) return false
         if (minVolume > 0 && t.volume24h < minVolume) return false
         if (minLiquidity > 0 && t.liquidity < minLiquidity) return false
+        if (minSafetyScore > 0 && (t.safetyScore ?? 0) < minSafetyScore) return false
 
         // Quick filters
         switch (quickFilter) {
@@ -158,6 +194,8 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
             return t.change24h < 0
           case "new":
             return t.created && Date.now() - t.created < 86400000
+          case "bonding":
+            return t.stage === "bonding"
           case "hot":
             const volumeThreshold =
               tokens.length > 0
@@ -169,10 +207,14 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
         }
       })
       .sort((a, b) => {
+        // Watchlist tab keeps the list's own ordering
+        if (showFavoritesOnly) return watchlists.addresses.indexOf(a.address) - watchlists.addresses.indexOf(b.address)
+
         // Special sorting for quick filters
         if (quickFilter === "gainers") return b.change24h - a.change24h
         if (quickFilter === "losers") return a.change24h - b.change24h
         if (quickFilter === "new") return (b.created || 0) - (a.created || 0)
+        if (quickFilter === "bonding") return (b.bondingProgress || 0) - (a.bondingProgress || 0)
 
         // Default sorting
         switch (sortBy) {
@@ -186,7 +228,7 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
             return b.mcap - a.mcap
         }
       })
-  }, [tokens, searchQuery, showFavoritesOnly, favorites, quickFilter, sortBy, minVolume, minLiquidity])
+  }, [tokens, searchQuery, showFavoritesOnly, favorites, watchlists.addresses, quickFilter, sortBy, minVolume, minLiquidity, minSafetyScore])
 
   // Pagination
   const totalPages = Math.ceil(filteredTokens.length / TOKENS_PER_PAGE)
@@ -230,9 +272,10 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
     if (showFavoritesOnly) count++
     if (minVolume > 0) count++
     if (minLiquidity > 0) count++
+    if (minSafetyScore > 0) count++
     if (searchQuery) count++
     return count
-  }, [quickFilter, showFavoritesOnly, minVolume, minLiquidity, searchQuery])
+  }, [quickFilter, showFavoritesOnly, minVolume, minLiquidity, minSafetyScore, searchQuery])
 
   return (
     <div className="min-h-screen bg-background text-foreground relative overflow-hidden">
@@ -278,6 +321,8 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
         totalVolume={metrics.totalVolume}
         proMode={proMode}
         onToggleProMode={toggleProMode}
+        watchlists={watchlists}
+        liveStatus={LIVE_PRICE_PROVIDER ? { wsState: livePrices.state, freshness } : undefined}
       />
 
       {/* Main Content */}
@@ -533,6 +578,9 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
                 />
               </div>
 
+              {/* Just Graduated */}
+              <JustGraduated tokens={tokens} onSelectToken={handleSelectToken} />
+
               {/* Token Table Section */}
               <div ref={tokenTableRef} className="scroll-mt-32">
                 <TokenFilters
@@ -549,6 +597,8 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
                   onMinVolumeChange={(v) => handleFilterChange(setMinVolume, v)}
                   minLiquidity={minLiquidity}
                   onMinLiquidityChange={(v) => handleFilterChange(setMinLiquidity, v)}
+                  minSafetyScore={minSafetyScore}
+                  onMinSafetyScoreChange={(v) => handleFilterChange(setMinSafetyScore, v)}
                 />
 
                 <TokenTable
@@ -579,8 +629,49 @@ export function BonkDashboard({ initialTokens }: BonkDashboardProps) {
         token={selectedToken}
         isOpen={isDrawerOpen}
         onClose={handleCloseDrawer}
+        alerts={{
+          rules: alerts.rules,
+          permission: alerts.permission,
+          onAddRule: alerts.addRule,
+          onRemoveRule: alerts.removeRule,
+          onToggleRule: alerts.toggleRule,
+          onRequestPermission: alerts.requestPermission,
+        }}
       />
 
+      {/* Fired price alerts */}
+      <AlertToasts
+        events={alerts.events}
+        onDismiss={alerts.dismissEvent}
+        onSelect={handleSelectAlertToken}
+      />
+
+      {/* Refused or failed watchlist changes */}
+      <AnimatePresence>
+        {watchlists.error && (
+          <motion.div
+            role="alert"
+            initial={{ opacity: 0, y: 10 }}
+            animate={{ opacity: 1, y: 0 }}
+            exit={{ opacity: 0, y: 10 }}
+            className="fixed bottom-6 left-1/2 -translate-x-1/2 z-[80] glass-card-solid px-4 py-2 border border-danger/30 text-danger font-mono text-xs"
+          >
+            {watchlists.error}
+          </motion.div>
+        )}
+      </AnimatePresence>
+
+      {/* Pools created since the last visit */}
+      <AnimatePresence>
+        {newPools.length > 0 && (
+          <NewPoolNotification
+            pools={newPools}
+            onDismiss={dismissPool}
+            onDismissAll={clearNewPools}
+          />
+        )}
+      </AnimatePresence>
+
       {/* Trade Confirmation Modal */}
       <TradeConfirmModal
         token={tradeToken}
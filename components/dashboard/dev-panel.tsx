@@ -0,0 +1,138 @@
+"use client"
+
+import { Loader2, AlertTriangle, ExternalLink } from "lucide-react"
+import { cn, formatCompactNumber } from "@/lib/utils"
+import { useCreatorProfile } from "@/hooks/use-creator"
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+const SOURCE_LABELS = {
+  "creation-tx": "launch tx",
+  launchlab: "bonding curve",
+  "cpmm-pool": "pool creator",
+} as const
+
+// ============================================
+// DEV PANEL (DRAWER)
+// ============================================
+
+export function DevPanel({ mint }: { mint: string }) {
+  const { profile, isLoading, isError } = useCreatorProfile(mint)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-4 h-4 text-white/30 animate-spin" />
+      </div>
+    )
+  }
+
+  if (isError || !profile) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        Creator unknown
+      </p>
+    )
+  }
+
+  const { dev } = profile
+  const otherLaunches = profile.launches.filter((l) => l.mint !== mint)
+
+  return (
+    <div className="space-y-3">
+      {/* Serial rugger */}
+      {profile.isSerialRugger && (
+        <div className="flex items-start gap-2 p-3 rounded-md bg-danger/10 border border-danger/20">
+          <AlertTriangle className="w-4 h-4 text-danger shrink-0 mt-0.5" />
+          <p className="text-danger font-mono text-xs">
+            Serial rugger: liquidity was pulled on {profile.rugCount} of this creator&apos;s other launches
+          </p>
+        </div>
+      )}
+
+      {/* Wallet */}
+      <a
+        href={`https://solscan.io/account/${profile.creator}`}
+        target="_blank"
+        rel="noopener noreferrer"
+        className="flex items-center justify-between px-3 py-2 rounded-md bg-white/[0.02] hover:bg-white/[0.05] transition-colors"
+      >
+        <span className="font-mono text-xs text-white/70">{shortAddress(profile.creator)}</span>
+        <span className="flex items-center gap-1.5 font-mono text-[10px] text-white/30">
+          via {SOURCE_LABELS[profile.source]}
+          <ExternalLink className="w-3 h-3" />
+        </span>
+      </a>
+
+      {/* Dev activity */}
+      <div className="grid grid-cols-3 gap-2">
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Dev sold</p>
+          <p
+            className={cn(
+              "font-mono font-bold text-sm",
+              dev.hasSold === null ? "text-white/50" : dev.hasSold ? "text-danger" : "text-success"
+            )}
+          >
+            {dev.hasSold === null ? "?" : dev.hasSold ? "YES" : "NO"}
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">last {dev.scannedTxs} txs</p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Holding</p>
+          <p className="text-white font-mono font-bold text-sm">
+            {dev.balance === null ? "?" : formatCompactNumber(dev.balance)}
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">tokens</p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Launches</p>
+          <p className={cn("font-mono font-bold text-sm", profile.rugCount > 0 ? "text-bonk" : "text-white")}>
+            {profile.launches.length}
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">{profile.rugCount} rugged</p>
+        </div>
+      </div>
+
+      {(dev.soldAmount > 0 || dev.transferredAmount > 0) && (
+        <p className="text-white/50 font-mono text-[10px]">
+          {dev.soldAmount > 0 && (
+            <>Sold <span className="text-white font-bold">{formatCompactNumber(dev.soldAmount)}</span> tokens. </>
+          )}
+          {dev.transferredAmount > 0 && (
+            <>Moved <span className="text-white font-bold">{formatCompactNumber(dev.transferredAmount)}</span> to other wallets.</>
+          )}
+        </p>
+      )}
+
+      {/* Other launches */}
+      {otherLaunches.length > 0 && (
+        <div className="space-y-1">
+          {otherLaunches.map((launch) => (
+            <a
+              key={launch.mint}
+              href={`https://solscan.io/token/${launch.mint}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="flex items-center justify-between px-3 py-1.5 rounded-md bg-white/[0.02] hover:bg-white/[0.05] transition-colors"
+            >
+              <span className="font-mono text-xs text-white/70">
+                {launch.symbol ? `$${launch.symbol}` : shortAddress(launch.mint)}
+              </span>
+              <span className="flex items-center gap-2 font-mono text-xs tabular-nums">
+                <span className="text-white/50">
+                  {launch.mcap === null ? "-" : `$${formatCompactNumber(launch.mcap)}`}
+                </span>
+                {launch.liquidityPulled && (
+                  <span className="px-1.5 py-0.5 rounded bg-danger/10 text-danger text-[9px] font-bold">RUGGED</span>
+                )}
+              </span>
+            </a>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
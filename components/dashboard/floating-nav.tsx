@@ -6,6 +6,10 @@ import Image from "next/image"
 import { motion, AnimatePresence } from "framer-motion"
 import type { StatusState } from "@/lib/types"
 import { formatCompactNumber } from "@/lib/utils"
+import type { useWatchlists } from "@/hooks/use-tokens"
+import type { DataFreshnessState, WebSocketState } from "@/hooks/use-realtime"
+import { WatchlistSwitcher } from "./watchlist-switcher"
+import { ConnectionStatus } from "./realtime-indicators"
 
 interface FloatingNavProps {
   status: StatusState
@@ -21,12 +25,15 @@ interface FloatingNavProps {
   totalVolume?: number
   proMode?: boolean
   onToggleProMode?: () => void
+  watchlists?: ReturnType<typeof useWatchlists>
+  liveStatus?: { wsState: WebSocketState; freshness: DataFreshnessState }
 }
 
 const TABS = [
   { id: "all", label: "ALL", icon: null },
   { id: "movers", label: "TOP MOVERS", icon: Zap },
   { id: "new", label: "NEW", icon: null },
+  { id: "bonding", label: "BONDING", icon: null },
   { id: "trending", label: "TRENDING", icon: Activity },
   { id: "watchlist", label: "WATCHLIST", icon: null },
 ]
@@ -45,6 +52,8 @@ export function FloatingNav({
   totalVolume = 0,
   proMode = false,
   onToggleProMode,
+  watchlists,
+  liveStatus,
 }: FloatingNavProps) {
   const [scrolled, setScrolled] = useState(false)
   const [isRefreshing, setIsRefreshing] = useState(false)
@@ -166,6 +175,11 @@ export function FloatingNav({
                   {status.type === "live" ? "LIVE" : status.type === "error" ? "OFFLINE" : "SYNCING"}
                 </span>
               </div>
+
+              {/* Live price provider */}
+              {mounted && liveStatus && (
+                <ConnectionStatus wsState={liveStatus.wsState} freshness={liveStatus.freshness} />
+              )}
             </div>
 
             {/* Metrics Pills */}
@@ -288,6 +302,11 @@ export function FloatingNav({
               </button>
             )
           })}
+
+          {/* Local / shared watchlist switcher */}
+          {activeTab === "watchlist" && watchlists && (
+            <WatchlistSwitcher watchlists={watchlists} />
+          )}
         </div>
       </motion.div>
     </nav>
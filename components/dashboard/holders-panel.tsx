@@ -0,0 +1,110 @@
+"use client"
+
+import { Loader2, Droplets, Wallet } from "lucide-react"
+import { cn } from "@/lib/utils"
+import { useHolderDistribution } from "@/hooks/use-holders"
+
+// Concentration levels our team treats as a red / amber flag
+const TOP10_DANGER = 50
+const TOP10_WARNING = 30
+
+function shortAddress(address: string): string {
+  return `${address.slice(0, 4)}...${address.slice(-4)}`
+}
+
+function concentrationColor(share: number): string {
+  if (share >= TOP10_DANGER) return "text-danger"
+  if (share >= TOP10_WARNING) return "text-bonk"
+  return "text-success"
+}
+
+// ============================================
+// HOLDERS PANEL (DRAWER)
+// ============================================
+
+export function HoldersPanel({ mint }: { mint: string }) {
+  const { distribution, isLoading, isError } = useHolderDistribution(mint)
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-4 h-4 text-white/30 animate-spin" />
+      </div>
+    )
+  }
+
+  if (isError || !distribution) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        Holder data unavailable
+      </p>
+    )
+  }
+
+  const maxShare = distribution.topHolders[0]?.share || 1
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-2">
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Top 10</p>
+          <p className={cn("font-mono font-bold text-sm", concentrationColor(distribution.top10ShareExcludingPools))}>
+            {distribution.top10ShareExcludingPools.toFixed(1)}%
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">excl. pools</p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Gini</p>
+          <p className="text-white font-mono font-bold text-sm">{distribution.gini.toFixed(2)}</p>
+          <p className="text-white/30 font-mono text-[9px]">0 = equal</p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Holders</p>
+          <p className="text-white font-mono font-bold text-sm">
+            {distribution.holders.toLocaleString()}{distribution.truncated && "+"}
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">non-zero</p>
+        </div>
+      </div>
+
+      {/* Largest holder */}
+      {distribution.largestHolder && (
+        <p className="text-white/50 font-mono text-[10px]">
+          Largest holder is {distribution.largestHolder.isPoolVault ? "the liquidity pool" : "a wallet"} with{" "}
+          <span className="text-white font-bold">{distribution.largestHolder.share.toFixed(1)}%</span>
+        </p>
+      )}
+
+      {/* Top holders */}
+      <div className="space-y-1">
+        {distribution.topHolders.map((holder, i) => (
+          <a
+            key={holder.owner}
+            href={`https://solscan.io/account/${holder.owner}`}
+            target="_blank"
+            rel="noopener noreferrer"
+            className="relative flex items-center justify-between px-3 py-1.5 rounded-md bg-white/[0.02] hover:bg-white/[0.05] transition-colors overflow-hidden"
+          >
+            <div
+              className={cn("absolute inset-y-0 left-0", holder.isPoolVault ? "bg-[#A855F7]/10" : "bg-white/[0.04]")}
+              style={{ width: `${(holder.share / maxShare) * 100}%` }}
+            />
+            <span className="relative flex items-center gap-2 font-mono text-xs text-white/70">
+              <span className="w-4 text-white/30 tabular-nums">{i + 1}</span>
+              {holder.isPoolVault ? (
+                <Droplets className="w-3 h-3 text-[#C084FC]" />
+              ) : (
+                <Wallet className="w-3 h-3 text-white/30" />
+              )}
+              {holder.isPoolVault ? "Pool vault" : shortAddress(holder.owner)}
+            </span>
+            <span className="relative font-mono text-xs text-white font-bold tabular-nums">
+              {holder.share.toFixed(2)}%
+            </span>
+          </a>
+        ))}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,106 @@
+"use client"
+
+import { useMemo } from "react"
+import { motion } from "framer-motion"
+import { GraduationCap, Loader2, ExternalLink } from "lucide-react"
+import { cn, formatNumber, formatPrice, formatTimeAgo, shortenAddress } from "@/lib/utils"
+import { useGraduations } from "@/hooks/use-graduations"
+import type { Token } from "@/lib/types"
+
+interface JustGraduatedProps {
+  tokens: Token[]
+  onSelectToken: (token: Token) => void
+  limit?: number
+}
+
+// ============================================
+// JUST GRADUATED FEED
+// ============================================
+
+export function JustGraduated({ tokens, onSelectToken, limit = 8 }: JustGraduatedProps) {
+  const { graduations, isLoading, isError } = useGraduations(limit)
+  const tokensByMint = useMemo(() => new Map(tokens.map(t => [t.address, t])), [tokens])
+
+  return (
+    <section className="mb-10">
+      <h2 className="text-lg font-bold text-white mb-5 flex items-center gap-3 font-mono">
+        <GraduationCap className="w-5 h-5 text-bonk" />
+        JUST GRADUATED
+      </h2>
+
+      {isLoading ? (
+        <div className="flex items-center justify-center py-8 glass-card-solid rounded-xl">
+          <Loader2 className="w-4 h-4 text-white/30 animate-spin" />
+        </div>
+      ) : isError || graduations.length === 0 ? (
+        <div className="text-center py-8 text-white/40 font-mono text-xs glass-card-solid rounded-xl">
+          {isError ? "GRADUATIONS UNAVAILABLE" : "NO GRADUATIONS IN THE LAST 7 DAYS"}
+        </div>
+      ) : (
+        <div className="grid grid-cols-1 md:grid-cols-2 gap-2">
+          {graduations.map((graduation, i) => {
+            const token = tokensByMint.get(graduation.mint)
+            const performance = graduation.performance
+
+            return (
+              <motion.div
+                key={graduation.mint}
+                initial={{ opacity: 0, y: 8 }}
+                animate={{ opacity: 1, y: 0 }}
+                transition={{ delay: i * 0.04 }}
+                onClick={() => token && onSelectToken(token)}
+                className={cn(
+                  "glass-card-solid p-3 rounded-[2px_8px_2px_8px] flex items-center gap-3",
+                  token ? "cursor-pointer hover:bg-white/[0.05] transition-colors" : "opacity-70"
+                )}
+              >
+                <div className="flex-1 min-w-0">
+                  <div className="flex items-center gap-2">
+                    <p className="font-bold text-sm text-white truncate">
+                      {graduation.symbol || shortenAddress(graduation.mint)}
+                    </p>
+                    <span className="text-white/30 font-mono text-[10px]">
+                      {formatTimeAgo(new Date(graduation.graduatedAt))}
+                    </span>
+                    {graduation.signature && (
+                      <a
+                        href={`https://solscan.io/tx/${graduation.signature}`}
+                        target="_blank"
+                        rel="noopener noreferrer"
+                        onClick={(e) => e.stopPropagation()}
+                        className="text-white/20 hover:text-white/60 transition-colors"
+                        title="Graduation transaction"
+                      >
+                        <ExternalLink className="w-3 h-3" />
+                      </a>
+                    )}
+                  </div>
+                  <p className="text-white/40 font-mono text-[10px] truncate">
+                    {graduation.priceAtGraduation !== null
+                      ? `${formatPrice(graduation.priceAtGraduation)} at graduation`
+                      : "Graduation price unknown"}
+                    {graduation.mcap !== null && ` · MCap ${formatNumber(graduation.mcap)}`}
+                  </p>
+                </div>
+
+                <div className="text-right">
+                  {performance !== null ? (
+                    <p className={cn(
+                      "font-mono font-bold text-sm",
+                      performance >= 0 ? "text-success" : "text-danger"
+                    )}>
+                      {performance >= 0 ? "+" : ""}{performance.toFixed(1)}%
+                    </p>
+                  ) : (
+                    <p className="font-mono text-sm text-white/30">—</p>
+                  )}
+                  <p className="text-white/30 font-mono text-[10px]">since grad</p>
+                </div>
+              </motion.div>
+            )
+          })}
+        </div>
+      )}
+    </section>
+  )
+}
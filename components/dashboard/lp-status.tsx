@@ -0,0 +1,78 @@
+"use client"
+
+import { Flame, Lock, Wallet } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { LpStatus, Token } from "@/lib/types"
+
+const LP_STYLES: Record<LpStatus, string> = {
+  burned: "bg-success/10 text-success border-success/20",
+  locked: "bg-success/10 text-success border-success/20",
+  wallet: "bg-danger/10 text-danger border-danger/20",
+}
+
+const LP_LABELS: Record<LpStatus, string> = {
+  burned: "LP BURNED",
+  locked: "LP LOCKED",
+  wallet: "LP UNLOCKED",
+}
+
+const LP_ICONS: Record<LpStatus, typeof Flame> = {
+  burned: Flame,
+  locked: Lock,
+  wallet: Wallet,
+}
+
+const LP_DESCRIPTIONS: Record<LpStatus, string> = {
+  burned: "LP tokens were burned, so this pool's liquidity can never be withdrawn.",
+  locked: "LP tokens are held by a locker program, so liquidity can't be withdrawn while the lock lasts.",
+  wallet: "LP tokens sit in a regular wallet. Whoever holds them can pull the liquidity at any time.",
+}
+
+// ============================================
+// LP BADGE (TABLE)
+// ============================================
+
+export function LpStatusBadge({ token, className }: { token: Token; className?: string }) {
+  if (!token.lpStatus) return null
+
+  const Icon = LP_ICONS[token.lpStatus]
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-1.5 py-0.5 rounded border font-mono text-[9px] font-bold whitespace-nowrap",
+        LP_STYLES[token.lpStatus],
+        className
+      )}
+      title={`${(token.lpSecuredShare ?? 0).toFixed(1)}% of LP burned or locked`}
+    >
+      <Icon className="w-2.5 h-2.5" />
+      {LP_LABELS[token.lpStatus]}
+    </span>
+  )
+}
+
+// ============================================
+// LP DETAIL (DRAWER)
+// ============================================
+
+export function LpStatusDetail({ token }: { token: Token }) {
+  if (!token.lpStatus) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        {token.stage === "bonding" ? "Still on the bonding curve - no LP yet" : "LP status not checked yet"}
+      </p>
+    )
+  }
+
+  return (
+    <div className="glass-card-solid p-3 space-y-2">
+      <div className="flex items-center justify-between">
+        <LpStatusBadge token={token} />
+        <span className="font-mono text-xs text-white/50 tabular-nums">
+          <span className="text-white font-bold">{(token.lpSecuredShare ?? 0).toFixed(1)}%</span> burned or locked
+        </span>
+      </div>
+      <p className="text-white/50 font-mono text-[10px] leading-relaxed">{LP_DESCRIPTIONS[token.lpStatus]}</p>
+    </div>
+  )
+}
@@ -5,7 +5,8 @@ import { motion } from "framer-motion"
 import { TrendingUp, TrendingDown, Activity, Zap } from "lucide-react"
 import Image from "next/image"
 import type { Token } from "@/lib/types"
-import { formatNumber, generateDeterministicChartData } from "@/lib/utils"
+import { formatNumber } from "@/lib/utils"
+import { useVisibleTokenCandles } from "@/hooks/use-candles"
 
 interface MarketPulseProps {
   tokens: Token[]
@@ -38,12 +39,14 @@ const TokenLogo = memo(function TokenLogo({ token, size = 20 }: { token: Token;
 })
 
 const MiniChart = memo(function MiniChart({ token }: { token: Token }) {
-  const chartData = useMemo(
-    () => generateDeterministicChartData(token.address, token.change24h, 12),
-    [token.address, token.change24h]
-  )
+  const { ref, closes: chartData } = useVisibleTokenCandles(token.address, { interval: "1h", points: 12, pool: token.pairAddress || undefined })
   
   const isPositive = token.change24h >= 0
+  
+  // No history yet - leave the slot empty rather than draw an invented line
+  if (chartData.length < 2) {
+    return <div ref={ref} className="w-12 h-5" />
+  }
   const min = Math.min(...chartData)
   const max = Math.max(...chartData)
   const range = max - min || 1
@@ -60,16 +63,18 @@ const MiniChart = memo(function MiniChart({ token }: { token: Token }) {
   const color = isPositive ? "#00FF88" : "#FF3B3B"
   
   return (
-    <svg viewBox={`0 0 ${width} ${height}`} className="w-12 h-5" preserveAspectRatio="none">
-      <polyline
-        points={points}
-        fill="none"
-        stroke={color}
-        strokeWidth="1.5"
-        strokeLinecap="round"
-        strokeLinejoin="round"
-      />
-    </svg>
+    <div ref={ref} className="w-12 h-5">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-12 h-5" preserveAspectRatio="none">
+        <polyline
+          points={points}
+          fill="none"
+          stroke={color}
+          strokeWidth="1.5"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+      </svg>
+    </div>
   )
 })
 
@@ -0,0 +1,111 @@
+"use client"
+
+import { ArrowRightLeft, ExternalLink } from "lucide-react"
+import { cn, formatNumber, formatPrice, shortenAddress } from "@/lib/utils"
+import { getPoolPriceGap } from "@/lib/pool-arbitrage"
+import type { PoolType, Token, TokenPool } from "@/lib/types"
+
+const POOL_TYPE_LABELS: Record<PoolType, string> = {
+  cpmm: "CPMM",
+  "amm-v4": "AMM V4",
+  clmm: "CLMM",
+}
+
+function poolLabel(pool: TokenPool): string {
+  const dex = pool.dex.toUpperCase()
+  return pool.type ? `${dex} ${POOL_TYPE_LABELS[pool.type]}` : dex
+}
+
+// ============================================
+// POOL BREAKDOWN (DRAWER)
+// ============================================
+
+export function PoolBreakdown({ token }: { token: Token }) {
+  const pools = token.pools || []
+  if (pools.length === 0) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        {token.stage === "bonding" ? "Still on the bonding curve - no pools yet" : "No pool data yet"}
+      </p>
+    )
+  }
+
+  const gap = getPoolPriceGap(pools)
+
+  return (
+    <div className="space-y-3">
+      {gap && gap.gapPercent >= 0.1 && (
+        <div
+          className={cn(
+            "glass-card-solid p-3 flex items-start gap-2",
+            gap.isArbitrage && "border border-bonk/30 bg-bonk/10"
+          )}
+        >
+          <ArrowRightLeft className={cn("w-3.5 h-3.5 mt-0.5 shrink-0", gap.isArbitrage ? "text-bonk" : "text-white/30")} />
+          <p className="text-white/50 font-mono text-[10px] leading-relaxed">
+            <span className={cn("font-bold", gap.isArbitrage ? "text-bonk" : "text-white")}>
+              {gap.isArbitrage ? "ARBITRAGE SIGNAL" : "PRICE GAP"} {gap.gapPercent.toFixed(2)}%
+            </span>
+            {" "}between {poolLabel(gap.cheapest)} ({formatPrice(gap.cheapest.price)}) and{" "}
+            {poolLabel(gap.priciest)} ({formatPrice(gap.priciest.price)}),
+            {gap.isArbitrage ? " more than" : " within"} the {gap.feesPercent.toFixed(2)}% in swap fees plus slippage.
+          </p>
+        </div>
+      )}
+
+      <div className="space-y-1">
+        <div className="grid grid-cols-[1fr_repeat(4,minmax(0,auto))] gap-3 px-3 text-white/30 font-mono text-[9px] uppercase tracking-wider">
+          <span>Pool</span>
+          <span className="text-right">Liquidity</span>
+          <span className="text-right">Vol 24h</span>
+          <span className="text-right">Fee</span>
+          <span className="text-right">Price</span>
+        </div>
+
+        {pools.map((pool) => {
+          const share = token.liquidity > 0 ? (pool.liquidity / token.liquidity) * 100 : 0
+          const isPriced = pool.address === token.pairAddress
+
+          return (
+            <div
+              key={pool.address}
+              className="relative grid grid-cols-[1fr_repeat(4,minmax(0,auto))] gap-3 items-center px-3 py-1.5 rounded-md bg-white/[0.02] hover:bg-white/[0.05] transition-colors overflow-hidden"
+            >
+              <div
+                className="absolute inset-y-0 left-0 bg-white/[0.04]"
+                style={{ width: `${Math.min(100, share)}%` }}
+              />
+              <span className="relative flex items-center gap-1.5 min-w-0 font-mono text-xs text-white/70">
+                <span className={cn("truncate", isPriced && "text-white font-bold")} title={isPriced ? "Price source" : undefined}>
+                  {poolLabel(pool)}
+                </span>
+                <a
+                  href={`https://solscan.io/account/${pool.address}`}
+                  target="_blank"
+                  rel="noopener noreferrer"
+                  className="text-white/20 hover:text-white/60 transition-colors text-[10px] flex items-center gap-0.5"
+                  title={pool.address}
+                >
+                  {shortenAddress(pool.address)}
+                  <ExternalLink className="w-2.5 h-2.5" />
+                </a>
+              </span>
+              <span className="relative font-mono text-xs text-white font-bold tabular-nums text-right">
+                {formatNumber(pool.liquidity)}
+              </span>
+              <span className="relative font-mono text-xs text-white/70 tabular-nums text-right">
+                {pool.volume24h !== null ? formatNumber(pool.volume24h) : "—"}
+              </span>
+              <span className="relative font-mono text-xs text-white/50 tabular-nums text-right">
+                {pool.feeTier !== null ? `${pool.feeTier.toFixed(2)}%` : "—"}
+              </span>
+              <span className="relative font-mono text-xs text-white/70 tabular-nums text-right">
+                {formatPrice(pool.price)}
+              </span>
+            </div>
+          )
+        })}
+      </div>
+    </div>
+  )
+}
@@ -0,0 +1,233 @@
+"use client"
+
+import { useState, useEffect } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Bell, BellOff, BellRing, Plus, Trash2, X } from "lucide-react"
+import { cn } from "@/lib/utils"
+import type { Token } from "@/lib/types"
+import {
+  ALERT_RULE_LABELS,
+  createAlertRule,
+  describeAlertRule,
+  type AlertRule,
+  type AlertRuleType,
+  type AlertEvent,
+} from "@/lib/alert-rules"
+
+// ============================================
+// ALERT RULES PANEL (DRAWER)
+// ============================================
+
+export interface AlertRulesPanelProps {
+  token: Token
+  rules: AlertRule[]
+  permission: NotificationPermission | "unsupported"
+  onAddRule: (rule: AlertRule) => void
+  onRemoveRule: (id: string) => void
+  onToggleRule: (id: string) => void
+  onRequestPermission: () => void
+}
+
+// Sensible starting threshold for each rule type, based on the token's current values
+function defaultThreshold(token: Token, type: AlertRuleType): string {
+  switch (type) {
+    case "price_above":
+      return (token.price * 1.2).toPrecision(4)
+    case "price_below":
+      return (token.price * 0.8).toPrecision(4)
+    case "change1h_above":
+      return "10"
+    case "volume24h_above":
+      return String(Math.round(token.volume24h * 2) || 10000)
+    case "liquidity_drop":
+      return "25"
+  }
+}
+
+export function AlertRulesPanel({
+  token,
+  rules,
+  permission,
+  onAddRule,
+  onRemoveRule,
+  onToggleRule,
+  onRequestPermission,
+}: AlertRulesPanelProps) {
+  const [type, setType] = useState<AlertRuleType>("price_above")
+  const [threshold, setThreshold] = useState(() => defaultThreshold(token, "price_above"))
+
+  const tokenRules = rules.filter(r => r.tokenAddress === token.address)
+  const parsedThreshold = Number.parseFloat(threshold)
+  const isValid = Number.isFinite(parsedThreshold) && parsedThreshold > 0
+
+  const handleAdd = () => {
+    if (!isValid) return
+    onAddRule(createAlertRule(token, type, parsedThreshold))
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Notification permission */}
+      {permission !== "granted" && permission !== "unsupported" && (
+        <button
+          onClick={onRequestPermission}
+          className="w-full flex items-center justify-center gap-2 py-2 rounded-lg bg-bonk/10 border border-bonk/30 text-bonk font-mono text-xs hover:bg-bonk/20 transition-colors"
+        >
+          <BellRing className="w-3.5 h-3.5" />
+          ENABLE BROWSER NOTIFICATIONS
+        </button>
+      )}
+
+      {/* New rule form */}
+      <div className="flex items-center gap-2">
+        <select
+          value={type}
+          onChange={(e) => {
+            const next = e.target.value as AlertRuleType
+            setType(next)
+            setThreshold(defaultThreshold(token, next))
+          }}
+          className="flex-1 bg-white/[0.04] border border-white/[0.08] rounded-lg px-2 py-2 text-white font-mono text-xs focus:outline-none focus:border-bonk/50"
+        >
+          {(Object.keys(ALERT_RULE_LABELS) as AlertRuleType[]).map((t) => (
+            <option key={t} value={t} className="bg-[#0a0a0c]">
+              {ALERT_RULE_LABELS[t]}
+            </option>
+          ))}
+        </select>
+        <input
+          type="number"
+          inputMode="decimal"
+          min="0"
+          step="any"
+          value={threshold}
+          onChange={(e) => setThreshold(e.target.value)}
+          className="w-28 bg-white/[0.04] border border-white/[0.08] rounded-lg px-2 py-2 text-white font-mono text-xs tabular-nums focus:outline-none focus:border-bonk/50"
+        />
+        <button
+          onClick={handleAdd}
+          disabled={!isValid}
+          className="p-2 rounded-lg bg-bonk text-black hover:bg-bonk/90 disabled:opacity-40 disabled:cursor-not-allowed transition-colors"
+          title="Add alert"
+        >
+          <Plus className="w-4 h-4" />
+        </button>
+      </div>
+
+      {/* Existing rules */}
+      {tokenRules.length === 0 ? (
+        <p className="text-white/30 font-mono text-xs text-center py-2">
+          No alerts for ${token.symbol}
+        </p>
+      ) : (
+        <div className="space-y-1.5">
+          {tokenRules.map((rule) => (
+            <div
+              key={rule.id}
+              className={cn(
+                "flex items-center justify-between px-3 py-2 rounded-lg bg-white/[0.02] border border-white/[0.06]",
+                !rule.enabled && "opacity-50"
+              )}
+            >
+              <div className="min-w-0">
+                <p className="text-white font-mono text-xs truncate">{describeAlertRule(rule)}</p>
+                <p className="text-white/30 font-mono text-[10px]">
+                  {rule.lastFiredAt
+                    ? `Last fired ${new Date(rule.lastFiredAt).toLocaleTimeString()}`
+                    : "Not fired yet"}
+                  {!rule.armed && " · waiting to re-arm"}
+                </p>
+              </div>
+              <div className="flex items-center gap-1 ml-2">
+                <button
+                  onClick={() => onToggleRule(rule.id)}
+                  className="p-1.5 rounded hover:bg-white/10 transition-colors"
+                  title={rule.enabled ? "Pause alert" : "Resume alert"}
+                >
+                  {rule.enabled ? (
+                    <Bell className="w-3.5 h-3.5 text-bonk" />
+                  ) : (
+                    <BellOff className="w-3.5 h-3.5 text-white/50" />
+                  )}
+                </button>
+                <button
+                  onClick={() => onRemoveRule(rule.id)}
+                  className="p-1.5 rounded hover:bg-white/10 transition-colors"
+                  title="Delete alert"
+                >
+                  <Trash2 className="w-3.5 h-3.5 text-white/50" />
+                </button>
+              </div>
+            </div>
+          ))}
+        </div>
+      )}
+    </div>
+  )
+}
+
+// ============================================
+// ALERT TOASTS
+// ============================================
+
+const TOAST_DURATION = 8000
+
+interface AlertToastsProps {
+  events: AlertEvent[]
+  onDismiss: (id: string) => void
+  onSelect?: (tokenAddress: string) => void
+  className?: string
+}
+
+function AlertToast({
+  event,
+  onDismiss,
+  onSelect,
+}: {
+  event: AlertEvent
+  onDismiss: (id: string) => void
+  onSelect?: (tokenAddress: string) => void
+}) {
+  useEffect(() => {
+    const timeout = setTimeout(() => onDismiss(event.id), TOAST_DURATION)
+    return () => clearTimeout(timeout)
+  }, [event.id, onDismiss])
+
+  return (
+    <motion.div
+      layout
+      initial={{ opacity: 0, x: 40 }}
+      animate={{ opacity: 1, x: 0 }}
+      exit={{ opacity: 0, x: 40 }}
+      className="flex items-start gap-3 px-4 py-3 bg-[#0a0a0c]/95 backdrop-blur-xl border border-bonk/30 rounded-xl shadow-2xl"
+    >
+      <BellRing className="w-4 h-4 text-bonk mt-0.5 flex-shrink-0" />
+      <button
+        onClick={() => onSelect?.(event.tokenAddress)}
+        className="flex-1 min-w-0 text-left"
+      >
+        <p className="text-sm font-mono font-bold text-white">{event.title}</p>
+        <p className="text-xs font-mono text-white/50">{event.message}</p>
+      </button>
+      <button
+        onClick={() => onDismiss(event.id)}
+        className="p-1 rounded hover:bg-white/10 transition-colors"
+        title="Dismiss"
+      >
+        <X className="w-3.5 h-3.5 text-white/50" />
+      </button>
+    </motion.div>
+  )
+}
+
+export function AlertToasts({ events, onDismiss, onSelect, className }: AlertToastsProps) {
+  return (
+    <div className={cn("fixed top-20 right-4 z-[80] w-80 space-y-2", className)}>
+      <AnimatePresence mode="popLayout">
+        {events.map((event) => (
+          <AlertToast key={event.id} event={event} onDismiss={onDismiss} onSelect={onSelect} />
+        ))}
+      </AnimatePresence>
+    </div>
+  )
+}
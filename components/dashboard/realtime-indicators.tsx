@@ -12,7 +12,7 @@ import {
   ExternalLink,
   Zap
 } from "lucide-react"
-import { cn } from "@/lib/utils"
+import { cn, formatTimeAgo } from "@/lib/utils"
 import type { DataFreshnessState, NewPoolInfo, WebSocketState } from "@/hooks/use-realtime"
 
 // ============================================
@@ -90,10 +90,10 @@ export function ConnectionStatus({ wsState, freshness, className }: ConnectionSt
               ? "bg-success/10 text-success"
               : "bg-white/5 text-white/30"
           )}
-          title={isWebSocketConnected ? "WebSocket connected" : "WebSocket disconnected"}
+          title={`${wsState.providerLabel} live prices ${isWebSocketConnected ? "connected" : "disconnected"}`}
         >
           <Zap className="w-2.5 h-2.5" />
-          WS
+          {wsState.providerLabel}
         </div>
       )}
     </div>
@@ -230,7 +230,9 @@ export function NewPoolNotification({
                     NEW
                   </span>
                 </div>
-                <p className="text-xs text-white/40 truncate">{pool.name}</p>
+                <p className="text-xs text-white/40 truncate">
+                  {pool.name} · {formatTimeAgo(new Date(pool.openTime ?? pool.detectedAt))}
+                </p>
               </div>
 
               <div className="flex items-center gap-2 ml-2">
@@ -0,0 +1,85 @@
+"use client"
+
+import { ShieldCheck, ShieldAlert } from "lucide-react"
+import { cn, getSafetyWarningExplanation } from "@/lib/utils"
+import { getSafetyLevel, type SafetyLevel } from "@/lib/safety-score"
+import type { Token } from "@/lib/types"
+
+const LEVEL_STYLES: Record<SafetyLevel, string> = {
+  safe: "bg-success/10 text-success border-success/20",
+  caution: "bg-bonk/10 text-bonk border-bonk/20",
+  risky: "bg-danger/10 text-danger border-danger/20",
+}
+
+const LEVEL_LABELS: Record<SafetyLevel, string> = {
+  safe: "Looks OK",
+  caution: "Caution",
+  risky: "High risk",
+}
+
+// ============================================
+// SAFETY BADGE (TABLE)
+// ============================================
+
+export function SafetyBadge({ token, className }: { token: Token; className?: string }) {
+  if (token.safetyScore === undefined) {
+    return <span className="text-white/30 font-mono text-sm">—</span>
+  }
+
+  const level = getSafetyLevel(token.safetyScore)
+  return (
+    <span
+      className={cn(
+        "inline-flex items-center gap-1 px-2 py-0.5 rounded border font-mono text-xs font-bold tabular-nums",
+        LEVEL_STYLES[level],
+        className
+      )}
+      title={token.safetyWarnings?.length ? token.safetyWarnings.join("\n") : "No warnings"}
+    >
+      <ShieldCheck className="w-3 h-3" />
+      {token.safetyScore}
+    </span>
+  )
+}
+
+// ============================================
+// SAFETY BREAKDOWN (DRAWER)
+// ============================================
+
+export function SafetyBreakdown({ token }: { token: Token }) {
+  if (token.safetyScore === undefined) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        Safety score not available yet
+      </p>
+    )
+  }
+
+  const level = getSafetyLevel(token.safetyScore)
+  const warnings = token.safetyWarnings || []
+
+  return (
+    <div className="space-y-2">
+      <div className={cn("flex items-center justify-between px-3 py-2.5 rounded-lg border", LEVEL_STYLES[level])}>
+        <span className="flex items-center gap-2 font-mono text-xs font-bold uppercase tracking-wider">
+          {level === "safe" ? <ShieldCheck className="w-4 h-4" /> : <ShieldAlert className="w-4 h-4" />}
+          {LEVEL_LABELS[level]}
+        </span>
+        <span className="font-mono text-lg font-bold tabular-nums">
+          {token.safetyScore}<span className="text-xs opacity-60">/100</span>
+        </span>
+      </div>
+
+      {warnings.length === 0 ? (
+        <p className="text-white/30 font-mono text-xs text-center py-1">No warnings</p>
+      ) : (
+        warnings.map((warning) => (
+          <div key={warning} className="px-3 py-2 rounded-lg bg-white/[0.02] border border-white/[0.06]">
+            <p className="text-white font-mono text-xs font-bold">{warning}</p>
+            <p className="text-white/40 font-mono text-[10px] mt-0.5">{getSafetyWarningExplanation(warning)}</p>
+          </div>
+        ))
+      )}
+    </div>
+  )
+}
@@ -26,7 +26,16 @@ import {
 } from "lucide-react"
 import Image from "next/image"
 import type { Token } from "@/lib/types"
-import { formatNumber, formatPrice, formatAge, generateDeterministicChartData, cn } from "@/lib/utils"
+import { formatNumber, formatPrice, formatAge, cn } from "@/lib/utils"
+import { useTokenCandles } from "@/hooks/use-candles"
+import { AlertRulesPanel, type AlertRulesPanelProps } from "./price-alerts"
+import { SafetyBreakdown } from "./safety-score"
+import { HoldersPanel } from "./holders-panel"
+import { DevPanel } from "./dev-panel"
+import { LpStatusDetail } from "./lp-status"
+import { TradesPanel } from "./trades-panel"
+import { TokenVolumePanel } from "./token-volume-panel"
+import { PoolBreakdown } from "./pool-breakdown"
 
 // Type definitions for share card styles
 interface LogoConfig {
@@ -255,6 +264,7 @@ interface TokenDetailDrawerProps {
   token: Token | null
   isOpen: boolean
   onClose: () => void
+  alerts?: Omit<AlertRulesPanelProps, "token">
 }
 
 function TokenLogo({ token, size = "lg" }: { token: Token; size?: "lg" | "xl" }) {
@@ -288,12 +298,23 @@ function TokenLogo({ token, size = "lg" }: { token: Token; size?: "lg" | "xl" })
 function LargeChart({ token }: { token: Token }) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
 
+  const { closes } = useTokenCandles(token.address, { interval: "1h", points: 24, pool: token.pairAddress || undefined })
+
+  // Percent of the first close, so axis labels read as change over the window
   const chartData = useMemo(
-    () => generateDeterministicChartData(token.address, token.change24h, 72),
-    [token.address, token.change24h]
+    () => closes.map(c => (c / closes[0]) * 100),
+    [closes]
   )
 
   const isPositive = token.change24h >= 0
+
+  if (chartData.length < 2) {
+    return (
+      <div className="w-full h-36 flex items-center justify-center text-white/30 text-xs font-mono">
+        No price history yet
+      </div>
+    )
+  }
   const min = Math.min(...chartData)
   const max = Math.max(...chartData)
   const range = max - min || 1
@@ -589,11 +610,9 @@ function ShareCard({ token, onShuffle, styleIndex }: { token: Token; onShuffle:
     }
   }, [token, isPositive, isGeneratingGif])
 
-  // Generate chart data for mini sparkline
-  const chartData = useMemo(
-    () => generateDeterministicChartData(token.address, token.change24h, 24),
-    [token.address, token.change24h]
-  )
+  // Real hourly closes for the mini chart
+  const { closes: chartData } = useTokenCandles(token.address, { interval: "1h", points: 24, pool: token.pairAddress || undefined })
+  const hasChart = chartData.length >= 2
 
   const min = Math.min(...chartData)
   const max = Math.max(...chartData)
@@ -712,6 +731,7 @@ Trade now on bonkusd1.fun 🚀`
 
           {/* Mini Chart */}
           <div className="flex-1 mt-2 mb-2">
+            {hasChart && (
             <svg viewBox="0 0 320 50" className="w-full h-full" preserveAspectRatio="none">
               <defs>
                 <linearGradient id="shareChartGradient" x1="0%" y1="0%" x2="0%" y2="100%">
@@ -737,6 +757,7 @@ Trade now on bonkusd1.fun 🚀`
                 style={{ filter: `drop-shadow(0 0 8px ${isPositive ? "rgba(34,197,94,0.8)" : "rgba(239,68,68,0.8)"})` }}
               />
             </svg>
+            )}
           </div>
 
           {/* Footer */}
@@ -805,7 +826,7 @@ Trade now on bonkusd1.fun 🚀`
   )
 }
 
-export function TokenDetailDrawer({ token, isOpen, onClose }: TokenDetailDrawerProps) {
+export function TokenDetailDrawer({ token, isOpen, onClose, alerts }: TokenDetailDrawerProps) {
   const [copiedAddress, setCopiedAddress] = useState(false)
   const [chartLoaded, setChartLoaded] = useState(false)
   const [shareCardStyleIndex, setShareCardStyleIndex] = useState(0)
@@ -852,7 +873,16 @@ export function TokenDetailDrawer({ token, isOpen, onClose }: TokenDetailDrawerP
     },
     { label: "Liquidity", value: formatNumber(token.liquidity), icon: Droplets, color: "" },
     { label: "Market Cap", value: formatNumber(token.mcap), icon: BarChart3, color: "" },
-    { label: "Volume 24h", value: formatNumber(token.volume24h), icon: Activity, color: "" },
+    {
+      label: "Volume 24h",
+      value: formatNumber(token.volume24h),
+      icon: Activity,
+      color: "",
+      // Wash-trading scan estimate from a recent swap sample, only for tokens that have been scanned
+      sub: token.organicVolume24h !== undefined
+        ? `~${formatNumber(token.organicVolume24h)} organic (est. from last ${token.organicSampleSize ?? "few"} swaps)`
+        : undefined,
+    },
     { label: "Holders", value: token.holders ? token.holders.toLocaleString() : "—", icon: Users, color: "" },
     { label: "Age", value: formatAge(token.created), icon: Clock, color: "" },
     { label: "Txns 24h", value: token.txns24h.toLocaleString(), icon: ArrowRightLeft, color: "" },
@@ -1020,11 +1050,80 @@ export function TokenDetailDrawer({ token, isOpen, onClose }: TokenDetailDrawerP
                         <p className={`font-mono font-bold text-sm ${stat.color || "text-white"}`}>
                           {stat.value}
                         </p>
+                        {"sub" in stat && stat.sub && (
+                          <p className="text-white/30 font-mono text-[9px] mt-0.5">{stat.sub}</p>
+                        )}
                       </motion.div>
                     ))}
                   </div>
                 </div>
 
+                {/* Pools */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    POOLS
+                  </p>
+                  <PoolBreakdown token={token} />
+                </div>
+
+                {/* Volume History */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    VOLUME HISTORY
+                  </p>
+                  <TokenVolumePanel mint={token.address} pool={token.pairAddress} />
+                </div>
+
+                {/* Recent Trades */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    RECENT TRADES
+                  </p>
+                  <TradesPanel mint={token.address} pool={token.pairAddress} />
+                </div>
+
+                {/* Holder Concentration */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    HOLDERS
+                  </p>
+                  <HoldersPanel mint={token.address} />
+                </div>
+
+                {/* LP Tokens */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    LP TOKENS
+                  </p>
+                  <LpStatusDetail token={token} />
+                </div>
+
+                {/* Dev */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    DEV
+                  </p>
+                  <DevPanel mint={token.address} />
+                </div>
+
+                {/* Safety */}
+                <div>
+                  <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                    SAFETY SCORE
+                  </p>
+                  <SafetyBreakdown token={token} />
+                </div>
+
+                {/* Price Alerts */}
+                {alerts && (
+                  <div>
+                    <p className="text-white/30 font-mono text-[10px] uppercase tracking-[0.15em] mb-3">
+                      PRICE ALERTS
+                    </p>
+                    <AlertRulesPanel key={token.address} token={token} {...alerts} />
+                  </div>
+                )}
+
                 {/* Action Buttons */}
                 <div className="space-y-3 pt-2 pb-6">
                   <a
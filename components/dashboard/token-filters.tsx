@@ -10,6 +10,7 @@ import {
   Flame,
   Star,
   Clock,
+  Rocket,
   X,
   ChevronDown,
   Heart,
@@ -31,6 +32,8 @@ interface TokenFiltersProps {
   onMinVolumeChange: (value: number) => void
   minLiquidity: number
   onMinLiquidityChange: (value: number) => void
+  minSafetyScore: number
+  onMinSafetyScoreChange: (value: number) => void
   compact?: boolean
 }
 
@@ -40,6 +43,7 @@ const QUICK_FILTERS = [
   { id: "losers", label: "Losers", icon: TrendingDown, color: "text-danger" },
   { id: "hot", label: "Hot", icon: Flame, color: "text-danger" },
   { id: "new", label: "New", icon: Clock, color: "text-success" },
+  { id: "bonding", label: "Bonding", icon: Rocket, color: "text-bonk" },
 ]
 
 const SORT_OPTIONS = [
@@ -65,6 +69,14 @@ const LIQUIDITY_PRESETS = [
   { value: 50000, label: "$50K+" },
 ]
 
+const SAFETY_PRESETS = [
+  { value: 0, label: "Any" },
+  { value: 40, label: "40+" },
+  { value: 60, label: "60+" },
+  { value: 70, label: "70+" },
+  { value: 85, label: "85+" },
+]
+
 export function TokenFilters({
   sortBy,
   onSortChange,
@@ -79,6 +91,8 @@ export function TokenFilters({
   onMinVolumeChange,
   minLiquidity,
   onMinLiquidityChange,
+  minSafetyScore,
+  onMinSafetyScoreChange,
   compact = false,
 }: TokenFiltersProps) {
   const [showAdvanced, setShowAdvanced] = useState(false)
@@ -108,6 +122,7 @@ export function TokenFilters({
     showFavoritesOnly,
     minVolume > 0,
     minLiquidity > 0,
+    minSafetyScore > 0,
     searchQuery.length > 0,
   ].filter(Boolean).length
 
@@ -128,12 +143,16 @@ export function TokenFilters({
     const preset = LIQUIDITY_PRESETS.find(p => p.value === minLiquidity)
     activeFilterChips.push({ id: 'liquidity', label: `Liq: ${preset?.label || formatNumber(minLiquidity)}`, onRemove: () => onMinLiquidityChange(0) })
   }
+  if (minSafetyScore > 0) {
+    activeFilterChips.push({ id: 'safety', label: `Safety: ${minSafetyScore}+`, onRemove: () => onMinSafetyScoreChange(0) })
+  }
 
   const clearAllFilters = () => {
     onQuickFilterChange("all")
     if (showFavoritesOnly) onToggleFavorites()
     onMinVolumeChange(0)
     onMinLiquidityChange(0)
+    onMinSafetyScoreChange(0)
     onSearchChange("")
   }
 
@@ -400,7 +419,7 @@ export function TokenFilters({
                 )}
               </div>
 
-              <div className="grid md:grid-cols-2 gap-6">
+              <div className="grid md:grid-cols-3 gap-6">
                 {/* Min Volume */}
                 <div>
                   <label className="block text-white/40 text-[10px] font-mono uppercase tracking-wider mb-2">
@@ -446,6 +465,29 @@ export function TokenFilters({
                     ))}
                   </div>
                 </div>
+
+                {/* Min Safety Score */}
+                <div>
+                  <label className="block text-white/40 text-[10px] font-mono uppercase tracking-wider mb-2">
+                    Minimum Safety Score
+                  </label>
+                  <div className="flex flex-wrap gap-2">
+                    {SAFETY_PRESETS.map((preset) => (
+                      <button
+                        key={preset.value}
+                        onClick={() => onMinSafetyScoreChange(preset.value)}
+                        className={cn(
+                          "px-3 py-1.5 rounded-lg font-mono text-xs transition-all border",
+                          minSafetyScore === preset.value
+                            ? "bg-bonk text-black border-bonk"
+                            : "bg-white/[0.03] border-white/[0.06] text-white/60 hover:text-white hover:bg-white/[0.06]"
+                        )}
+                      >
+                        {preset.label}
+                      </button>
+                    ))}
+                  </div>
+                </div>
               </div>
             </div>
           </motion.div>
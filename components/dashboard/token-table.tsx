@@ -19,11 +19,15 @@ import {
   Users,
   Droplets,
   BarChart3,
+  AlertTriangle,
 } from "lucide-react"
 import Image from "next/image"
 import type { Token } from "@/lib/types"
 import { formatNumber, formatPrice, formatAge, isNewToken, cn } from "@/lib/utils"
 import { useIsMobile } from "@/hooks/use-mobile"
+import { useVisibleTokenCandles } from "@/hooks/use-candles"
+import { SafetyBadge } from "./safety-score"
+import { LpStatusBadge } from "./lp-status"
 
 interface TokenTableProps {
   tokens: Token[]
@@ -68,50 +72,39 @@ const TokenLogo = memo(function TokenLogo({ token }: { token: Token }) {
 })
 
 // Memoized mini sparkline component with hover interactivity
+// Draws the last 24 hourly closes from the candles API
 const MiniSparkline = memo(function MiniSparkline({
   change24h,
-  address
+  address,
+  pairAddress,
 }: {
   change24h: number
   address: string
+  pairAddress?: string
 }) {
   const [hoveredIndex, setHoveredIndex] = useState<number | null>(null)
+  const { ref, closes: chartData } = useVisibleTokenCandles(address, { interval: "1h", points: 24, pool: pairAddress || undefined })
   const isPositive = change24h >= 0
   const color = isPositive ? "#00FF88" : "#FF3B3B"
 
-  // Generate deterministic chart data based on address
-  const chartData = useMemo(() => {
-    const seed = address.split('').reduce((a, b) => a + b.charCodeAt(0), 0)
-    const pseudoRandom = (i: number) => {
-      const x = Math.sin(seed + i * 12.9898) * 43758.5453
-      return x - Math.floor(x)
-    }
-
-    const change = change24h / 100
-    const volatility = Math.min(Math.abs(change) * 0.4, 0.12)
-    const points = 12
-
-    const data: number[] = []
-    let value = 100
-    const target = 100 * (1 + change)
+  const width = 60
+  const height = 24
 
-    for (let i = 0; i < points; i++) {
-      const trendPull = (target - value) * 0.2
-      const noise = (pseudoRandom(i) - 0.5) * volatility * 80
-      value += trendPull + noise
-      if (i === points - 1) value = target
-      data.push(value)
-    }
-    return data
-  }, [address, change24h])
+  // No history yet - show an empty baseline rather than an invented line
+  if (chartData.length < 2) {
+    return (
+      <div ref={ref}>
+        <svg viewBox={`0 0 ${width} ${height}`} className="w-14 h-6" preserveAspectRatio="none">
+          <line x1={0} y1={height / 2} x2={width} y2={height / 2} stroke="rgba(255,255,255,0.1)" strokeWidth="1" strokeDasharray="2 3" />
+        </svg>
+      </div>
+    )
+  }
 
   const min = Math.min(...chartData)
   const max = Math.max(...chartData)
   const range = max - min || 1
 
-  const width = 60
-  const height = 24
-
   const pointsArray = chartData.map((v, i) => ({
     x: (i / (chartData.length - 1)) * width,
     y: height - ((v - min) / range) * height,
@@ -124,7 +117,7 @@ const MiniSparkline = memo(function MiniSparkline({
   const fillPath = `M 0,${height} L ${pathString} L ${width},${height} Z`
 
   return (
-    <div className="relative group">
+    <div ref={ref} className="relative group">
       <svg
         viewBox={`0 0 ${width} ${height}`}
         className="w-14 h-6 cursor-crosshair"
@@ -185,7 +178,7 @@ const MiniSparkline = memo(function MiniSparkline({
         <div
           className="absolute -top-8 left-1/2 -translate-x-1/2 bg-[#0a0a0c] border border-white/10 px-2 py-1 rounded text-[10px] font-mono text-white whitespace-nowrap z-50 pointer-events-none"
         >
-          {((pointsArray[hoveredIndex].value - 100) >= 0 ? '+' : '')}{(pointsArray[hoveredIndex].value - 100).toFixed(2)}%
+          {((pointsArray[hoveredIndex].value / chartData[0] - 1) >= 0 ? '+' : '')}{((pointsArray[hoveredIndex].value / chartData[0] - 1) * 100).toFixed(2)}%
         </div>
       )}
     </div>
@@ -193,6 +186,21 @@ const MiniSparkline = memo(function MiniSparkline({
 })
 
 
+// Bonding-curve progress toward graduation
+function GraduationProgress({ progress, className }: { progress: number; className?: string }) {
+  return (
+    <div className={cn("flex items-center gap-1.5", className)} title={`${progress.toFixed(1)}% to graduation`}>
+      <div className="flex-1 h-1 rounded-full bg-white/[0.06] overflow-hidden">
+        <div
+          className="h-full rounded-full bg-gradient-to-r from-[#A855F7] to-[#EC4899]"
+          style={{ width: `${Math.min(progress, 100)}%` }}
+        />
+      </div>
+      <span className="text-[9px] font-mono text-white/40 tabular-nums">{Math.floor(progress)}%</span>
+    </div>
+  )
+}
+
 // Mobile Token Card Component
 const TokenCard = memo(function TokenCard({
   token,
@@ -269,6 +277,7 @@ const TokenCard = memo(function TokenCard({
                   HOT
                 </span>
               )}
+              {token.safetyScore !== undefined && <SafetyBadge token={token} />}
             </div>
             <div className="flex items-center gap-1.5">
               <p className="text-white/40 text-xs font-mono">${token.symbol}</p>
@@ -319,9 +328,14 @@ const TokenCard = memo(function TokenCard({
             <span className="text-white/30 font-mono text-[9px] uppercase tracking-wider">Liq</span>
           </div>
           <p className="text-white font-mono text-sm tabular-nums">{formatNumber(token.liquidity)}</p>
-          <div className="liq-bar mt-1.5">
-            <div className="liq-bar-fill" style={{ width: `${liqMcapRatio}%` }} />
-          </div>
+          {token.stage === "bonding" ? (
+            <GraduationProgress progress={token.bondingProgress || 0} className="mt-1.5" />
+          ) : (
+            <div className="liq-bar mt-1.5">
+              <div className="liq-bar-fill" style={{ width: `${liqMcapRatio}%` }} />
+            </div>
+          )}
+          <LpStatusBadge token={token} className="mt-1.5" />
         </div>
         <div className="bg-white/[0.02] rounded-lg p-3">
           <div className="flex items-center gap-1.5 mb-1">
@@ -334,7 +348,7 @@ const TokenCard = memo(function TokenCard({
 
       {/* Sparkline */}
       <div className="mb-4 px-1">
-        <MiniSparkline change24h={token.change24h} address={token.address} />
+        <MiniSparkline change24h={token.change24h} address={token.address} pairAddress={token.pairAddress} />
       </div>
 
       {/* Action Buttons */}
@@ -397,7 +411,7 @@ function SkeletonCard({ index }: { index: number }) {
 }
 
 // Skeleton row for loading state - deterministic widths to avoid hydration mismatch
-const SKELETON_WIDTHS = [75, 90, 65, 80, 70, 85, 72, 88, 68, 78]
+const SKELETON_WIDTHS = [75, 90, 65, 80, 70, 85, 72, 88, 68, 60, 78]
 
 function SkeletonRow({ index = 0 }: { index?: number }) {
   return (
@@ -580,6 +594,9 @@ export function TokenTable({
                   <th className="text-left text-white/40 font-mono text-[10px] tracking-[0.15em] uppercase py-4 px-4 w-[90px] bg-[#0F0B18]">
                     HOLDERS
                   </th>
+                  <th className="text-left text-white/40 font-mono text-[10px] tracking-[0.15em] uppercase py-4 px-4 w-[80px] bg-[#0F0B18]">
+                    SAFETY
+                  </th>
                   <th className="text-left text-white/40 font-mono text-[10px] tracking-[0.15em] uppercase bg-[#0F0B18] py-4 px-4 w-[100px]" />
                 </>
               )}
@@ -590,7 +607,7 @@ export function TokenTable({
               [...Array(10)].map((_, i) => <SkeletonRow key={i} index={i} />)
             ) : tokens.length === 0 ? (
               <tr>
-                <td colSpan={proMode ? 4 : 10} className={proMode ? "py-8" : "py-16"}>
+                <td colSpan={proMode ? 4 : 11} className={proMode ? "py-8" : "py-16"}>
                   <div className="flex flex-col items-center justify-center text-center">
                     <Star className={`text-white/10 mb-3 ${proMode ? "w-8 h-8" : "w-12 h-12"}`} />
                     <h3 className={`font-mono font-bold text-white/60 mb-1 ${proMode ? "text-sm" : "text-lg"}`}>
@@ -740,15 +757,20 @@ export function TokenTable({
 
                     {/* Price */}
                     <td className="py-4 px-4">
-                      <p className="text-white font-mono text-sm price-value">
+                      <p className="inline-flex items-center gap-1 text-white font-mono text-sm price-value">
                         {formatPrice(token.price)}
+                        {token.priceWarning && (
+                          <span title={token.priceWarning}>
+                            <AlertTriangle className="w-3 h-3 text-bonk" />
+                          </span>
+                        )}
                       </p>
                     </td>
 
                     {/* 24h Change */}
                     <td className="py-4 px-4">
                       <div className="flex items-center gap-1">
-                        <MiniSparkline change24h={token.change24h} address={token.address} />
+                        <MiniSparkline change24h={token.change24h} address={token.address} pairAddress={token.pairAddress} />
                         <span className={cn(
                           "inline-flex items-center gap-0.5 font-mono font-bold text-sm",
                           isPositive ? "text-success" : "text-danger"
@@ -771,9 +793,14 @@ export function TokenTable({
                     <td className="py-4 px-4">
                       <div className="w-24">
                         <p className="text-white font-mono text-sm mb-1 tabular-nums">{formatNumber(token.liquidity)}</p>
-                        <div className="liq-bar">
-                          <div className="liq-bar-fill" style={{ width: `${liqMcapRatio}%` }} />
-                        </div>
+                        {token.stage === "bonding" ? (
+                          <GraduationProgress progress={token.bondingProgress || 0} />
+                        ) : (
+                          <div className="liq-bar">
+                            <div className="liq-bar-fill" style={{ width: `${liqMcapRatio}%` }} />
+                          </div>
+                        )}
+                        <LpStatusBadge token={token} className="mt-1" />
                       </div>
                     </td>
 
@@ -797,6 +824,11 @@ export function TokenTable({
                       </div>
                     </td>
 
+                    {/* Safety */}
+                    <td className="py-4 px-4">
+                      <SafetyBadge token={token} />
+                    </td>
+
                     {/* Action */}
                     <td className="py-4 px-4">
                       <button
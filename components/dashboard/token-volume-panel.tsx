@@ -0,0 +1,111 @@
+"use client"
+
+import { useState, useMemo } from "react"
+import { Loader2 } from "lucide-react"
+import { cn, formatNumber } from "@/lib/utils"
+import { useTokenVolumeHistory, useVolumeHistory } from "@/hooks/use-volume-history"
+import type { VolumeHistoryPeriod } from "@/lib/volume-history"
+import { VolumeChart, PERIODS } from "./volume-evolution"
+
+function formatChange(change: number): string {
+  return `${change >= 0 ? "+" : ""}${change.toFixed(1)}%`
+}
+
+// ============================================
+// TOKEN VOLUME PANEL (DRAWER)
+// ============================================
+
+export function TokenVolumePanel({ mint, pool }: { mint: string; pool?: string }) {
+  const [period, setPeriod] = useState<VolumeHistoryPeriod>("7d")
+  const { data, isLoading, isError } = useTokenVolumeHistory(mint, period, pool || undefined)
+  const { data: ecosystem } = useVolumeHistory(period)
+
+  // Token share of ecosystem volume, over buckets both histories cover
+  const share = useMemo(() => {
+    if (!data || !ecosystem) return null
+    const ecosystemByTime = new Map(ecosystem.history.map((d) => [d.timestamp, d.volume]))
+    let tokenSum = 0
+    let ecosystemSum = 0
+    for (const point of data.history) {
+      const total = ecosystemByTime.get(point.timestamp)
+      if (point.volume === null || total === null || total === undefined) continue
+      tokenSum += point.volume
+      ecosystemSum += total
+    }
+    return ecosystemSum > 0 ? (tokenSum / ecosystemSum) * 100 : null
+  }, [data, ecosystem])
+
+  return (
+    <div className="space-y-3">
+      {/* Period Selector */}
+      <div className="flex items-center justify-between">
+        <div className="flex items-center gap-1 bg-white/[0.03] border border-white/[0.06] rounded-lg p-1">
+          {PERIODS.map((p) => (
+            <button
+              key={p.id}
+              onClick={() => setPeriod(p.id)}
+              className={cn(
+                "px-3 py-1 rounded-md font-mono text-[10px] font-bold transition-all",
+                period === p.id
+                  ? "bg-bonk text-black"
+                  : "text-white/50 hover:text-white hover:bg-white/[0.04]"
+              )}
+            >
+              {p.label}
+            </button>
+          ))}
+        </div>
+        {data && data.coverage.gaps.length > 0 && (
+          <span className="text-bonk/70 font-mono text-[9px] uppercase tracking-wider">
+            {data.coverage.gaps.length} gaps
+          </span>
+        )}
+      </div>
+
+      {/* Chart */}
+      {isLoading ? (
+        <div className="h-56 flex items-center justify-center">
+          <Loader2 className="w-4 h-4 text-white/30 animate-spin" />
+        </div>
+      ) : isError || !data || data.coverage.covered === 0 ? (
+        <p className="text-white/30 font-mono text-xs text-center py-2">
+          {isError ? "Volume history unavailable" : "No volume history yet"}
+        </p>
+      ) : (
+        <VolumeChart data={data.history} isPositive={data.stats.change >= 0} period={period} />
+      )}
+
+      {/* Token vs ecosystem */}
+      {data && data.coverage.covered > 0 && (
+        <div className="grid grid-cols-3 gap-2">
+          <div className="glass-card-solid p-3">
+            <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Token trend</p>
+            <p className={cn("font-mono font-bold text-sm", data.stats.change >= 0 ? "text-success" : "text-danger")}>
+              {formatChange(data.stats.change)}
+            </p>
+            <p className="text-white/30 font-mono text-[9px]">peak {formatNumber(data.stats.peak)}</p>
+          </div>
+          <div className="glass-card-solid p-3">
+            <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Ecosystem</p>
+            <p
+              className={cn(
+                "font-mono font-bold text-sm",
+                !ecosystem ? "text-white/30" : ecosystem.stats.change >= 0 ? "text-success" : "text-danger"
+              )}
+            >
+              {ecosystem ? formatChange(ecosystem.stats.change) : "—"}
+            </p>
+            <p className="text-white/30 font-mono text-[9px]">all USD1 pairs</p>
+          </div>
+          <div className="glass-card-solid p-3">
+            <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Share</p>
+            <p className="text-white font-mono font-bold text-sm">
+              {share !== null ? `${share.toFixed(1)}%` : "—"}
+            </p>
+            <p className="text-white/30 font-mono text-[9px]">of USD1 volume</p>
+          </div>
+        </div>
+      )}
+    </div>
+  )
+}
@@ -1,11 +1,12 @@
 "use client"
 
-import { useState, useMemo, memo } from "react"
+import { useState, memo } from "react"
 import { motion } from "framer-motion"
 import { Trophy, TrendingUp, TrendingDown, Droplets, Zap, ExternalLink, Flame, Crown } from "lucide-react"
 import Image from "next/image"
 import type { Token } from "@/lib/types"
-import { formatNumber, generateDeterministicChartData } from "@/lib/utils"
+import { formatNumber } from "@/lib/utils"
+import { useVisibleTokenCandles } from "@/hooks/use-candles"
 
 interface TopPerformersProps {
   tokens: Token[]
@@ -53,13 +54,15 @@ const TokenLogo = memo(function TokenLogo({
 
 // Premium sparkline with gradient fill
 const PremiumSparkline = memo(function PremiumSparkline({ token }: { token: Token }) {
-  const chartData = useMemo(
-    () => generateDeterministicChartData(token.address, token.change24h, 24),
-    [token.address, token.change24h]
-  )
+  const { ref, closes: chartData } = useVisibleTokenCandles(token.address, { interval: "1h", points: 24, pool: token.pairAddress || undefined })
   
   const isPositive = token.change24h >= 0
   
+  // No history yet - leave the slot empty rather than draw an invented line
+  if (chartData.length < 2) {
+    return <div ref={ref} className="w-full h-12" />
+  }
+  
   const min = Math.min(...chartData)
   const max = Math.max(...chartData)
   const range = max - min || 1
@@ -80,31 +83,33 @@ const PremiumSparkline = memo(function PremiumSparkline({ token }: { token: Toke
   const color = isPositive ? "#00FF88" : "#FF3B3B"
   
   return (
-    <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-12" preserveAspectRatio="none">
-      <defs>
-        <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
-          <stop offset="0%" stopColor={color} stopOpacity="0.4" />
-          <stop offset="100%" stopColor={color} stopOpacity="0" />
-        </linearGradient>
-      </defs>
-      <path d={fillPath} fill={`url(#${gradientId})`} />
-      <polyline
-        points={points}
-        fill="none"
-        stroke={color}
-        strokeWidth="2"
-        strokeLinecap="round"
-        strokeLinejoin="round"
-      />
-      <circle
-        cx={width - padding}
-        cy={height - padding - ((chartData[chartData.length - 1] - min) / range) * (height - padding * 2)}
-        r="4"
-        fill={color}
-      >
-        <animate attributeName="opacity" values="1;0.5;1" dur="2s" repeatCount="indefinite" />
-      </circle>
-    </svg>
+    <div ref={ref} className="w-full h-12">
+      <svg viewBox={`0 0 ${width} ${height}`} className="w-full h-12" preserveAspectRatio="none">
+        <defs>
+          <linearGradient id={gradientId} x1="0%" y1="0%" x2="0%" y2="100%">
+            <stop offset="0%" stopColor={color} stopOpacity="0.4" />
+            <stop offset="100%" stopColor={color} stopOpacity="0" />
+          </linearGradient>
+        </defs>
+        <path d={fillPath} fill={`url(#${gradientId})`} />
+        <polyline
+          points={points}
+          fill="none"
+          stroke={color}
+          strokeWidth="2"
+          strokeLinecap="round"
+          strokeLinejoin="round"
+        />
+        <circle
+          cx={width - padding}
+          cy={height - padding - ((chartData[chartData.length - 1] - min) / range) * (height - padding * 2)}
+          r="4"
+          fill={color}
+        >
+          <animate attributeName="opacity" values="1;0.5;1" dur="2s" repeatCount="indefinite" />
+        </circle>
+      </svg>
+    </div>
   )
 })
 
@@ -0,0 +1,137 @@
+"use client"
+
+import { useMemo } from "react"
+import { motion, AnimatePresence } from "framer-motion"
+import { Loader2 } from "lucide-react"
+import { cn, formatNumber, formatCompactNumber, formatTimeAgo, shortenAddress } from "@/lib/utils"
+import { useRecentTrades } from "@/hooks/use-trades"
+import { LOW_ORGANIC_SHARE, type WashTradingFlag } from "@/lib/wash-trading"
+
+const FLAG_LABELS: Record<WashTradingFlag, string> = {
+  "self-trading": "self-trading",
+  "round-trip-loops": "round-trip loops",
+  "uniform-bot-trades": "uniform bot trades",
+}
+
+// ============================================
+// TRADES PANEL (DRAWER)
+// ============================================
+
+export function TradesPanel({ mint, pool }: { mint: string; pool?: string }) {
+  const { trades, washTrading, isLoading, isError } = useRecentTrades(mint, pool || undefined)
+
+  // Wallet-level view: a handful of wallets doing most of the volume is a wash-trading tell
+  const summary = useMemo(() => {
+    const volumeByWallet = new Map<string, number>()
+    let totalVolume = 0
+    let buys = 0
+    for (const trade of trades) {
+      if (trade.type === "buy") buys++
+      totalVolume += trade.amount
+      if (trade.wallet) {
+        volumeByWallet.set(trade.wallet, (volumeByWallet.get(trade.wallet) || 0) + trade.amount)
+      }
+    }
+    const topWalletVolume = Math.max(0, ...volumeByWallet.values())
+    return {
+      buys,
+      sells: trades.length - buys,
+      wallets: volumeByWallet.size,
+      topWalletShare: totalVolume > 0 ? (topWalletVolume / totalVolume) * 100 : 0,
+    }
+  }, [trades])
+
+  if (isLoading) {
+    return (
+      <div className="flex items-center justify-center py-4">
+        <Loader2 className="w-4 h-4 text-white/30 animate-spin" />
+      </div>
+    )
+  }
+
+  if (isError || trades.length === 0) {
+    return (
+      <p className="text-white/30 font-mono text-xs text-center py-2">
+        {isError ? "Trades unavailable" : "No recent trades"}
+      </p>
+    )
+  }
+
+  return (
+    <div className="space-y-3">
+      {/* Summary */}
+      <div className="grid grid-cols-3 gap-2">
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Buys / Sells</p>
+          <p className="font-mono font-bold text-sm">
+            <span className="text-success">{summary.buys}</span>
+            <span className="text-white/30"> / </span>
+            <span className="text-danger">{summary.sells}</span>
+          </p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Wallets</p>
+          <p className="text-white font-mono font-bold text-sm">{summary.wallets}</p>
+          <p className="text-white/30 font-mono text-[9px]">in {trades.length} trades</p>
+        </div>
+        <div className="glass-card-solid p-3">
+          <p className="text-white/30 font-mono text-[9px] uppercase tracking-wider mb-1">Top wallet</p>
+          <p className={cn("font-mono font-bold text-sm", summary.topWalletShare >= 50 ? "text-danger" : "text-white")}>
+            {summary.topWalletShare.toFixed(0)}%
+          </p>
+          <p className="text-white/30 font-mono text-[9px]">of volume</p>
+        </div>
+      </div>
+
+      {/* Wash trading */}
+      {washTrading && (
+        <p className="text-white/50 font-mono text-[10px]">
+          Organic volume ~
+          <span
+            className={cn(
+              "font-bold",
+              washTrading.organicShare < LOW_ORGANIC_SHARE ? "text-danger" : "text-success"
+            )}
+          >
+            {(washTrading.organicShare * 100).toFixed(0)}%
+          </span>
+          {washTrading.flags.length > 0 && (
+            <span className="text-danger"> · {washTrading.flags.map((f) => FLAG_LABELS[f]).join(", ")}</span>
+          )}
+        </p>
+      )}
+
+      {/* Trades */}
+      <div className="space-y-1 max-h-72 overflow-y-auto">
+        <AnimatePresence initial={false}>
+          {trades.map((trade) => (
+            <motion.a
+              key={trade.id}
+              layout
+              initial={{ opacity: 0, y: -6 }}
+              animate={{ opacity: 1, y: 0 }}
+              href={`https://solscan.io/tx/${trade.id}`}
+              target="_blank"
+              rel="noopener noreferrer"
+              className="grid grid-cols-[40px_1fr_1fr_auto] items-center gap-2 px-3 py-1.5 rounded-md bg-white/[0.02] hover:bg-white/[0.05] transition-colors font-mono text-xs"
+            >
+              <span className={cn("font-bold", trade.type === "buy" ? "text-success" : "text-danger")}>
+                {trade.type === "buy" ? "BUY" : "SELL"}
+              </span>
+              <span className="text-white tabular-nums">
+                {formatNumber(trade.amount)}
+                {trade.tokenAmount !== undefined && (
+                  <span className="text-white/30"> · {formatCompactNumber(trade.tokenAmount)}</span>
+                )}
+              </span>
+              <span className="text-white/50 truncate">{trade.wallet ? shortenAddress(trade.wallet) : "—"}</span>
+              <span className="text-white/30 text-[10px] tabular-nums">
+                {trade.timestamp ? formatTimeAgo(new Date(trade.timestamp)) : ""}
+              </span>
+            </motion.a>
+          ))}
+        </AnimatePresence>
+      </div>
+    </div>
+  )
+}
@@ -4,6 +4,9 @@ import { useState, useMemo, memo } from "react"
 import { motion } from "framer-motion"
 import { BarChart3, TrendingUp, Clock, Activity } from "lucide-react"
 import { formatNumber } from "@/lib/utils"
+import { getOrganicVolume, getOrganicVolumeRatio, organicBucketVolume } from "@/lib/wash-trading"
+import { useHourlyVolume } from "@/hooks/use-hourly-volume"
+import type { HourlyVolumePoint } from "@/lib/hourly-volume"
 import type { Token } from "@/lib/types"
 
 interface VolumeAnalyticsProps {
@@ -15,30 +18,50 @@ interface VolumeAnalyticsProps {
 
 interface HourlyVolume {
   hour: string
-  volume: number
+  volume: number | null // null = no data for any hour in the bucket
   timestamp: number
+  missingHours: number
+  noEstimate: boolean // Has raw volume but is older than the organic estimate covers
 }
 
-// Generate hourly volume distribution from total volume
-function generateHourlyDistribution(totalVolume: number): HourlyVolume[] {
-  const now = new Date()
-  const hours: HourlyVolume[] = []
-  const hourlyWeights = [0.6, 0.7, 0.85, 1.0, 0.9, 1.1, 0.95, 1.2, 1.0, 0.8, 0.7, 0.55]
-  const totalWeight = hourlyWeights.reduce((a, b) => a + b, 0)
-
-  for (let i = 11; i >= 0; i--) {
-    const hourDate = new Date(now.getTime() - i * 60 * 60 * 1000)
-    const weight = hourlyWeights[11 - i]
-    const hourVolume = (totalVolume / totalWeight) * weight
-
-    hours.push({
-      hour: hourDate.toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
-      volume: hourVolume,
-      timestamp: hourDate.getTime(),
+const BAR_COUNT = 12
+
+// Re-bucket real hourly points into the last BAR_COUNT bars of `bucketHours` each
+// Missing hours are counted, never filled in
+// An organic ratio only applies to bars within the trailing 24h, older bars have no estimate
+function bucketHourlyVolume(points: HourlyVolumePoint[], bucketHours: number, organicRatio: number | null): HourlyVolume[] {
+  const bucketMs = bucketHours * 60 * 60 * 1000
+  const byTime = new Map(points.map(p => [p.time, p.volume]))
+  const lastHour = points[points.length - 1]?.time
+  if (lastHour === undefined) return []
+
+  // Align buckets so the last one ends with the current hour
+  const lastBucketStart = lastHour - (bucketHours - 1) * 60 * 60 * 1000
+  const bars: HourlyVolume[] = []
+
+  for (let i = BAR_COUNT - 1; i >= 0; i--) {
+    const bucketStart = lastBucketStart - i * bucketMs
+    let volume = 0
+    let missingHours = 0
+
+    for (let h = 0; h < bucketHours; h++) {
+      const hourVolume = byTime.get(bucketStart + h * 60 * 60 * 1000)
+      if (hourVolume === undefined || hourVolume === null) missingHours++
+      else volume += hourVolume
+    }
+
+    const rawVolume = missingHours === bucketHours ? null : volume
+    const barVolume = organicRatio === null ? rawVolume : organicBucketVolume(rawVolume, bucketStart, organicRatio)
+    bars.push({
+      hour: new Date(bucketStart).toLocaleTimeString('en-US', { hour: '2-digit', minute: '2-digit', hour12: false }),
+      volume: barVolume,
+      timestamp: bucketStart,
+      missingHours,
+      noEstimate: rawVolume !== null && barVolume === null,
     })
   }
 
-  return hours
+  return bars
 }
 
 // Memoized bar component with tooltip
@@ -47,13 +70,15 @@ const VolumeBar = memo(function VolumeBar({
   maxVolume,
   index,
   isLast,
+  bucketHours,
 }: {
   data: HourlyVolume
   maxVolume: number
   index: number
   isLast: boolean
+  bucketHours: number
 }) {
-  const heightPercent = maxVolume > 0 ? (data.volume / maxVolume) * 100 : 0
+  const heightPercent = maxVolume > 0 && data.volume !== null ? (data.volume / maxVolume) * 100 : 0
 
   return (
     <div className="flex-1 h-full flex flex-col justify-end items-center group relative">
@@ -64,22 +89,31 @@ const VolumeBar = memo(function VolumeBar({
             {data.hour} {isLast ? '(Now)' : ''}
           </p>
           <p className="text-sm font-mono font-bold text-white">
-            {formatNumber(data.volume)}
+            {data.volume !== null ? formatNumber(data.volume) : data.noEstimate ? 'No organic estimate' : 'No data'}
           </p>
+          {data.volume !== null && data.missingHours > 0 && (
+            <p className="text-[9px] font-mono text-bonk mt-0.5">
+              {data.missingHours}/{bucketHours}h missing
+            </p>
+          )}
         </div>
       </div>
 
-      {/* Bar */}
-      <motion.div
-        initial={{ height: 0 }}
-        animate={{ height: `${Math.max(heightPercent, 5)}%` }}
-        transition={{ delay: index * 0.03, duration: 0.4, ease: "easeOut" }}
-        className={`w-full rounded-t cursor-pointer transition-all group-hover:scale-x-110 ${
-          isLast
-            ? "bg-gradient-to-t from-[#EC4899]/40 to-[#EC4899]"
-            : "bg-gradient-to-t from-[#A855F7]/40 to-[#A855F7] group-hover:from-[#EC4899]/40 group-hover:to-[#EC4899]"
-        }`}
-      />
+      {/* Bar - missing buckets get an empty dashed outline instead of a made-up height */}
+      {data.volume === null ? (
+        <div className="w-full h-[15%] rounded-t border border-dashed border-white/[0.15]" />
+      ) : (
+        <motion.div
+          initial={{ height: 0 }}
+          animate={{ height: `${Math.max(heightPercent, 5)}%` }}
+          transition={{ delay: index * 0.03, duration: 0.4, ease: "easeOut" }}
+          className={`w-full rounded-t cursor-pointer transition-all group-hover:scale-x-110 ${
+            isLast
+              ? "bg-gradient-to-t from-[#EC4899]/40 to-[#EC4899]"
+              : "bg-gradient-to-t from-[#A855F7]/40 to-[#A855F7] group-hover:from-[#EC4899]/40 group-hover:to-[#EC4899]"
+          } ${data.missingHours > 0 ? "opacity-50" : ""}`}
+        />
+      )}
     </div>
   )
 })
@@ -121,46 +155,63 @@ const TopCoinRow = memo(function TopCoinRow({
 
 export function VolumeAnalytics({ tokens, totalVolume, isLoading = false, onSelectToken }: VolumeAnalyticsProps) {
   const [timeframe, setTimeframe] = useState<'1h' | '4h'>('1h')
+  const [volumeMode, setVolumeMode] = useState<'raw' | 'organic'>('raw')
+
+  const { hours, isLoading: hoursLoading } = useHourlyVolume(48)
+
+  // Organic mode discounts flagged wash/bot volume - unscanned tokens count as organic
+  const organicScale = useMemo(
+    () => volumeMode === 'organic' ? getOrganicVolumeRatio(tokens) : 1,
+    [volumeMode, tokens]
+  )
+  const displayVolume = totalVolume * organicScale
 
   // Calculate top coins by volume share (>=1%)
   const topCoinsByVolume = useMemo(() => {
-    if (totalVolume <= 0 || tokens.length === 0) return []
+    if (displayVolume <= 0 || tokens.length === 0) return []
+
+    const volumeOf = (t: Token) => volumeMode === 'organic' ? getOrganicVolume(t) : t.volume24h
 
     return tokens
-      .filter(t => t.volume24h > 0)
+      .filter(t => volumeOf(t) > 0)
       .map(t => ({
         token: t,
-        share: (t.volume24h / totalVolume) * 100,
+        share: (volumeOf(t) / displayVolume) * 100,
       }))
       .filter(t => t.share >= 1)
       .sort((a, b) => b.share - a.share)
       .slice(0, 5)
-  }, [tokens, totalVolume])
+  }, [tokens, displayVolume, volumeMode])
 
-  // Generate hourly volume data
-  const hourlyData = useMemo(() => generateHourlyDistribution(totalVolume), [totalVolume])
+  // Real hourly totals, re-bucketed for the selected timeframe
+  const bucketHours = timeframe === '4h' ? 4 : 1
+  const hourlyData = useMemo(
+    () => bucketHourlyVolume(hours, bucketHours, volumeMode === 'organic' ? organicScale : null),
+    [hours, bucketHours, volumeMode, organicScale]
+  )
 
-  const maxHourlyVolume = useMemo(() => Math.max(...hourlyData.map(h => h.volume)), [hourlyData])
+  const maxHourlyVolume = useMemo(() => Math.max(0, ...hourlyData.map(h => h.volume ?? 0)), [hourlyData])
 
   // Calculate stats
   const stats = useMemo(() => {
-    const volumes = hourlyData.map(h => h.volume)
-    const peakVolume = Math.max(...volumes)
-    const peakIndex = volumes.indexOf(peakVolume)
-    const avgVolume = totalVolume / 24
+    const known = hourlyData.filter(h => h.volume !== null)
+    const peak = known.reduce<HourlyVolume | null>((best, h) => !best || h.volume! > best.volume! ? h : best, null)
+    const knownHours = known.reduce((sum, h) => sum + bucketHours - h.missingHours, 0)
+    const avgVolume = knownHours > 0 ? known.reduce((sum, h) => sum + h.volume!, 0) / knownHours : 0
     const totalTrades = tokens.reduce((sum, t) => sum + (t.txns24h || 0), 0)
     const totalBuys = tokens.reduce((sum, t) => sum + (t.buys24h || 0), 0)
     const totalSells = tokens.reduce((sum, t) => sum + (t.sells24h || 0), 0)
 
     return {
-      peakVolume,
-      peakHour: hourlyData[peakIndex]?.hour || '--:--',
+      peakVolume: peak?.volume ?? 0,
+      peakHour: peak?.hour || '--:--',
       avgVolume,
+      missingBars: hourlyData.length - known.length,
       totalTrades,
       totalBuys,
       totalSells,
     }
-  }, [hourlyData, totalVolume, tokens])
+  }, [hourlyData, bucketHours, tokens])
 
   // Calculate 24h change
   const volumeChange = useMemo(() => {
@@ -186,13 +237,13 @@ export function VolumeAnalytics({ tokens, totalVolume, isLoading = false, onSele
             </div>
             <div>
               <p className="text-[10px] font-mono text-white/40 uppercase tracking-wider">
-                24H USD1 Volume
+                {volumeMode === 'organic' ? '24H Organic Volume (est.)' : '24H USD1 Volume'}
               </p>
               <p className="text-xl font-mono font-bold text-white">
                 {isLoading ? (
                   <span className="inline-block w-24 h-6 bg-white/[0.06] rounded animate-pulse" />
                 ) : (
-                  formatNumber(totalVolume)
+                  formatNumber(displayVolume)
                 )}
               </p>
             </div>
@@ -207,6 +258,31 @@ export function VolumeAnalytics({ tokens, totalVolume, isLoading = false, onSele
               </span>
             </div>
 
+            {/* Raw / organic toggle */}
+            <div className="flex bg-white/[0.03] border border-white/[0.06] rounded-lg p-0.5">
+              <button
+                onClick={() => setVolumeMode('raw')}
+                className={`px-2.5 py-1 text-[10px] font-mono font-semibold rounded-md transition-all ${
+                  volumeMode === 'raw'
+                    ? 'bg-gradient-to-r from-[#A855F7] to-[#EC4899] text-white'
+                    : 'text-white/40 hover:text-white/60'
+                }`}
+              >
+                RAW
+              </button>
+              <button
+                onClick={() => setVolumeMode('organic')}
+                title="Excludes volume flagged as self-trading, round-trip loops or uniform bot trades"
+                className={`px-2.5 py-1 text-[10px] font-mono font-semibold rounded-md transition-all ${
+                  volumeMode === 'organic'
+                    ? 'bg-gradient-to-r from-[#A855F7] to-[#EC4899] text-white'
+                    : 'text-white/40 hover:text-white/60'
+                }`}
+              >
+                ORGANIC
+              </button>
+            </div>
+
             {/* Timeframe toggle */}
             <div className="flex bg-white/[0.03] border border-white/[0.06] rounded-lg p-0.5">
               <button
@@ -238,13 +314,20 @@ export function VolumeAnalytics({ tokens, totalVolume, isLoading = false, onSele
       <div className="flex">
         {/* Chart Section */}
         <div className="flex-1 p-4 border-r border-white/[0.04]">
-          <p className="text-[9px] font-mono text-white/30 uppercase tracking-wider mb-2">
-            Hourly Distribution
-          </p>
+          <div className="flex items-center justify-between mb-2">
+            <p className="text-[9px] font-mono text-white/30 uppercase tracking-wider">
+              {timeframe === '4h' ? '4-Hour Volume' : 'Hourly Volume'}
+            </p>
+            {!hoursLoading && stats.missingBars > 0 && (
+              <p className="text-[9px] font-mono text-bonk/70 uppercase tracking-wider">
+                {stats.missingBars} {timeframe === '4h' ? 'periods' : 'hours'} without data
+              </p>
+            )}
+          </div>
 
           {/* Chart Container */}
           <div className="h-[180px] bg-black/20 rounded-lg border border-white/[0.04] p-3 relative">
-            {isLoading ? (
+            {isLoading || hoursLoading ? (
               <div className="absolute inset-3 flex items-end gap-1">
                 {[...Array(12)].map((_, i) => (
                   <div key={i} className="flex-1 h-full flex flex-col justify-end">
@@ -261,11 +344,12 @@ export function VolumeAnalytics({ tokens, totalVolume, isLoading = false, onSele
                 <div className="absolute inset-3 bottom-6 flex items-end gap-1">
                   {hourlyData.map((data, i) => (
                     <VolumeBar
-                      key={data.hour}
+                      key={data.timestamp}
                       data={data}
                       maxVolume={maxHourlyVolume}
                       index={i}
                       isLast={i === hourlyData.length - 1}
+                      bucketHours={bucketHours}
                     />
                   ))}
                 </div>
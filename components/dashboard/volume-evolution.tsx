@@ -17,11 +17,14 @@ import {
   Info
 } from "lucide-react"
 import { formatNumber, formatCompactNumber, cn } from "@/lib/utils"
+import { organicBucketVolume } from "@/lib/wash-trading"
+import type { VolumeHistoryPeriod } from "@/lib/volume-history"
 
 interface VolumeDataPoint {
   timestamp: number
-  volume: number
+  volume: number | null // null = no data for this bucket
   trades?: number
+  source?: string | null
 }
 
 interface VolumeHistoryResponse {
@@ -39,12 +42,17 @@ interface VolumeHistoryResponse {
   period: string
   dataPoints: number
   cached?: boolean
-  synthetic?: boolean
   poolCount?: number
-  ohlcvCoverage?: number // Percentage of volume covered by real OHLCV data
+  coverage?: {
+    expected: number
+    covered: number
+    percent: number // Share of buckets with real data
+    gaps: number[]
+    sources: Record<string, number>
+  }
 }
 
-const PERIODS = [
+export const PERIODS: { id: VolumeHistoryPeriod; label: string }[] = [
   { id: "24h", label: "24H" },
   { id: "7d", label: "7D" },
   { id: "1m", label: "1M" },
@@ -54,7 +62,7 @@ const PERIODS = [
 const fetcher = (url: string) => fetch(url).then(res => res.json())
 
 // Yellow candlestick bar chart component
-function VolumeChart({ 
+export function VolumeChart({ 
   data, 
   isPositive,
   period 
@@ -65,7 +73,7 @@ function VolumeChart({
 }) {
   const [hoveredBar, setHoveredBar] = useState<{ index: number; x: number; y: number } | null>(null)
   
-  const volumes = data.map(d => d.volume)
+  const volumes = data.map(d => d.volume ?? 0)
   const max = Math.max(...volumes) * 1.1
   const min = 0
 
@@ -152,7 +160,7 @@ function VolumeChart({
       {/* Chart container */}
       <div className="absolute inset-0 flex items-end justify-between px-1 pb-8">
         {data.map((d, i) => {
-          const heightPercent = max > 0 ? ((d.volume - min) / (max - min)) * 100 : 0
+          const heightPercent = max > 0 && d.volume !== null ? ((d.volume - min) / (max - min)) * 100 : 0
           const isHovered = hoveredBar?.index === i
           
           return (
@@ -170,21 +178,33 @@ function VolumeChart({
               }}
               onMouseLeave={() => setHoveredBar(null)}
             >
-              {/* The candle/bar */}
-              <motion.div
-                initial={{ height: 0 }}
-                animate={{ height: `${Math.max(heightPercent, 2)}%` }}
-                transition={{ duration: 0.5, delay: i * 0.01 }}
-                className={cn(
-                  "w-full rounded-t-sm cursor-pointer transition-all duration-150",
-                  isHovered 
-                    ? "bg-bonk shadow-[0_0_15px_rgba(250,204,21,0.6)]" 
-                    : "bg-bonk/70 hover:bg-bonk"
-                )}
-                style={{
-                  minHeight: '4px',
-                }}
-              />
+              {/* Gaps get a full-height hatched bar so they can't be read as low volume */}
+              {d.volume === null ? (
+                <div
+                  className={cn(
+                    "w-full h-full rounded-t-sm border border-white/[0.06] transition-opacity",
+                    isHovered ? "opacity-100" : "opacity-60"
+                  )}
+                  style={{
+                    backgroundImage: "repeating-linear-gradient(135deg, rgba(255,255,255,0.08) 0 2px, transparent 2px 6px)",
+                  }}
+                />
+              ) : (
+                <motion.div
+                  initial={{ height: 0 }}
+                  animate={{ height: `${Math.max(heightPercent, 2)}%` }}
+                  transition={{ duration: 0.5, delay: i * 0.01 }}
+                  className={cn(
+                    "w-full rounded-t-sm cursor-pointer transition-all duration-150",
+                    isHovered 
+                      ? "bg-bonk shadow-[0_0_15px_rgba(250,204,21,0.6)]" 
+                      : "bg-bonk/70 hover:bg-bonk"
+                  )}
+                  style={{
+                    minHeight: '4px',
+                  }}
+                />
+              )}
             </div>
           )
         })}
@@ -238,7 +258,9 @@ function VolumeChart({
                 {getFullDateLabel(data[hoveredBar.index].timestamp)}
               </p>
               <p className="text-white font-mono text-sm font-bold">
-                ${formatNumber(data[hoveredBar.index].volume)}
+                {data[hoveredBar.index].volume !== null
+                  ? `$${formatNumber(data[hoveredBar.index].volume!)}`
+                  : "No data"}
               </p>
               {/* Arrow */}
               <div className="absolute left-1/2 -translate-x-1/2 -bottom-1.5 w-0 h-0 border-l-[6px] border-r-[6px] border-t-[6px] border-transparent border-t-bonk/30" />
@@ -294,10 +316,12 @@ function StatCard({
 
 interface VolumeEvolutionProps {
   currentVolume?: number // Real-time volume from tokens API to sync with metrics grid
+  organicRatio?: number // Organic share of current volume (0-1), from getOrganicVolumeRatio
 }
 
-export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
+export function VolumeEvolution({ currentVolume, organicRatio = 1 }: VolumeEvolutionProps) {
   const [period, setPeriod] = useState("24h")
+  const [volumeMode, setVolumeMode] = useState<"raw" | "organic">("raw")
   
   const { data, error, isLoading } = useSWR<VolumeHistoryResponse>(
     `/api/volume-history?period=${period}`,
@@ -310,7 +334,30 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
 
   // Always use volume-history API's totalVolume as it comes from Raydium and is accurate
   // The tokens API only sums enriched tokens which may be incomplete
-  const displayVolume = data?.stats.totalVolume || 0
+  // Organic mode only covers the trailing 24h - wash-trading scans sample recent
+  // trades, so older buckets get no estimate and the stats cover the estimated buckets
+  const isOrganic = volumeMode === "organic"
+  const history = useMemo(
+    () => isOrganic
+      ? (data?.history || []).map(d => ({ ...d, volume: organicBucketVolume(d.volume, d.timestamp, organicRatio) }))
+      : data?.history || [],
+    [data, isOrganic, organicRatio]
+  )
+  const stats = useMemo(() => {
+    if (!data) return null
+    if (!isOrganic) return data.stats
+
+    const volumes = history.map(d => d.volume).filter((v): v is number => v !== null)
+    const totalVolume = volumes.reduce((sum, v) => sum + v, 0)
+    return {
+      ...data.stats,
+      totalVolume,
+      peak: volumes.length ? Math.max(...volumes) : 0,
+      low: volumes.length ? Math.min(...volumes) : 0,
+      average: volumes.length ? totalVolume / volumes.length : 0,
+    }
+  }, [data, history, isOrganic])
+  const displayVolume = stats?.totalVolume || 0
 
   const isPositive = (data?.stats.change ?? 0) >= 0
 
@@ -327,23 +374,34 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
           <Activity className="w-5 h-5 text-bonk" />
           <h2 className="font-mono font-bold text-sm tracking-wide">VOLUME EVOLUTION</h2>
           <span className="text-white/30 font-mono text-xs">// USD1 PAIRS</span>
-          {/* Data quality indicators */}
-          {data?.synthetic ? (
-            <div className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-bonk/10 border border-bonk/20" title="Historical OHLCV unavailable - showing distribution based on actual 24h volume from all pools">
-              <AlertTriangle className="w-3 h-3 text-bonk" />
-              <span className="text-[10px] font-bold text-bonk tracking-wide">ESTIMATED DISTRIBUTION</span>
-            </div>
-          ) : data?.ohlcvCoverage && data.ohlcvCoverage > 0 ? (
+          {/* Data quality indicator - gaps are shown in the chart, never filled in */}
+          {data?.coverage && data.coverage.expected > 0 && (
             <div
-              className="flex items-center gap-1.5 px-2 py-1 rounded-md bg-success/10 border border-success/20"
-              title={`Real OHLCV data from top ${data.poolCount || 0} pools covering ${data.ohlcvCoverage.toFixed(0)}% of total volume`}
+              className={cn(
+                "flex items-center gap-1.5 px-2 py-1 rounded-md border",
+                data.coverage.gaps.length === 0
+                  ? "bg-success/10 border-success/20"
+                  : "bg-bonk/10 border-bonk/20"
+              )}
+              title={`${data.coverage.covered} of ${data.coverage.expected} periods have real data`}
             >
-              <Activity className="w-3 h-3 text-success" />
-              <span className="text-[10px] font-bold text-success tracking-wide">
-                {data.ohlcvCoverage >= 80 ? "LIVE DATA" : `${data.ohlcvCoverage.toFixed(0)}% COVERAGE`}
+              {data.coverage.gaps.length === 0 ? (
+                <Activity className="w-3 h-3 text-success" />
+              ) : (
+                <AlertTriangle className="w-3 h-3 text-bonk" />
+              )}
+              <span
+                className={cn(
+                  "text-[10px] font-bold tracking-wide",
+                  data.coverage.gaps.length === 0 ? "text-success" : "text-bonk"
+                )}
+              >
+                {data.coverage.gaps.length === 0
+                  ? "LIVE DATA"
+                  : `${data.coverage.percent.toFixed(0)}% COVERAGE · ${data.coverage.gaps.length} GAPS`}
               </span>
             </div>
-          ) : null}
+          )}
 
           {/* Pool count badge */}
           {data?.poolCount && data.poolCount > 0 && (
@@ -353,24 +411,45 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
           )}
         </div>
 
-        {/* Period Selector */}
-        <div className="flex items-center gap-1 bg-white/[0.03] border border-white/[0.06] rounded-lg p-1">
-          {PERIODS.map((p) => (
-            <motion.button
-              key={p.id}
-              whileHover={{ scale: 1.02 }}
-              whileTap={{ scale: 0.98 }}
-              onClick={() => setPeriod(p.id)}
-              className={cn(
-                "px-4 py-1.5 rounded-md font-mono text-xs font-bold transition-all",
-                period === p.id
-                  ? "bg-bonk text-black"
-                  : "text-white/50 hover:text-white hover:bg-white/[0.04]"
-              )}
-            >
-              {p.label}
-            </motion.button>
-          ))}
+        <div className="flex items-center gap-2">
+          {/* Raw / organic toggle */}
+          <div className="flex items-center gap-1 bg-white/[0.03] border border-white/[0.06] rounded-lg p-1">
+            {(["raw", "organic"] as const).map((mode) => (
+              <button
+                key={mode}
+                onClick={() => setVolumeMode(mode)}
+                title={mode === "organic" ? "Excludes volume flagged as wash or bot trading (estimate)" : undefined}
+                className={cn(
+                  "px-3 py-1.5 rounded-md font-mono text-xs font-bold transition-all uppercase",
+                  volumeMode === mode
+                    ? "bg-bonk text-black"
+                    : "text-white/50 hover:text-white hover:bg-white/[0.04]"
+                )}
+              >
+                {mode}
+              </button>
+            ))}
+          </div>
+
+          {/* Period Selector */}
+          <div className="flex items-center gap-1 bg-white/[0.03] border border-white/[0.06] rounded-lg p-1">
+            {PERIODS.map((p) => (
+              <motion.button
+                key={p.id}
+                whileHover={{ scale: 1.02 }}
+                whileTap={{ scale: 0.98 }}
+                onClick={() => setPeriod(p.id)}
+                className={cn(
+                  "px-4 py-1.5 rounded-md font-mono text-xs font-bold transition-all",
+                  period === p.id
+                    ? "bg-bonk text-black"
+                    : "text-white/50 hover:text-white hover:bg-white/[0.04]"
+                )}
+              >
+                {p.label}
+              </motion.button>
+            ))}
+          </div>
         </div>
       </div>
 
@@ -380,13 +459,13 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
         <div className="flex flex-col md:flex-row md:items-center justify-between gap-4 mb-6">
           <div>
             <p className="text-white/40 text-[10px] font-mono tracking-[0.15em] uppercase mb-1">
-              TOTAL VOLUME ({period.toUpperCase()})
+              {isOrganic ? "ORGANIC VOLUME, EST. (LAST 24H)" : `TOTAL VOLUME (${period.toUpperCase()})`}
             </p>
             <div className="flex items-baseline gap-3">
               <span className="text-3xl font-mono font-black text-white">
                 ${displayVolume > 0 ? formatCompactNumber(displayVolume) : "—"}
               </span>
-              {data && (
+              {data && !isOrganic && (
                 <span className={cn(
                   "flex items-center gap-1 text-sm font-mono font-bold",
                   isPositive ? "text-success" : "text-danger"
@@ -399,21 +478,21 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
           </div>
 
           {/* Mini Stats */}
-          {data && (
+          {stats && (
             <div className="flex items-center gap-4 text-xs font-mono">
               <div className="text-center">
                 <p className="text-white/30 mb-0.5">Peak</p>
-                <p className="text-white font-bold">{formatNumber(data.stats.peak)}</p>
+                <p className="text-white font-bold">{formatNumber(stats.peak)}</p>
               </div>
               <div className="w-px h-8 bg-white/10" />
               <div className="text-center">
                 <p className="text-white/30 mb-0.5">Low</p>
-                <p className="text-white font-bold">{formatNumber(data.stats.low)}</p>
+                <p className="text-white font-bold">{formatNumber(stats.low)}</p>
               </div>
               <div className="w-px h-8 bg-white/10" />
               <div className="text-center">
                 <p className="text-white/30 mb-0.5">Avg</p>
-                <p className="text-white font-bold">{formatNumber(data.stats.average)}</p>
+                <p className="text-white font-bold">{formatNumber(stats.average)}</p>
               </div>
             </div>
           )}
@@ -431,8 +510,8 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
           <div className="h-56 flex items-center justify-center text-danger font-mono text-sm">
             Failed to load volume history
           </div>
-        ) : data && data.history.length > 0 ? (
-          <VolumeChart data={data.history} isPositive={isPositive} period={period} />
+        ) : history.length > 0 ? (
+          <VolumeChart data={history} isPositive={isPositive} period={period} />
         ) : (
           <div className="h-56 flex items-center justify-center text-white/30 font-mono text-sm">
             No volume data available
@@ -452,7 +531,9 @@ export function VolumeEvolution({ currentVolume }: VolumeEvolutionProps) {
               <p className="text-white/30 text-[10px] font-mono uppercase tracking-wider mb-1">
                 Data Points
               </p>
-              <p className="text-white font-mono font-bold">{data.dataPoints}</p>
+              <p className="text-white font-mono font-bold">
+                {data.coverage ? `${data.coverage.covered}/${data.coverage.expected}` : data.dataPoints}
+              </p>
             </div>
             <div className="text-center">
               <p className="text-white/30 text-[10px] font-mono uppercase tracking-wider mb-1">
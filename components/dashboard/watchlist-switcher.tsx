@@ -0,0 +1,135 @@
+"use client"
+
+import { useState, useRef, useCallback } from "react"
+import { Share2, Download, Upload, Link2, Trash2, Check, Lock } from "lucide-react"
+import type { useWatchlists } from "@/hooks/use-tokens"
+
+interface WatchlistSwitcherProps {
+  watchlists: ReturnType<typeof useWatchlists>
+}
+
+const buttonClass =
+  "p-1.5 rounded-md bg-white/[0.03] border border-white/[0.06] text-white/50 hover:text-white hover:border-bonk/30 transition-all"
+
+export function WatchlistSwitcher({ watchlists }: WatchlistSwitcherProps) {
+  const [copied, setCopied] = useState(false)
+  const fileInputRef = useRef<HTMLInputElement>(null)
+  const {
+    saved,
+    activeId,
+    isLocal,
+    canEdit,
+    setActive,
+    addShared,
+    shareLocal,
+    removeSaved,
+    exportActive,
+    importToLocal,
+  } = watchlists
+
+  const copyLink = useCallback(async (url: string) => {
+    try {
+      await navigator.clipboard.writeText(url)
+      setCopied(true)
+      setTimeout(() => setCopied(false), 2000)
+    } catch {
+      window.prompt("Copy this link:", url)
+    }
+  }, [])
+
+  const handleShare = useCallback(async () => {
+    if (!isLocal) {
+      await copyLink(`${window.location.origin}/?watchlist=${activeId}`)
+      return
+    }
+
+    const name = window.prompt("Name for the shared watchlist:", "My watchlist")
+    if (name === null) return
+    const url = await shareLocal(name)
+    if (url) {
+      await copyLink(url)
+    } else {
+      alert("Failed to share watchlist. Please try again.")
+    }
+  }, [isLocal, activeId, shareLocal, copyLink])
+
+  const handleAddLink = useCallback(() => {
+    const input = window.prompt("Paste a shared watchlist link:")
+    if (input && !addShared(input)) {
+      alert("That doesn't look like a watchlist link.")
+    }
+  }, [addShared])
+
+  const handleExport = useCallback(() => {
+    const blob = new Blob([exportActive()], { type: "application/json" })
+    const link = document.createElement("a")
+    link.href = URL.createObjectURL(blob)
+    link.download = "bonkusd1-watchlist.json"
+    document.body.appendChild(link)
+    link.click()
+    document.body.removeChild(link)
+    URL.revokeObjectURL(link.href)
+  }, [exportActive])
+
+  const handleImport = useCallback(async (file: File) => {
+    try {
+      const added = importToLocal(await file.text())
+      alert(`Imported ${added} token${added === 1 ? "" : "s"} into your local watchlist.`)
+    } catch {
+      alert("Couldn't read that watchlist file.")
+    }
+  }, [importToLocal])
+
+  return (
+    <div className="flex items-center gap-1.5 ml-2 pl-3 border-l border-white/10">
+      <select
+        value={activeId}
+        onChange={(e) => setActive(e.target.value)}
+        className="bg-white/[0.03] border border-white/[0.06] rounded-md px-2 py-1.5 text-white/80 font-mono text-[11px] focus:outline-none focus:border-bonk/50"
+      >
+        <option value="local" className="bg-[#0a0a0c]">Local</option>
+        {saved.map((w) => (
+          <option key={w.slug} value={w.slug} className="bg-[#0a0a0c]">
+            {w.name}{w.editKey ? "" : " (view only)"}
+          </option>
+        ))}
+      </select>
+
+      {!canEdit && (
+        <span title="View only">
+          <Lock size={12} className="text-white/30" />
+        </span>
+      )}
+
+      <button onClick={handleShare} className={buttonClass} title={isLocal ? "Share as link" : "Copy share link"}>
+        {copied ? <Check size={14} className="text-success" /> : <Share2 size={14} />}
+      </button>
+      <button onClick={handleAddLink} className={buttonClass} title="Open shared link">
+        <Link2 size={14} />
+      </button>
+      <button onClick={handleExport} className={buttonClass} title="Export">
+        <Download size={14} />
+      </button>
+      <button onClick={() => fileInputRef.current?.click()} className={buttonClass} title="Import into local">
+        <Upload size={14} />
+      </button>
+      {!isLocal && (
+        <button onClick={() => removeSaved(activeId)} className={buttonClass} title="Remove from this device">
+          <Trash2 size={14} />
+        </button>
+      )}
+
+      <input
+        ref={fileInputRef}
+        type="file"
+        accept="application/json,.json"
+        className="hidden"
+        onChange={(e) => {
+          const file = e.target.files?.[0]
+          if (file) handleImport(file)
+          e.target.value = ""
+        }}
+      />
+    </div>
+  )
+}
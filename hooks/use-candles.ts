@@ -0,0 +1,81 @@
+"use client"
+
+import { useMemo, useRef } from "react"
+import { useInView } from "framer-motion"
+import useSWR from "swr"
+import type { Candle, CandleInterval } from "@/lib/candles"
+
+interface CandlesResponse {
+  mint: string
+  interval: CandleInterval
+  candles: Candle[]
+  sources?: { snapshots: number; geckoterminal: number }
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<CandlesResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// TOKEN CANDLES HOOK
+// ============================================
+
+interface UseTokenCandlesOptions {
+  interval?: CandleInterval
+  points?: number // Keep only the most recent N candles
+  pool?: string // Pair address, saves the server a pool lookup
+  enabled?: boolean // false holds off fetching and polling
+}
+
+/**
+ * Real OHLCV candles for a token from /api/tokens/[mint]/candles
+ * `closes` is empty until data arrives - callers render no line rather than a made-up one
+ */
+export function useTokenCandles(mint: string | null, options: UseTokenCandlesOptions = {}) {
+  const { interval = "1h", points = 24, pool, enabled = true } = options
+
+  const key = mint && enabled
+    ? `/api/tokens/${mint}/candles?interval=${interval}${pool ? `&pool=${pool}` : ""}`
+    : null
+
+  const { data, error, isLoading } = useSWR(key, fetcher, {
+    refreshInterval: 60000,
+    revalidateOnFocus: false,
+    dedupingInterval: 30000,
+    errorRetryCount: 2,
+  })
+
+  const candles = useMemo(() => (data?.candles || []).slice(-points), [data, points])
+  const closes = useMemo(() => candles.map(c => c.close), [candles])
+
+  return {
+    candles,
+    closes,
+    isLoading,
+    isError: !!error,
+  }
+}
+
+// ============================================
+// VISIBLE-ROW CANDLES HOOK
+// ============================================
+
+/**
+ * useTokenCandles for list sparklines - attach `ref` to the chart's container
+ * Only rows near the viewport fetch and poll, so a full page of tokens doesn't
+ * fan out into one GeckoTerminal lookup per row. Scrolling back shows the SWR cache.
+ */
+export function useVisibleTokenCandles(mint: string | null, options: Omit<UseTokenCandlesOptions, "enabled"> = {}) {
+  const ref = useRef<HTMLDivElement>(null)
+  const isVisible = useInView(ref, { margin: "200px" })
+
+  return {
+    ref,
+    ...useTokenCandles(mint, { ...options, enabled: isVisible }),
+  }
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import useSWR from "swr"
+import type { CreatorProfile } from "@/lib/creator-profile"
+
+interface CreatorResponse {
+  mint: string
+  profile: CreatorProfile | null
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<CreatorResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// CREATOR PROFILE HOOK
+// ============================================
+
+/**
+ * Creator wallet, launch history and dev sells from /api/tokens/[mint]/creator
+ */
+export function useCreatorProfile(mint: string | null) {
+  const { data, error, isLoading } = useSWR(mint ? `/api/tokens/${mint}/creator` : null, fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 5 * 60 * 1000,
+    errorRetryCount: 1,
+  })
+
+  return {
+    profile: data?.profile ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
@@ -0,0 +1,39 @@
+"use client"
+
+import useSWR from "swr"
+import type { GraduatedToken } from "@/lib/graduations"
+
+interface GraduationsResponse {
+  graduations: GraduatedToken[]
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<GraduationsResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// JUST GRADUATED HOOK
+// ============================================
+
+/**
+ * Most recent graduations (last 7 days) from /api/graduations, newest first
+ */
+export function useGraduations(limit = 20) {
+  const { data, error, isLoading } = useSWR(`/api/graduations?limit=${limit}`, fetcher, {
+    refreshInterval: 60 * 1000,
+    revalidateOnFocus: false,
+    dedupingInterval: 30 * 1000,
+    errorRetryCount: 2,
+  })
+
+  return {
+    graduations: data?.graduations ?? [],
+    isLoading,
+    isError: !!error,
+  }
+}
@@ -0,0 +1,40 @@
+"use client"
+
+import useSWR from "swr"
+import type { HolderDistribution } from "@/lib/holder-fetcher"
+
+interface HoldersResponse {
+  mint: string
+  distribution: HolderDistribution | null
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<HoldersResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// HOLDER DISTRIBUTION HOOK
+// ============================================
+
+/**
+ * Holder concentration for a token from /api/tokens/[mint]/holders
+ * The server scans every token account once per hour, so no polling here
+ */
+export function useHolderDistribution(mint: string | null) {
+  const { data, error, isLoading } = useSWR(mint ? `/api/tokens/${mint}/holders` : null, fetcher, {
+    revalidateOnFocus: false,
+    dedupingInterval: 10 * 60 * 1000,
+    errorRetryCount: 1,
+  })
+
+  return {
+    distribution: data?.distribution ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
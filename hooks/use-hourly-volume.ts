@@ -0,0 +1,42 @@
+"use client"
+
+import useSWR from "swr"
+import type { HourlyVolumePoint, HourlyVolumeResult } from "@/lib/hourly-volume"
+
+interface HourlyVolumeResponse {
+  hours: HourlyVolumePoint[]
+  sources?: HourlyVolumeResult["sources"]
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<HourlyVolumeResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// HOURLY VOLUME HOOK
+// ============================================
+
+/**
+ * Real hourly ecosystem volume from /api/volume-history/hourly, oldest first
+ * Hours with no data come back with `volume: null`
+ */
+export function useHourlyVolume(hours = 48) {
+  const { data, error, isLoading } = useSWR(`/api/volume-history/hourly?hours=${hours}`, fetcher, {
+    refreshInterval: 2 * 60 * 1000,
+    revalidateOnFocus: false,
+    dedupingInterval: 60 * 1000,
+    errorRetryCount: 2,
+  })
+
+  return {
+    hours: data?.hours ?? [],
+    sources: data?.sources ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
@@ -1,43 +1,35 @@
 "use client"
 
-import { useState, useEffect, useCallback, useRef } from "react"
+import { useState, useEffect, useCallback, useRef, useMemo } from "react"
+import useSWR from "swr"
+import {
+  createLivePriceProvider,
+  type LivePriceProviderId,
+  type PoolVaults,
+  type PriceUpdate,
+} from "@/lib/live-prices"
+import { shortenAddress } from "@/lib/utils"
+
+export type { PriceUpdate } from "@/lib/live-prices"
 
 /**
- * Real-time price update via WebSocket
- * Uses Birdeye's public WebSocket API for Solana token prices
- *
- * Note: Birdeye free tier has limitations. For production, consider:
- * - Adding API key authentication
- * - Using their paid WebSocket endpoint for higher rate limits
+ * Real-time price updates via WebSocket
+ * The provider (Birdeye, Solana RPC vault subscriptions or a local mock server)
+ * is pluggable - see lib/live-prices.ts for the adapters.
  */
 
 // ============================================
 // TYPES
 // ============================================
 
-export interface PriceUpdate {
-  address: string
-  price: number
-  priceChange24h?: number
-  timestamp: number
-}
-
 export interface WebSocketState {
   connected: boolean
   connecting: boolean
   error: string | null
   lastMessage: number | null
   subscriptions: Set<string>
-}
-
-interface BirdeyePriceMessage {
-  type: "PRICE_DATA"
-  data: {
-    address: string
-    value: number
-    priceChange24h?: number
-    updateUnixTime: number
-  }
+  provider: LivePriceProviderId
+  providerLabel: string
 }
 
 // ============================================
@@ -46,6 +38,7 @@ interface BirdeyePriceMessage {
 
 interface UseLivePricesOptions {
   enabled?: boolean
+  provider?: LivePriceProviderId
   tokenAddresses: string[]
   onPriceUpdate?: (update: PriceUpdate) => void
   reconnectDelay?: number
@@ -60,21 +53,33 @@ interface UseLivePricesReturn {
   disconnect: () => void
 }
 
+const vaultsFetcher = async (url: string): Promise<Record<string, PoolVaults>> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to fetch pool vaults")
+  const data = await res.json()
+  return data.vaults || {}
+}
+
 export function useLivePrices(options: UseLivePricesOptions): UseLivePricesReturn {
   const {
     enabled = true,
+    provider: providerId = "birdeye",
     tokenAddresses,
     onPriceUpdate,
     reconnectDelay = 3000,
     maxReconnectAttempts = 5,
   } = options
 
+  const provider = useMemo(() => createLivePriceProvider(providerId), [providerId])
+
   const [state, setState] = useState<WebSocketState>({
     connected: false,
     connecting: false,
     error: null,
     lastMessage: null,
     subscriptions: new Set(),
+    provider: provider.id,
+    providerLabel: provider.label,
   })
 
   const [prices, setPrices] = useState<Map<string, PriceUpdate>>(new Map())
@@ -84,6 +89,26 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
   const reconnectTimeoutRef = useRef<NodeJS.Timeout | null>(null)
   const subscriptionsRef = useRef<Set<string>>(new Set())
 
+  // Vault addresses are only needed by providers that read pool reserves
+  const { data: vaults } = useSWR(
+    enabled && provider.requiresVaults ? "/api/tokens/vaults" : null,
+    vaultsFetcher,
+    { revalidateOnFocus: false, refreshInterval: 10 * 60 * 1000 }
+  )
+  const vaultsRef = useRef<Record<string, PoolVaults>>({})
+  vaultsRef.current = vaults || {}
+
+  const sendSubscribe = useCallback((ws: WebSocket, addresses: string[]) => {
+    const targets = addresses.map(address => ({ address, vaults: vaultsRef.current[address] }))
+    for (const message of provider.subscribe(targets)) {
+      ws.send(message)
+    }
+  }, [provider])
+
+  useEffect(() => {
+    setState(prev => ({ ...prev, provider: provider.id, providerLabel: provider.label }))
+  }, [provider])
+
   // Clear reconnect timeout on unmount
   useEffect(() => {
     return () => {
@@ -101,13 +126,12 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
     setState(prev => ({ ...prev, connecting: true, error: null }))
 
     try {
-      // Birdeye public WebSocket endpoint
-      // Note: For production, use authenticated endpoint with API key
-      const ws = new WebSocket("wss://public-api.birdeye.so/socket/solana")
+      const ws = new WebSocket(provider.url)
 
       ws.onopen = () => {
-        console.log("[WebSocket] Connected to Birdeye")
+        console.log(`[WebSocket] Connected to ${provider.label}`)
         reconnectAttemptsRef.current = 0
+        provider.reset()
         setState(prev => ({
           ...prev,
           connected: true,
@@ -117,34 +141,26 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
 
         // Subscribe to any pending addresses
         if (subscriptionsRef.current.size > 0) {
-          const addresses = Array.from(subscriptionsRef.current)
-          ws.send(JSON.stringify({
-            type: "SUBSCRIBE_PRICE",
-            data: { addresses }
-          }))
+          sendSubscribe(ws, Array.from(subscriptionsRef.current))
         }
       }
 
       ws.onmessage = (event) => {
         try {
-          const message = JSON.parse(event.data) as BirdeyePriceMessage
-
-          if (message.type === "PRICE_DATA" && message.data) {
-            const update: PriceUpdate = {
-              address: message.data.address,
-              price: message.data.value,
-              priceChange24h: message.data.priceChange24h,
-              timestamp: message.data.updateUnixTime * 1000,
-            }
+          const updates = provider.parse(String(event.data))
+          if (updates.length === 0) return
 
-            setPrices(prev => {
-              const next = new Map(prev)
+          setPrices(prev => {
+            const next = new Map(prev)
+            for (const update of updates) {
               next.set(update.address, update)
-              return next
-            })
+            }
+            return next
+          })
 
-            setState(prev => ({ ...prev, lastMessage: Date.now() }))
+          setState(prev => ({ ...prev, lastMessage: Date.now() }))
 
+          for (const update of updates) {
             onPriceUpdate?.(update)
           }
         } catch (err) {
@@ -191,7 +207,7 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
         error: "Failed to connect",
       }))
     }
-  }, [enabled, maxReconnectAttempts, onPriceUpdate, reconnectDelay])
+  }, [enabled, provider, sendSubscribe, maxReconnectAttempts, onPriceUpdate, reconnectDelay])
 
   const disconnect = useCallback(() => {
     if (reconnectTimeoutRef.current) {
@@ -201,6 +217,7 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
       wsRef.current.close(1000, "User disconnect")
       wsRef.current = null
     }
+    subscriptionsRef.current = new Set()
     setState(prev => ({
       ...prev,
       connected: false,
@@ -217,12 +234,9 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
     }))
 
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: "SUBSCRIBE_PRICE",
-        data: { addresses }
-      }))
+      sendSubscribe(wsRef.current, addresses)
     }
-  }, [])
+  }, [sendSubscribe])
 
   const unsubscribe = useCallback((addresses: string[]) => {
     addresses.forEach(addr => subscriptionsRef.current.delete(addr))
@@ -232,12 +246,11 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
     }))
 
     if (wsRef.current?.readyState === WebSocket.OPEN) {
-      wsRef.current.send(JSON.stringify({
-        type: "UNSUBSCRIBE_PRICE",
-        data: { addresses }
-      }))
+      for (const message of provider.unsubscribe(addresses)) {
+        wsRef.current.send(message)
+      }
     }
-  }, [])
+  }, [provider])
 
   // Connect on mount if enabled
   useEffect(() => {
@@ -250,12 +263,12 @@ export function useLivePrices(options: UseLivePricesOptions): UseLivePricesRetur
     }
   }, [enabled, connect, disconnect])
 
-  // Subscribe to token addresses when they change
+  // Subscribe to token addresses when they change (and once vaults are known)
   useEffect(() => {
     if (tokenAddresses.length > 0 && state.connected) {
       subscribe(tokenAddresses)
     }
-  }, [tokenAddresses, state.connected, subscribe])
+  }, [tokenAddresses, state.connected, vaults, subscribe])
 
   return {
     state,
@@ -350,62 +363,117 @@ export function useDataFreshness(options: UseDataFreshnessOptions): DataFreshnes
 // ============================================
 
 export interface NewPoolInfo {
-  address: string
+  address: string // Pool address
+  tokenMint: string
   symbol: string
   name: string
+  openTime: number | null
   detectedAt: number
 }
 
 interface UseNewPoolDetectionOptions {
   enabled?: boolean
-  currentTokens: Array<{ address: string; symbol: string; name: string }>
   onNewPool?: (pool: NewPoolInfo) => void
 }
 
+interface PoolEventResponse {
+  poolAddress: string
+  tokenMint: string
+  symbol: string | null
+  name: string | null
+  openTime: number | null
+  detectedAt: number
+}
+
+const LAST_VISIT_KEY = "bonkusd1_last_visit"
+
+const poolEventsFetcher = async (url: string): Promise<PoolEventResponse[]> => {
+  const res = await fetch(url)
+  if (!res.ok) throw new Error("Failed to fetch pool events")
+  const data = await res.json()
+  return data.events || []
+}
+
+function readLastVisit(): number {
+  try {
+    const stored = Number(localStorage.getItem(LAST_VISIT_KEY))
+    return Number.isFinite(stored) && stored > 0 ? stored : Date.now()
+  } catch {
+    return Date.now()
+  }
+}
+
+function writeLastVisit(timestamp: number) {
+  try {
+    localStorage.setItem(LAST_VISIT_KEY, String(timestamp))
+  } catch {
+    // Storage unavailable (private mode) - next visit starts fresh
+  }
+}
+
+/**
+ * New pools from the server-side pool event log (/api/pools/events)
+ * Shows everything detected since the last visit, including pools that appeared
+ * while the tab was closed. The visit ends when the page is hidden.
+ */
 export function useNewPoolDetection(options: UseNewPoolDetectionOptions) {
-  const { enabled = true, currentTokens, onNewPool } = options
+  const { enabled = true, onNewPool } = options
 
-  const [newPools, setNewPools] = useState<NewPoolInfo[]>([])
-  const knownAddressesRef = useRef<Set<string>>(new Set())
-  const isInitializedRef = useRef(false)
+  // Fixed for the session - a first visit only shows pools from here on
+  const [since, setSince] = useState<number | null>(null)
+  const [dismissed, setDismissed] = useState<Set<string>>(new Set())
+  const notifiedRef = useRef<Set<string>>(new Set())
 
   useEffect(() => {
-    if (!enabled || currentTokens.length === 0) return
+    setSince(readLastVisit())
 
-    // On first load, just populate known addresses without triggering "new" events
-    if (!isInitializedRef.current) {
-      knownAddressesRef.current = new Set(currentTokens.map(t => t.address))
-      isInitializedRef.current = true
-      return
+    const handleHide = () => {
+      if (document.visibilityState === "hidden") writeLastVisit(Date.now())
     }
+    const handlePageHide = () => writeLastVisit(Date.now())
 
-    // Check for new tokens
-    const newTokens: NewPoolInfo[] = []
-    for (const token of currentTokens) {
-      if (!knownAddressesRef.current.has(token.address)) {
-        knownAddressesRef.current.add(token.address)
-        const newPool: NewPoolInfo = {
-          address: token.address,
-          symbol: token.symbol,
-          name: token.name,
-          detectedAt: Date.now(),
-        }
-        newTokens.push(newPool)
-        onNewPool?.(newPool)
-      }
+    document.addEventListener("visibilitychange", handleHide)
+    window.addEventListener("pagehide", handlePageHide)
+    return () => {
+      document.removeEventListener("visibilitychange", handleHide)
+      window.removeEventListener("pagehide", handlePageHide)
     }
+  }, [])
+
+  const { data: events } = useSWR(
+    enabled && since !== null ? `/api/pools/events?since=${since}` : null,
+    poolEventsFetcher,
+    { revalidateOnFocus: false, refreshInterval: 60 * 1000, dedupingInterval: 30 * 1000 }
+  )
+
+  const newPools = useMemo<NewPoolInfo[]>(() =>
+    (events || [])
+      .filter(e => !dismissed.has(e.poolAddress))
+      .map(e => ({
+        address: e.poolAddress,
+        tokenMint: e.tokenMint,
+        symbol: e.symbol || shortenAddress(e.tokenMint),
+        name: e.name || "Unknown token",
+        openTime: e.openTime,
+        detectedAt: e.detectedAt,
+      })),
+    [events, dismissed]
+  )
 
-    if (newTokens.length > 0) {
-      setNewPools(prev => [...newTokens, ...prev].slice(0, 10)) // Keep last 10
+  useEffect(() => {
+    for (const pool of newPools) {
+      if (notifiedRef.current.has(pool.address)) continue
+      notifiedRef.current.add(pool.address)
+      onNewPool?.(pool)
     }
-  }, [currentTokens, enabled, onNewPool])
+  }, [newPools, onNewPool])
 
   const clearNewPools = useCallback(() => {
-    setNewPools([])
-  }, [])
+    setDismissed(prev => new Set([...prev, ...newPools.map(p => p.address)]))
+  }, [newPools])
 
   const dismissPool = useCallback((address: string) => {
-    setNewPools(prev => prev.filter(p => p.address !== address))
+    setDismissed(prev => new Set([...prev, address]))
   }, [])
 
   return {
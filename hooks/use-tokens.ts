@@ -3,6 +3,8 @@
 import { useState, useEffect, useCallback, useRef, useMemo } from "react"
 import useSWR from "swr"
 import type { Token, ApiResponse, StatusState, MetricsSnapshot } from "@/lib/types"
+import { evaluateAlertRules, type AlertRule, type AlertEvent } from "@/lib/alert-rules"
+import type { TokenDiff } from "@/lib/token-feed"
 
 const CACHE_KEY = "bonkusd1_tokens_v6"
 const LOCAL_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
@@ -10,6 +12,38 @@ const LOCAL_CACHE_TTL = 5 * 60 * 1000 // 5 minutes
 // Use v2 API (on-chain discovery) if enabled
 const USE_V2_API = process.env.NEXT_PUBLIC_USE_V2_API === "true"
 const API_ENDPOINT = USE_V2_API ? "/api/tokens-v2" : "/api/tokens"
+// Live diffs are only served for the v1 feed
+const STREAM_ENDPOINT = USE_V2_API ? null : "/api/tokens/stream"
+
+// ============================================
+// STREAM HELPERS
+// ============================================
+
+function applyTokenDiff(prev: ApiResponse | undefined, diff: TokenDiff): ApiResponse {
+  const removed = new Set(diff.removed)
+  const updates = new Map(diff.updated.map(u => [u.address, u]))
+
+  const tokens = (prev?.tokens || [])
+    .filter(t => !removed.has(t.address))
+    .map(t => {
+      const update = updates.get(t.address)
+      return update ? { ...t, ...update } : t
+    })
+
+  const known = new Set(tokens.map(t => t.address))
+  for (const token of diff.added) {
+    if (!known.has(token.address)) tokens.push(token)
+  }
+
+  return {
+    ...prev,
+    tokens,
+    cached: false,
+    stale: false,
+    timestamp: diff.timestamp,
+    raydiumTotalVolume: diff.raydiumTotalVolume ?? prev?.raydiumTotalVolume,
+  }
+}
 
 // ============================================
 // LOCAL STORAGE HELPERS
@@ -84,16 +118,18 @@ export function useTokens(options: UseTokensOptions = {}): UseTokensReturn {
   const [lastRefresh, setLastRefresh] = useState<Date | null>(null)
   const [isRefreshing, setIsRefreshing] = useState(false)
   const [optimisticUpdates, setOptimisticUpdates] = useState<Map<string, { price: number; change24h?: number; timestamp: number }>>(new Map())
+  const [isStreaming, setIsStreaming] = useState(false)
   const prevTokensRef = useRef<Map<string, Token>>(new Map())
   const audioRef = useRef<HTMLAudioElement | null>(null)
 
   // SWR with stale-while-revalidate
   // Uses v2 API (on-chain discovery) if NEXT_PUBLIC_USE_V2_API=true
+  // Polling pauses while the SSE stream is connected
   const { data, error, isLoading, mutate } = useSWR<ApiResponse>(
     API_ENDPOINT,
     fetcher,
     {
-      refreshInterval,
+      refreshInterval: isStreaming ? 0 : refreshInterval,
       revalidateOnFocus: false,
       revalidateOnReconnect: true,
       dedupingInterval: 5000,
@@ -108,6 +144,53 @@ export function useTokens(options: UseTokensOptions = {}): UseTokensReturn {
     }
   )
 
+  // Live updates over SSE, falls back to polling when the stream drops
+  useEffect(() => {
+    if (!STREAM_ENDPOINT || typeof EventSource === "undefined") return
+
+    const source = new EventSource(STREAM_ENDPOINT)
+
+    const handleSnapshot = (e: MessageEvent) => {
+      try {
+        const snapshot = JSON.parse(e.data) as { tokens: Token[]; timestamp: number; raydiumTotalVolume?: number }
+        if (snapshot.tokens.length === 0) return
+        mutate(prev => ({
+          ...prev,
+          tokens: snapshot.tokens,
+          cached: false,
+          stale: false,
+          timestamp: snapshot.timestamp,
+          raydiumTotalVolume: snapshot.raydiumTotalVolume ?? prev?.raydiumTotalVolume,
+        }), { revalidate: false })
+        saveLocalCache(snapshot.tokens)
+        setLastRefresh(new Date())
+      } catch {
+        // Ignore malformed events
+      }
+    }
+
+    const handleDiff = (e: MessageEvent) => {
+      try {
+        const diff = JSON.parse(e.data) as TokenDiff
+        mutate(prev => applyTokenDiff(prev, diff), { revalidate: false })
+        setLastRefresh(new Date())
+      } catch {
+        // Ignore malformed events
+      }
+    }
+
+    source.addEventListener("snapshot", handleSnapshot)
+    source.addEventListener("diff", handleDiff)
+    source.onopen = () => setIsStreaming(true)
+    // EventSource reconnects on its own; poll in the meantime
+    source.onerror = () => setIsStreaming(false)
+
+    return () => {
+      source.close()
+      setIsStreaming(false)
+    }
+  }, [mutate])
+
   const tokens = useMemo(() => {
     const rawTokens = data?.tokens || []
 
@@ -319,7 +402,340 @@ export function useFavorites() {
     return favorites.has(address)
   }, [favorites])
 
-  return { favorites, toggleFavorite, isFavorite, count: favorites.size }
+  // Replace the whole list (used by watchlist import)
+  const replaceFavorites = useCallback((addresses: string[]) => {
+    const next = new Set(addresses)
+    try {
+      localStorage.setItem(FAVORITES_KEY, JSON.stringify([...next]))
+    } catch {
+      // Silent fail
+    }
+    setFavorites(next)
+  }, [])
+
+  return { favorites, toggleFavorite, isFavorite, replaceFavorites, count: favorites.size }
+}
+
+// ============================================
+// SHARED WATCHLISTS HOOK
+// ============================================
+
+const WATCHLISTS_KEY = "bonkusd1_watchlists"
+const ACTIVE_WATCHLIST_KEY = "bonkusd1_active_watchlist"
+const LOCAL_WATCHLIST_ID = "local"
+const WATCHLIST_ERROR_MS = 4000
+
+export interface SavedWatchlist {
+  slug: string
+  name: string
+  editKey?: string // Only present on the device that created the list
+}
+
+interface SharedWatchlistResponse {
+  watchlist: { slug: string; name: string; tokens: string[]; updatedAt: number }
+}
+
+function loadJSON<T>(key: string, fallback: T): T {
+  if (typeof window === "undefined") return fallback
+  try {
+    const stored = localStorage.getItem(key)
+    if (stored) return JSON.parse(stored)
+  } catch {
+    // Silent fail
+  }
+  return fallback
+}
+
+function saveJSON(key: string, value: unknown) {
+  try {
+    localStorage.setItem(key, JSON.stringify(value))
+  } catch {
+    // Silent fail
+  }
+}
+
+// Accepts a bare slug or a share URL containing ?watchlist=<slug>
+function parseWatchlistSlug(input: string): string | null {
+  const trimmed = input.trim()
+  try {
+    const fromUrl = new URL(trimmed).searchParams.get("watchlist")
+    if (fromUrl) return fromUrl
+  } catch {
+    // Not a URL
+  }
+  return /^[A-Za-z0-9_-]{16,64}$/.test(trimmed) ? trimmed : null
+}
+
+/**
+ * Local favorites plus server-side shared watchlists
+ * The active list drives the WATCHLIST tab; toggles go to the active list.
+ * View-only shared lists refuse toggles and failed saves roll back, both via `error`
+ */
+export function useWatchlists() {
+  const { favorites, toggleFavorite, replaceFavorites } = useFavorites()
+  const [saved, setSaved] = useState<SavedWatchlist[]>(() => loadJSON(WATCHLISTS_KEY, []))
+  const [activeId, setActiveId] = useState<string>(() => loadJSON(ACTIVE_WATCHLIST_KEY, LOCAL_WATCHLIST_ID))
+
+  const activeSaved = saved.find(w => w.slug === activeId) || null
+  const isLocal = !activeSaved
+
+  const { data, mutate } = useSWR<SharedWatchlistResponse>(
+    activeSaved ? `/api/watchlists?slug=${activeSaved.slug}` : null,
+    async (url: string) => {
+      const res = await fetch(url)
+      if (!res.ok) throw new Error(`API Error: ${res.status}`)
+      return res.json()
+    },
+    { refreshInterval: 30000, revalidateOnFocus: true }
+  )
+
+  const updateSaved = useCallback((update: (prev: SavedWatchlist[]) => SavedWatchlist[]) => {
+    setSaved(prev => {
+      const next = update(prev)
+      saveJSON(WATCHLISTS_KEY, next)
+      return next
+    })
+  }, [])
+
+  const setActive = useCallback((id: string) => {
+    setActiveId(id)
+    saveJSON(ACTIVE_WATCHLIST_KEY, id)
+  }, [])
+
+  const addShared = useCallback((input: string, editKey?: string, name?: string) => {
+    const slug = parseWatchlistSlug(input)
+    if (!slug) return false
+    updateSaved(prev => prev.some(w => w.slug === slug)
+      ? prev
+      : [...prev, { slug, name: name || "Shared list", editKey }])
+    setActive(slug)
+    return true
+  }, [updateSaved, setActive])
+
+  // Open shared lists from ?watchlist=<slug> links
+  useEffect(() => {
+    if (typeof window === "undefined") return
+    const slug = new URL(window.location.href).searchParams.get("watchlist")
+    if (slug) addShared(slug)
+  }, [addShared])
+
+  // Keep the saved name in sync with the server copy
+  useEffect(() => {
+    if (!data?.watchlist || !activeSaved || data.watchlist.name === activeSaved.name) return
+    updateSaved(prev => prev.map(w => w.slug === data.watchlist.slug ? { ...w, name: data.watchlist.name } : w))
+  }, [data, activeSaved, updateSaved])
+
+  const addresses = useMemo(
+    () => isLocal ? [...favorites] : data?.watchlist.tokens || [],
+    [isLocal, favorites, data]
+  )
+  const addressSet = useMemo(() => new Set(addresses), [addresses])
+  const canEdit = isLocal || !!activeSaved?.editKey
+
+  // Last failed or refused toggle, cleared after a few seconds
+  const [error, setError] = useState<string | null>(null)
+  useEffect(() => {
+    if (!error) return
+    const timeout = setTimeout(() => setError(null), WATCHLIST_ERROR_MS)
+    return () => clearTimeout(timeout)
+  }, [error])
+
+  const toggle = useCallback(async (address: string) => {
+    if (isLocal) {
+      toggleFavorite(address)
+      return
+    }
+    if (!activeSaved?.editKey) {
+      setError("This shared watchlist is view only - switch to Local to star tokens")
+      return
+    }
+    if (!data?.watchlist) return
+
+    const previous = data.watchlist
+    const tokens = previous.tokens.includes(address)
+      ? previous.tokens.filter(a => a !== address)
+      : [...previous.tokens, address]
+
+    // Optimistic update, rolled back if the save fails
+    await mutate({ watchlist: { ...previous, tokens } }, { revalidate: false })
+    try {
+      const res = await fetch("/api/watchlists", {
+        method: "PUT",
+        headers: { "Content-Type": "application/json" },
+        body: JSON.stringify({ slug: activeSaved.slug, editKey: activeSaved.editKey, tokens }),
+      })
+      if (!res.ok) throw new Error(`API Error: ${res.status}`)
+    } catch (e) {
+      console.warn("[Watchlists] Save failed:", e)
+      await mutate({ watchlist: previous }, { revalidate: false })
+      setError(`Couldn't save "${activeSaved.name}" - change undone`)
+    } finally {
+      mutate()
+    }
+  }, [isLocal, activeSaved, data, mutate, toggleFavorite])
+
+  // Publish the local list as a new shared watchlist, returns the share URL
+  const shareLocal = useCallback(async (name: string): Promise<string | null> => {
+    const res = await fetch("/api/watchlists", {
+      method: "POST",
+      headers: { "Content-Type": "application/json" },
+      body: JSON.stringify({ name, tokens: [...favorites] }),
+    })
+    if (!res.ok) return null
+
+    const { watchlist, editKey } = await res.json()
+    addShared(watchlist.slug, editKey, watchlist.name)
+    return `${window.location.origin}/?watchlist=${watchlist.slug}`
+  }, [favorites, addShared])
+
+  const removeSaved = useCallback((slug: string) => {
+    updateSaved(prev => prev.filter(w => w.slug !== slug))
+    if (activeId === slug) setActive(LOCAL_WATCHLIST_ID)
+  }, [updateSaved, activeId, setActive])
+
+  const exportActive = useCallback((): string => {
+    return JSON.stringify({
+      name: activeSaved?.name || "Local watchlist",
+      tokens: addresses,
+      exportedAt: new Date().toISOString(),
+    }, null, 2)
+  }, [activeSaved, addresses])
+
+  // Merge an exported list into local favorites, keeping existing order first
+  const importToLocal = useCallback((json: string): number => {
+    const parsed = JSON.parse(json)
+    const tokens: unknown[] = Array.isArray(parsed) ? parsed : parsed?.tokens
+    if (!Array.isArray(tokens)) throw new Error("Invalid watchlist file")
+
+    const imported = tokens.filter((t): t is string => typeof t === "string")
+    replaceFavorites([...favorites, ...imported])
+    setActive(LOCAL_WATCHLIST_ID)
+    return imported.filter(t => !favorites.has(t)).length
+  }, [favorites, replaceFavorites, setActive])
+
+  return {
+    saved,
+    activeId: activeSaved ? activeSaved.slug : LOCAL_WATCHLIST_ID,
+    activeName: activeSaved?.name || "Local",
+    isLocal,
+    canEdit,
+    error,
+    addresses,
+    addressSet,
+    count: addresses.length,
+    setActive,
+    toggle,
+    addShared,
+    shareLocal,
+    removeSaved,
+    exportActive,
+    importToLocal,
+  }
+}
+
+// ============================================
+// ALERT RULES HOOK
+// ============================================
+
+const ALERT_RULES_KEY = "bonkusd1_alert_rules"
+const MAX_ALERT_TOASTS = 5
+
+function saveAlertRules(rules: AlertRule[]) {
+  try {
+    localStorage.setItem(ALERT_RULES_KEY, JSON.stringify(rules))
+  } catch {
+    // Silent fail
+  }
+}
+
+/**
+ * User-defined alert rules, evaluated on every token refresh
+ * Fires Web Notifications (when permitted) and returns in-app toast events
+ */
+export function useAlerts(tokens: Token[]) {
+  const [rules, setRules] = useState<AlertRule[]>(() => {
+    if (typeof window === "undefined") return []
+    try {
+      const stored = localStorage.getItem(ALERT_RULES_KEY)
+      if (stored) {
+        return JSON.parse(stored)
+      }
+    } catch {
+      // Silent fail
+    }
+    return []
+  })
+  const [events, setEvents] = useState<AlertEvent[]>([])
+  const [permission, setPermission] = useState<NotificationPermission | "unsupported">(() => {
+    if (typeof window === "undefined" || !("Notification" in window)) return "unsupported"
+    return Notification.permission
+  })
+  const rulesRef = useRef(rules)
+  rulesRef.current = rules
+
+  const updateRules = useCallback((update: (prev: AlertRule[]) => AlertRule[]) => {
+    setRules(prev => {
+      const next = update(prev)
+      saveAlertRules(next)
+      return next
+    })
+  }, [])
+
+  // Evaluate on every refresh
+  useEffect(() => {
+    if (tokens.length === 0 || rulesRef.current.length === 0) return
+
+    const result = evaluateAlertRules(rulesRef.current, tokens)
+    if (result.rules !== rulesRef.current) {
+      updateRules(() => result.rules)
+    }
+    if (result.events.length === 0) return
+
+    setEvents(prev => [...result.events, ...prev].slice(0, MAX_ALERT_TOASTS))
+
+    if (permission === "granted") {
+      for (const event of result.events) {
+        try {
+          new Notification(event.title, { body: event.message, tag: event.ruleId })
+        } catch {
+          // Some browsers only allow notifications from a service worker
+        }
+      }
+    }
+  }, [tokens, permission, updateRules])
+
+  const addRule = useCallback((rule: AlertRule) => {
+    updateRules(prev => [...prev, rule])
+  }, [updateRules])
+
+  const removeRule = useCallback((id: string) => {
+    updateRules(prev => prev.filter(r => r.id !== id))
+  }, [updateRules])
+
+  const toggleRule = useCallback((id: string) => {
+    updateRules(prev => prev.map(r => r.id === id ? { ...r, enabled: !r.enabled, armed: true } : r))
+  }, [updateRules])
+
+  const dismissEvent = useCallback((id: string) => {
+    setEvents(prev => prev.filter(e => e.id !== id))
+  }, [])
+
+  const requestPermission = useCallback(async () => {
+    if (typeof window === "undefined" || !("Notification" in window)) return
+    const result = await Notification.requestPermission()
+    setPermission(result)
+  }, [])
+
+  return {
+    rules,
+    events,
+    permission,
+    addRule,
+    removeRule,
+    toggleRule,
+    dismissEvent,
+    requestPermission,
+  }
 }
 
 // ============================================
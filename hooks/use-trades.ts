@@ -0,0 +1,47 @@
+"use client"
+
+import useSWR from "swr"
+import type { Transaction } from "@/lib/types"
+import type { WashTradingReport } from "@/lib/wash-trading"
+
+interface TradesResponse {
+  mint: string
+  pool: string | null
+  trades: Transaction[]
+  washTrading?: WashTradingReport | null
+  error?: string
+}
+
+const fetcher = async (url: string): Promise<TradesResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+// ============================================
+// RECENT TRADES HOOK
+// ============================================
+
+/**
+ * Recent swaps on a token's USD1 pool from /api/tokens/[mint]/trades
+ * Polls while mounted - the server only fetches transactions it hasn't seen
+ */
+export function useRecentTrades(mint: string | null, pool?: string) {
+  const url = mint ? `/api/tokens/${mint}/trades${pool ? `?pool=${pool}` : ""}` : null
+  const { data, error, isLoading } = useSWR(url, fetcher, {
+    refreshInterval: 10 * 1000,
+    revalidateOnFocus: false,
+    dedupingInterval: 5 * 1000,
+    errorRetryCount: 1,
+  })
+
+  return {
+    trades: data?.trades ?? [],
+    pool: data?.pool ?? null,
+    washTrading: data?.washTrading ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
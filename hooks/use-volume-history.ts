@@ -0,0 +1,53 @@
+"use client"
+
+import useSWR from "swr"
+import type { VolumeHistoryPeriod, VolumeHistoryResponse } from "@/lib/volume-history"
+
+const fetcher = async (url: string): Promise<VolumeHistoryResponse> => {
+  const res = await fetch(url)
+  if (!res.ok) {
+    throw new Error(`API Error: ${res.status}`)
+  }
+  return res.json()
+}
+
+const SWR_OPTIONS = {
+  refreshInterval: 60000,
+  revalidateOnFocus: false,
+  dedupingInterval: 30000,
+  errorRetryCount: 2,
+}
+
+// ============================================
+// VOLUME HISTORY HOOKS
+// ============================================
+
+/**
+ * Ecosystem USD1 volume history from /api/volume-history
+ */
+export function useVolumeHistory(period: VolumeHistoryPeriod) {
+  const { data, error, isLoading } = useSWR(`/api/volume-history?period=${period}`, fetcher, SWR_OPTIONS)
+
+  return {
+    data: data ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
+
+/**
+ * A token's volume history from /api/tokens/[mint]/volume-history
+ * Same shape as the ecosystem history, so the two can be compared bucket for bucket
+ */
+export function useTokenVolumeHistory(mint: string | null, period: VolumeHistoryPeriod, pool?: string) {
+  const key = mint
+    ? `/api/tokens/${mint}/volume-history?period=${period}${pool ? `&pool=${pool}` : ""}`
+    : null
+  const { data, error, isLoading } = useSWR(key, fetcher, SWR_OPTIONS)
+
+  return {
+    data: data ?? null,
+    isLoading,
+    isError: !!error,
+  }
+}
@@ -0,0 +1,73 @@
+import { describe, expect, it } from 'vitest'
+import { createAlertRule, evaluateAlertRules, type AlertRule } from '../alert-rules'
+import type { Token } from '../types'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const MINUTE = 60 * 1000
+const COOLDOWN = 15 * MINUTE
+const NOW = new Date('2025-10-20T12:00:00Z').getTime()
+
+function token(fields: Partial<Token>): Token {
+  return { address: MINT, symbol: 'HONK', price: 1, change1h: 0, volume24h: 0, liquidity: 10_000, ...fields } as Token
+}
+
+/**
+ * Run one rule through a series of token states, a minute apart
+ * Returns how many events each poll fired
+ */
+function poll(rule: AlertRule, states: Partial<Token>[], start = NOW): { rule: AlertRule; fired: number[] } {
+  const fired: number[] = []
+  let rules = [rule]
+  states.forEach((state, i) => {
+    const result = evaluateAlertRules(rules, [token(state)], start + i * MINUTE)
+    rules = result.rules
+    fired.push(result.events.length)
+  })
+  return { rule: rules[0], fired }
+}
+
+describe('evaluateAlertRules', () => {
+  it('fires once when the threshold is crossed', () => {
+    const rule = createAlertRule(token({}), 'price_above', 2, COOLDOWN)
+    const { rule: after, fired } = poll(rule, [{ price: 1.5 }, { price: 2.1 }, { price: 2.3 }])
+
+    expect(fired).toEqual([0, 1, 0])
+    expect(after).toMatchObject({ armed: false, lastFiredAt: NOW + MINUTE })
+  })
+
+  it('stays disarmed while the metric hovers inside the margin', () => {
+    const rule = createAlertRule(token({}), 'price_above', 2, 0)
+    // Re-arming needs the price back below 2 - 2% = 1.96
+    const { rule: after, fired } = poll(rule, [{ price: 2.1 }, { price: 1.97 }, { price: 2.05 }])
+
+    expect(fired).toEqual([1, 0, 0])
+    expect(after.armed).toBe(false)
+  })
+
+  it('re-arms past the margin and fires on the next crossing', () => {
+    const rule = createAlertRule(token({}), 'price_below', 1, 0)
+    const { fired } = poll(rule, [{ price: 0.9 }, { price: 1.05 }, { price: 0.95 }])
+
+    expect(fired).toEqual([1, 0, 1])
+  })
+
+  it('holds a re-armed rule until its cooldown has elapsed', () => {
+    const rule = createAlertRule(token({}), 'change1h_above', 10, COOLDOWN)
+    const states = [{ change1h: 12 }, { change1h: 5 }, { change1h: 12 }]
+    const { rule: held, fired } = poll(rule, states)
+
+    expect(fired).toEqual([1, 0, 0])
+    expect(held.armed).toBe(true)
+
+    const later = evaluateAlertRules([held], [token({ change1h: 12 })], NOW + COOLDOWN)
+    expect(later.events).toHaveLength(1)
+  })
+
+  it('measures liquidity drops from the liquidity when the rule was created', () => {
+    const rule = createAlertRule(token({ liquidity: 10_000 }), 'liquidity_drop', 30, COOLDOWN)
+    const { fired } = poll(rule, [{ liquidity: 8_000 }, { liquidity: 6_500 }])
+
+    expect(rule.baseline).toBe(10_000)
+    expect(fired).toEqual([0, 1])
+  })
+})
@@ -0,0 +1,129 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream, type FakeUpstreamCalls } from './helpers/fake-upstream'
+import bonkFunLaunchTx from './fixtures/bonkfun-launch-tx.json'
+import bonkFunLaunchCpiTx from './fixtures/bonkfun-launch-cpi-tx.json'
+import otherLaunchpadTx from './fixtures/other-launchpad-launch-tx.json'
+
+type VerificationModule = typeof import('../bonkfun-verification')
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const CREATOR = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin'
+
+/**
+ * RPC serving a mint history of `depth` signatures ending in `creationTx`
+ */
+function historyRpc(creationTx: any, depth = 3) {
+  const creationSignature: string = creationTx.transaction.signatures[0]
+  const signatures = Array.from({ length: depth }, (_, i) => ({
+    signature: i === depth - 1 ? creationSignature : `sig-${i}`,
+    err: null,
+  }))
+
+  return (method: string, params: any[]) => {
+    if (method === 'getSignaturesForAddress') {
+      const { limit, before } = params[1]
+      const start = before ? signatures.findIndex(s => s.signature === before) + 1 : 0
+      return signatures.slice(start, start + limit)
+    }
+    if (method === 'getTransaction') {
+      return params[0] === creationSignature ? creationTx : null
+    }
+    return undefined
+  }
+}
+
+async function load(): Promise<VerificationModule> {
+  vi.resetModules()
+  return import('../bonkfun-verification')
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('isBonkFunLaunchTransaction', () => {
+  it('accepts a LaunchLab launch with the BonkFun platform config', async () => {
+    const { isBonkFunLaunchTransaction } = await load()
+    expect(isBonkFunLaunchTransaction(bonkFunLaunchTx)).toBe(true)
+  })
+
+  it('accepts a BonkFun launch made through a CPI', async () => {
+    const { isBonkFunLaunchTransaction } = await load()
+    expect(isBonkFunLaunchTransaction(bonkFunLaunchCpiTx)).toBe(true)
+  })
+
+  it('rejects a LaunchLab launch from another launchpad', async () => {
+    const { isBonkFunLaunchTransaction } = await load()
+    expect(isBonkFunLaunchTransaction(otherLaunchpadTx)).toBe(false)
+  })
+})
+
+describe('verifyBonkFunToken', () => {
+  let calls: FakeUpstreamCalls
+
+  it('verifies from the creation transaction with high confidence', async () => {
+    calls = installFakeUpstream({ rpc: historyRpc(bonkFunLaunchTx) })
+    const { verifyBonkFunToken } = await load()
+
+    const verification = await verifyBonkFunToken(MINT)
+
+    expect(verification).toMatchObject({ mint: MINT, isBonkFun: true, confidence: 'high', creator: CREATOR })
+    expect(calls.rpcMethods).toEqual(['getSignaturesForAddress', 'getTransaction'])
+  })
+
+  it('reports another launchpad as not BonkFun', async () => {
+    installFakeUpstream({ rpc: historyRpc(otherLaunchpadTx) })
+    const { verifyBonkFunToken } = await load()
+
+    expect(await verifyBonkFunToken(MINT)).toMatchObject({ isBonkFun: false, confidence: 'high' })
+  })
+
+  it('caches an undetermined deep history instead of rescanning it', async () => {
+    calls = installFakeUpstream({ rpc: historyRpc(otherLaunchpadTx, 10_000) })
+    const { verifyBonkFunToken } = await load()
+
+    expect(await verifyBonkFunToken(MINT)).toBeNull()
+    const scanCalls = calls.rpcMethods.length
+    expect(scanCalls).toBe(11) // 10 signature pages + the oldest reachable tx
+
+    expect(await verifyBonkFunToken(MINT)).toBeNull()
+    expect(calls.rpcMethods.length).toBe(scanCalls)
+  })
+})
+
+describe('verifyBonkFunTokens', () => {
+  it('skips undetermined mints so later refreshes reach the rest of the list', async () => {
+    const deepMints = ['deep-1', 'deep-2']
+    const shallowMints = ['shallow-1', 'shallow-2', 'shallow-3']
+    const deep = historyRpc(otherLaunchpadTx, 10_000)
+    const shallow = historyRpc(bonkFunLaunchTx)
+
+    const calls = installFakeUpstream({
+      rpc: (method, params) => {
+        const mint = method === 'getSignaturesForAddress' ? params[0] : null
+        if (mint && deepMints.includes(mint)) return deep(method, params)
+        if (method === 'getTransaction' && params[0].startsWith('sig-')) return otherLaunchpadTx
+        return shallow(method, params)
+      },
+    })
+    const { verifyBonkFunTokens } = await load()
+    const tokens = [...deepMints, ...shallowMints].map(mint => ({ mint }))
+
+    const first = await verifyBonkFunTokens(tokens, 2)
+    expect(first.size).toBe(0)
+
+    const callsAfterFirst = calls.rpcMethods.length
+    const second = await verifyBonkFunTokens(tokens, 2)
+    expect(Array.from(second.keys())).toEqual(['shallow-1', 'shallow-2'])
+    expect(calls.rpcMethods.length - callsAfterFirst).toBe(4)
+
+    const third = await verifyBonkFunTokens(tokens, 2)
+    expect(Array.from(third.keys())).toEqual(['shallow-1', 'shallow-2', 'shallow-3'])
+  })
+})
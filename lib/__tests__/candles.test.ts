@@ -0,0 +1,68 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream } from './helpers/fake-upstream'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const POOL_A = 'b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY'
+const POOL_B = 'yNoVKf58BnAjLYGRvNkdB3sjzL2AyfUzWr5EyDLRKLh'
+
+async function load() {
+  vi.resetModules()
+  return import('../candles')
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('getTokenCandles', () => {
+  it('caches each pool of a token separately', async () => {
+    const calls = installFakeUpstream()
+    const { getTokenCandles } = await load()
+    const ohlcvCalls = () => calls.urls.filter(url => url.includes('/ohlcv/')).length
+
+    await getTokenCandles(MINT, '1h', POOL_A)
+    await getTokenCandles(MINT, '1h', POOL_A)
+    expect(ohlcvCalls()).toBe(1)
+
+    await getTokenCandles(MINT, '1h', POOL_B)
+    expect(ohlcvCalls()).toBe(2)
+    expect(calls.urls.at(-1)).toContain(`/pools/${POOL_B}/ohlcv/`)
+  })
+})
+
+describe('buildCandlesFromSnapshots', () => {
+  const DAY = new Date('2025-10-20T00:00:00Z').getTime()
+  const HOUR_MS = 60 * 60 * 1000
+
+  const snapshot = (hour: number, price: number, volume_1h: number) => ({
+    snapshot_time: new Date(DAY + hour * HOUR_MS).toISOString(),
+    token_mint: MINT,
+    price_usd: price,
+    volume_1h,
+  })
+
+  it('builds a day candle from a full day of hourly snapshots', async () => {
+    const { buildCandlesFromSnapshots } = await load()
+    const snapshots = Array.from({ length: 24 }, (_, h) => snapshot(h, 1 + h / 100, 100))
+
+    expect(buildCandlesFromSnapshots(snapshots, '1d')).toEqual([
+      { time: DAY, open: 1, high: 1.23, low: 1, close: 1.23, volume: 2400 },
+    ])
+  })
+
+  it('leaves out buckets the snapshots only partly cover', async () => {
+    const { buildCandlesFromSnapshots } = await load()
+    const snapshots = [snapshot(14, 1, 500)]
+
+    expect(buildCandlesFromSnapshots(snapshots, '1d')).toEqual([])
+    expect(buildCandlesFromSnapshots(snapshots, '5m')).toEqual([])
+    expect(buildCandlesFromSnapshots(snapshots, '1h')).toEqual([
+      { time: DAY + 14 * HOUR_MS, open: 1, high: 1, low: 1, close: 1, volume: 500 },
+    ])
+  })
+})
@@ -0,0 +1,54 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream } from './helpers/fake-upstream'
+import { discoveredPool } from './helpers/pools'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const POOL = discoveredPool('b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY', MINT)
+
+/**
+ * Profile for MINT whose only pool holds `poolTokens` of a 1B supply and next to no USD1
+ */
+async function profileWithPoolReserve(poolTokens: number) {
+  vi.resetModules()
+  installFakeUpstream({
+    rpc: (method, params) => {
+      if (method !== 'getMultipleAccounts') return undefined
+      const accounts: Record<string, unknown> = {
+        [MINT]: { data: { parsed: { info: { supply: '1000000000000000', decimals: 6 } } } },
+        [POOL.tokenVault]: { data: { parsed: { info: { tokenAmount: { uiAmount: poolTokens } } } } },
+        [POOL.usd1Vault]: { data: { parsed: { info: { tokenAmount: { uiAmount: 3 } } } } },
+      }
+      return { context: { slot: 1 }, value: (params[0] as string[]).map(a => accounts[a] ?? null) }
+    },
+  })
+
+  const { setCachedPools } = await import('../pool-cache')
+  const { fetchCreatorProfile } = await import('../creator-profile')
+  await setCachedPools([POOL], [MINT])
+  return fetchCreatorProfile(MINT)
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('fetchCreatorProfile launch outcomes', () => {
+  it('counts a launch whose pool was drained of both sides as pulled', async () => {
+    const profile = await profileWithPoolReserve(2_000)
+
+    expect(profile?.source).toBe('cpmm-pool')
+    expect(profile?.launches[0]).toMatchObject({ mint: MINT, liquidityPulled: true })
+  })
+
+  it('does not count a dead launch whose pool filled up with tokens', async () => {
+    const profile = await profileWithPoolReserve(420_000_000)
+
+    expect(profile?.launches[0]).toMatchObject({ mint: MINT, liquidityPulled: false })
+  })
+})
@@ -0,0 +1,64 @@
+import { describe, expect, it } from 'vitest'
+import { parseGraduation } from '../graduations'
+import { TOKEN_CONFIG } from '../token-sources'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const CURVE = 'WLHv2UAZm6z4KyaaELi5pjdbJh6RESMva1Rnn8pJVVh'
+const POOL = 'b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY'
+const OTHER_PLATFORM = '6s1xP3hpbAfFoNtUNF8mfHsjr2Bd97JxFJRWLbL6aHuX'
+
+const balance = (accountIndex: number, mint: string, owner: string, uiAmount: number) => ({
+  accountIndex,
+  mint,
+  owner,
+  uiTokenAmount: { uiAmount },
+})
+
+/**
+ * A LaunchLab migration moving 200M tokens and 12,000 USD1 from the curve into a new pool
+ */
+function migrationTx(platformConfig: string) {
+  const usd1 = TOKEN_CONFIG.USD1_MINT
+  return {
+    blockTime: 1_760_961_600,
+    meta: {
+      err: null,
+      preTokenBalances: [
+        balance(1, MINT, CURVE, 200_000_000),
+        balance(2, usd1, CURVE, 12_000),
+        balance(3, MINT, POOL, 0),
+        balance(4, usd1, POOL, 0),
+      ],
+      postTokenBalances: [
+        balance(1, MINT, CURVE, 0),
+        balance(2, usd1, CURVE, 0),
+        balance(3, MINT, POOL, 200_000_000),
+        balance(4, usd1, POOL, 12_000),
+      ],
+    },
+    transaction: {
+      message: {
+        accountKeys: [TOKEN_CONFIG.BONKFUN.GRADUATE_PROGRAM, TOKEN_CONFIG.BONKFUN.LAUNCHLAB_PROGRAM, platformConfig],
+        instructions: [
+          { programId: TOKEN_CONFIG.BONKFUN.LAUNCHLAB_PROGRAM, accounts: [platformConfig, CURVE, POOL, MINT, usd1] },
+        ],
+      },
+    },
+  }
+}
+
+describe('parseGraduation', () => {
+  it('parses a BonkFun migration into the new pool', () => {
+    expect(parseGraduation(migrationTx(TOKEN_CONFIG.BONKFUN.PLATFORM_CONFIG), 'sig')).toEqual({
+      mint: MINT,
+      signature: 'sig',
+      graduatedAt: 1_760_961_600_000,
+      priceAtGraduation: 0.00006,
+      liquidityAtGraduation: 12_000,
+    })
+  })
+
+  it('ignores LaunchLab migrations from other launchpads', () => {
+    expect(parseGraduation(migrationTx(OTHER_PLATFORM), 'sig')).toBeNull()
+  })
+})
@@ -0,0 +1,100 @@
+/**
+ * Fake upstream APIs for pipeline tests
+ *
+ * Replaces the global fetch with fixture-backed Raydium, DexScreener and
+ * GeckoTerminal (OHLCV, newest candle first) responses plus a JSON-RPC handler, so the token pipeline
+ * runs end to end without a network.
+ */
+
+import { vi } from 'vitest'
+
+export type RpcHandler = (method: string, params: any[]) => unknown
+
+export interface FakeUpstream {
+  raydiumPools?: unknown // Raydium /pools/info/mint response
+  dexScreenerPairs?: any[]
+  geckoOhlcv?: Record<string, number[][] | null> // Pool address -> GeckoTerminal ohlcv_list, null = 429
+  rpc?: RpcHandler // Return undefined to fall through to the empty default
+}
+
+export interface FakeUpstreamCalls {
+  urls: string[]
+  rpcMethods: string[]
+}
+
+const EMPTY_RAYDIUM = { success: true, data: { count: 0, data: [] } }
+
+/**
+ * Empty-but-valid answers, as a fresh RPC node would give for unknown accounts
+ */
+export function defaultRpcResult(method: string, params: any[]): unknown {
+  switch (method) {
+    case 'getProgramAccounts':
+    case 'getSignaturesForAddress':
+      return []
+    case 'getMultipleAccounts':
+      return { context: { slot: 1 }, value: (params[0] as string[]).map(() => null) }
+    case 'getAccountInfo':
+    case 'getTokenLargestAccounts':
+      return { context: { slot: 1 }, value: method === 'getAccountInfo' ? null : [] }
+    default:
+      return null
+  }
+}
+
+function json(body: unknown, status = 200): Response {
+  return new Response(JSON.stringify(body), {
+    status,
+    headers: { 'Content-Type': 'application/json' },
+  })
+}
+
+/**
+ * Stub global fetch with the given upstream data, returns the recorded calls
+ */
+export function installFakeUpstream(upstream: FakeUpstream = {}): FakeUpstreamCalls {
+  const calls: FakeUpstreamCalls = { urls: [], rpcMethods: [] }
+
+  vi.stubGlobal('fetch', async (input: string | URL | Request, init?: RequestInit) => {
+    const url = typeof input === 'string' ? input : input instanceof URL ? input.href : input.url
+    calls.urls.push(url)
+
+    if (url.includes('api-v3.raydium.io')) {
+      return json(upstream.raydiumPools || EMPTY_RAYDIUM)
+    }
+
+    if (url.includes('api.dexscreener.com/latest/dex/tokens/')) {
+      const mints = new Set(url.split('/latest/dex/tokens/')[1].split(','))
+      const pairs = (upstream.dexScreenerPairs || []).filter(p => mints.has(p.baseToken?.address))
+      return json({ pairs })
+    }
+
+    if (url.includes('api.dexscreener.com')) {
+      return json([])
+    }
+
+    if (url.includes('api.geckoterminal.com') && url.includes('/ohlcv/')) {
+      const pool = url.split('/pools/')[1].split('/')[0]
+      const limit = Number(new URL(url).searchParams.get('limit') || 1000)
+      if (upstream.geckoOhlcv?.[pool] === null) return json({ status: 429 }, 429)
+      const candles = (upstream.geckoOhlcv?.[pool] || []).slice(0, limit)
+      return json({ data: { attributes: { ohlcv_list: candles } } })
+    }
+
+    if (url.includes('api.geckoterminal.com')) {
+      return json({ data: [], included: [] })
+    }
+
+    if (init?.method === 'POST') {
+      const body = JSON.parse(String(init.body))
+      calls.rpcMethods.push(body.method)
+      const params = body.params || []
+      const result = upstream.rpc?.(body.method, params)
+      return json({ jsonrpc: '2.0', id: body.id, result: result === undefined ? defaultRpcResult(body.method, params) : result })
+    }
+
+    return json({}, 404)
+  })
+
+  return calls
+}
@@ -0,0 +1,24 @@
+/**
+ * Discovered pool records for tests that stub the pool list
+ */
+
+import type { DiscoveredPool } from '../../pool-discovery'
+
+export function discoveredPool(
+  poolAddress: string,
+  tokenMint: string,
+  poolType: DiscoveredPool['poolType'] = 'cpmm'
+): DiscoveredPool {
+  return {
+    poolAddress,
+    tokenMint,
+    tokenVault: `${poolAddress}-token`,
+    usd1Vault: `${poolAddress}-usd1`,
+    lpMint: `${poolAddress}-lp`,
+    lpSupply: 0,
+    poolCreator: 'creator',
+    openTime: null,
+    isTokenMint0USD1: false,
+    poolType,
+  }
+}
@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+
+// A full first page of 1,000 accounts, then an RPC error on the second page
+const FIRST_PAGE = Array.from({ length: 1000 }, (_, i) => ({
+  address: `account-${i}`,
+  owner: `owner-${i}`,
+  amount: i === 0 ? 500_000 : 100,
+}))
+
+function stubHelius(): { requests: number } {
+  const calls = { requests: 0 }
+  vi.stubGlobal('fetch', async (_url: string, init: RequestInit) => {
+    calls.requests++
+    const body = JSON.parse(String(init.body))
+    const result = body.params.cursor
+      ? { error: { code: -32429, message: 'rate limited' } }
+      : { result: { token_accounts: FIRST_PAGE, cursor: 'page-2' } }
+    return new Response(JSON.stringify({ jsonrpc: '2.0', id: body.id, ...result }))
+  })
+  return calls
+}
+
+beforeEach(() => {
+  vi.stubEnv('HELIUS_API_KEY', 'key')
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllEnvs()
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('fetchHolderDistribution', () => {
+  it('flags a scan cut short by an error as truncated and does not cache it', async () => {
+    const calls = stubHelius()
+    vi.resetModules()
+    const { fetchHolderDistribution } = await import('../holder-fetcher')
+
+    const distribution = await fetchHolderDistribution(MINT)
+    expect(distribution?.truncated).toBe(true)
+    expect(calls.requests).toBe(2)
+
+    await fetchHolderDistribution(MINT)
+    expect(calls.requests).toBe(4)
+  })
+})
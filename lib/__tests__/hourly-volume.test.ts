@@ -0,0 +1,77 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream, type FakeUpstreamCalls } from './helpers/fake-upstream'
+
+const HOUR_MS = 60 * 60 * 1000
+const NOW = new Date('2025-10-20T12:30:00Z').getTime()
+const CURRENT_HOUR = new Date('2025-10-20T12:00:00Z').getTime()
+const POOLS = ['pool-a', 'pool-b']
+
+// 100 USD1 per pool per hour for the last week, newest first
+const CANDLES = Array.from({ length: 7 * 24 }, (_, i) => [(CURRENT_HOUR - i * HOUR_MS) / 1000, 0, 0, 0, 0, 100])
+
+function ohlcvLimits(calls: FakeUpstreamCalls): number[] {
+  return calls.urls
+    .filter(url => url.includes('/ohlcv/'))
+    .map(url => Number(new URL(url).searchParams.get('limit')))
+}
+
+async function load() {
+  vi.resetModules()
+  return import('../hourly-volume')
+}
+
+describe('getHourlyVolume', () => {
+  let calls: FakeUpstreamCalls
+
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(NOW)
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    calls = installFakeUpstream({ geckoOhlcv: { 'pool-a': CANDLES, 'pool-b': CANDLES } })
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('sums OHLCV across pools for every hour of the window', async () => {
+    const { getHourlyVolume } = await load()
+    const { hours, sources } = await getHourlyVolume(24, POOLS)
+
+    expect(hours).toHaveLength(24)
+    expect(hours[23]).toEqual({ time: CURRENT_HOUR, volume: 200, source: 'geckoterminal' })
+    expect(sources).toEqual({ snapshots: 0, backfill: 0, geckoterminal: 24, missing: 0 })
+  })
+
+  it('shares cached hours across windows and only refetches the open hour', async () => {
+    const { getHourlyVolume } = await load()
+
+    await getHourlyVolume(24, POOLS)
+    await getHourlyVolume(24, POOLS)
+    expect(ohlcvLimits(calls)).toEqual([24, 24])
+
+    // The 48h window only needs the 24 hours the first call didn't cover
+    const { hours } = await getHourlyVolume(48, POOLS)
+    expect(hours.every(h => h.volume === 200)).toBe(true)
+    expect(ohlcvLimits(calls)).toEqual([24, 24, 48, 48])
+
+    // Once the open hour's entry expires, only it is fetched again
+    vi.setSystemTime(NOW + 3 * 60 * 1000)
+    await getHourlyVolume(48, POOLS)
+    await getHourlyVolume(24, POOLS)
+    expect(ohlcvLimits(calls).slice(4)).toEqual([1, 1])
+  })
+
+  it('leaves closed hours missing when some pools could not be fetched', async () => {
+    installFakeUpstream({ geckoOhlcv: { 'pool-a': CANDLES, 'pool-b': null } })
+    const { getHourlyVolume } = await load()
+    const { hours, sources } = await getHourlyVolume(24, POOLS)
+
+    expect(hours.slice(0, 23).every(h => h.volume === null)).toBe(true)
+    expect(hours[23]).toEqual({ time: CURRENT_HOUR, volume: 100, source: 'geckoterminal' })
+    expect(sources.missing).toBe(23)
+  })
+})
@@ -0,0 +1,64 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { CPMM_POOL_LAYOUT } from '../pool-discovery'
+import { installFakeUpstream } from './helpers/fake-upstream'
+import { discoveredPool } from './helpers/pools'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const POOL = { ...discoveredPool('b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY', MINT), lpSupply: 1_000_000 }
+
+function cpmmPoolAccount(lpSupply: number) {
+  const data = Buffer.alloc(CPMM_POOL_LAYOUT.ACCOUNT_SIZE)
+  data.writeBigUInt64LE(BigInt(lpSupply), CPMM_POOL_LAYOUT.LP_SUPPLY)
+  return { data: [data.toString('base64'), 'base64'] }
+}
+
+/**
+ * LP status with the pool state's current LP supply and the LP mint's supply
+ */
+async function lpStatus(poolLpSupply: number, mintSupply: number) {
+  vi.resetModules()
+  installFakeUpstream({
+    rpc: (method, params) => {
+      if (method === 'getTokenLargestAccounts') {
+        return { context: { slot: 1 }, value: [{ address: 'dev-lp-account', amount: String(mintSupply) }] }
+      }
+      if (method === 'getMultipleAccounts' && params[0][0] === POOL.lpMint) {
+        return {
+          context: { slot: 1 },
+          value: [{ data: { parsed: { info: { supply: String(mintSupply) } } } }, cpmmPoolAccount(poolLpSupply)],
+        }
+      }
+      return undefined
+    },
+  })
+
+  const { fetchLpStatus } = await import('../lp-status')
+  return fetchLpStatus(POOL)
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('fetchLpStatus', () => {
+  it('does not count withdrawn LP as burned', async () => {
+    // Cached lpSupply is 1M, but 600k LP has since been withdrawn from the pool
+    const info = await lpStatus(400_000, 400_000)
+
+    expect(info?.burnedShare).toBe(0)
+    expect(info?.status).toBe('wallet')
+  })
+
+  it('counts LP burned from the mint against the current pool supply', async () => {
+    const info = await lpStatus(400_000, 10_000)
+
+    expect(info?.burnedShare).toBeCloseTo(97.5)
+    expect(info?.status).toBe('burned')
+  })
+})
@@ -0,0 +1,52 @@
+import { describe, expect, it } from 'vitest'
+import { decodeMintAccount } from '../pool-discovery'
+import mints from './fixtures/mint-accounts.json'
+
+const CREATOR = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin'
+
+function decode(fixture: { owner: string; data: string }) {
+  return decodeMintAccount(Buffer.from(fixture.data, 'base64'), fixture.owner)
+}
+
+describe('decodeMintAccount', () => {
+  it('reads authorities of a classic SPL mint without extensions', () => {
+    expect(decode(mints.classic)).toEqual({
+      decimals: 6,
+      supply: 1e15,
+      authorities: { mintAuthority: CREATOR, freezeAuthority: null },
+      tokenProgram: 'token',
+      token2022Extensions: null,
+    })
+  })
+
+  it('decodes Token-2022 mint extensions by their ExtensionType ids', () => {
+    const mint = decode(mints.token2022WithExtensions)
+
+    expect(mint?.tokenProgram).toBe('token-2022')
+    expect(mint?.authorities).toEqual({ mintAuthority: null, freezeAuthority: CREATOR })
+    expect(mint?.token2022Extensions).toEqual({
+      enabled: [
+        'TransferFeeConfig',
+        'MintCloseAuthority',
+        'DefaultAccountState',
+        'PermanentDelegate',
+        'TransferHook',
+        'MetadataPointer',
+        'Pausable',
+      ],
+      transferFeeBps: 250,
+      maxTransferFee: 5_000_000_000,
+      mintCloseAuthority: CREATOR,
+      defaultAccountFrozen: true,
+      permanentDelegate: CREATOR,
+      transferHookProgram: 'MemoSq4gqABAXKb96qnH8TysNcWxMyWCqXgDLGmfcHr',
+      pausable: true,
+    })
+  })
+
+  it('names extensions without decoded fields and flags nothing for them', () => {
+    expect(decode(mints.token2022NonTransferable)?.token2022Extensions).toEqual({
+      enabled: ['MetadataPointer', 'NonTransferable'],
+    })
+  })
+})
@@ -0,0 +1,69 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream, type RpcHandler } from './helpers/fake-upstream'
+import { discoveredPool } from './helpers/pools'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const POOL = discoveredPool('b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY', MINT)
+
+// 1M tokens against 2,000 USD1 out of a 1B supply
+const ACCOUNTS: Record<string, unknown> = {
+  [POOL.tokenVault]: { data: { parsed: { info: { tokenAmount: { uiAmount: 1_000_000 } } } } },
+  [POOL.usd1Vault]: { data: { parsed: { info: { tokenAmount: { uiAmount: 2_000 } } } } },
+  [MINT]: { data: { parsed: { info: { supply: '1000000000000000', decimals: 6 } } } },
+}
+
+const rpc: RpcHandler = (method, params) => method === 'getMultipleAccounts'
+  ? { context: { slot: 1 }, value: (params[0] as string[]).map(address => ACCOUNTS[address] ?? null) }
+  : undefined
+
+const syncUSD1Pools = vi.fn(async () => ({
+  data: { pools: [POOL], tokenMints: [MINT], discoveredAt: Date.now() },
+  mode: 'full',
+  created: [],
+}))
+
+async function load() {
+  vi.resetModules()
+  vi.doMock('../pool-sync', () => ({ syncUSD1Pools }))
+  const pipeline = await import('../token-pipeline')
+  const cache = await import('../pool-cache')
+  return { ...pipeline, ...cache }
+}
+
+beforeEach(() => {
+  syncUSD1Pools.mockClear()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  installFakeUpstream({ rpc })
+})
+
+afterEach(() => {
+  vi.doUnmock('../pool-sync')
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('onchainPriceEnrichment', () => {
+  it('syncs the pool list when none is cached yet', async () => {
+    const { onchainPriceEnrichment } = await load()
+
+    const prices = await onchainPriceEnrichment.enrich([MINT])
+
+    expect(syncUSD1Pools).toHaveBeenCalledTimes(1)
+    expect(prices.get(MINT)).toMatchObject({
+      price: 0.002,
+      liquidity: 4_000,
+      fdv: 2_000_000,
+      pairAddress: POOL.poolAddress,
+    })
+  })
+
+  it('uses the cached pool list without syncing', async () => {
+    const { onchainPriceEnrichment, setCachedPools } = await load()
+    await setCachedPools([POOL], [MINT])
+
+    const prices = await onchainPriceEnrichment.enrich([MINT])
+
+    expect(syncUSD1Pools).not.toHaveBeenCalled()
+    expect(prices.get(MINT)?.price).toBe(0.002)
+  })
+})
@@ -0,0 +1,31 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { discoveredPool } from './helpers/pools'
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('recordPoolEvents', () => {
+  it('seeds each program on its first successful scan instead of reporting its pools as new', async () => {
+    vi.resetModules()
+    const { recordPoolEvents } = await import('../pool-events')
+    const cpmm = discoveredPool('cpmm-pool', 'mint-a')
+    const amm = discoveredPool('amm-pool', 'mint-b', 'amm-v4')
+    const clmm = discoveredPool('clmm-pool', 'mint-c', 'clmm')
+
+    // CLMM scan failed on the first sync
+    expect(await recordPoolEvents([cpmm, amm], ['cpmm', 'amm-v4'])).toEqual([])
+
+    const newCpmm = discoveredPool('new-cpmm-pool', 'mint-d')
+    const created = await recordPoolEvents([cpmm, amm, clmm, newCpmm], ['cpmm', 'amm-v4', 'clmm'])
+    expect(created.map(e => e.poolAddress)).toEqual(['new-cpmm-pool'])
+
+    const newClmm = discoveredPool('new-clmm-pool', 'mint-e', 'clmm')
+    const later = await recordPoolEvents([cpmm, amm, clmm, newCpmm, newClmm], ['cpmm', 'amm-v4', 'clmm'])
+    expect(later.map(e => e.poolAddress)).toEqual(['new-clmm-pool'])
+  })
+})
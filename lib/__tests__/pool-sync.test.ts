@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream } from './helpers/fake-upstream'
+import { discoveredPool } from './helpers/pools'
+
+const CLMM_PROGRAM = 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK'
+
+const CPMM_POOL = discoveredPool('cpmm-pool', 'mint-a')
+const STALE_CPMM_POOL = discoveredPool('closed-cpmm-pool', 'mint-b')
+const CLMM_POOL = discoveredPool('clmm-pool', 'mint-c', 'clmm')
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+  vi.spyOn(console, 'error').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.doUnmock('@/lib/pool-discovery')
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('discoverUSD1Pools', () => {
+  it('keeps the other programs when one program scan fails', async () => {
+    const calls = installFakeUpstream({
+      rpc: (method, params) => {
+        if (method === 'getProgramAccounts' && params[0] === CLMM_PROGRAM) throw new Error('scan timed out')
+        return undefined
+      },
+    })
+    vi.resetModules()
+    const { discoverUSD1Pools } = await import('../pool-discovery')
+
+    const discovery = await discoverUSD1Pools()
+
+    expect(discovery.failedScans).toEqual(['clmm'])
+    expect(calls.rpcMethods.filter(m => m === 'getProgramAccounts')).toHaveLength(5) // 2 CPMM + 2 AMM v4 + 1 CLMM
+  })
+})
+
+describe('syncUSD1Pools', () => {
+  it('keeps cached pools of a failed program and retries the full scan later', async () => {
+    vi.resetModules()
+    vi.doMock('@/lib/pool-discovery', () => ({
+      getLatestPoolCreationSignature: vi.fn(async () => 'cursor'),
+      discoverNewUSD1Pools: vi.fn(),
+      discoverUSD1Pools: vi.fn(async () => ({
+        pools: [CPMM_POOL],
+        tokenMints: [CPMM_POOL.tokenMint],
+        scannedTypes: ['cpmm', 'amm-v4'],
+        failedScans: ['clmm'],
+        discoveredAt: Date.now(),
+      })),
+    }))
+    const cache = await import('../pool-cache')
+    const { syncUSD1Pools } = await import('../pool-sync')
+    await cache.setCachedPools([STALE_CPMM_POOL, CLMM_POOL], [STALE_CPMM_POOL.tokenMint, CLMM_POOL.tokenMint])
+
+    const result = await syncUSD1Pools(true)
+
+    expect(result.mode).toBe('full')
+    expect(result.data?.pools.map(p => p.poolAddress)).toEqual(['cpmm-pool', 'clmm-pool'])
+    expect(result.data?.tokenMints).toEqual(['mint-a', 'mint-c'])
+    expect((await cache.getCachedPoolSyncState())?.lastFullScan).toBe(0)
+  })
+})
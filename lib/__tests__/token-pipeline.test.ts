@@ -0,0 +1,49 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { buildToken, runTokenPipeline, type TokenStage } from '../token-pipeline'
+
+const token = (symbol: string, fdv: number) => ({ symbol, name: symbol, price: fdv / 1_000_000_000, fdv, liquidity: fdv / 10 })
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.restoreAllMocks()
+})
+
+describe('runTokenPipeline', () => {
+  it('gives every token a unique id after stages remove and append tokens', async () => {
+    // Like bonkFunVerification: drops a listed token
+    const removeStage: TokenStage = {
+      name: 'remove',
+      apply: async (tokens) => { tokens.splice(1, 1) },
+    }
+    // Like bondingCurveStage: appends a token and re-sorts
+    const appendStage: TokenStage = {
+      name: 'append',
+      apply: async (tokens) => {
+        tokens.push(buildToken('mint-curve', [token('CURVE', 2_500)], 'launchlab')!)
+        tokens.sort((a, b) => b.mcap - a.mcap)
+      },
+    }
+
+    const { tokens } = await runTokenPipeline({
+      discovery: [{
+        name: 'fixed',
+        discover: async () => ({
+          source: 'fixed',
+          tokens: new Map([
+            ['mint-a', token('AAA', 3_000)],
+            ['mint-b', token('BBB', 2_000)],
+            ['mint-c', token('CCC', 1_000)],
+          ]),
+        }),
+      }],
+      enrichment: [],
+      tokenStages: [removeStage, appendStage],
+    })
+
+    expect(tokens.map(t => t.symbol)).toEqual(['AAA', 'CURVE', 'CCC'])
+    expect(tokens.map(t => t.id)).toEqual([0, 1, 2])
+  })
+})
@@ -0,0 +1,66 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import type { Token } from '../types'
+import { installFakeUpstream, type FakeUpstream } from './helpers/fake-upstream'
+import raydiumPools from './fixtures/raydium-usd1-pools.json'
+import dexScreener from './fixtures/dexscreener-pairs.json'
+
+const UPSTREAM: FakeUpstream = {
+  raydiumPools,
+  dexScreenerPairs: dexScreener.pairs,
+}
+
+// Each route gets fresh module state (caches, API health, RPC manager)
+async function fetchRouteTokens(path: '@/app/api/tokens/route' | '@/app/api/tokens-v2/route'): Promise<Token[]> {
+  vi.resetModules()
+  installFakeUpstream(UPSTREAM)
+  const route = await import(path)
+  const response: Response = await route.GET(new Request('http://localhost/api/tokens?force=true'))
+  const body = await response.json()
+  return body.tokens
+}
+
+describe('/api/tokens and /api/tokens-v2', () => {
+  beforeEach(() => {
+    vi.useFakeTimers({ toFake: ['Date'] })
+    vi.setSystemTime(new Date('2025-10-20T12:00:00Z'))
+    vi.spyOn(console, 'log').mockImplementation(() => {})
+    vi.spyOn(console, 'warn').mockImplementation(() => {})
+    vi.spyOn(console, 'error').mockImplementation(() => {})
+  })
+
+  afterEach(() => {
+    vi.useRealTimers()
+    vi.unstubAllGlobals()
+    vi.restoreAllMocks()
+  })
+
+  it('return identical tokens for the same upstream data', async () => {
+    const v1 = await fetchRouteTokens('@/app/api/tokens/route')
+    const v2 = await fetchRouteTokens('@/app/api/tokens-v2/route')
+
+    expect(v1.map(t => t.symbol).sort()).toEqual(['GRUMP', 'HONK', 'QUIET'])
+    expect(v2).toEqual(v1)
+  })
+
+  it('merge every DexScreener pair of a token into totals and a pool list', async () => {
+    const tokens = await fetchRouteTokens('@/app/api/tokens/route')
+    const honk = tokens.find(t => t.symbol === 'HONK')!
+
+    expect(honk.price).toBeCloseTo(0.002104)
+    expect(honk.pairAddress).toBe('b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY')
+    expect(honk.liquidity).toBe(84250 + 6100)
+    expect(honk.volume24h).toBe(150500 + 8300)
+    expect(honk.txns24h).toBe(410 + 355 + 40 + 22)
+    expect(honk.pools?.map(p => [p.dex, p.type])).toEqual([['raydium', 'cpmm'], ['meteora', null]])
+  })
+
+  it('fall back to Raydium API fields for tokens DexScreener lacks', async () => {
+    const tokens = await fetchRouteTokens('@/app/api/tokens-v2/route')
+    const quiet = tokens.find(t => t.symbol === 'QUIET')!
+
+    expect(quiet.price).toBe(0.00004)
+    expect(quiet.liquidity).toBe(3000)
+    expect(quiet.volume24h).toBe(450)
+    expect(quiet.pairAddress).toBe('YWXXL6A7pNpHXvmBa2EaQAmb2qaLix6mwHaQBPrFbbrZ')
+  })
+})
@@ -0,0 +1,147 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream } from './helpers/fake-upstream'
+import { discoveredPool } from './helpers/pools'
+import dexScreener from './fixtures/dexscreener-pairs.json'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+const POOL = discoveredPool('b8dLcukC7edhDQ7cn5d4gEYkbUrMWeWQLGsCmrG6dLaY', MINT)
+const TRADER = '9xQeWvG816bUx9EPjHmaT23yvVM2ZWbrrpZb9PusVFin'
+
+// A buy: 5,000 tokens leave the token vault, 10 USD1 enter the USD1 vault
+const BUY_TX = {
+  blockTime: 1_760_961_600,
+  meta: {
+    err: null,
+    preTokenBalances: [
+      { accountIndex: 1, uiTokenAmount: { uiAmount: 1_000_000 } },
+      { accountIndex: 2, uiTokenAmount: { uiAmount: 2_000 } },
+    ],
+    postTokenBalances: [
+      { accountIndex: 1, uiTokenAmount: { uiAmount: 995_000 } },
+      { accountIndex: 2, uiTokenAmount: { uiAmount: 2_010 } },
+    ],
+  },
+  transaction: { message: { accountKeys: [TRADER, POOL.tokenVault, POOL.usd1Vault] } },
+}
+
+const syncUSD1Pools = vi.fn(async () => ({
+  data: { pools: [POOL], tokenMints: [MINT], discoveredAt: Date.now() },
+  mode: 'full',
+  created: [],
+}))
+
+async function load() {
+  vi.resetModules()
+  vi.doMock('@/lib/pool-sync', () => ({ syncUSD1Pools }))
+  return {
+    trades: await import('../trades'),
+    route: await import('@/app/api/tokens/[mint]/trades/route'),
+  }
+}
+
+/**
+ * Pool signature history (newest first) served with limit/before/until, every signature a buy
+ */
+function historyRpc(initial: string[]) {
+  let signatures = [...initial]
+  let added = 0
+  installFakeUpstream({
+    rpc: (method, params) => {
+      if (method === 'getTransaction') return BUY_TX
+      if (method !== 'getSignaturesForAddress') return undefined
+
+      const { limit, before, until } = params[1]
+      const start = before ? signatures.indexOf(before) + 1 : 0
+      const end = until ? signatures.indexOf(until) : signatures.length
+      return signatures.slice(start, end).slice(0, limit).map(signature => ({ signature, err: null }))
+    },
+  })
+
+  return {
+    add(count: number) {
+      const fresh = Array.from({ length: count }, (_, i) => `new-${added + count - i}`)
+      added += count
+      signatures = [...fresh, ...signatures]
+    },
+  }
+}
+
+beforeEach(() => {
+  syncUSD1Pools.mockClear()
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+  installFakeUpstream({
+    dexScreenerPairs: dexScreener.pairs,
+    rpc: (method) => {
+      if (method === 'getSignaturesForAddress') return [{ signature: 'buy-1', err: null }]
+      if (method === 'getTransaction') return BUY_TX
+      return undefined
+    },
+  })
+})
+
+afterEach(() => {
+  vi.doUnmock('@/lib/pool-sync')
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('/api/tokens/[mint]/trades', () => {
+  it('finds the pool on a cold instance and labels trades without a token list', async () => {
+    const { route } = await load()
+
+    const response = await route.GET(
+      new Request(`http://localhost/api/tokens/${MINT}/trades`),
+      { params: Promise.resolve({ mint: MINT }) }
+    )
+    const body = await response.json()
+
+    expect(response.status).toBe(200)
+    expect(syncUSD1Pools).toHaveBeenCalled()
+    expect(body.pool).toBe(POOL.poolAddress)
+    expect(body.trades).toEqual([
+      expect.objectContaining({ symbol: 'HONK', type: 'buy', amount: 10, tokenAmount: 5_000, wallet: TRADER }),
+    ])
+  })
+})
+
+describe('fetchRecentTrades', () => {
+  it('keeps logs for a bounded number of pools', async () => {
+    const { trades } = await load()
+    const token = { symbol: 'HONK', name: 'Honk' }
+
+    for (let i = 0; i <= 200; i++) {
+      await trades.fetchRecentTrades({ ...POOL, poolAddress: `pool-${i}` }, token)
+    }
+
+    expect(trades.hasFreshTrades('pool-0', 60_000)).toBe(false)
+    expect(trades.hasFreshTrades('pool-1', 60_000)).toBe(true)
+    expect(trades.hasFreshTrades('pool-200', 60_000)).toBe(true)
+  })
+
+  it('pages back to the last seen swap when more than one page arrived', async () => {
+    const history = historyRpc(['old-1'])
+    const { trades } = await load()
+    const token = { symbol: 'HONK', name: 'Honk' }
+
+    await trades.fetchRecentTrades(POOL, token)
+    history.add(40)
+    const result = await trades.fetchRecentTrades(POOL, token)
+
+    expect(result).toHaveLength(41)
+    expect(result.at(-1)?.id).toBe('old-1')
+  })
+
+  it('drops the old log when the gap is larger than a refresh pages through', async () => {
+    const history = historyRpc(['old-1'])
+    const { trades } = await load()
+    const token = { symbol: 'HONK', name: 'Honk' }
+
+    await trades.fetchRecentTrades(POOL, token)
+    history.add(100)
+    const result = await trades.fetchRecentTrades(POOL, token)
+
+    expect(result).toHaveLength(90)
+    expect(result.map(t => t.id)).not.toContain('old-1')
+    expect(result.at(-1)?.id).toBe('new-11')
+  })
+})
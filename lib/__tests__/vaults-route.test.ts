@@ -0,0 +1,57 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+import { installFakeUpstream } from './helpers/fake-upstream'
+import { discoveredPool as pool } from './helpers/pools'
+
+const POOLS = [
+  pool('shallow', 'multi'),
+  pool('deep', 'multi', 'amm-v4'),
+  pool('concentrated', 'multi', 'clmm'),
+  pool('only', 'single'),
+]
+
+const USD1_BALANCES: Record<string, number> = {
+  'shallow-usd1': 1_200,
+  'deep-usd1': 48_000,
+  'concentrated-usd1': 900_000,
+}
+
+async function fetchVaults() {
+  vi.resetModules()
+  vi.doMock('@/lib/pool-sync', () => ({
+    syncUSD1Pools: async () => ({ data: { pools: POOLS, lastUpdated: 0 }, mode: 'cached', created: [] }),
+  }))
+  const calls = installFakeUpstream({
+    rpc: (method, params) => method === 'getMultipleAccounts'
+      ? {
+          context: { slot: 1 },
+          value: (params[0] as string[]).map(vault => ({
+            data: { parsed: { info: { tokenAmount: { uiAmount: USD1_BALANCES[vault] ?? 0 } } } },
+          })),
+        }
+      : undefined,
+  })
+
+  const route = await import('@/app/api/tokens/vaults/route')
+  const body = await (await route.GET()).json()
+  return { vaults: body.vaults, calls }
+}
+
+beforeEach(() => {
+  vi.spyOn(console, 'log').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.doUnmock('@/lib/pool-sync')
+  vi.unstubAllGlobals()
+  vi.restoreAllMocks()
+})
+
+describe('/api/tokens/vaults', () => {
+  it('serves the deepest reserve pool of a multi-pool token', async () => {
+    const { vaults, calls } = await fetchVaults()
+
+    expect(vaults.multi.poolAddress).toBe('deep')
+    expect(vaults.single.poolAddress).toBe('only')
+    expect(calls.rpcMethods).toEqual(['getMultipleAccounts'])
+  })
+})
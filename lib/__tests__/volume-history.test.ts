@@ -0,0 +1,42 @@
+import { describe, expect, it } from 'vitest'
+import { aggregateToWeekly, bucketHourlyPoints, type VolumeDataPoint } from '../volume-history'
+import type { HourlyVolumePoint } from '../hourly-volume'
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+const MONDAY = new Date('2025-10-13T00:00:00Z').getTime()
+
+function hour(i: number, volume: number | null): HourlyVolumePoint {
+  return { time: MONDAY + i * HOUR_MS, volume, source: volume === null ? null : 'geckoterminal' }
+}
+
+function day(i: number, volume: number | null): VolumeDataPoint {
+  return { timestamp: MONDAY + i * DAY_MS, volume, trades: 0, source: volume === null ? null : 'kv' }
+}
+
+describe('bucketHourlyPoints', () => {
+  it('sums complete buckets and leaves partly known buckets as gaps', () => {
+    const hours = [hour(0, 10), hour(1, 20), hour(2, 30), hour(3, 40), hour(4, 50), hour(5, null), hour(6, 70), hour(7, 80)]
+
+    expect(bucketHourlyPoints(hours, 4, 3).map(b => [b.volume, b.source])).toEqual([
+      [100, 'geckoterminal'],
+      [null, null],
+    ])
+  })
+})
+
+describe('aggregateToWeekly', () => {
+  it('sums fully known weeks and leaves weeks with an unknown day as gaps', () => {
+    const days = [
+      ...Array.from({ length: 7 }, (_, i) => day(i, 100)),
+      ...Array.from({ length: 7 }, (_, i) => day(7 + i, i === 3 ? null : 100)),
+      day(14, 50), // Current week, so far
+    ]
+
+    expect(aggregateToWeekly(days).map(w => [w.timestamp, w.volume])).toEqual([
+      [MONDAY, 700],
+      [MONDAY + 7 * DAY_MS, null],
+      [MONDAY + 14 * DAY_MS, 50],
+    ])
+  })
+})
@@ -0,0 +1,61 @@
+import { describe, expect, it } from 'vitest'
+import { detectWashTrading, organicBucketVolume, ORGANIC_WINDOW_MS } from '../wash-trading'
+import type { Transaction } from '../types'
+
+const START = 1_760_961_600_000
+const RETAIL_GAPS_S = [4, 95, 31, 240, 12, 67, 150, 8, 310, 45, 22, 180]
+
+function buy(i: number, amount: number, timestamp: number, wallet: string): Transaction {
+  return { id: `sig-${i}`, symbol: 'HONK', emoji: '', type: 'buy', amount, timestamp, wallet }
+}
+
+/**
+ * `count` buys of `amount` USD1 at the given gaps (seconds), plus a few odd-sized buys
+ */
+function sample(count: number, amount: number, gapsS: number[], walletOf: (i: number) => string): Transaction[] {
+  let timestamp = START
+  const trades = Array.from({ length: count }, (_, i) => {
+    timestamp += gapsS[i % gapsS.length] * 1000
+    return buy(i, amount, timestamp, walletOf(i))
+  })
+  const odd = [37.2, 412, 8.9, 1650].map((size, i) => buy(count + i, size, START + i * 61_000, `odd-${i}`))
+  return [...trades, ...odd]
+}
+
+describe('detectWashTrading', () => {
+  it('does not flag round retail sizes from many wallets at irregular times', () => {
+    const report = detectWashTrading(sample(12, 100, RETAIL_GAPS_S, i => `retail-${i}`))!
+
+    expect(report.botTradeSize).toBeNull()
+    expect(report.flags).toEqual([])
+    expect(report.organicShare).toBe(1)
+  })
+
+  it('flags one size bought over and over by a single wallet', () => {
+    const report = detectWashTrading(sample(12, 100, RETAIL_GAPS_S, () => 'bot'))!
+
+    expect(report.botTradeSize).toBe(100)
+    expect(report.flags).toEqual(['uniform-bot-trades'])
+    expect(report.flaggedVolume).toBe(1200)
+  })
+
+  it('flags one size bought at clockwork intervals across rotating wallets', () => {
+    const report = detectWashTrading(sample(12, 100, [30, 31, 29], i => `rotating-${i}`))!
+
+    expect(report.botTradeSize).toBe(100)
+    expect(report.flags).toEqual(['uniform-bot-trades'])
+  })
+})
+
+describe('organicBucketVolume', () => {
+  const now = START + 7 * ORGANIC_WINDOW_MS
+
+  it('scales buckets within the trailing 24h', () => {
+    expect(organicBucketVolume(1000, now - 60 * 60 * 1000, 0.4, now)).toBe(400)
+  })
+
+  it('gives no estimate for older or empty buckets', () => {
+    expect(organicBucketVolume(1000, now - 2 * ORGANIC_WINDOW_MS, 0.4, now)).toBeNull()
+    expect(organicBucketVolume(null, now, 0.4, now)).toBeNull()
+  })
+})
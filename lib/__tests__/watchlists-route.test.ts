@@ -0,0 +1,62 @@
+import { afterEach, beforeEach, describe, expect, it, vi } from 'vitest'
+
+const MINT = 'MASi45ub7Qe4ZE36UT5G6cU4ud8Fhhe4deS4F3cw9KTA'
+
+const store = new Map<string, unknown>()
+const kv = {
+  get: vi.fn(async (key: string) => store.get(key) ?? null),
+  set: vi.fn(async (key: string, value: unknown) => {
+    store.set(key, value)
+    return 'OK'
+  }),
+}
+
+async function load() {
+  vi.resetModules()
+  vi.doMock('@vercel/kv', () => ({ kv }))
+  return import('@/app/api/watchlists/route')
+}
+
+function request(method: 'POST' | 'PUT', body: unknown): Request {
+  return new Request('http://localhost/api/watchlists', { method, body: JSON.stringify(body) })
+}
+
+beforeEach(() => {
+  store.clear()
+  vi.stubEnv('KV_REST_API_URL', 'https://kv.example')
+  vi.stubEnv('KV_REST_API_TOKEN', 'token')
+  vi.spyOn(console, 'warn').mockImplementation(() => {})
+})
+
+afterEach(() => {
+  vi.doUnmock('@vercel/kv')
+  vi.unstubAllEnvs()
+  vi.restoreAllMocks()
+})
+
+describe('/api/watchlists', () => {
+  it('reports a failed KV write as a server error, not a saved list', async () => {
+    const route = await load()
+    kv.set.mockRejectedValueOnce(new Error('KV unavailable'))
+
+    const response = await route.POST(request('POST', { name: 'Mine', tokens: [MINT] }))
+
+    expect(response.status).toBe(500)
+    expect(store.size).toBe(0)
+  })
+
+  it('answers an update that failed to save with 500 instead of 404', async () => {
+    const route = await load()
+    const created = await (await route.POST(request('POST', { name: 'Mine', tokens: [] }))).json()
+    kv.set.mockRejectedValueOnce(new Error('KV unavailable'))
+
+    const response = await route.PUT(request('PUT', {
+      slug: created.watchlist.slug,
+      editKey: created.editKey,
+      tokens: [MINT],
+    }))
+
+    expect(response.status).toBe(500)
+    expect(await response.json()).toEqual({ error: 'Failed to update watchlist' })
+  })
+})
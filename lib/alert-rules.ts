@@ -0,0 +1,214 @@
+/**
+ * Price Alert Rules Engine
+ *
+ * Pure evaluation of user-defined alert rules against the token list.
+ * Each rule fires once when its condition becomes true, then stays
+ * disarmed until the metric moves back past the threshold by a margin
+ * (hysteresis) AND its cooldown has elapsed. This keeps a token hovering
+ * around a threshold from re-firing on every 10s poll.
+ */
+
+import type { Token } from './types'
+
+// ============================================
+// TYPES
+// ============================================
+
+export type AlertRuleType =
+  | 'price_above'
+  | 'price_below'
+  | 'change1h_above'
+  | 'volume24h_above'
+  | 'liquidity_drop'
+
+export interface AlertRule {
+  id: string
+  tokenAddress: string
+  tokenSymbol: string
+  type: AlertRuleType
+  threshold: number // USD for price/volume, percent for change1h/liquidity_drop
+  baseline?: number // Liquidity at rule creation (liquidity_drop only)
+  cooldownMs: number
+  enabled: boolean
+  armed: boolean
+  createdAt: number
+  lastFiredAt?: number
+}
+
+export interface AlertEvent {
+  id: string
+  ruleId: string
+  tokenAddress: string
+  tokenSymbol: string
+  title: string
+  message: string
+  firedAt: number
+}
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const DEFAULT_ALERT_COOLDOWN = 15 * 60 * 1000 // 15 minutes
+
+// Relative distance back across the threshold before a rule re-arms
+const HYSTERESIS_RATIO = 0.02
+// Minimum margin for percent rules, so thresholds near 0% still need a real move
+const HYSTERESIS_MIN_PERCENT = 0.5
+
+export const ALERT_RULE_LABELS: Record<AlertRuleType, string> = {
+  price_above: 'Price above',
+  price_below: 'Price below',
+  change1h_above: '1h change above',
+  volume24h_above: '24h volume above',
+  liquidity_drop: 'Liquidity drops by',
+}
+
+// ============================================
+// RULE HELPERS
+// ============================================
+
+export function createAlertRule(
+  token: Token,
+  type: AlertRuleType,
+  threshold: number,
+  cooldownMs = DEFAULT_ALERT_COOLDOWN
+): AlertRule {
+  return {
+    id: `${token.address}-${type}-${Date.now()}`,
+    tokenAddress: token.address,
+    tokenSymbol: token.symbol,
+    type,
+    threshold,
+    baseline: type === 'liquidity_drop' ? token.liquidity : undefined,
+    cooldownMs,
+    enabled: true,
+    armed: true,
+    createdAt: Date.now(),
+  }
+}
+
+/**
+ * Current value of the metric a rule watches
+ * liquidity_drop is expressed as percent down from the baseline
+ */
+function getMetric(rule: AlertRule, token: Token): number | null {
+  switch (rule.type) {
+    case 'price_above':
+    case 'price_below':
+      return token.price
+    case 'change1h_above':
+      return token.change1h
+    case 'volume24h_above':
+      return token.volume24h
+    case 'liquidity_drop':
+      if (!rule.baseline) return null
+      return ((rule.baseline - token.liquidity) / rule.baseline) * 100
+  }
+}
+
+function isBelowRule(type: AlertRuleType): boolean {
+  return type === 'price_below'
+}
+
+function isPercentRule(type: AlertRuleType): boolean {
+  return type === 'change1h_above' || type === 'liquidity_drop'
+}
+
+function hysteresisMargin(rule: AlertRule): number {
+  const margin = Math.abs(rule.threshold) * HYSTERESIS_RATIO
+  return isPercentRule(rule.type) ? Math.max(margin, HYSTERESIS_MIN_PERCENT) : margin
+}
+
+function isTriggered(rule: AlertRule, value: number): boolean {
+  return isBelowRule(rule.type) ? value <= rule.threshold : value >= rule.threshold
+}
+
+function isRearmed(rule: AlertRule, value: number): boolean {
+  const margin = hysteresisMargin(rule)
+  return isBelowRule(rule.type)
+    ? value > rule.threshold + margin
+    : value < rule.threshold - margin
+}
+
+export function describeAlertRule(rule: AlertRule): string {
+  const label = ALERT_RULE_LABELS[rule.type]
+  switch (rule.type) {
+    case 'price_above':
+    case 'price_below':
+      return `${label} $${rule.threshold}`
+    case 'volume24h_above':
+      return `${label} $${rule.threshold.toLocaleString()}`
+    case 'change1h_above':
+    case 'liquidity_drop':
+      return `${label} ${rule.threshold}%`
+  }
+}
+
+function formatMetric(rule: AlertRule, value: number): string {
+  switch (rule.type) {
+    case 'price_above':
+    case 'price_below':
+      return `$${value.toPrecision(4)}`
+    case 'volume24h_above':
+      return `$${Math.round(value).toLocaleString()}`
+    case 'change1h_above':
+    case 'liquidity_drop':
+      return `${value.toFixed(2)}%`
+  }
+}
+
+// ============================================
+// EVALUATION
+// ============================================
+
+/**
+ * Evaluate rules against the latest tokens
+ * Returns updated rules (armed/lastFiredAt) and the events that fired
+ */
+export function evaluateAlertRules(
+  rules: AlertRule[],
+  tokens: Token[],
+  now = Date.now()
+): { rules: AlertRule[]; events: AlertEvent[] } {
+  const tokenMap = new Map(tokens.map(t => [t.address, t]))
+  const events: AlertEvent[] = []
+  let changed = false
+
+  const updated = rules.map(rule => {
+    if (!rule.enabled) return rule
+
+    const token = tokenMap.get(rule.tokenAddress)
+    if (!token) return rule
+
+    const value = getMetric(rule, token)
+    if (value === null || !Number.isFinite(value)) return rule
+
+    // Disarmed rules wait for the metric to move back past the threshold
+    if (!rule.armed) {
+      if (isRearmed(rule, value)) {
+        changed = true
+        return { ...rule, armed: true }
+      }
+      return rule
+    }
+
+    if (!isTriggered(rule, value)) return rule
+    if (rule.lastFiredAt && now - rule.lastFiredAt < rule.cooldownMs) return rule
+
+    events.push({
+      id: `${rule.id}-${now}`,
+      ruleId: rule.id,
+      tokenAddress: rule.tokenAddress,
+      tokenSymbol: token.symbol,
+      title: `$${token.symbol} alert`,
+      message: `${describeAlertRule(rule)} (now ${formatMetric(rule, value)})`,
+      firedAt: now,
+    })
+
+    changed = true
+    return { ...rule, armed: false, lastFiredAt: now }
+  })
+
+  return { rules: changed ? updated : rules, events }
+}
@@ -0,0 +1,270 @@
+/**
+ * BonkFun Origin Verification
+ *
+ * A token is a BonkFun token when its creation transaction invoked the
+ * Raydium LaunchLab program with the BonkFun platform config account.
+ * Other launchpads use the same LaunchLab program with their own config,
+ * so the program alone is not enough.
+ *
+ * Strategy:
+ * - Walk getSignaturesForAddress(mint) back to the oldest signature
+ * - Fetch that transaction and inspect top-level + inner instructions
+ * - Cache results (the creation tx never changes) and record positives
+ *   in the bonkfun_tokens table when Supabase is configured
+ * - Undetermined results (history too deep, RPC failure) are cached briefly
+ *   so the same mints don't take every lookup slot on each refresh
+ */
+
+import { rpcManager } from './rpc-manager'
+import { rpcRequest } from './pool-discovery'
+import {
+  getCachedBonkFunVerification,
+  setCachedBonkFunVerification,
+  getCachedBonkFunUndetermined,
+  setCachedBonkFunUndetermined,
+} from './pool-cache'
+import { TOKEN_CONFIG } from './token-sources'
+
+const SIGNATURES_PER_PAGE = 1000
+const MAX_SIGNATURE_PAGES = 10 // ~10k txs - deeper histories fall back to the oldest tx we reach
+
+export interface BonkFunVerification {
+  mint: string
+  isBonkFun: boolean
+  // high: creation tx inspected
+  // medium: history too deep, but a reachable LaunchLab tx uses the BonkFun config
+  confidence: 'high' | 'medium' | 'low'
+  source: 'helius' | 'rpc'
+  signature: string | null
+  creator?: string // Fee payer of the creation tx (high confidence only)
+  verifiedAt: number
+}
+
+export interface BonkFunTokenInfo {
+  mint: string
+  symbol?: string
+  name?: string
+  poolAddress?: string
+  poolType?: string
+  imageUrl?: string | null
+}
+
+// ============================================
+// TRANSACTION INSPECTION
+// ============================================
+
+/**
+ * Resolve an instruction's program id and account list.
+ * Handles both jsonParsed (string keys) and json (index) encodings.
+ */
+function resolveInstruction(
+  ix: any,
+  accountKeys: string[]
+): { programId: string | undefined; accounts: string[] } {
+  const programId = ix.programId ?? accountKeys[ix.programIdIndex]
+  const accounts = (ix.accounts || []).map((a: string | number) =>
+    typeof a === 'number' ? accountKeys[a] : a
+  )
+  return { programId, accounts }
+}
+
+/**
+ * Flatten a transaction's account keys, including address lookup table loads
+ */
+function getAccountKeys(tx: any): string[] {
+  const keys = (tx?.transaction?.message?.accountKeys || []).map((k: any) =>
+    typeof k === 'string' ? k : k.pubkey
+  )
+  const loaded = tx?.meta?.loadedAddresses
+  if (loaded) {
+    keys.push(...(loaded.writable || []), ...(loaded.readonly || []))
+  }
+  return keys
+}
+
+/**
+ * Check whether a transaction (getTransaction result) invoked LaunchLab
+ * with the BonkFun platform config, either directly or via CPI
+ */
+export function isBonkFunLaunchTransaction(tx: any): boolean {
+  if (!tx?.transaction?.message) return false
+
+  const accountKeys = getAccountKeys(tx)
+  const instructions: any[] = [
+    ...(tx.transaction.message.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || []),
+  ]
+
+  return instructions.some(ix => {
+    const { programId, accounts } = resolveInstruction(ix, accountKeys)
+    return programId === TOKEN_CONFIG.BONKFUN.LAUNCHLAB_PROGRAM &&
+           accounts.includes(TOKEN_CONFIG.BONKFUN.PLATFORM_CONFIG)
+  })
+}
+
+// ============================================
+// RPC LOOKUPS
+// ============================================
+
+/**
+ * Find the oldest signature for a mint
+ * `complete` is false when history is deeper than MAX_SIGNATURE_PAGES
+ */
+async function findOldestSignature(
+  rpcUrl: string,
+  mint: string
+): Promise<{ signature: string; complete: boolean } | null> {
+  let before: string | undefined
+  let oldest: string | null = null
+
+  for (let page = 0; page < MAX_SIGNATURE_PAGES; page++) {
+    const signatures = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+      mint,
+      { limit: SIGNATURES_PER_PAGE, ...(before ? { before } : {}) },
+    ])
+
+    if (!signatures || signatures.length === 0) break
+
+    oldest = signatures[signatures.length - 1].signature
+    if (signatures.length < SIGNATURES_PER_PAGE) {
+      return { signature: oldest!, complete: true }
+    }
+    before = oldest!
+  }
+
+  return oldest ? { signature: oldest, complete: false } : null
+}
+
+/**
+ * Verify a single mint against its creation transaction
+ * Returns null when the result can't be determined (RPC failure, unreachable history)
+ * or was undetermined within the retry interval
+ */
+export async function verifyBonkFunToken(mint: string): Promise<BonkFunVerification | null> {
+  const cached = await getCachedBonkFunVerification(mint)
+  if (cached) return cached
+  if (await getCachedBonkFunUndetermined(mint)) return null
+
+  try {
+    const verification = await rpcManager.executeWithFallback(async (rpcUrl, endpointName) => {
+      const oldest = await findOldestSignature(rpcUrl, mint)
+      if (!oldest) return null
+
+      const tx = await rpcRequest(rpcUrl, 'getTransaction', [
+        oldest.signature,
+        { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+      ])
+      if (!tx) return null
+
+      const isBonkFun = isBonkFunLaunchTransaction(tx)
+
+      // Without the creation tx a negative result proves nothing
+      if (!oldest.complete && !isBonkFun) return null
+
+      const result: BonkFunVerification = {
+        mint,
+        isBonkFun,
+        confidence: oldest.complete ? 'high' : 'medium',
+        source: endpointName === 'helius' ? 'helius' : 'rpc',
+        signature: oldest.signature,
+        ...(oldest.complete ? { creator: getAccountKeys(tx)[0] } : {}),
+        verifiedAt: Date.now(),
+      }
+      return result
+    })
+
+    if (verification) {
+      await setCachedBonkFunVerification(verification)
+    } else {
+      await setCachedBonkFunUndetermined(mint)
+    }
+
+    return verification
+  } catch (e) {
+    console.warn(`[BonkFunVerify] Failed to verify ${mint}:`, e)
+    await setCachedBonkFunUndetermined(mint)
+    return null
+  }
+}
+
+/**
+ * Verify many tokens with limited concurrency
+ * Cached results are returned without counting towards `maxLookups`, and
+ * recently undetermined mints are skipped, so later refreshes reach the
+ * mints further down the list; fresh positive results are recorded in Supabase
+ */
+export async function verifyBonkFunTokens(
+  tokens: BonkFunTokenInfo[],
+  maxLookups = 25,
+  concurrency = 5
+): Promise<Map<string, BonkFunVerification>> {
+  const results = new Map<string, BonkFunVerification>()
+  const uncached: BonkFunTokenInfo[] = []
+  let skipped = 0
+
+  for (const token of tokens) {
+    const cached = await getCachedBonkFunVerification(token.mint)
+    if (cached) {
+      results.set(token.mint, cached)
+    } else if (await getCachedBonkFunUndetermined(token.mint)) {
+      skipped++
+    } else {
+      uncached.push(token)
+    }
+  }
+
+  const toVerify = uncached.slice(0, maxLookups)
+  for (let i = 0; i < toVerify.length; i += concurrency) {
+    const batch = toVerify.slice(i, i + concurrency)
+    const verified = await Promise.all(batch.map(t => verifyBonkFunToken(t.mint)))
+
+    for (let j = 0; j < batch.length; j++) {
+      const verification = verified[j]
+      if (!verification) continue
+      results.set(batch[j].mint, verification)
+      await persistBonkFunVerification(verification, batch[j])
+    }
+  }
+
+  if (uncached.length > toVerify.length || skipped > 0) {
+    console.log(`[BonkFunVerify] Deferred ${uncached.length - toVerify.length} mints to later runs, skipped ${skipped} undetermined`)
+  }
+
+  return results
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/**
+ * Record a verified BonkFun token in the bonkfun_tokens table
+ * Supabase is loaded lazily so deployments without it don't need the client
+ */
+export async function persistBonkFunVerification(
+  verification: BonkFunVerification,
+  info: BonkFunTokenInfo
+): Promise<boolean> {
+  if (!verification.isBonkFun) return false
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return false
+
+  try {
+    const { upsertBonkFunToken } = await import('./supabase')
+    return await upsertBonkFunToken({
+      mint: verification.mint,
+      symbol: info.symbol,
+      name: info.name,
+      pool_address: info.poolAddress,
+      pool_type: info.poolType,
+      image_url: info.imageUrl || undefined,
+      verified_at: new Date(verification.verifiedAt).toISOString(),
+      verification_source: verification.source,
+      confidence: verification.confidence,
+      creator: verification.creator,
+      is_active: true,
+    })
+  } catch (e) {
+    console.warn('[BonkFunVerify] Failed to persist verification:', e)
+    return false
+  }
+}
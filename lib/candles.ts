@@ -0,0 +1,253 @@
+/**
+ * Historical Price Candles
+ *
+ * Builds OHLCV candles for a token from stored hourly per-token volume
+ * snapshots (Supabase `volume_snapshots`: price_usd, volume_1h). Only buckets
+ * with a snapshot for every hour use them - the rest are filled from
+ * GeckoTerminal's OHLCV endpoint.
+ *
+ * Nothing here is synthesized - a bucket with no data from either source is
+ * simply absent from the result.
+ */
+
+import type { VolumeSnapshot } from './supabase'
+import {
+  TOKEN_CONFIG,
+  fetchWithTimeout,
+  markApiError,
+  resetApiHealth,
+  isApiHealthy,
+} from './token-sources'
+
+// ============================================
+// TYPES & CONFIGURATION
+// ============================================
+
+export type CandleInterval = '5m' | '1h' | '1d'
+
+export interface Candle {
+  time: number // Bucket start, ms
+  open: number
+  high: number
+  low: number
+  close: number
+  volume: number
+  source?: 'snapshots' | 'geckoterminal'
+}
+
+export interface CandleResult {
+  candles: Candle[]
+  sources: { snapshots: number; geckoterminal: number }
+}
+
+const HOUR_MS = 60 * 60 * 1000
+
+export const CANDLE_INTERVALS: Record<CandleInterval, {
+  bucketMs: number
+  lookbackMs: number
+  geckoTimeframe: 'minute' | 'hour' | 'day'
+  geckoAggregate: number
+}> = {
+  '5m': { bucketMs: 5 * 60 * 1000, lookbackMs: 24 * HOUR_MS, geckoTimeframe: 'minute', geckoAggregate: 5 },
+  '1h': { bucketMs: HOUR_MS, lookbackMs: 7 * 24 * HOUR_MS, geckoTimeframe: 'hour', geckoAggregate: 1 },
+  '1d': { bucketMs: 24 * HOUR_MS, lookbackMs: 90 * 24 * HOUR_MS, geckoTimeframe: 'day', geckoAggregate: 1 },
+}
+
+export function isCandleInterval(value: string | null): value is CandleInterval {
+  return value === '5m' || value === '1h' || value === '1d'
+}
+
+// Short cache - candles only change at the most recent bucket
+// Keyed by pool too, a token's pools each have their own price history
+const CANDLE_CACHE_TTL = 60 * 1000
+const candleCache = new Map<string, { result: CandleResult; timestamp: number }>()
+
+// ============================================
+// SNAPSHOT CANDLES
+// ============================================
+
+/**
+ * Bucket snapshots into candles, keeping only buckets with a snapshot for every hour
+ * volume_1h covers one hour, so a bucket's volume is the sum over its hours - scaling
+ * a partial bucket up (or an hour down to 5m) would make volume up
+ */
+export function buildCandlesFromSnapshots(
+  snapshots: VolumeSnapshot[],
+  interval: CandleInterval
+): Candle[] {
+  const { bucketMs } = CANDLE_INTERVALS[interval]
+  if (bucketMs < HOUR_MS) return []
+
+  const buckets = new Map<number, { candle: Candle; hourVolumes: Map<number, number> }>()
+
+  const sorted = snapshots
+    .filter(s => s.price_usd && s.price_usd > 0)
+    .sort((a, b) => new Date(a.snapshot_time).getTime() - new Date(b.snapshot_time).getTime())
+
+  for (const snapshot of sorted) {
+    const price = snapshot.price_usd!
+    const time = new Date(snapshot.snapshot_time).getTime()
+    const bucketStart = Math.floor(time / bucketMs) * bucketMs
+    const hour = Math.floor(time / HOUR_MS) * HOUR_MS
+
+    const bucket = buckets.get(bucketStart)
+    if (!bucket) {
+      buckets.set(bucketStart, {
+        candle: { time: bucketStart, open: price, high: price, low: price, close: price, volume: 0 },
+        hourVolumes: new Map([[hour, snapshot.volume_1h || 0]]),
+      })
+      continue
+    }
+
+    bucket.candle.high = Math.max(bucket.candle.high, price)
+    bucket.candle.low = Math.min(bucket.candle.low, price)
+    bucket.candle.close = price
+    bucket.hourVolumes.set(hour, snapshot.volume_1h || 0)
+  }
+
+  const hoursPerBucket = bucketMs / HOUR_MS
+  return Array.from(buckets.values())
+    .filter(({ hourVolumes }) => hourVolumes.size >= hoursPerBucket)
+    .map(({ candle, hourVolumes }) => ({
+      ...candle,
+      volume: Array.from(hourVolumes.values()).reduce((sum, v) => sum + v, 0),
+    }))
+}
+
+/**
+ * Load per-token snapshots from Supabase (empty when not configured)
+ * Supabase is loaded lazily so deployments without it don't need the client
+ */
+async function fetchSnapshotCandles(mint: string, interval: CandleInterval): Promise<Candle[]> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return []
+
+  try {
+    const { getTokenVolumeHistory } = await import('./supabase')
+    const end = new Date()
+    const start = new Date(end.getTime() - CANDLE_INTERVALS[interval].lookbackMs)
+    const snapshots = await getTokenVolumeHistory(mint, start, end)
+    return buildCandlesFromSnapshots(snapshots, interval)
+  } catch (e) {
+    console.warn('[Candles] Snapshot lookup failed:', e)
+    return []
+  }
+}
+
+// ============================================
+// GECKOTERMINAL OHLCV (GAP FILL)
+// ============================================
+
+/**
+ * Highest-liquidity USD1 pool for a mint, used when the caller doesn't know the pair
+ */
+async function findGeckoTerminalPool(mint: string): Promise<string | null> {
+  const res = await fetchWithTimeout(
+    `${TOKEN_CONFIG.GECKOTERMINAL_API}/networks/solana/tokens/${mint}/pools?page=1`
+  )
+  if (!res.ok) {
+    if (res.status === 429) markApiError('geckoterminal')
+    return null
+  }
+
+  const data = await res.json()
+  const pools: any[] = data.data || []
+  const usd1Pool = pools.find(p =>
+    p.relationships?.quote_token?.data?.id === `solana_${TOKEN_CONFIG.USD1_MINT}` ||
+    p.relationships?.base_token?.data?.id === `solana_${TOKEN_CONFIG.USD1_MINT}`
+  )
+
+  return (usd1Pool || pools[0])?.attributes?.address || null
+}
+
+async function fetchGeckoTerminalCandles(
+  mint: string,
+  interval: CandleInterval,
+  poolAddress?: string
+): Promise<Candle[]> {
+  if (!isApiHealthy('geckoterminal')) return []
+
+  const { bucketMs, lookbackMs, geckoTimeframe, geckoAggregate } = CANDLE_INTERVALS[interval]
+
+  try {
+    const pool = poolAddress || await findGeckoTerminalPool(mint)
+    if (!pool) return []
+
+    const limit = Math.min(Math.ceil(lookbackMs / bucketMs), 1000)
+    const res = await fetchWithTimeout(
+      `${TOKEN_CONFIG.GECKOTERMINAL_API}/networks/solana/pools/${pool}/ohlcv/${geckoTimeframe}` +
+      `?aggregate=${geckoAggregate}&limit=${limit}&currency=usd&token=${mint}`
+    )
+
+    if (!res.ok) {
+      if (res.status === 429) markApiError('geckoterminal')
+      return []
+    }
+
+    const data = await res.json()
+    const ohlcv: number[][] = data.data?.attributes?.ohlcv_list || []
+    resetApiHealth('geckoterminal')
+
+    // [timestamp (s), open, high, low, close, volume]
+    return ohlcv.map(([ts, open, high, low, close, volume]) => ({
+      time: Math.floor((ts * 1000) / bucketMs) * bucketMs,
+      open,
+      high,
+      low,
+      close,
+      volume,
+    }))
+  } catch (e) {
+    console.warn('[Candles] GeckoTerminal OHLCV failed:', e)
+    markApiError('geckoterminal')
+    return []
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Candles for a token, fully covered snapshot buckets first with GeckoTerminal
+ * filling the rest - buckets neither source has are left out
+ */
+export async function getTokenCandles(
+  mint: string,
+  interval: CandleInterval,
+  poolAddress?: string
+): Promise<CandleResult> {
+  const cacheKey = `${mint}:${interval}:${poolAddress || ''}`
+  const cached = candleCache.get(cacheKey)
+  if (cached && Date.now() - cached.timestamp < CANDLE_CACHE_TTL) {
+    return cached.result
+  }
+
+  const { bucketMs, lookbackMs } = CANDLE_INTERVALS[interval]
+  const snapshotCandles = await fetchSnapshotCandles(mint, interval)
+
+  // Only hit GeckoTerminal when snapshots don't cover the whole window
+  const expectedBuckets = Math.floor(lookbackMs / bucketMs)
+  const geckoCandles = snapshotCandles.length < expectedBuckets
+    ? await fetchGeckoTerminalCandles(mint, interval, poolAddress)
+    : []
+
+  const merged = new Map<number, Candle>()
+  for (const candle of geckoCandles) {
+    merged.set(candle.time, { ...candle, source: 'geckoterminal' })
+  }
+  for (const candle of snapshotCandles) {
+    merged.set(candle.time, { ...candle, source: 'snapshots' })
+  }
+  const geckoFilled = Array.from(merged.values()).filter(c => c.source === 'geckoterminal').length
+
+  const since = Date.now() - lookbackMs
+  const result: CandleResult = {
+    candles: Array.from(merged.values())
+      .filter(c => c.time >= since)
+      .sort((a, b) => a.time - b.time),
+    sources: { snapshots: snapshotCandles.length, geckoterminal: geckoFilled },
+  }
+
+  candleCache.set(cacheKey, { result, timestamp: Date.now() })
+  return result
+}
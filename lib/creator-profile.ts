@@ -0,0 +1,310 @@
+/**
+ * Creator Profiles
+ *
+ * Who launched a token, what else they launched, and whether they sold.
+ *
+ * Creator resolution (most to least reliable):
+ * - Fee payer of the BonkFun creation tx (recorded during verification)
+ * - LaunchLab pool creator for tokens still on the bonding curve
+ * - CPMM `poolCreator` - for migrated pools this can be the migration
+ *   authority rather than the dev, so it's only a last resort
+ *
+ * Other launches come from bonkfun_tokens (joined on `creator`), outcomes
+ * from DexScreener. A launch counts as a rug when its liquidity was withdrawn,
+ * read from its pools' reserves - not when it merely died and trades on thin
+ * liquidity. Dev sells are found by scanning the creator's recent
+ * transactions for this mint: a token balance drop paired with a USD1
+ * balance gain is a sell, a drop without one is a transfer.
+ */
+
+import { rpcManager } from './rpc-manager'
+import { rpcRequest } from './pool-discovery'
+import { verifyBonkFunToken } from './bonkfun-verification'
+import {
+  getCachedPools,
+  getCachedBondingPools,
+  getCachedCreatorProfile,
+  setCachedCreatorProfile,
+} from './pool-cache'
+import { TOKEN_CONFIG, fetchDexScreenerTokens } from './token-sources'
+import { SERIAL_RUGGER_MIN_RUGS } from './safety-score'
+
+const MAX_LAUNCHES = 30 // One DexScreener batch
+const MAX_SCANNED_TXS = 25
+const SCAN_CONCURRENCY = 5
+const DRAINED_POOL_SUPPLY_SHARE = 0.01 // Pool token reserve under 1% of supply
+const UNRESOLVED_RETRY_MS = 30 * 60 * 1000
+
+// Mints whose creator couldn't be resolved, per isolate - skipped until the retry is due
+const unresolvedCreators = new Map<string, number>()
+
+export type CreatorSource = 'creation-tx' | 'launchlab' | 'cpmm-pool'
+
+export interface CreatorLaunch {
+  mint: string
+  symbol: string | null
+  name: string | null
+  mcap: number | null
+  liquidity: number | null
+  liquidityPulled: boolean | null // LP withdrawn from its pools, null when it has no known reserve pool
+}
+
+export interface DevActivity {
+  balance: number | null // Current balance across the creator's token accounts
+  hasSold: boolean | null // null when the RPC scan failed
+  soldAmount: number
+  transferredAmount: number
+  scannedTxs: number
+}
+
+export interface CreatorProfile {
+  mint: string
+  creator: string
+  source: CreatorSource
+  launches: CreatorLaunch[] // Includes this token
+  rugCount: number // Other launches with pulled liquidity
+  isSerialRugger: boolean
+  dev: DevActivity
+  computedAt: number
+}
+
+// ============================================
+// CREATOR RESOLUTION
+// ============================================
+
+async function resolveCreator(mint: string): Promise<{ creator: string; source: CreatorSource } | null> {
+  const verification = await verifyBonkFunToken(mint)
+  if (verification?.creator) {
+    return { creator: verification.creator, source: 'creation-tx' }
+  }
+
+  const [bondingPools, pools] = await Promise.all([getCachedBondingPools(), getCachedPools()])
+
+  const curve = bondingPools?.find(p => p.tokenMint === mint)
+  if (curve?.creator) {
+    return { creator: curve.creator, source: 'launchlab' }
+  }
+
+  // AMM v4 pools have no creator and CLMM pools can be opened by anyone after graduation
+  const pool = pools?.pools.find(p => p.tokenMint === mint && p.poolType !== 'clmm' && p.poolCreator)
+  if (pool?.poolCreator) {
+    return { creator: pool.poolCreator, source: 'cpmm-pool' }
+  }
+
+  return null
+}
+
+// ============================================
+// LAUNCH HISTORY
+// ============================================
+
+/**
+ * Every BonkFun token recorded for this creator, with current market outcome
+ * Supabase is loaded lazily so deployments without it only see this token
+ */
+async function fetchLaunches(creator: string, mint: string): Promise<CreatorLaunch[]> {
+  const rows: { mint: string; symbol: string | null; name: string | null }[] = []
+
+  if (process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    try {
+      const { getBonkFunTokensByCreator } = await import('./supabase')
+      const tokens = await getBonkFunTokensByCreator(creator)
+      rows.push(...tokens.map(t => ({ mint: t.mint, symbol: t.symbol ?? null, name: t.name ?? null })))
+    } catch (e) {
+      console.warn('[CreatorProfile] Failed to load creator tokens:', e)
+    }
+  }
+
+  if (!rows.some(r => r.mint === mint)) {
+    rows.unshift({ mint, symbol: null, name: null })
+  }
+
+  const launches = rows.slice(0, MAX_LAUNCHES)
+  const [market, pulled] = await Promise.all([
+    fetchDexScreenerTokens(launches.map(l => l.mint)),
+    fetchLiquidityPulled(launches.map(l => l.mint)),
+  ])
+
+  return launches.map(launch => {
+    const data = market.get(launch.mint)
+    return {
+      mint: launch.mint,
+      symbol: launch.symbol || data?.symbol || null,
+      name: launch.name || data?.name || null,
+      mcap: data?.fdv ?? null,
+      liquidity: data?.liquidity ?? null,
+      liquidityPulled: pulled.get(launch.mint) ?? null,
+    }
+  })
+}
+
+/**
+ * Whether each mint's liquidity was withdrawn, from its CPMM / AMM v4 USD1 pools
+ * Pulling the LP empties both sides of a pool, while a launch that simply died
+ * keeps its LP and its pool fills up with tokens as holders sell. So a mint
+ * counts as pulled when every reserve pool holds under 1% of its supply.
+ * Mints without a known reserve pool (or whose accounts fail to load) are left out
+ */
+async function fetchLiquidityPulled(mints: string[]): Promise<Map<string, boolean>> {
+  const pulled = new Map<string, boolean>()
+  const cached = await getCachedPools()
+  const wanted = new Set(mints)
+  const poolsByMint = new Map<string, string[]>()
+  for (const pool of cached?.pools || []) {
+    if (!wanted.has(pool.tokenMint) || pool.poolType === 'clmm') continue
+    poolsByMint.set(pool.tokenMint, [...(poolsByMint.get(pool.tokenMint) || []), pool.tokenVault])
+  }
+  if (poolsByMint.size === 0) return pulled
+
+  const addresses = Array.from(poolsByMint, ([mint, vaults]) => [mint, ...vaults]).flat()
+  const accounts = new Map<string, any>()
+  try {
+    for (let i = 0; i < addresses.length; i += 100) {
+      const batch = addresses.slice(i, i + 100)
+      const response = await rpcManager.executeWithFallback(rpcUrl =>
+        rpcRequest(rpcUrl, 'getMultipleAccounts', [batch, { encoding: 'jsonParsed' }])
+      )
+      batch.forEach((address, j) => accounts.set(address, response?.value?.[j]?.data?.parsed?.info))
+    }
+  } catch (e) {
+    console.warn('[CreatorProfile] Pool reserve lookup failed:', e)
+    return pulled
+  }
+
+  for (const [mint, vaults] of poolsByMint) {
+    const mintInfo = accounts.get(mint)
+    const reserves = vaults.map(vault => accounts.get(vault)?.tokenAmount?.uiAmount)
+    if (!mintInfo?.supply || reserves.some(r => typeof r !== 'number')) continue
+
+    const supply = Number(mintInfo.supply) / Math.pow(10, mintInfo.decimals ?? 9)
+    pulled.set(mint, reserves.every(r => r < supply * DRAINED_POOL_SUPPLY_SHARE))
+  }
+
+  return pulled
+}
+
+// ============================================
+// DEV SELLS
+// ============================================
+
+/**
+ * Change in an owner's balance of a mint across a transaction (UI units)
+ */
+function ownerBalanceChange(tx: any, owner: string, mint: string): number {
+  const sum = (balances: any[] | undefined) =>
+    (balances || [])
+      .filter(b => b.owner === owner && b.mint === mint)
+      .reduce((total, b) => total + Number(b.uiTokenAmount?.uiAmount || 0), 0)
+
+  return sum(tx?.meta?.postTokenBalances) - sum(tx?.meta?.preTokenBalances)
+}
+
+/**
+ * Current dev balance plus sells/transfers in the creator's recent transactions
+ * Scans the creator's token account when it still exists, otherwise the wallet
+ */
+async function fetchDevActivity(creator: string, mint: string): Promise<DevActivity> {
+  try {
+    return await rpcManager.executeWithFallback(async (rpcUrl) => {
+      const accounts = await rpcRequest(rpcUrl, 'getTokenAccountsByOwner', [
+        creator,
+        { mint },
+        { encoding: 'jsonParsed' },
+      ])
+      const tokenAccounts: any[] = accounts?.value || []
+      const balance = tokenAccounts.reduce(
+        (total, a) => total + Number(a.account?.data?.parsed?.info?.tokenAmount?.uiAmount || 0),
+        0
+      )
+
+      const scanAddress = tokenAccounts[0]?.pubkey || creator
+      const signatures: any[] = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+        scanAddress,
+        { limit: MAX_SCANNED_TXS },
+      ]) || []
+
+      let soldAmount = 0
+      let transferredAmount = 0
+      let scannedTxs = 0
+
+      for (let i = 0; i < signatures.length; i += SCAN_CONCURRENCY) {
+        const batch = signatures.slice(i, i + SCAN_CONCURRENCY).filter(s => !s.err)
+        const txs = await Promise.all(batch.map(s =>
+          rpcRequest(rpcUrl, 'getTransaction', [
+            s.signature,
+            { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+          ])
+        ))
+
+        for (const tx of txs) {
+          if (!tx) continue
+          scannedTxs++
+
+          const tokenChange = ownerBalanceChange(tx, creator, mint)
+          if (tokenChange >= 0) continue
+
+          if (ownerBalanceChange(tx, creator, TOKEN_CONFIG.USD1_MINT) > 0) {
+            soldAmount += -tokenChange
+          } else {
+            transferredAmount += -tokenChange
+          }
+        }
+      }
+
+      return {
+        balance,
+        hasSold: soldAmount > 0,
+        soldAmount,
+        transferredAmount,
+        scannedTxs,
+      }
+    })
+  } catch (e) {
+    console.warn(`[CreatorProfile] Dev activity scan failed for ${mint}:`, e)
+    return { balance: null, hasSold: null, soldAmount: 0, transferredAmount: 0, scannedTxs: 0 }
+  }
+}
+
+// ============================================
+// PROFILE
+// ============================================
+
+/**
+ * Build (or return the cached) creator profile for a token
+ * Returns null when no creator can be resolved
+ */
+export async function fetchCreatorProfile(mint: string): Promise<CreatorProfile | null> {
+  const cached = await getCachedCreatorProfile(mint)
+  if (cached) return cached
+
+  const unresolvedAt = unresolvedCreators.get(mint)
+  if (unresolvedAt && Date.now() - unresolvedAt < UNRESOLVED_RETRY_MS) return null
+
+  const resolved = await resolveCreator(mint)
+  if (!resolved) {
+    unresolvedCreators.set(mint, Date.now())
+    return null
+  }
+  unresolvedCreators.delete(mint)
+
+  const [launches, dev] = await Promise.all([
+    fetchLaunches(resolved.creator, mint),
+    fetchDevActivity(resolved.creator, mint),
+  ])
+
+  const rugCount = launches.filter(l => l.mint !== mint && l.liquidityPulled === true).length
+
+  const profile: CreatorProfile = {
+    mint,
+    creator: resolved.creator,
+    source: resolved.source,
+    launches,
+    rugCount,
+    isSerialRugger: rugCount >= SERIAL_RUGGER_MIN_RUGS,
+    dev,
+    computedAt: Date.now(),
+  }
+
+  await setCachedCreatorProfile(profile)
+  return profile
+}
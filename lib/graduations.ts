@@ -0,0 +1,370 @@
+/**
+ * Graduation Tracking
+ *
+ * Detects BonkFun tokens leaving the LaunchLab bonding curve from the
+ * graduate program's own signatures. A graduation is a successful
+ * transaction that invokes LaunchLab with the BonkFun platform config (other
+ * launchpads share the program) and drains a token's curve vault into
+ * a new USD1 pool: the mint whose balance drops the most is the graduating
+ * token, and the account owner that receives both the token and USD1 is the
+ * new pool, whose deposit ratio is the price at graduation.
+ *
+ * Events are kept in a log (KV with in-memory fallback) refreshed
+ * incrementally with `until`, and written to bonkfun_tokens
+ * (graduated_at, graduation_tx) and daily_aggregates (new_tokens_graduated)
+ * when Supabase is configured.
+ */
+
+import type { Token } from './types'
+import { rpcManager } from './rpc-manager'
+import { rpcRequest } from './pool-discovery'
+import { getCachedGraduations, setCachedGraduations, getCachedEnrichedTokens } from './pool-cache'
+import { TOKEN_CONFIG } from './token-sources'
+import { isBonkFunLaunchTransaction } from './bonkfun-verification'
+import { getTokenCache } from './token-feed'
+
+const SIGNATURES_PER_PAGE = 100
+const MAX_SIGNATURES_PER_SCAN = 500
+const FETCH_CONCURRENCY = 5
+const MAX_EVENTS = 200
+
+const DAY_MS = 24 * 60 * 60 * 1000
+
+export interface GraduationEvent {
+  mint: string
+  signature: string
+  graduatedAt: number // Block time, ms
+  priceAtGraduation: number | null // USD1 per token deposited into the new pool
+  liquidityAtGraduation: number | null // USD1 deposited into the new pool
+}
+
+export interface GraduationLog {
+  events: GraduationEvent[] // Newest first, one per mint
+  newestSignature: string | null
+  scannedAt: number
+}
+
+export interface GraduationScanResult {
+  log: GraduationLog
+  newEvents: GraduationEvent[]
+  scannedSignatures: number
+}
+
+export interface GraduatedToken {
+  mint: string
+  symbol: string | null
+  name: string | null
+  imageUrl: string | null
+  signature: string | null
+  graduatedAt: number
+  priceAtGraduation: number | null
+  price: number | null // Current price, null when the token isn't in the feed
+  mcap: number | null
+  liquidity: number | null
+  volume24h: number | null
+  performance: number | null // % price change since graduation
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Per-account token balance changes across a transaction (UI units)
+ */
+function balanceChanges(tx: any): { mint: string; owner: string | undefined; change: number }[] {
+  const changes = new Map<number, { mint: string; owner: string | undefined; change: number }>()
+  const amount = (b: any) => Number(b.uiTokenAmount?.uiAmount || 0)
+
+  for (const b of tx?.meta?.preTokenBalances || []) {
+    changes.set(b.accountIndex, { mint: b.mint, owner: b.owner, change: -amount(b) })
+  }
+  for (const b of tx?.meta?.postTokenBalances || []) {
+    const entry = changes.get(b.accountIndex) || { mint: b.mint, owner: b.owner, change: 0 }
+    entry.owner = entry.owner || b.owner
+    entry.change += amount(b)
+    changes.set(b.accountIndex, entry)
+  }
+
+  return Array.from(changes.values())
+}
+
+/**
+ * Parse a getTransaction (jsonParsed) result from the graduate program into a graduation
+ * Returns null for failed transactions and anything that doesn't migrate a BonkFun USD1 curve
+ */
+export function parseGraduation(tx: any, signature: string): GraduationEvent | null {
+  if (!tx?.transaction?.message || tx.meta?.err) return null
+  // Same check as launches: LaunchLab invoked with the BonkFun platform config
+  if (!isBonkFunLaunchTransaction(tx)) return null
+
+  const changes = balanceChanges(tx)
+  const usd1 = TOKEN_CONFIG.USD1_MINT
+
+  // SOL-paired launches migrate too - only USD1 curves belong on this dashboard
+  if (!changes.some(c => c.mint === usd1 && c.change !== 0)) return null
+
+  // The graduating mint is the one drained from the curve vault
+  const drained = new Map<string, number>()
+  for (const c of changes) {
+    if (c.mint === usd1 || c.change >= 0) continue
+    drained.set(c.mint, (drained.get(c.mint) || 0) - c.change)
+  }
+  const mint = Array.from(drained.entries()).sort((a, b) => b[1] - a[1])[0]?.[0]
+  if (!mint) return null
+
+  // The new pool's vaults share an owner that receives both sides
+  const deposits = new Map<string, { token: number; usd1: number }>()
+  for (const c of changes) {
+    if (!c.owner || c.change <= 0 || (c.mint !== mint && c.mint !== usd1)) continue
+    const deposit = deposits.get(c.owner) || { token: 0, usd1: 0 }
+    if (c.mint === mint) deposit.token += c.change
+    else deposit.usd1 += c.change
+    deposits.set(c.owner, deposit)
+  }
+  const pool = Array.from(deposits.values())
+    .filter(d => d.token > 0 && d.usd1 > 0)
+    .sort((a, b) => b.usd1 - a.usd1)[0]
+
+  return {
+    mint,
+    signature,
+    graduatedAt: (tx.blockTime || 0) * 1000,
+    priceAtGraduation: pool ? pool.usd1 / pool.token : null,
+    liquidityAtGraduation: pool ? pool.usd1 : null,
+  }
+}
+
+// ============================================
+// SCANNING
+// ============================================
+
+/**
+ * Fetch graduate program transactions newer than the log's newest signature
+ * Stops at MAX_SIGNATURES_PER_SCAN - after a long gap between scans the oldest
+ * missed signatures are skipped, so the job should run at least hourly
+ */
+async function scanNewGraduations(
+  newestSignature: string | null
+): Promise<{ events: GraduationEvent[]; newestSignature: string | null; scanned: number }> {
+  return rpcManager.executeWithFallback(async (rpcUrl) => {
+    const signatures: any[] = []
+    let before: string | undefined
+
+    while (signatures.length < MAX_SIGNATURES_PER_SCAN) {
+      const page: any[] = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+        TOKEN_CONFIG.BONKFUN.GRADUATE_PROGRAM,
+        {
+          limit: SIGNATURES_PER_PAGE,
+          ...(newestSignature ? { until: newestSignature } : {}),
+          ...(before ? { before } : {}),
+        },
+      ]) || []
+
+      signatures.push(...page)
+      // The first scan only takes the latest page rather than walking the whole history
+      if (page.length < SIGNATURES_PER_PAGE || !newestSignature) break
+      before = page[page.length - 1].signature
+    }
+
+    const events: GraduationEvent[] = []
+    const successful = signatures.filter(s => !s.err)
+    for (let i = 0; i < successful.length; i += FETCH_CONCURRENCY) {
+      const batch = successful.slice(i, i + FETCH_CONCURRENCY)
+      const txs = await Promise.all(batch.map(s =>
+        rpcRequest(rpcUrl, 'getTransaction', [
+          s.signature,
+          { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+        ])
+      ))
+
+      txs.forEach((tx, j) => {
+        const event = parseGraduation(tx, batch[j].signature)
+        if (event) events.push(event)
+      })
+    }
+
+    return {
+      events,
+      newestSignature: signatures[0]?.signature || newestSignature,
+      scanned: signatures.length,
+    }
+  })
+}
+
+/**
+ * Refresh the graduation log with transactions since the last scan
+ * With `maxAge`, a log scanned more recently than that is returned as is
+ */
+export async function scanGraduations(maxAge = 0): Promise<GraduationScanResult> {
+  const log = await getCachedGraduations() || { events: [], newestSignature: null, scannedAt: 0 }
+  if (maxAge > 0 && Date.now() - log.scannedAt < maxAge) {
+    return { log, newEvents: [], scannedSignatures: 0 }
+  }
+
+  try {
+    const fresh = await scanNewGraduations(log.newestSignature)
+
+    // A mint graduates once - keep the first event seen for it
+    const known = new Set(log.events.map(e => e.mint))
+    const newEvents = fresh.events.filter(e => {
+      if (known.has(e.mint)) return false
+      known.add(e.mint)
+      return true
+    })
+
+    const merged: GraduationLog = {
+      events: [...newEvents, ...log.events]
+        .sort((a, b) => b.graduatedAt - a.graduatedAt)
+        .slice(0, MAX_EVENTS),
+      newestSignature: fresh.newestSignature,
+      scannedAt: Date.now(),
+    }
+    await setCachedGraduations(merged)
+
+    if (newEvents.length > 0) {
+      console.log(`[Graduations] ${newEvents.length} new graduations in ${fresh.scanned} signatures`)
+    }
+
+    return { log: merged, newEvents, scannedSignatures: fresh.scanned }
+  } catch (e) {
+    console.warn('[Graduations] Scan failed:', e)
+    return { log, newEvents: [], scannedSignatures: 0 }
+  }
+}
+
+// ============================================
+// PERSISTENCE
+// ============================================
+
+/**
+ * Record graduations in bonkfun_tokens and recount new_tokens_graduated for their days
+ * Supabase is loaded lazily so deployments without it don't need the client
+ */
+export async function persistGraduations(
+  events: GraduationEvent[]
+): Promise<{ tokens: number; days: number }> {
+  if (events.length === 0) return { tokens: 0, days: 0 }
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) {
+    return { tokens: 0, days: 0 }
+  }
+
+  try {
+    const { upsertBonkFunTokens } = await import('./supabase')
+    const tokens = await upsertBonkFunTokens(events.map(e => ({
+      mint: e.mint,
+      graduated_at: new Date(e.graduatedAt).toISOString(),
+      graduation_tx: e.signature,
+    })))
+
+    const dayStarts = new Set(events.map(e => Math.floor(e.graduatedAt / DAY_MS) * DAY_MS))
+    let days = 0
+    for (const dayStart of dayStarts) {
+      if (await recordDailyGraduations(new Date(dayStart))) days++
+    }
+
+    return { tokens, days }
+  } catch (e) {
+    console.warn('[Graduations] Failed to persist graduations:', e)
+    return { tokens: 0, days: 0 }
+  }
+}
+
+/**
+ * Graduations recorded in bonkfun_tokens for a UTC day
+ */
+export async function countDailyGraduations(day: Date): Promise<number> {
+  const { getGraduatedTokens } = await import('./supabase')
+  const dayStart = new Date(day)
+  dayStart.setUTCHours(0, 0, 0, 0)
+
+  const tokens = await getGraduatedTokens(dayStart, new Date(dayStart.getTime() + DAY_MS))
+  return tokens.length
+}
+
+/**
+ * Write a day's graduation count to daily_aggregates (other columns are left as they are)
+ */
+async function recordDailyGraduations(day: Date): Promise<boolean> {
+  const { upsertDailyAggregate } = await import('./supabase')
+
+  return upsertDailyAggregate({
+    day: day.toISOString().split('T')[0],
+    new_tokens_graduated: await countDailyGraduations(day),
+  })
+}
+
+// ============================================
+// JUST GRADUATED FEED
+// ============================================
+
+/**
+ * Graduation events from bonkfun_tokens, for when the log is empty (fresh KV, new isolate)
+ */
+async function fetchStoredGraduations(since: number): Promise<GraduationEvent[]> {
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return []
+
+  try {
+    const { getGraduatedTokens } = await import('./supabase')
+    const tokens = await getGraduatedTokens(new Date(since))
+    return tokens
+      .filter(t => t.graduated_at)
+      .map(t => ({
+        mint: t.mint,
+        signature: t.graduation_tx || '',
+        graduatedAt: new Date(t.graduated_at!).getTime(),
+        priceAtGraduation: null,
+        liquidityAtGraduation: null,
+      }))
+  } catch (e) {
+    console.warn('[Graduations] Stored graduation lookup failed:', e)
+    return []
+  }
+}
+
+/**
+ * Most recent graduations with current market data and performance since graduation
+ * `maxAge` is passed to scanGraduations so polling doesn't rescan on every request
+ */
+export async function getJustGraduated(
+  limit: number,
+  withinMs: number,
+  maxAge = 0
+): Promise<GraduatedToken[]> {
+  const since = Date.now() - withinMs
+  const { log } = await scanGraduations(maxAge)
+
+  let events = log.events.filter(e => e.graduatedAt >= since)
+  if (events.length === 0) {
+    events = await fetchStoredGraduations(since)
+  }
+
+  let tokens: Token[] = getTokenCache().data
+  if (tokens.length === 0) {
+    tokens = (await getCachedEnrichedTokens())?.tokens || []
+  }
+  const byMint = new Map(tokens.map(t => [t.address, t]))
+
+  return events.slice(0, limit).map(e => {
+    const token = byMint.get(e.mint)
+    const price = token?.price || null
+    const performance = price && e.priceAtGraduation
+      ? ((price - e.priceAtGraduation) / e.priceAtGraduation) * 100
+      : null
+
+    return {
+      mint: e.mint,
+      symbol: token?.symbol || null,
+      name: token?.name || null,
+      imageUrl: token?.imageUrl || null,
+      signature: e.signature || null,
+      graduatedAt: e.graduatedAt,
+      priceAtGraduation: e.priceAtGraduation,
+      price,
+      mcap: token?.mcap ?? null,
+      liquidity: token?.liquidity ?? null,
+      volume24h: token?.volume24h ?? null,
+      performance,
+    }
+  })
+}
@@ -8,36 +8,144 @@
  * - Aggressive caching (1 hour TTL)
  * - Pagination through all accounts
  * - Batch processing with rate limiting
+ *
+ * The same pass computes the holder distribution (top 10 share, Gini,
+ * largest holders) so concentration costs no extra API credits.
  */
 
-import { getCachedHolderCount, setCachedHolderCount, getCachedHolderCountsBatch } from './pool-cache'
+import {
+  getCachedHolderCount,
+  setCachedHolderCount,
+  getCachedHolderCountsBatch,
+  getCachedHolderDistribution,
+  setCachedHolderDistribution,
+  getCachedPools,
+  getCachedBondingPools,
+} from './pool-cache'
 
 const HELIUS_API = 'https://mainnet.helius-rpc.com'
 const MAX_ACCOUNTS_PER_REQUEST = 1000
 const MAX_PAGES = 50 // Limit to ~50k holders max per token
 const REQUEST_DELAY_MS = 100 // Delay between requests to avoid rate limits
+const TOP_HOLDERS = 10
+
+export interface TopHolder {
+  owner: string
+  share: number // % of the supply held by all scanned accounts
+  isPoolVault: boolean
+}
+
+export interface HolderDistribution {
+  mint: string
+  holders: number // Wallets with a non-zero balance
+  top10Share: number // %
+  top10ShareExcludingPools: number // %, pool vaults removed from both sides
+  gini: number // 0 = perfectly equal, 1 = one wallet holds everything
+  largestHolder: TopHolder | null
+  topHolders: TopHolder[]
+  truncated: boolean // Hit MAX_PAGES (or an error) before the last account
+  computedAt: number
+}
+
+// ============================================
+// DISTRIBUTION MATH
+// ============================================
 
 /**
- * Fetch holder count for a single token using Helius getTokenAccounts
+ * Gini coefficient of a set of balances
  */
-export async function fetchHolderCount(mint: string): Promise<number | null> {
-  const apiKey = process.env.HELIUS_API_KEY
-  if (!apiKey) {
-    console.warn('[HolderFetcher] No HELIUS_API_KEY configured')
-    return null
+export function giniCoefficient(balances: number[]): number {
+  const sorted = balances.filter(b => b > 0).sort((a, b) => a - b)
+  const n = sorted.length
+  if (n === 0) return 0
+
+  let weighted = 0
+  let total = 0
+  sorted.forEach((balance, i) => {
+    weighted += (i + 1) * balance
+    total += balance
+  })
+
+  return total > 0 ? (2 * weighted) / (n * total) - (n + 1) / n : 0
+}
+
+/**
+ * Holder distribution from per-owner balances
+ * `poolOwners` are owners whose token account is a known pool vault
+ */
+export function computeHolderDistribution(
+  mint: string,
+  balances: Map<string, number>,
+  poolOwners: Set<string>,
+  truncated = false
+): HolderDistribution {
+  const entries = Array.from(balances.entries()).filter(([, balance]) => balance > 0)
+  entries.sort((a, b) => b[1] - a[1])
+
+  const total = entries.reduce((sum, [, balance]) => sum + balance, 0)
+  const share = (balance: number) => (total > 0 ? (balance / total) * 100 : 0)
+
+  const topHolders: TopHolder[] = entries.slice(0, TOP_HOLDERS).map(([owner, balance]) => ({
+    owner,
+    share: share(balance),
+    isPoolVault: poolOwners.has(owner),
+  }))
+
+  const wallets = entries.filter(([owner]) => !poolOwners.has(owner))
+  const walletTotal = wallets.reduce((sum, [, balance]) => sum + balance, 0)
+  const walletTop10 = wallets.slice(0, TOP_HOLDERS).reduce((sum, [, balance]) => sum + balance, 0)
+
+  return {
+    mint,
+    holders: entries.length,
+    top10Share: topHolders.reduce((sum, h) => sum + h.share, 0),
+    top10ShareExcludingPools: walletTotal > 0 ? (walletTop10 / walletTotal) * 100 : 0,
+    gini: giniCoefficient(entries.map(([, balance]) => balance)),
+    largestHolder: topHolders[0] || null,
+    topHolders,
+    truncated,
+    computedAt: Date.now(),
   }
+}
 
-  // Check cache first
-  const cached = await getCachedHolderCount(mint)
-  if (cached !== null) {
-    return cached
+/**
+ * Token accounts that are pool vaults for this mint (CPMM and LaunchLab)
+ */
+async function getPoolVaults(mint: string): Promise<Set<string>> {
+  const vaults = new Set<string>()
+  const [pools, bondingPools] = await Promise.all([getCachedPools(), getCachedBondingPools()])
+
+  for (const pool of pools?.pools || []) {
+    if (pool.tokenMint === mint) vaults.add(pool.tokenVault)
+  }
+  for (const pool of bondingPools || []) {
+    if (pool.tokenMint === mint) vaults.add(pool.tokenVault)
   }
 
+  return vaults
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+/**
+ * Page through every token account for a mint, then cache the count and distribution
+ */
+async function scanTokenAccounts(
+  mint: string,
+  apiKey: string
+): Promise<{ count: number; distribution: HolderDistribution } | null> {
   try {
     const url = `${HELIUS_API}/?api-key=${apiKey}`
+    const poolVaults = await getPoolVaults(mint)
+    const balances = new Map<string, number>()
+    const poolOwners = new Set<string>()
     let cursor: string | undefined
     let totalHolders = 0
     let pageCount = 0
+    let truncated = false
+    let failed = false // Stopped on an error - the totals are partial
 
     // Paginate through all token accounts
     while (pageCount < MAX_PAGES) {
@@ -60,6 +168,7 @@ export async function fetchHolderCount(mint: string): Promise<number | null> {
 
       if (!response.ok) {
         console.error(`[HolderFetcher] API error for ${mint}: ${response.status}`)
+        failed = true
         break
       }
 
@@ -67,12 +176,21 @@ export async function fetchHolderCount(mint: string): Promise<number | null> {
 
       if (json.error) {
         console.error(`[HolderFetcher] RPC error for ${mint}:`, json.error)
+        failed = true
         break
       }
 
       const accounts = json.result?.token_accounts || []
       totalHolders += accounts.length
 
+      // Aggregate balances per owner (a wallet can hold several token accounts)
+      for (const account of accounts) {
+        const owner = account.owner
+        if (!owner) continue
+        balances.set(owner, (balances.get(owner) || 0) + Number(account.amount || 0))
+        if (poolVaults.has(account.address)) poolOwners.add(owner)
+      }
+
       // Check if there are more pages
       cursor = json.result?.cursor
       if (!cursor || accounts.length < MAX_ACCOUNTS_PER_REQUEST) {
@@ -80,6 +198,7 @@ export async function fetchHolderCount(mint: string): Promise<number | null> {
       }
 
       pageCount++
+      truncated = pageCount >= MAX_PAGES
 
       // Rate limiting delay
       if (pageCount < MAX_PAGES) {
@@ -87,18 +206,62 @@ export async function fetchHolderCount(mint: string): Promise<number | null> {
       }
     }
 
-    // Cache the result
-    if (totalHolders > 0) {
-      await setCachedHolderCount(mint, totalHolders)
+    const distribution = computeHolderDistribution(mint, balances, poolOwners, truncated || failed)
+
+    // Cache complete (or page-capped) scans only, a scan cut short by an error is retried next time
+    if (totalHolders > 0 && !failed) {
+      await Promise.all([
+        setCachedHolderCount(mint, totalHolders),
+        setCachedHolderDistribution(distribution),
+      ])
     }
 
-    return totalHolders
+    return { count: totalHolders, distribution }
   } catch (error) {
     console.error(`[HolderFetcher] Error fetching holders for ${mint}:`, error)
     return null
   }
 }
 
+/**
+ * Fetch holder count for a single token using Helius getTokenAccounts
+ */
+export async function fetchHolderCount(mint: string): Promise<number | null> {
+  const apiKey = process.env.HELIUS_API_KEY
+  if (!apiKey) {
+    console.warn('[HolderFetcher] No HELIUS_API_KEY configured')
+    return null
+  }
+
+  // Check cache first
+  const cached = await getCachedHolderCount(mint)
+  if (cached !== null) {
+    return cached
+  }
+
+  const result = await scanTokenAccounts(mint, apiKey)
+  return result ? result.count : null
+}
+
+/**
+ * Fetch holder distribution for a single token (cached alongside the holder count)
+ */
+export async function fetchHolderDistribution(mint: string): Promise<HolderDistribution | null> {
+  const cached = await getCachedHolderDistribution(mint)
+  if (cached) {
+    return cached
+  }
+
+  const apiKey = process.env.HELIUS_API_KEY
+  if (!apiKey) {
+    console.warn('[HolderFetcher] No HELIUS_API_KEY configured')
+    return null
+  }
+
+  const result = await scanTokenAccounts(mint, apiKey)
+  return result ? result.distribution : null
+}
+
 /**
  * Batch fetch holder counts for multiple tokens
  * Processes in parallel with rate limiting
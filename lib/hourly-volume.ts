@@ -0,0 +1,281 @@
+/**
+ * Hourly Ecosystem Volume
+ *
+ * Real hourly USD1 volume totals for the dashboard:
+ * - total_volume_snapshots (Supabase): total_volume_1h per stored hour
+ * - Backfilled hours in volume:daily (lib/volume-backfill.ts)
+ * - GeckoTerminal OHLCV, summed across the top pools, for hours neither
+ *   of those cover
+ *
+ * Hours neither source covers are returned with `volume: null` so the UI can
+ * show them as missing rather than smoothing over them.
+ */
+
+import type { Token } from './types'
+import {
+  TOKEN_CONFIG,
+  fetchWithTimeout,
+  markApiError,
+  resetApiHealth,
+  isApiHealthy,
+} from './token-sources'
+import { getTokenCache } from './token-feed'
+import { getCachedEnrichedTokens } from './pool-cache'
+import { getDailyVolume } from './volume-store'
+
+// ============================================
+// TYPES & CONFIGURATION
+// ============================================
+
+export type HourlyVolumeSource = 'snapshots' | 'backfill' | 'geckoterminal'
+
+export interface HourlyVolumePoint {
+  time: number // Hour start, ms
+  volume: number | null // null = no data for this hour
+  source: HourlyVolumeSource | null
+}
+
+export interface HourlyVolumeResult {
+  hours: HourlyVolumePoint[]
+  sources: Record<HourlyVolumeSource | 'missing', number>
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const OHLCV_BATCH_SIZE = 5 // Pools per batch (rate limit friendly)
+const MAX_OHLCV_POOLS = 30 // Top pools by volume summed for OHLCV
+
+// One cache of hours shared by every window (24h, 48h, 7d) - a closed hour
+// never changes, so only the open current hour and missing hours are refetched
+const HOURLY_CACHE_TTL = 2 * 60 * 1000 // Hours fetched while still open
+const MISSING_RETRY_MS = 30 * 60 * 1000 // Closed hours no source covered
+const MAX_CACHED_HOURS = 8 * 24
+const hourCache = new Map<number, { point: HourlyVolumePoint; timestamp: number }>()
+
+// ============================================
+// GECKOTERMINAL OHLCV
+// ============================================
+
+/**
+ * Pair addresses of the highest-volume tokens, for summing OHLCV across pools
+ * Live feed first, then the KV copy of the last build when this isolate hasn't built one
+ */
+export async function getTopPoolAddresses(limit = MAX_OHLCV_POOLS): Promise<string[]> {
+  let tokens: Token[] = getTokenCache().data
+  if (tokens.length === 0) {
+    tokens = (await getCachedEnrichedTokens())?.tokens || []
+  }
+
+  return tokens
+    .filter(t => t.pairAddress && t.volume24h > 0)
+    .sort((a, b) => b.volume24h - a.volume24h)
+    .slice(0, limit)
+    .map(t => t.pairAddress)
+}
+
+/**
+ * Fetch OHLCV data from GeckoTerminal for multiple pools and sum it per candle
+ * Uses batching to stay within rate limits. `complete` is false when any pool's
+ * request failed or was skipped after a 429, so the sums only cover some pools
+ */
+export async function fetchBatchedOHLCV(
+  poolAddresses: string[],
+  timeframe: string,
+  aggregate: number = 1,
+  limit: number = 1000 // Candles back from now
+): Promise<{ candles: Map<number, { volume: number; pools: number }>; complete: boolean }> {
+  const volumeByTimestamp = new Map<number, { volume: number; pools: number }>()
+  let fetchedPools = 0
+
+  // Process in batches to respect rate limits
+  for (let i = 0; i < poolAddresses.length; i += OHLCV_BATCH_SIZE) {
+    if (!isApiHealthy('geckoterminal')) break
+    const batch = poolAddresses.slice(i, i + OHLCV_BATCH_SIZE)
+
+    const batchPromises = batch.map(async (poolAddr): Promise<{ timestamp: number; volume: number }[] | null> => {
+      try {
+        const url = `${TOKEN_CONFIG.GECKOTERMINAL_API}/networks/solana/pools/${poolAddr}/ohlcv/${timeframe}?aggregate=${aggregate}&limit=${limit}`
+        const response = await fetchWithTimeout(url, 8000)
+
+        // Pools GeckoTerminal doesn't index have no candles to add
+        if (response.status === 404) return []
+        if (!response.ok) {
+          if (response.status === 429) markApiError('geckoterminal')
+          return null
+        }
+
+        const data = await response.json()
+        const ohlcvList = data.data?.attributes?.ohlcv_list || []
+        resetApiHealth('geckoterminal')
+
+        return ohlcvList.map((candle: number[]) => ({
+          timestamp: candle[0] * 1000,
+          volume: candle[5] || 0,
+        }))
+      } catch {
+        return null
+      }
+    })
+
+    const results = await Promise.all(batchPromises)
+
+    // Aggregate volumes by timestamp
+    for (const poolData of results) {
+      if (!poolData) continue
+      fetchedPools++
+      for (const point of poolData) {
+        const existing = volumeByTimestamp.get(point.timestamp)
+        if (existing) {
+          existing.volume += point.volume
+          existing.pools++
+        } else {
+          volumeByTimestamp.set(point.timestamp, { volume: point.volume, pools: 1 })
+        }
+      }
+    }
+
+    // Small delay between batches to be rate-limit friendly
+    if (i + OHLCV_BATCH_SIZE < poolAddresses.length) {
+      await new Promise(resolve => setTimeout(resolve, 100))
+    }
+  }
+
+  return { candles: volumeByTimestamp, complete: fetchedPools === poolAddresses.length }
+}
+
+// ============================================
+// SNAPSHOTS
+// ============================================
+
+/**
+ * Hourly totals from total_volume_snapshots (empty when Supabase isn't configured)
+ * A snapshot stamped at hour H records the trailing hour, so it fills hour H-1
+ */
+async function fetchSnapshotHours(start: number, end: number): Promise<Map<number, number>> {
+  const hours = new Map<number, number>()
+  if (!process.env.NEXT_PUBLIC_SUPABASE_URL || !process.env.SUPABASE_SERVICE_ROLE_KEY) return hours
+
+  try {
+    const { getVolumeChartData } = await import('./supabase')
+    const snapshots = await getVolumeChartData(new Date(start + HOUR_MS), new Date(end + HOUR_MS))
+
+    for (const snapshot of snapshots) {
+      if (snapshot.total_volume_1h === undefined || snapshot.total_volume_1h === null) continue
+      const hour = Math.floor(new Date(snapshot.snapshot_time).getTime() / HOUR_MS) * HOUR_MS - HOUR_MS
+      hours.set(hour, snapshot.total_volume_1h)
+    }
+  } catch (e) {
+    console.warn('[HourlyVolume] Snapshot lookup failed:', e)
+  }
+
+  return hours
+}
+
+/**
+ * Hours the backfill job stored on volume:daily records (UTC hour index per day)
+ */
+async function fetchBackfilledHours(start: number): Promise<Map<number, number>> {
+  const hours = new Map<number, number>()
+
+  try {
+    const days = await getDailyVolume(new Date(start).toISOString().split('T')[0])
+    for (const day of days) {
+      day.hourly?.forEach((volume, hour) => {
+        if (volume !== null) hours.set(day.timestamp + hour * HOUR_MS, volume)
+      })
+    }
+  } catch (e) {
+    console.warn('[HourlyVolume] Backfill lookup failed:', e)
+  }
+
+  return hours
+}
+
+// ============================================
+// HOUR CACHE
+// ============================================
+
+function isStale(time: number, entry: { point: HourlyVolumePoint; timestamp: number } | undefined, now: number): boolean {
+  if (!entry) return true
+  if (entry.timestamp < time + HOUR_MS) return now - entry.timestamp >= HOURLY_CACHE_TTL
+  return entry.point.volume === null && now - entry.timestamp >= MISSING_RETRY_MS
+}
+
+/**
+ * Resolve `times` (ascending) from snapshots, then backfill, then GeckoTerminal
+ * GeckoTerminal is only asked for the span back to the oldest hour the stores don't cover
+ */
+async function refreshHours(times: number[], poolAddresses: string[], now: number): Promise<void> {
+  const start = times[0]
+  const end = times[times.length - 1] + HOUR_MS
+
+  const [snapshotHours, backfilledHours] = await Promise.all([
+    fetchSnapshotHours(start, end),
+    fetchBackfilledHours(start),
+  ])
+
+  // The current hour is still open, so it's never stored - GeckoTerminal is always needed for it
+  const uncovered = times.filter(time => !snapshotHours.has(time) && !backfilledHours.has(time))
+  const candleCount = uncovered.length > 0 ? Math.ceil((now - uncovered[0]) / HOUR_MS) : 0
+  const ohlcv = candleCount > 0 && poolAddresses.length > 0
+    ? await fetchBatchedOHLCV(poolAddresses, 'hour', 1, candleCount)
+    : { candles: new Map<number, { volume: number; pools: number }>(), complete: true }
+  const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS
+
+  for (const time of times) {
+    const snapshot = snapshotHours.get(time)
+    const backfilled = backfilledHours.get(time)
+    // A closed hour summed from only some pools would be cached for good, so it stays missing
+    const candle = ohlcv.complete || time === currentHour ? ohlcv.candles.get(time) : undefined
+
+    let point: HourlyVolumePoint
+    if (snapshot !== undefined) {
+      point = { time, volume: snapshot, source: 'snapshots' }
+    } else if (backfilled !== undefined) {
+      point = { time, volume: backfilled, source: 'backfill' }
+    } else if (candle) {
+      point = { time, volume: candle.volume, source: 'geckoterminal' }
+    } else {
+      point = { time, volume: null, source: null }
+    }
+    hourCache.set(time, { point, timestamp: now })
+  }
+
+  const oldest = now - MAX_CACHED_HOURS * HOUR_MS
+  for (const time of hourCache.keys()) {
+    if (time < oldest) hourCache.delete(time)
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * The last `hoursBack` hours of ecosystem volume, oldest first, ending with the current hour
+ * `poolAddresses` are the pools summed for the GeckoTerminal fallback (top pools by volume)
+ */
+export async function getHourlyVolume(
+  hoursBack: number,
+  poolAddresses: string[]
+): Promise<HourlyVolumeResult> {
+  const now = Date.now()
+  const currentHour = Math.floor(now / HOUR_MS) * HOUR_MS
+  const start = currentHour - (hoursBack - 1) * HOUR_MS
+
+  const stale: number[] = []
+  for (let time = start; time <= currentHour; time += HOUR_MS) {
+    if (isStale(time, hourCache.get(time), now)) stale.push(time)
+  }
+  if (stale.length > 0) await refreshHours(stale, poolAddresses, now)
+
+  const sources = { snapshots: 0, backfill: 0, geckoterminal: 0, missing: 0 }
+  const hours: HourlyVolumePoint[] = []
+
+  for (let time = start; time <= currentHour; time += HOUR_MS) {
+    const point = hourCache.get(time)?.point || { time, volume: null, source: null }
+    hours.push(point)
+    sources[point.source || 'missing']++
+  }
+
+  return { hours, sources }
+}
@@ -0,0 +1,280 @@
+/**
+ * Live Price Providers
+ *
+ * Adapters that turn a provider's WebSocket protocol into PriceUpdates for
+ * useLivePrices. Each provider builds its own subscribe/unsubscribe messages
+ * and parses incoming frames; the hook owns the socket and reconnects.
+ *
+ * Providers:
+ * - birdeye: Birdeye PRICE_DATA stream (API key optional but recommended)
+ * - solana-rpc: accountSubscribe on each pool's token/USD1 vaults, price = USD1 reserve / token reserve
+ * - mock: local mock server for development
+ *
+ * Select with NEXT_PUBLIC_LIVE_PRICE_PROVIDER; live prices are off when unset.
+ */
+
+// ============================================
+// TYPES
+// ============================================
+
+export interface PriceUpdate {
+  address: string
+  price: number
+  priceChange24h?: number
+  timestamp: number
+}
+
+export type LivePriceProviderId = 'birdeye' | 'solana-rpc' | 'mock'
+
+export interface PoolVaults {
+  poolAddress: string
+  tokenVault: string
+  usd1Vault: string
+}
+
+export interface LivePriceTarget {
+  address: string
+  vaults?: PoolVaults
+}
+
+export interface LivePriceProvider {
+  id: LivePriceProviderId
+  label: string
+  url: string
+  /** Targets without vaults are skipped when true */
+  requiresVaults: boolean
+  subscribe: (targets: LivePriceTarget[]) => string[]
+  unsubscribe: (addresses: string[]) => string[]
+  parse: (data: string) => PriceUpdate[]
+  /** Forget per-connection state (subscription ids) before reconnecting */
+  reset: () => void
+}
+
+export const LIVE_PRICE_PROVIDER_LABELS: Record<LivePriceProviderId, string> = {
+  birdeye: 'Birdeye',
+  'solana-rpc': 'Solana RPC',
+  mock: 'Mock',
+}
+
+const DEFAULT_URLS: Record<LivePriceProviderId, string> = {
+  birdeye: 'wss://public-api.birdeye.so/socket/solana',
+  'solana-rpc': 'wss://api.mainnet-beta.solana.com',
+  mock: 'ws://localhost:8787',
+}
+
+// ============================================
+// BIRDEYE
+// ============================================
+
+interface BirdeyePriceMessage {
+  type: 'PRICE_DATA'
+  data: {
+    address: string
+    value: number
+    priceChange24h?: number
+    updateUnixTime: number
+  }
+}
+
+function createBirdeyeProvider(url: string, apiKey?: string): LivePriceProvider {
+  return {
+    id: 'birdeye',
+    label: LIVE_PRICE_PROVIDER_LABELS.birdeye,
+    url: apiKey ? `${url}?x-api-key=${encodeURIComponent(apiKey)}` : url,
+    requiresVaults: false,
+    subscribe: (targets) => [
+      JSON.stringify({ type: 'SUBSCRIBE_PRICE', data: { addresses: targets.map(t => t.address) } }),
+    ],
+    unsubscribe: (addresses) => [
+      JSON.stringify({ type: 'UNSUBSCRIBE_PRICE', data: { addresses } }),
+    ],
+    parse: (data) => {
+      const message = JSON.parse(data) as BirdeyePriceMessage
+      if (message.type !== 'PRICE_DATA' || !message.data) return []
+      return [{
+        address: message.data.address,
+        price: message.data.value,
+        priceChange24h: message.data.priceChange24h,
+        timestamp: message.data.updateUnixTime * 1000,
+      }]
+    },
+    reset: () => {},
+  }
+}
+
+// ============================================
+// SOLANA RPC (POOL VAULTS)
+// ============================================
+
+interface VaultSubscription {
+  address: string // Token mint the vault belongs to
+  side: 'token' | 'usd1'
+  subscriptionId: number | null
+}
+
+function createSolanaRpcProvider(url: string): LivePriceProvider {
+  let nextRequestId = 1
+  const pendingRequests = new Map<number, string>() // request id -> vault
+  const vaults = new Map<string, VaultSubscription>()
+  const vaultsBySubscription = new Map<number, string>()
+  const balances = new Map<string, number>() // vault -> ui amount
+
+  const accountSubscribe = (vault: string) => {
+    const id = nextRequestId++
+    pendingRequests.set(id, vault)
+    return JSON.stringify({
+      jsonrpc: '2.0',
+      id,
+      method: 'accountSubscribe',
+      params: [vault, { encoding: 'jsonParsed', commitment: 'confirmed' }],
+    })
+  }
+
+  const priceFor = (address: string): number | null => {
+    let tokenBalance: number | undefined
+    let usd1Balance: number | undefined
+    for (const [vault, sub] of vaults) {
+      if (sub.address !== address) continue
+      if (sub.side === 'token') tokenBalance = balances.get(vault)
+      else usd1Balance = balances.get(vault)
+    }
+    if (!tokenBalance || usd1Balance === undefined) return null
+    // USD1 is pegged to $1, so the reserve ratio is the USD price
+    return usd1Balance / tokenBalance
+  }
+
+  return {
+    id: 'solana-rpc',
+    label: LIVE_PRICE_PROVIDER_LABELS['solana-rpc'],
+    url,
+    requiresVaults: true,
+    subscribe: (targets) => {
+      const messages: string[] = []
+      for (const { address, vaults: pool } of targets) {
+        if (!pool) continue
+        for (const [vault, side] of [[pool.tokenVault, 'token'], [pool.usd1Vault, 'usd1']] as const) {
+          if (vaults.has(vault)) continue
+          vaults.set(vault, { address, side, subscriptionId: null })
+          messages.push(accountSubscribe(vault))
+        }
+      }
+      return messages
+    },
+    unsubscribe: (addresses) => {
+      const remove = new Set(addresses)
+      const messages: string[] = []
+      for (const [vault, sub] of vaults) {
+        if (!remove.has(sub.address)) continue
+        if (sub.subscriptionId !== null) {
+          vaultsBySubscription.delete(sub.subscriptionId)
+          messages.push(JSON.stringify({
+            jsonrpc: '2.0',
+            id: nextRequestId++,
+            method: 'accountUnsubscribe',
+            params: [sub.subscriptionId],
+          }))
+        }
+        vaults.delete(vault)
+        balances.delete(vault)
+      }
+      return messages
+    },
+    parse: (data) => {
+      const message = JSON.parse(data)
+
+      // Subscription confirmation
+      if (typeof message.id === 'number' && pendingRequests.has(message.id)) {
+        const vault = pendingRequests.get(message.id)!
+        pendingRequests.delete(message.id)
+        const sub = vaults.get(vault)
+        if (sub && typeof message.result === 'number') {
+          sub.subscriptionId = message.result
+          vaultsBySubscription.set(message.result, vault)
+        }
+        return []
+      }
+
+      if (message.method !== 'accountNotification') return []
+
+      const vault = vaultsBySubscription.get(message.params?.subscription)
+      const sub = vault ? vaults.get(vault) : undefined
+      const amount = message.params?.result?.value?.data?.parsed?.info?.tokenAmount?.uiAmount
+      if (!vault || !sub || typeof amount !== 'number') return []
+
+      balances.set(vault, amount)
+      const price = priceFor(sub.address)
+      return price === null ? [] : [{ address: sub.address, price, timestamp: Date.now() }]
+    },
+    reset: () => {
+      pendingRequests.clear()
+      vaults.clear()
+      vaultsBySubscription.clear()
+      balances.clear()
+    },
+  }
+}
+
+// ============================================
+// MOCK SERVER
+// ============================================
+
+/**
+ * Local mock server protocol:
+ * -> { type: 'subscribe' | 'unsubscribe', addresses: string[] }
+ * <- { type: 'price', address, price, change24h?, timestamp? }
+ */
+function createMockProvider(url: string): LivePriceProvider {
+  return {
+    id: 'mock',
+    label: LIVE_PRICE_PROVIDER_LABELS.mock,
+    url,
+    requiresVaults: false,
+    subscribe: (targets) => [
+      JSON.stringify({ type: 'subscribe', addresses: targets.map(t => t.address) }),
+    ],
+    unsubscribe: (addresses) => [
+      JSON.stringify({ type: 'unsubscribe', addresses }),
+    ],
+    parse: (data) => {
+      const message = JSON.parse(data)
+      if (message.type !== 'price' || typeof message.price !== 'number') return []
+      return [{
+        address: message.address,
+        price: message.price,
+        priceChange24h: message.change24h,
+        timestamp: message.timestamp ?? Date.now(),
+      }]
+    },
+    reset: () => {},
+  }
+}
+
+// ============================================
+// FACTORY
+// ============================================
+
+export function isLivePriceProviderId(value: unknown): value is LivePriceProviderId {
+  return typeof value === 'string' && value in LIVE_PRICE_PROVIDER_LABELS
+}
+
+/**
+ * Provider selected by NEXT_PUBLIC_LIVE_PRICE_PROVIDER, or null when live prices are disabled
+ */
+export function getConfiguredLivePriceProvider(): LivePriceProviderId | null {
+  const value = process.env.NEXT_PUBLIC_LIVE_PRICE_PROVIDER
+  return isLivePriceProviderId(value) ? value : null
+}
+
+export function createLivePriceProvider(id: LivePriceProviderId): LivePriceProvider {
+  switch (id) {
+    case 'birdeye':
+      return createBirdeyeProvider(
+        process.env.NEXT_PUBLIC_BIRDEYE_WS_URL || DEFAULT_URLS.birdeye,
+        process.env.NEXT_PUBLIC_BIRDEYE_API_KEY
+      )
+    case 'solana-rpc':
+      return createSolanaRpcProvider(process.env.NEXT_PUBLIC_SOLANA_WS_URL || DEFAULT_URLS['solana-rpc'])
+    case 'mock':
+      return createMockProvider(process.env.NEXT_PUBLIC_MOCK_PRICE_WS_URL || DEFAULT_URLS.mock)
+  }
+}
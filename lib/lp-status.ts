@@ -0,0 +1,200 @@
+/**
+ * CPMM / AMM v4 LP Burn / Lock Detection
+ *
+ * Whoever holds a pool's LP tokens can withdraw its liquidity. For each
+ * CPMM or AMM v4 pool we split the outstanding LP (the pool state's current
+ * LP supply, read alongside the LP mint) into:
+ * - Burned: destroyed via SPL burn (mint supply below the pool's LP supply)
+ *   or sent to the incinerator
+ * - Locked: held by a known locker (authority or program)
+ * - Wallet: everything else - this is liquidity that can be pulled
+ *
+ * Holders come from getTokenLargestAccounts (top 20), which covers nearly
+ * all LP for these pools; the remainder counts as wallet-held.
+ */
+
+import type { LpStatus } from './types'
+import { rpcManager } from './rpc-manager'
+import { rpcRequest, decodePoolLpSupply, type DiscoveredPool } from './pool-discovery'
+import { getCachedLpStatus, setCachedLpStatus } from './pool-cache'
+
+// Share of LP that must be burned or locked to call the pool secured
+const SECURED_SHARE = 95
+
+// Addresses whose LP is gone for good
+const BURN_ADDRESSES = new Set([
+  '1nc1nerator11111111111111111111111111111111',
+])
+
+// Token account owners that hold LP on behalf of a lock
+const LOCKER_AUTHORITIES: Record<string, string> = {
+  '3f7GcQFG397GAaEnv51zR6tsTVihYRydnydDD1cXekxH': 'Raydium Burn & Earn',
+}
+
+// Programs whose accounts hold locked LP
+const LOCKER_PROGRAMS: Record<string, string> = {
+  'LockrWmn6K5twhz3y9w1dQERbmgSaRkfnTeTKbpofwE': 'Raydium Burn & Earn',
+  'strmRqUCoQUgGUan5YhzUZa6KqdzwX5L6FpUxfmKg5m': 'Streamflow',
+}
+
+export interface LpStatusInfo {
+  mint: string
+  poolAddress: string
+  lpMint: string
+  status: LpStatus
+  burnedShare: number // % of LP ever minted
+  lockedShare: number // %
+  walletShare: number // %
+  locker: string | null // Name of the largest locker, if any
+  largestWallet: string | null // Owner of the largest wallet-held LP balance
+  checkedAt: number
+}
+
+// ============================================
+// CLASSIFICATION
+// ============================================
+
+export function classifyLp(burnedShare: number, lockedShare: number): LpStatus {
+  if (burnedShare + lockedShare < SECURED_SHARE) return 'wallet'
+  return burnedShare >= lockedShare ? 'burned' : 'locked'
+}
+
+// ============================================
+// RPC LOOKUPS
+// ============================================
+
+/**
+ * Resolve the LP mint's largest holders and classify the pool's LP
+ */
+export async function fetchLpStatus(pool: DiscoveredPool): Promise<LpStatusInfo | null> {
+  const cached = await getCachedLpStatus(pool.tokenMint)
+  if (cached) return cached
+
+  try {
+    const info = await rpcManager.executeWithFallback(async (rpcUrl) => {
+      // The LP mint and the pool state in one call, so the two supplies match
+      const [largest, accounts] = await Promise.all([
+        rpcRequest(rpcUrl, 'getTokenLargestAccounts', [pool.lpMint]),
+        rpcRequest(rpcUrl, 'getMultipleAccounts', [[pool.lpMint, pool.poolAddress], { encoding: 'jsonParsed' }]),
+      ])
+      const [mintAccount, poolAccount] = accounts?.value || []
+
+      const mintSupply = Number(mintAccount?.data?.parsed?.info?.supply || 0)
+      const holders: { address: string; amount: number }[] = (largest?.value || [])
+        .map((a: any) => ({ address: a.address, amount: Number(a.amount || 0) }))
+        .filter((a: { amount: number }) => a.amount > 0)
+
+      // Not the cached pool.lpSupply - after a withdrawal it would count the pulled LP as burned.
+      // Without the pool state, burns are only seen at the incinerator
+      const poolData = Array.isArray(poolAccount?.data) ? Buffer.from(poolAccount.data[0], 'base64') : null
+      const poolSupply = poolData && pool.poolType !== 'clmm' ? decodePoolLpSupply(poolData, pool.poolType) : null
+      const minted = Math.max(poolSupply || 0, mintSupply)
+      if (minted === 0) return null
+
+      // Token account -> owner, then owner -> owning program
+      const tokenAccounts = holders.length > 0
+        ? await rpcRequest(rpcUrl, 'getMultipleAccounts', [holders.map(h => h.address), { encoding: 'jsonParsed' }])
+        : { value: [] }
+      const owners: (string | null)[] = (tokenAccounts?.value || []).map(
+        (a: any) => a?.data?.parsed?.info?.owner || null
+      )
+
+      const uniqueOwners = Array.from(new Set(owners.filter((o): o is string => !!o)))
+      const ownerAccounts = uniqueOwners.length > 0
+        ? await rpcRequest(rpcUrl, 'getMultipleAccounts', [uniqueOwners, { encoding: 'base64' }])
+        : { value: [] }
+      const ownerPrograms = new Map<string, string | null>()
+      uniqueOwners.forEach((owner, i) => ownerPrograms.set(owner, ownerAccounts?.value?.[i]?.owner || null))
+
+      let burned = minted - mintSupply
+      let locked = 0
+      let locker: string | null = null
+      let largestLocked = 0
+      let largestWallet: string | null = null
+      let largestWalletAmount = 0
+
+      holders.forEach((holder, i) => {
+        const owner = owners[i]
+        if (!owner) return
+
+        if (BURN_ADDRESSES.has(owner)) {
+          burned += holder.amount
+          return
+        }
+
+        const program = ownerPrograms.get(owner)
+        const lockerName = LOCKER_AUTHORITIES[owner] || (program ? LOCKER_PROGRAMS[program] : undefined)
+        if (lockerName) {
+          locked += holder.amount
+          if (holder.amount > largestLocked) {
+            largestLocked = holder.amount
+            locker = lockerName
+          }
+          return
+        }
+
+        if (holder.amount > largestWalletAmount) {
+          largestWalletAmount = holder.amount
+          largestWallet = owner
+        }
+      })
+
+      const burnedShare = (burned / minted) * 100
+      const lockedShare = (locked / minted) * 100
+      const walletShare = Math.max(0, 100 - burnedShare - lockedShare)
+
+      const result: LpStatusInfo = {
+        mint: pool.tokenMint,
+        poolAddress: pool.poolAddress,
+        lpMint: pool.lpMint,
+        status: classifyLp(burnedShare, lockedShare),
+        burnedShare,
+        lockedShare,
+        walletShare,
+        locker,
+        largestWallet,
+        checkedAt: Date.now(),
+      }
+      return result
+    })
+
+    if (info) await setCachedLpStatus(info)
+    return info
+  } catch (e) {
+    console.warn(`[LpStatus] Failed to check LP for ${pool.tokenMint}:`, e)
+    return null
+  }
+}
+
+/**
+ * LP status for many pools with limited concurrency
+ * Cached results are returned without counting towards `maxLookups`
+ */
+export async function fetchLpStatuses(
+  pools: DiscoveredPool[],
+  maxLookups = 10,
+  concurrency = 5
+): Promise<Map<string, LpStatusInfo>> {
+  const results = new Map<string, LpStatusInfo>()
+  const uncached: DiscoveredPool[] = []
+
+  for (const pool of pools) {
+    const cached = await getCachedLpStatus(pool.tokenMint)
+    if (cached) {
+      results.set(pool.tokenMint, cached)
+    } else {
+      uncached.push(pool)
+    }
+  }
+
+  const toCheck = uncached.slice(0, maxLookups)
+  for (let i = 0; i < toCheck.length; i += concurrency) {
+    const batch = toCheck.slice(i, i + concurrency)
+    const checked = await Promise.all(batch.map(fetchLpStatus))
+    checked.forEach(info => {
+      if (info) results.set(info.mint, info)
+    })
+  }
+
+  return results
+}
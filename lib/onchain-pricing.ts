@@ -0,0 +1,197 @@
+/**
+ * On-chain Pricing
+ *
+ * Prices tokens straight from Raydium pool state, so the dashboard
+ * still has prices when DexScreener and GeckoTerminal are both down.
+ *
+ * - price = USD1 reserve / token reserve for CPMM and AMM v4 (USD1 is pegged to $1),
+ *   the current sqrt price for CLMM
+ * - liquidity = 2 x USD1 reserve for constant-product pools (both sides hold equal
+ *   value), USD1 reserve + token reserve x price for CLMM
+ * - mcap = price x circulating mint supply
+ *
+ * A token's liquidity is the total across all of its pools; the deepest pool sets the price.
+ */
+
+import { rpcManager } from './rpc-manager'
+import {
+  rpcRequest,
+  decodeClmmPrice,
+  decodeAmmV4FeeTier,
+  decodeAmmConfigFeeTier,
+  type DiscoveredPool,
+} from './pool-discovery'
+import type { SourceTokenData } from './token-sources'
+import type { TokenPool } from './types'
+
+export interface PoolReserves {
+  tokenBalance: number // UI amount (decimals applied)
+  usd1Balance: number
+}
+
+export interface OnchainPricing {
+  price: number
+  liquidity: number
+  mcap: number
+}
+
+// getMultipleAccounts accepts up to 100 accounts; each pool needs 4 (two vaults, mint, pool state)
+const POOLS_PER_BATCH = 25
+const ACCOUNTS_PER_POOL = 4
+
+// ============================================
+// PRICE MATH
+// ============================================
+
+/**
+ * Price, liquidity and mcap from pool reserves and the mint's UI supply
+ * Pass `poolPrice` for concentrated-liquidity pools, where reserves don't set the price
+ * Returns null for empty or invalid pools
+ */
+export function computePoolPricing(
+  reserves: PoolReserves,
+  supply: number,
+  poolPrice?: number | null
+): OnchainPricing | null {
+  const { tokenBalance, usd1Balance } = reserves
+  if (!(tokenBalance > 0) || !(usd1Balance > 0)) return null
+
+  const price = poolPrice ?? usd1Balance / tokenBalance
+  if (!isFinite(price) || !(price > 0)) return null
+
+  return {
+    price,
+    liquidity: poolPrice != null ? usd1Balance + tokenBalance * price : usd1Balance * 2,
+    mcap: supply > 0 ? price * supply : 0,
+  }
+}
+
+// ============================================
+// RPC
+// ============================================
+
+function uiTokenAmount(account: any): number | null {
+  const amount = account?.data?.parsed?.info?.tokenAmount?.uiAmount
+  return typeof amount === 'number' ? amount : null
+}
+
+function uiMintSupply(account: any): number | null {
+  const info = account?.data?.parsed?.info
+  if (!info?.supply) return null
+  return Number(info.supply) / Math.pow(10, info.decimals ?? 9)
+}
+
+/**
+ * Raw bytes of a program account - jsonParsed falls back to base64 for accounts it can't parse
+ */
+function rawAccountData(account: any): Buffer | null {
+  return Array.isArray(account?.data) ? Buffer.from(account.data[0], 'base64') : null
+}
+
+/**
+ * Fee tier per AmmConfig account for the CPMM / CLMM pools in the list
+ * There are only a handful of configs, so this is a single call
+ */
+async function fetchConfigFeeTiers(pools: DiscoveredPool[]): Promise<Map<string, number>> {
+  const feeTiers = new Map<string, number>()
+  const configs = new Map<string, 'cpmm' | 'clmm'>()
+  for (const pool of pools) {
+    if (pool.ammConfig && pool.poolType !== 'amm-v4') configs.set(pool.ammConfig, pool.poolType)
+  }
+  if (configs.size === 0) return feeTiers
+
+  const addresses = Array.from(configs.keys()).slice(0, 100)
+  try {
+    const response = await rpcManager.executeWithFallback(rpcUrl =>
+      rpcRequest(rpcUrl, 'getMultipleAccounts', [addresses, { encoding: 'base64' }])
+    )
+    const values: any[] = response?.value || []
+
+    addresses.forEach((address, i) => {
+      const data = rawAccountData(values[i])
+      const feeTier = data ? decodeAmmConfigFeeTier(data, configs.get(address)!) : null
+      if (feeTier !== null) feeTiers.set(address, feeTier)
+    })
+  } catch (e) {
+    console.warn('[OnchainPricing] Fee config fetch failed:', e)
+  }
+
+  return feeTiers
+}
+
+/**
+ * Read pool state, vault balances and mint supplies for a set of pools in batched RPC calls
+ * When a mint has several USD1 pools, liquidity is summed and the deepest one sets the price
+ */
+export async function fetchOnchainPrices(pools: DiscoveredPool[]): Promise<Map<string, SourceTokenData>> {
+  const results = new Map<string, SourceTokenData>()
+  const deepest = new Map<string, number>()
+  const configFeeTiers = await fetchConfigFeeTiers(pools)
+
+  for (let i = 0; i < pools.length; i += POOLS_PER_BATCH) {
+    const batch = pools.slice(i, i + POOLS_PER_BATCH)
+    const accounts = batch.flatMap(p => [p.tokenVault, p.usd1Vault, p.tokenMint, p.poolAddress])
+
+    try {
+      const response = await rpcManager.executeWithFallback(rpcUrl =>
+        rpcRequest(rpcUrl, 'getMultipleAccounts', [accounts, { encoding: 'jsonParsed' }])
+      )
+      const values: any[] = response?.value || []
+
+      batch.forEach((pool, j) => {
+        const offset = j * ACCOUNTS_PER_POOL
+        const tokenBalance = uiTokenAmount(values[offset])
+        const usd1Balance = uiTokenAmount(values[offset + 1])
+        const supply = uiMintSupply(values[offset + 2])
+        if (tokenBalance === null || usd1Balance === null) return
+
+        const poolData = rawAccountData(values[offset + 3])
+        const poolPrice = pool.poolType === 'clmm'
+          ? poolData && decodeClmmPrice(poolData, pool.isTokenMint0USD1)
+          : undefined
+        if (poolPrice === null) return
+
+        const pricing = computePoolPricing({ tokenBalance, usd1Balance }, supply || 0, poolPrice)
+        if (!pricing) return
+
+        const feeTier = pool.poolType === 'amm-v4'
+          ? poolData && decodeAmmV4FeeTier(poolData)
+          : configFeeTiers.get(pool.ammConfig || '')
+
+        const existing = results.get(pool.tokenMint)
+        const poolRef: TokenPool = {
+          address: pool.poolAddress,
+          dex: 'raydium',
+          type: pool.poolType,
+          liquidity: pricing.liquidity,
+          volume24h: null,
+          price: pricing.price,
+          feeTier: feeTier ?? null,
+        }
+        const totals = {
+          liquidity: (existing?.liquidity || 0) + pricing.liquidity,
+          pools: [...(existing?.pools || []), poolRef],
+        }
+
+        if (existing && (deepest.get(pool.tokenMint) || 0) >= pricing.liquidity) {
+          results.set(pool.tokenMint, { ...existing, ...totals })
+          return
+        }
+
+        deepest.set(pool.tokenMint, pricing.liquidity)
+        results.set(pool.tokenMint, {
+          price: pricing.price,
+          fdv: pricing.mcap || undefined,
+          pairAddress: pool.poolAddress,
+          dex: 'raydium',
+          poolType: pool.poolType,
+          ...totals,
+        })
+      })
+    } catch (e) {
+      console.warn('[OnchainPricing] Batch failed:', e)
+    }
+  }
+
+  return results
+}
@@ -0,0 +1,54 @@
+/**
+ * Cross-Pool Price Gaps
+ *
+ * Compares a token's USD1 pools (Token.pools) and reports the gap between
+ * the cheapest and the priciest one. A gap only counts as an arbitrage
+ * signal when buying in one pool and selling in the other would clear both
+ * pools' swap fees plus a margin for slippage.
+ *
+ * Dust pools are ignored - their prices move on a single small trade.
+ * Pure functions only, so the drawer can run them on the client.
+ */
+
+import type { TokenPool } from './types'
+
+export interface PoolPriceGap {
+  cheapest: TokenPool
+  priciest: TokenPool
+  gapPercent: number // Priciest over cheapest, %
+  feesPercent: number // Both pools' swap fees, %
+  isArbitrage: boolean
+}
+
+const CONFIG = {
+  MIN_POOL_LIQUIDITY: 1_000, // USD
+  DEFAULT_FEE_TIER: 0.25, // %, Raydium's standard tier when a pool's fee is unknown
+  MIN_EDGE: 0.5, // % left over after fees
+}
+
+/**
+ * Price gap across a token's pools, null with fewer than two usable pools
+ */
+export function getPoolPriceGap(pools: TokenPool[] | undefined): PoolPriceGap | null {
+  const usable = (pools || []).filter(p => p.price > 0 && p.liquidity >= CONFIG.MIN_POOL_LIQUIDITY)
+  if (usable.length < 2) return null
+
+  let cheapest = usable[0]
+  let priciest = usable[0]
+  for (const pool of usable) {
+    if (pool.price < cheapest.price) cheapest = pool
+    if (pool.price > priciest.price) priciest = pool
+  }
+
+  const gapPercent = ((priciest.price - cheapest.price) / cheapest.price) * 100
+  const feesPercent =
+    (cheapest.feeTier ?? CONFIG.DEFAULT_FEE_TIER) + (priciest.feeTier ?? CONFIG.DEFAULT_FEE_TIER)
+
+  return {
+    cheapest,
+    priciest,
+    gapPercent,
+    feesPercent,
+    isArbitrage: gapPercent > feesPercent + CONFIG.MIN_EDGE,
+  }
+}
@@ -5,29 +5,59 @@
  * Uses Vercel KV for persistence with in-memory fallback.
  *
  * Cache Strategy:
- * - Pool list: 5 minute TTL (new pools are rare)
+ * - Pool list: refreshed incrementally every 5 minutes, kept for 24 hours
+ *   (a full on-chain rescan runs once a day, see lib/pool-sync.ts)
+ * - Bonding-curve pools: 1 minute TTL (curve progress moves with every trade)
  * - Token metadata: 1 hour TTL (rarely changes)
+ * - Creator profiles: 10 minute TTL (dev sells and rugs need to surface quickly)
+ * - LP status: 5 minute TTL (an unlocked LP can be pulled at any time)
+ * - Graduation log: 30 day TTL (an append-only event log, refreshed incrementally)
+ * - Pool event log: 30 day TTL (new pools seen by discovery, outlives the pool list)
  * - Price data: 15 second TTL (changes frequently)
  */
 
-import type { DiscoveredPool } from './pool-discovery'
+import type { DiscoveredPool, BondingCurvePool } from './pool-discovery'
+import type { BonkFunVerification } from './bonkfun-verification'
+import type { HolderDistribution } from './holder-fetcher'
+import type { CreatorProfile } from './creator-profile'
+import type { LpStatusInfo } from './lp-status'
+import type { GraduationLog } from './graduations'
+import type { PoolEventLog } from './pool-events'
+import type { MintAuthorities, Token2022Extensions } from './types'
 
 // Cache TTLs
 export const CACHE_TTL = {
-  POOL_LIST: 5 * 60 * 1000,        // 5 minutes - new pools are rare
+  POOL_LIST: 5 * 60 * 1000,        // 5 minutes - incremental refresh interval (new pools are rare)
+  POOL_FULL_SCAN: 24 * 60 * 60 * 1000, // 24 hours - full getProgramAccounts rescan interval
   TOKEN_METADATA: 60 * 60 * 1000,  // 1 hour - rarely changes
   PRICE_DATA: 15 * 1000,           // 15 seconds - changes often
   ENRICHED_TOKENS: 30 * 1000,      // 30 seconds - balance freshness vs API calls
   HOLDER_COUNT: 60 * 60 * 1000,    // 1 hour - holder counts don't change rapidly
+  BONKFUN_VERIFICATION: 7 * 24 * 60 * 60 * 1000, // 7 days - creation tx never changes
+  BONKFUN_UNDETERMINED: 30 * 60 * 1000, // 30 minutes - deep histories / RPC failures aren't retried every refresh
+  BONDING_POOLS: 60 * 1000,        // 1 minute - curve progress changes with every trade
+  CREATOR_PROFILE: 10 * 60 * 1000, // 10 minutes - dev sells should show up quickly
+  LP_STATUS: 5 * 60 * 1000,        // 5 minutes - unlocked LP can be pulled at any time
+  GRADUATIONS: 30 * 24 * 60 * 60 * 1000, // 30 days - past graduations never change
+  POOL_EVENTS: 30 * 24 * 60 * 60 * 1000, // 30 days - clients catch up on pools created while away
 }
 
 // Cache keys
 const CACHE_KEYS = {
   POOL_LIST: 'pools:usd1:list',
   POOL_DISCOVERY_TIME: 'pools:usd1:discovered_at',
+  POOL_SYNC_STATE: 'pools:usd1:sync',
   TOKEN_METADATA: 'tokens:metadata',
   ENRICHED_TOKENS: 'tokens:enriched',
   HOLDER_COUNTS: 'tokens:holders',
+  HOLDER_DISTRIBUTION: 'tokens:holder_distribution',
+  BONKFUN_VERIFICATION: 'tokens:bonkfun',
+  BONKFUN_UNDETERMINED: 'tokens:bonkfun_undetermined',
+  BONDING_POOLS: 'pools:launchlab:usd1',
+  CREATOR_PROFILE: 'tokens:creator',
+  LP_STATUS: 'pools:lp_status',
+  GRADUATIONS: 'tokens:graduations',
+  POOL_EVENTS: 'pools:usd1:events',
 }
 
 // In-memory cache fallback
@@ -43,6 +73,18 @@ interface MemoryCache {
     timestamp: number
   } | null
   holderCounts: Map<string, { count: number; timestamp: number }>
+  holderDistributions: Map<string, HolderDistribution>
+  bonkFunVerifications: Map<string, BonkFunVerification>
+  bonkFunUndetermined: Map<string, number> // mint -> last attempt
+  bondingPools: {
+    data: BondingCurvePool[]
+    timestamp: number
+  } | null
+  creatorProfiles: Map<string, CreatorProfile>
+  lpStatuses: Map<string, LpStatusInfo>
+  graduations: GraduationLog | null
+  poolEvents: PoolEventLog | null
+  poolSyncState: PoolSyncState | null
 }
 
 const memoryCache: MemoryCache = {
@@ -50,6 +92,15 @@ const memoryCache: MemoryCache = {
   tokenMetadata: new Map(),
   enrichedTokens: null,
   holderCounts: new Map(),
+  holderDistributions: new Map(),
+  bonkFunVerifications: new Map(),
+  bonkFunUndetermined: new Map(),
+  bondingPools: null,
+  creatorProfiles: new Map(),
+  lpStatuses: new Map(),
+  graduations: null,
+  poolEvents: null,
+  poolSyncState: null,
 }
 
 // Type for Vercel KV
@@ -96,8 +147,8 @@ export async function getCachedPools(): Promise<CachedPoolData | null> {
       if (cached) {
         const data = typeof cached === 'string' ? JSON.parse(cached) : cached as CachedPoolData
 
-        // Check if cache is still valid
-        if (Date.now() - data.discoveredAt < CACHE_TTL.POOL_LIST) {
+        // Incremental syncs keep bumping discoveredAt, so the list outlives the refresh interval
+        if (Date.now() - data.discoveredAt < CACHE_TTL.POOL_FULL_SCAN) {
           return data
         }
       }
@@ -107,7 +158,7 @@ export async function getCachedPools(): Promise<CachedPoolData | null> {
   }
 
   // Fallback to memory
-  if (memoryCache.pools && Date.now() - memoryCache.pools.timestamp < CACHE_TTL.POOL_LIST) {
+  if (memoryCache.pools && Date.now() - memoryCache.pools.timestamp < CACHE_TTL.POOL_FULL_SCAN) {
     return {
       pools: memoryCache.pools.data,
       tokenMints: memoryCache.pools.tokenMints,
@@ -140,7 +191,7 @@ export async function setCachedPools(pools: DiscoveredPool[], tokenMints: string
   if (kv) {
     try {
       await kv.set(CACHE_KEYS.POOL_LIST, JSON.stringify(data), {
-        ex: Math.ceil(CACHE_TTL.POOL_LIST / 1000), // TTL in seconds
+        ex: Math.ceil(CACHE_TTL.POOL_FULL_SCAN / 1000), // TTL in seconds
       })
     } catch (e) {
       console.warn('[PoolCache] KV write error:', e)
@@ -149,7 +200,7 @@ export async function setCachedPools(pools: DiscoveredPool[], tokenMints: string
 }
 
 /**
- * Check if pool cache needs refresh
+ * Check if pool cache is due an incremental refresh
  */
 export async function needsPoolRefresh(): Promise<boolean> {
   const cached = await getCachedPools()
@@ -157,6 +208,49 @@ export async function needsPoolRefresh(): Promise<boolean> {
   return Date.now() - cached.discoveredAt >= CACHE_TTL.POOL_LIST
 }
 
+export interface PoolSyncState {
+  cursor: string | null // Newest pool-creation signature already processed
+  lastFullScan: number // 0 = never
+  lastAttempt: number // Last sync attempt, successful or not
+}
+
+/**
+ * Get the pool sync cursor and scan times
+ */
+export async function getCachedPoolSyncState(): Promise<PoolSyncState | null> {
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(CACHE_KEYS.POOL_SYNC_STATE)
+      if (cached) {
+        return typeof cached === 'string' ? JSON.parse(cached) : cached as PoolSyncState
+      }
+    } catch (e) {
+      console.warn('[PoolCache] KV read error:', e)
+    }
+  }
+
+  return memoryCache.poolSyncState
+}
+
+/**
+ * Save the pool sync cursor and scan times
+ */
+export async function setCachedPoolSyncState(state: PoolSyncState): Promise<void> {
+  memoryCache.poolSyncState = state
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(CACHE_KEYS.POOL_SYNC_STATE, JSON.stringify(state), {
+        ex: Math.ceil(CACHE_TTL.POOL_FULL_SCAN * 2 / 1000),
+      })
+    } catch (e) {
+      console.warn('[PoolCache] KV write error:', e)
+    }
+  }
+}
+
 // ============================================
 // TOKEN METADATA CACHE
 // ============================================
@@ -168,6 +262,8 @@ export interface TokenMetadata {
   decimals: number
   logoURI?: string
   coingeckoId?: string
+  authorities?: MintAuthorities
+  token2022Extensions?: Token2022Extensions | null
   cachedAt: number
 }
 
@@ -395,6 +491,443 @@ export async function getCachedHolderCountsBatch(mints: string[]): Promise<Map<s
   return results
 }
 
+/**
+ * Get cached holder distribution (computed in the same pass as the holder count)
+ */
+export async function getCachedHolderDistribution(mint: string): Promise<HolderDistribution | null> {
+  const memCached = memoryCache.holderDistributions.get(mint)
+  if (memCached && Date.now() - memCached.computedAt < CACHE_TTL.HOLDER_COUNT) {
+    return memCached
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${CACHE_KEYS.HOLDER_DISTRIBUTION}:${mint}`)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as HolderDistribution
+        if (Date.now() - data.computedAt < CACHE_TTL.HOLDER_COUNT) {
+          memoryCache.holderDistributions.set(mint, data)
+          return data
+        }
+      }
+    } catch {
+      // Ignore KV errors
+    }
+  }
+
+  return null
+}
+
+/**
+ * Save holder distribution to cache
+ */
+export async function setCachedHolderDistribution(distribution: HolderDistribution): Promise<void> {
+  memoryCache.holderDistributions.set(distribution.mint, distribution)
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${CACHE_KEYS.HOLDER_DISTRIBUTION}:${distribution.mint}`, JSON.stringify(distribution), {
+        ex: Math.ceil(CACHE_TTL.HOLDER_COUNT / 1000),
+      })
+    } catch {
+      // Ignore KV errors
+    }
+  }
+}
+
+// ============================================
+// BONKFUN VERIFICATION CACHE
+// ============================================
+
+/**
+ * Get cached BonkFun verification result for a mint
+ */
+export async function getCachedBonkFunVerification(mint: string): Promise<BonkFunVerification | null> {
+  // Check memory first
+  const memCached = memoryCache.bonkFunVerifications.get(mint)
+  if (memCached && Date.now() - memCached.verifiedAt < CACHE_TTL.BONKFUN_VERIFICATION) {
+    return memCached
+  }
+
+  // Try KV
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${CACHE_KEYS.BONKFUN_VERIFICATION}:${mint}`)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as BonkFunVerification
+        if (Date.now() - data.verifiedAt < CACHE_TTL.BONKFUN_VERIFICATION) {
+          memoryCache.bonkFunVerifications.set(mint, data)
+          return data
+        }
+      }
+    } catch {
+      // Ignore KV errors
+    }
+  }
+
+  return null
+}
+
+/**
+ * Save BonkFun verification result to cache
+ */
+export async function setCachedBonkFunVerification(verification: BonkFunVerification): Promise<void> {
+  // Save to memory
+  memoryCache.bonkFunVerifications.set(verification.mint, verification)
+
+  // Try KV
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${CACHE_KEYS.BONKFUN_VERIFICATION}:${verification.mint}`, JSON.stringify(verification), {
+        ex: Math.ceil(CACHE_TTL.BONKFUN_VERIFICATION / 1000),
+      })
+    } catch {
+      // Ignore KV errors
+    }
+  }
+}
+
+/**
+ * When a mint's verification last came back undetermined, if within the retry interval
+ */
+export async function getCachedBonkFunUndetermined(mint: string): Promise<number | null> {
+  const memCached = memoryCache.bonkFunUndetermined.get(mint)
+  if (memCached && Date.now() - memCached < CACHE_TTL.BONKFUN_UNDETERMINED) {
+    return memCached
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${CACHE_KEYS.BONKFUN_UNDETERMINED}:${mint}`)
+      const attemptedAt = Number(cached)
+      if (attemptedAt && Date.now() - attemptedAt < CACHE_TTL.BONKFUN_UNDETERMINED) {
+        memoryCache.bonkFunUndetermined.set(mint, attemptedAt)
+        return attemptedAt
+      }
+    } catch {
+      // Ignore KV errors
+    }
+  }
+
+  return null
+}
+
+/**
+ * Record an undetermined verification so the mint is skipped until the retry interval passes
+ */
+export async function setCachedBonkFunUndetermined(mint: string): Promise<void> {
+  const now = Date.now()
+  memoryCache.bonkFunUndetermined.set(mint, now)
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${CACHE_KEYS.BONKFUN_UNDETERMINED}:${mint}`, String(now), {
+        ex: Math.ceil(CACHE_TTL.BONKFUN_UNDETERMINED / 1000),
+      })
+    } catch {
+      // Ignore KV errors
+    }
+  }
+}
+
+// ============================================
+// BONDING-CURVE POOL CACHE
+// ============================================
+
+/**
+ * Get cached LaunchLab bonding-curve pools
+ */
+export async function getCachedBondingPools(): Promise<BondingCurvePool[] | null> {
+  if (memoryCache.bondingPools && Date.now() - memoryCache.bondingPools.timestamp < CACHE_TTL.BONDING_POOLS) {
+    return memoryCache.bondingPools.data
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(CACHE_KEYS.BONDING_POOLS)
+      if (cached) {
+        const data = typeof cached === 'string'
+          ? JSON.parse(cached)
+          : cached as { pools: BondingCurvePool[]; timestamp: number }
+        if (Date.now() - data.timestamp < CACHE_TTL.BONDING_POOLS) {
+          memoryCache.bondingPools = { data: data.pools, timestamp: data.timestamp }
+          return data.pools
+        }
+      }
+    } catch (e) {
+      console.warn('[PoolCache] KV read error:', e)
+    }
+  }
+
+  return null
+}
+
+/**
+ * Save LaunchLab bonding-curve pools to cache
+ */
+export async function setCachedBondingPools(pools: BondingCurvePool[]): Promise<void> {
+  const timestamp = Date.now()
+  memoryCache.bondingPools = { data: pools, timestamp }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(CACHE_KEYS.BONDING_POOLS, JSON.stringify({ pools, timestamp }), {
+        ex: Math.ceil(CACHE_TTL.BONDING_POOLS / 1000),
+      })
+    } catch (e) {
+      console.warn('[PoolCache] KV write error:', e)
+    }
+  }
+}
+
+// ============================================
+// CREATOR PROFILE CACHE
+// ============================================
+
+/**
+ * Get cached creator profile for a mint
+ */
+export async function getCachedCreatorProfile(mint: string): Promise<CreatorProfile | null> {
+  const memCached = memoryCache.creatorProfiles.get(mint)
+  if (memCached && Date.now() - memCached.computedAt < CACHE_TTL.CREATOR_PROFILE) {
+    return memCached
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${CACHE_KEYS.CREATOR_PROFILE}:${mint}`)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as CreatorProfile
+        if (Date.now() - data.computedAt < CACHE_TTL.CREATOR_PROFILE) {
+          memoryCache.creatorProfiles.set(mint, data)
+          return data
+        }
+      }
+    } catch {
+      // Ignore KV errors
+    }
+  }
+
+  return null
+}
+
+/**
+ * Save creator profile to cache
+ */
+export async function setCachedCreatorProfile(profile: CreatorProfile): Promise<void> {
+  memoryCache.creatorProfiles.set(profile.mint, profile)
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${CACHE_KEYS.CREATOR_PROFILE}:${profile.mint}`, JSON.stringify(profile), {
+        ex: Math.ceil(CACHE_TTL.CREATOR_PROFILE / 1000),
+      })
+    } catch {
+      // Ignore KV errors
+    }
+  }
+}
+
+/**
+ * Batch get creator profiles, memory first then KV
+ * Profiles are built on demand, so most come from other isolates via KV
+ */
+export async function getCachedCreatorProfilesBatch(mints: string[]): Promise<Map<string, CreatorProfile>> {
+  const results = new Map<string, CreatorProfile>()
+  const uncached: string[] = []
+
+  for (const mint of mints) {
+    const cached = memoryCache.creatorProfiles.get(mint)
+    if (cached && Date.now() - cached.computedAt < CACHE_TTL.CREATOR_PROFILE) {
+      results.set(mint, cached)
+    } else {
+      uncached.push(mint)
+    }
+  }
+
+  if (uncached.length > 0) {
+    const kv = await getKV()
+    if (kv) {
+      await Promise.all(uncached.slice(0, 50).map(async (mint) => { // Limit to 50 to avoid too many requests
+        try {
+          const cached = await kv.get(`${CACHE_KEYS.CREATOR_PROFILE}:${mint}`)
+          if (cached) {
+            const data = typeof cached === 'string' ? JSON.parse(cached) : cached as CreatorProfile
+            if (Date.now() - data.computedAt < CACHE_TTL.CREATOR_PROFILE) {
+              results.set(mint, data)
+              memoryCache.creatorProfiles.set(mint, data)
+            }
+          }
+        } catch {
+          // Ignore individual errors
+        }
+      }))
+    }
+  }
+
+  return results
+}
+
+// ============================================
+// LP STATUS CACHE
+// ============================================
+
+/**
+ * Get cached LP burn/lock status for a mint's CPMM pool
+ */
+export async function getCachedLpStatus(mint: string): Promise<LpStatusInfo | null> {
+  const memCached = memoryCache.lpStatuses.get(mint)
+  if (memCached && Date.now() - memCached.checkedAt < CACHE_TTL.LP_STATUS) {
+    return memCached
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${CACHE_KEYS.LP_STATUS}:${mint}`)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as LpStatusInfo
+        if (Date.now() - data.checkedAt < CACHE_TTL.LP_STATUS) {
+          memoryCache.lpStatuses.set(mint, data)
+          return data
+        }
+      }
+    } catch {
+      // Ignore KV errors
+    }
+  }
+
+  return null
+}
+
+/**
+ * Save LP status to cache
+ */
+export async function setCachedLpStatus(status: LpStatusInfo): Promise<void> {
+  memoryCache.lpStatuses.set(status.mint, status)
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${CACHE_KEYS.LP_STATUS}:${status.mint}`, JSON.stringify(status), {
+        ex: Math.ceil(CACHE_TTL.LP_STATUS / 1000),
+      })
+    } catch {
+      // Ignore KV errors
+    }
+  }
+}
+
+// ============================================
+// GRADUATION LOG CACHE
+// ============================================
+
+/**
+ * Get the graduation event log
+ */
+export async function getCachedGraduations(): Promise<GraduationLog | null> {
+  // KV first - other instances append to the same log
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(CACHE_KEYS.GRADUATIONS)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as GraduationLog
+        if (Date.now() - data.scannedAt < CACHE_TTL.GRADUATIONS) {
+          memoryCache.graduations = data
+          return data
+        }
+      }
+    } catch (e) {
+      console.warn('[PoolCache] KV read error:', e)
+    }
+  }
+
+  if (memoryCache.graduations && Date.now() - memoryCache.graduations.scannedAt < CACHE_TTL.GRADUATIONS) {
+    return memoryCache.graduations
+  }
+
+  return null
+}
+
+/**
+ * Save the graduation event log
+ */
+export async function setCachedGraduations(log: GraduationLog): Promise<void> {
+  memoryCache.graduations = log
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(CACHE_KEYS.GRADUATIONS, JSON.stringify(log), {
+        ex: Math.ceil(CACHE_TTL.GRADUATIONS / 1000),
+      })
+    } catch (e) {
+      console.warn('[PoolCache] KV write error:', e)
+    }
+  }
+}
+
+// ============================================
+// POOL EVENT LOG CACHE
+// ============================================
+
+/**
+ * Get the pool event log
+ */
+export async function getCachedPoolEvents(): Promise<PoolEventLog | null> {
+  // KV first - other instances append to the same log
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(CACHE_KEYS.POOL_EVENTS)
+      if (cached) {
+        const data = typeof cached === 'string' ? JSON.parse(cached) : cached as PoolEventLog
+        if (Date.now() - data.updatedAt < CACHE_TTL.POOL_EVENTS) {
+          memoryCache.poolEvents = data
+          return data
+        }
+      }
+    } catch (e) {
+      console.warn('[PoolCache] KV read error:', e)
+    }
+  }
+
+  if (memoryCache.poolEvents && Date.now() - memoryCache.poolEvents.updatedAt < CACHE_TTL.POOL_EVENTS) {
+    return memoryCache.poolEvents
+  }
+
+  return null
+}
+
+/**
+ * Save the pool event log
+ */
+export async function setCachedPoolEvents(log: PoolEventLog): Promise<void> {
+  memoryCache.poolEvents = log
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(CACHE_KEYS.POOL_EVENTS, JSON.stringify(log), {
+        ex: Math.ceil(CACHE_TTL.POOL_EVENTS / 1000),
+      })
+    } catch (e) {
+      console.warn('[PoolCache] KV write error:', e)
+    }
+  }
+}
+
 // ============================================
 // CACHE STATS
 // ============================================
@@ -434,12 +967,14 @@ export async function clearAllCaches(): Promise<void> {
   memoryCache.pools = null
   memoryCache.tokenMetadata.clear()
   memoryCache.enrichedTokens = null
+  memoryCache.bondingPools = null
 
   const kv = await getKV()
   if (kv) {
     try {
       await kv.set(CACHE_KEYS.POOL_LIST, null)
       await kv.set(CACHE_KEYS.ENRICHED_TOKENS, null)
+      await kv.set(CACHE_KEYS.BONDING_POOLS, null)
     } catch {
       // Ignore errors
     }
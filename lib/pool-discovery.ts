@@ -1,13 +1,18 @@
 /**
  * On-Chain Pool Discovery
  *
- * Queries Raydium CPMM program directly on the Solana blockchain
- * to discover ALL USD1 pools with 100% accuracy.
+ * Queries the Raydium CPMM, AMM v4 and CLMM programs directly on the
+ * Solana blockchain to discover ALL USD1 pools with 100% accuracy.
  *
  * This approach guarantees complete coverage since we're reading
  * directly from the source of truth (the blockchain itself).
+ *
+ * Between full scans, new CPMM pools are picked up incrementally from
+ * pool-creation transactions (discoverNewUSD1Pools). AMM v4 and CLMM pools
+ * are rarely created for USD1 pairs and only appear with the next full scan.
  */
 
+import type { MintAuthorities, PoolType, Token2022Extensions } from './types'
 import { rpcManager } from './rpc-manager'
 
 // Program IDs
@@ -16,12 +21,32 @@ export const PROGRAMS = {
   RAYDIUM_CPMM: 'CPMMoo8L3F4NbTegBCKVNunggL7H1ZpdTHKxQB5qKP1C',
   // Raydium AMM V4 - legacy pools
   RAYDIUM_AMM_V4: '675kPX9MHTjS2zt1qfr1NYHuzeLXfQM9H24wFSUt1Mp8',
+  // Raydium CLMM - concentrated liquidity pools
+  RAYDIUM_CLMM: 'CAMMCzo5YL8w4VFF8KVHrK22GGUsp5VTaW7grrKgrWqK',
   // LaunchLab program (BonkFun uses this)
   LAUNCHLAB: 'LanMV9sAd7wArD4vJFi2qDdfnVhFxYSUg6eADduJ3uj',
   // USD1 stablecoin mint
   USD1_MINT: 'USD1ttGY1N17NEEHLmELoaybftRBUSErhqYiQzvEmuB',
+  // SPL Token programs
+  TOKEN: 'TokenkegQfeZyiNwAJbNbGKPFXCWuBvf9Ss623VQ5DA',
+  TOKEN_2022: 'TokenzQdBNbLqP5VEhdkAS6EPFLC1PHnBqCXEpPxuEb',
 } as const
 
+// Receives the CPMM create-pool fee - only the pool `initialize` instruction writes to it,
+// so its signatures are pool creations without the program's swap traffic
+export const CPMM_CREATE_POOL_FEE_RECEIVER = 'DNXgeM9EiiaAbaWvwjHj9fQQLAX5ZsfHyvmYUNRAdNC8'
+
+// CPMM `initialize` account order (pool state and both mints)
+const CPMM_INITIALIZE_ACCOUNTS = {
+  POOL_STATE: 3,
+  TOKEN_MINT_0: 4,
+  TOKEN_MINT_1: 5,
+}
+
+const CREATION_SIGNATURES_PER_PAGE = 1000
+const MAX_CREATION_PAGES = 5
+const CREATION_TX_CONCURRENCY = 5
+
 // CPMM Pool State account layout
 // Based on Raydium CPMM program structure
 export const CPMM_POOL_LAYOUT = {
@@ -43,15 +68,176 @@ export const CPMM_POOL_LAYOUT = {
   // Additional fields...
 }
 
+// AMM v4 AmmInfo account layout (no discriminator)
+// Based on the Raydium AMM v4 program structure
+export const AMM_V4_POOL_LAYOUT = {
+  ACCOUNT_SIZE: 752,
+  STATUS: 0,               // 8 bytes
+  BASE_DECIMAL: 32,        // 8 bytes
+  QUOTE_DECIMAL: 40,       // 8 bytes
+  // Fees (8 x 8 bytes) start at 128
+  SWAP_FEE_NUMERATOR: 176, // 8 bytes
+  SWAP_FEE_DENOMINATOR: 184, // 8 bytes
+  POOL_OPEN_TIME: 224,     // 8 bytes - open timestamp, seconds
+  BASE_VAULT: 336,         // 32 bytes
+  QUOTE_VAULT: 368,        // 32 bytes
+  BASE_MINT: 400,          // 32 bytes
+  QUOTE_MINT: 432,         // 32 bytes
+  LP_MINT: 464,            // 32 bytes
+  // Open orders, market, target orders, withdraw queue... follow
+  LP_RESERVE: 720,         // 8 bytes - LP tokens minted by the pool
+}
+
+// CLMM PoolState account layout (packed, no alignment padding)
+// Based on the Raydium CLMM program structure
+export const CLMM_POOL_LAYOUT = {
+  ACCOUNT_SIZE: 1544,
+  DISCRIMINATOR: 0,        // 8 bytes - account discriminator
+  BUMP: 8,                 // 1 byte
+  AMM_CONFIG: 9,           // 32 bytes - AMM config pubkey
+  OWNER: 41,               // 32 bytes - pool creator
+  TOKEN_MINT_0: 73,        // 32 bytes
+  TOKEN_MINT_1: 105,       // 32 bytes
+  TOKEN_VAULT_0: 137,      // 32 bytes
+  TOKEN_VAULT_1: 169,      // 32 bytes
+  OBSERVATION_KEY: 201,    // 32 bytes
+  MINT_DECIMALS_0: 233,    // 1 byte
+  MINT_DECIMALS_1: 234,    // 1 byte
+  TICK_SPACING: 235,       // 2 bytes
+  LIQUIDITY: 237,          // 16 bytes - active liquidity
+  SQRT_PRICE_X64: 253,     // 16 bytes - sqrt(token1 per token0) as Q64.64
+  TICK_CURRENT: 269,       // 4 bytes
+  // Fee growth, protocol fees, swap totals, rewards, tick bitmap and fee totals follow
+  OPEN_TIME: 1080,         // 8 bytes - pool open timestamp
+}
+
+// AmmConfig accounts shared by CPMM / CLMM pools - fee rates are parts per million
+export const FEE_RATE_DENOMINATOR = 1_000_000
+
+export const CPMM_AMM_CONFIG_LAYOUT = {
+  ACCOUNT_SIZE: 236,
+  TRADE_FEE_RATE: 12,      // 8 bytes
+}
+
+export const CLMM_AMM_CONFIG_LAYOUT = {
+  ACCOUNT_SIZE: 117,
+  TRADE_FEE_RATE: 47,      // 4 bytes
+}
+
+// LaunchLab PoolState account layout (bonding curve before graduation)
+// Based on the Raydium LaunchLab program structure
+export const LAUNCHLAB_POOL_LAYOUT = {
+  MIN_ACCOUNT_SIZE: 365,   // Through creator; trailing padding varies
+  DISCRIMINATOR: 0,        // 8 bytes - account discriminator
+  EPOCH: 8,                // 8 bytes
+  AUTH_BUMP: 16,           // 1 byte
+  STATUS: 17,              // 1 byte - 0 = trading on curve, 1 = migrating, 2 = migrated
+  MINT_DECIMALS_A: 18,     // 1 byte - base (launched token) decimals
+  MINT_DECIMALS_B: 19,     // 1 byte - quote decimals
+  MIGRATE_TYPE: 20,        // 1 byte
+  SUPPLY: 21,              // 8 bytes - base token supply
+  TOTAL_SELL_A: 29,        // 8 bytes - base tokens sold on the curve at graduation
+  VIRTUAL_A: 37,           // 8 bytes - virtual base reserve
+  VIRTUAL_B: 45,           // 8 bytes - virtual quote reserve
+  REAL_A: 53,              // 8 bytes - base tokens sold so far
+  REAL_B: 61,              // 8 bytes - quote raised so far
+  TOTAL_FUND_RAISING_B: 69, // 8 bytes - quote target to graduate
+  // Fees (3 x 8 bytes) and vesting schedule (5 x 8 bytes) follow
+  CONFIG_ID: 141,          // 32 bytes
+  PLATFORM_ID: 173,        // 32 bytes - launchpad platform (e.g. BonkFun)
+  MINT_A: 205,             // 32 bytes - launched token mint
+  MINT_B: 237,             // 32 bytes - quote mint
+  VAULT_A: 269,            // 32 bytes
+  VAULT_B: 301,            // 32 bytes
+  CREATOR: 333,            // 32 bytes
+}
+
+// SPL Mint account layout (shared by Token and Token-2022)
+export const MINT_LAYOUT = {
+  ACCOUNT_SIZE: 82,
+  MINT_AUTHORITY_OPTION: 0, // 4 bytes - 1 when set
+  MINT_AUTHORITY: 4,        // 32 bytes
+  SUPPLY: 36,               // 8 bytes
+  DECIMALS: 44,             // 1 byte
+  IS_INITIALIZED: 45,       // 1 byte
+  FREEZE_AUTHORITY_OPTION: 46, // 4 bytes - 1 when set
+  FREEZE_AUTHORITY: 50,     // 32 bytes
+  // Token-2022 pads mints to the token account size, then an account type byte and TLV extensions
+  EXTENSIONS_ACCOUNT_TYPE: 165,
+  EXTENSIONS_START: 166,
+}
+
+// Token-2022 mint extension type ids (u16 in each TLV entry), per spl-token-2022's ExtensionType
+// Account-only extensions (TransferFeeAmount, ImmutableOwner, CpiGuard...) never appear on mints
+const TOKEN_2022_EXTENSION_NAMES: Record<number, string> = {
+  1: 'TransferFeeConfig',
+  3: 'MintCloseAuthority',
+  4: 'ConfidentialTransferMint',
+  6: 'DefaultAccountState',
+  9: 'NonTransferable',
+  10: 'InterestBearingConfig',
+  12: 'PermanentDelegate',
+  14: 'TransferHook',
+  16: 'ConfidentialTransferFeeConfig',
+  18: 'MetadataPointer',
+  19: 'TokenMetadata',
+  20: 'GroupPointer',
+  21: 'TokenGroup',
+  22: 'GroupMemberPointer',
+  23: 'TokenGroupMember',
+  24: 'ConfidentialMintBurn',
+  25: 'ScaledUiAmount',
+  26: 'Pausable',
+}
+
+export interface DecodedMint {
+  decimals: number
+  supply: number // Raw units
+  authorities: MintAuthorities
+  tokenProgram: 'token' | 'token-2022'
+  token2022Extensions: Token2022Extensions | null
+}
+
+export type LaunchLabPoolStatus = 'trading' | 'migrating' | 'migrated'
+
+export interface BondingCurvePool {
+  poolAddress: string
+  tokenMint: string
+  platformId: string
+  creator: string
+  tokenVault: string       // Curve's base-token vault
+  quoteVault: string       // Curve's USD1 vault
+  status: LaunchLabPoolStatus
+  price: number            // USD1 per token from current curve reserves
+  supply: number           // UI amount
+  raised: number           // USD1 raised so far
+  target: number           // USD1 needed to graduate
+  progress: number         // 0-100
+}
+
 export interface DiscoveredPool {
   poolAddress: string
   tokenMint: string      // The non-USD1 token
   tokenVault: string
   usd1Vault: string
   lpMint: string
+  lpSupply: number       // Raw LP minted by the pool; burns reduce the mint supply, not this
   poolCreator: string
   openTime: number | null
-  isTokenMint0USD1: boolean
+  isTokenMint0USD1: boolean // For AMM v4, whether USD1 is the base token
+  poolType: PoolType
+  ammConfig?: string     // CPMM / CLMM fee config; AMM v4 keeps its fees in the pool account
+}
+
+// Where USD1 sits in each pool program's accounts, for getProgramAccounts filters
+interface PoolProgramScan {
+  label: string
+  poolType: PoolType
+  program: string
+  accountSize: number
+  mint0Offset: number // CPMM/CLMM token 0, AMM v4 base
+  mint1Offset: number // CPMM/CLMM token 1, AMM v4 quote
+  parse: (pubkey: string, data: Buffer, isTokenMint0USD1: boolean) => DiscoveredPool | null
 }
 
 /**
@@ -89,7 +275,7 @@ function base58ToBytes(base58: string): number[] {
 /**
  * Convert bytes to base58 string
  */
-function bytesToBase58(bytes: Uint8Array): string {
+export function bytesToBase58(bytes: Uint8Array): string {
   const ALPHABET = '123456789ABCDEFGHJKLMNPQRSTUVWXYZabcdefghijkmnopqrstuvwxyz'
 
   // Count leading zeros
@@ -126,7 +312,7 @@ function bytesToBase58(bytes: Uint8Array): string {
 /**
  * Make RPC request with proper error handling
  */
-async function rpcRequest(url: string, method: string, params: any[]): Promise<any> {
+export async function rpcRequest(url: string, method: string, params: any[]): Promise<any> {
   const controller = new AbortController()
   const timeoutId = setTimeout(() => controller.abort(), 30000) // 30s timeout for getProgramAccounts
 
@@ -163,12 +349,16 @@ async function rpcRequest(url: string, method: string, params: any[]): Promise<a
 }
 
 /**
- * Discover all USD1 pools from Raydium CPMM program
+ * Discover all USD1 pools from the Raydium CPMM, AMM v4 and CLMM programs
  * Returns both the pool addresses and the non-USD1 token mints
+ * This is a full getProgramAccounts scan - the most expensive RPC call we make,
+ * so lib/pool-sync.ts only runs it on a slow schedule
  */
 export async function discoverUSD1Pools(): Promise<{
   pools: DiscoveredPool[]
   tokenMints: string[]
+  scannedTypes: PoolType[] // Programs scanned in full
+  failedScans: PoolType[] // Programs every endpoint failed to scan - their pools are missing
   discoveredAt: number
 }> {
   console.log('[PoolDiscovery] Starting on-chain pool discovery...')
@@ -176,77 +366,85 @@ export async function discoverUSD1Pools(): Promise<{
 
   const pools: DiscoveredPool[] = []
   const tokenMints = new Set<string>()
+  const scannedTypes: PoolType[] = []
+  const failedScans: PoolType[] = []
 
-  // Execute with fallback across multiple RPC providers
-  await rpcManager.executeWithFallback(async (rpcUrl, endpointName) => {
-    console.log(`[PoolDiscovery] Using ${endpointName} endpoint`)
+  // Each program falls back across RPC providers on its own, so one failing
+  // scan doesn't throw away the others
+  for (const scan of POOL_PROGRAM_SCANS) {
+    try {
+      const found = await rpcManager.executeWithFallback(async (rpcUrl, endpointName) => {
+        console.log(`[PoolDiscovery] Scanning ${scan.label} on ${endpointName} endpoint`)
+        return scanProgramForUSD1Pools(rpcUrl, scan)
+      })
 
-    // Query 1: Find pools where USD1 is tokenMint0
-    const poolsWithUSD1AsMint0 = await rpcRequest(rpcUrl, 'getProgramAccounts', [
-      PROGRAMS.RAYDIUM_CPMM,
-      {
-        encoding: 'base64',
-        filters: [
-          { dataSize: CPMM_POOL_LAYOUT.ACCOUNT_SIZE },
-          { memcmp: { offset: CPMM_POOL_LAYOUT.TOKEN_MINT_0, bytes: PROGRAMS.USD1_MINT } },
-        ],
-      },
-    ])
+      for (const pool of found) {
+        pools.push(pool)
+        tokenMints.add(pool.tokenMint)
+      }
+      scannedTypes.push(scan.poolType)
+    } catch (e) {
+      console.warn(`[PoolDiscovery] ${scan.label} scan failed on every endpoint:`, e)
+      failedScans.push(scan.poolType)
+    }
+  }
+
+  const elapsed = Date.now() - startTime
+  console.log(`[PoolDiscovery] Completed in ${elapsed}ms. Found ${pools.length} pools, ${tokenMints.size} unique tokens`)
+
+  return {
+    pools,
+    tokenMints: Array.from(tokenMints),
+    scannedTypes,
+    failedScans,
+    discoveredAt: Date.now(),
+  }
+}
 
-    console.log(`[PoolDiscovery] Found ${poolsWithUSD1AsMint0?.length || 0} pools with USD1 as mint0`)
+/**
+ * USD1 pools of one program - one query with USD1 as token 0, one with USD1 as token 1
+ */
+async function scanProgramForUSD1Pools(rpcUrl: string, scan: PoolProgramScan): Promise<DiscoveredPool[]> {
+  const pools: DiscoveredPool[] = []
+  const sides: [number, boolean][] = [[scan.mint0Offset, true], [scan.mint1Offset, false]]
 
-    // Query 2: Find pools where USD1 is tokenMint1
-    const poolsWithUSD1AsMint1 = await rpcRequest(rpcUrl, 'getProgramAccounts', [
-      PROGRAMS.RAYDIUM_CPMM,
+  for (const [offset, isTokenMint0USD1] of sides) {
+    const accounts = await rpcRequest(rpcUrl, 'getProgramAccounts', [
+      scan.program,
       {
         encoding: 'base64',
         filters: [
-          { dataSize: CPMM_POOL_LAYOUT.ACCOUNT_SIZE },
-          { memcmp: { offset: CPMM_POOL_LAYOUT.TOKEN_MINT_1, bytes: PROGRAMS.USD1_MINT } },
+          { dataSize: scan.accountSize },
+          { memcmp: { offset, bytes: PROGRAMS.USD1_MINT } },
         ],
       },
     ])
 
-    console.log(`[PoolDiscovery] Found ${poolsWithUSD1AsMint1?.length || 0} pools with USD1 as mint1`)
+    console.log(`[PoolDiscovery] Found ${accounts?.length || 0} ${scan.label} pools with USD1 as mint${isTokenMint0USD1 ? 0 : 1}`)
 
-    // Process pools where USD1 is tokenMint0
-    for (const account of poolsWithUSD1AsMint0 || []) {
+    for (const account of accounts || []) {
       try {
         const data = Buffer.from(account.account.data[0], 'base64')
-        const pool = parsePoolAccount(account.pubkey, data, true)
-        if (pool && pool.tokenMint !== PROGRAMS.USD1_MINT) {
-          pools.push(pool)
-          tokenMints.add(pool.tokenMint)
-        }
+        const pool = scan.parse(account.pubkey, data, isTokenMint0USD1)
+        if (pool && pool.tokenMint !== PROGRAMS.USD1_MINT) pools.push(pool)
       } catch (e) {
         console.warn('[PoolDiscovery] Failed to parse pool:', e)
       }
     }
+  }
 
-    // Process pools where USD1 is tokenMint1
-    for (const account of poolsWithUSD1AsMint1 || []) {
-      try {
-        const data = Buffer.from(account.account.data[0], 'base64')
-        const pool = parsePoolAccount(account.pubkey, data, false)
-        if (pool && pool.tokenMint !== PROGRAMS.USD1_MINT) {
-          pools.push(pool)
-          tokenMints.add(pool.tokenMint)
-        }
-      } catch (e) {
-        console.warn('[PoolDiscovery] Failed to parse pool:', e)
-      }
-    }
-
-    return true
-  })
-
-  const elapsed = Date.now() - startTime
-  console.log(`[PoolDiscovery] Completed in ${elapsed}ms. Found ${pools.length} pools, ${tokenMints.size} unique tokens`)
+  return pools
+}
 
-  return {
-    pools,
-    tokenMints: Array.from(tokenMints),
-    discoveredAt: Date.now(),
+/**
+ * Pool open time from a u64 seconds field, null when unset or implausible
+ */
+function readOpenTime(data: Buffer, offset: number): number | null {
+  try {
+    const openTime = Number(data.readBigUInt64LE(offset)) * 1000 // Convert to ms
+    return openTime < 1600000000000 || openTime > 2000000000000 ? null : openTime
+  } catch {
+    return null
   }
 }
 
@@ -264,6 +462,7 @@ function parsePoolAccount(
 
   try {
     // Read pubkeys (32 bytes each)
+    const ammConfig = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.AMM_CONFIG, CPMM_POOL_LAYOUT.AMM_CONFIG + 32))
     const poolCreator = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.POOL_CREATOR, CPMM_POOL_LAYOUT.POOL_CREATOR + 32))
     const tokenMint0 = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.TOKEN_MINT_0, CPMM_POOL_LAYOUT.TOKEN_MINT_0 + 32))
     const tokenMint1 = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.TOKEN_MINT_1, CPMM_POOL_LAYOUT.TOKEN_MINT_1 + 32))
@@ -271,17 +470,9 @@ function parsePoolAccount(
     const tokenVault1 = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.TOKEN_VAULT_1, CPMM_POOL_LAYOUT.TOKEN_VAULT_1 + 32))
     const lpMint = bytesToBase58(data.slice(CPMM_POOL_LAYOUT.LP_MINT, CPMM_POOL_LAYOUT.LP_MINT + 32))
 
-    // Read open time (8 bytes, little endian u64)
-    let openTime: number | null = null
-    try {
-      const openTimeBytes = data.slice(CPMM_POOL_LAYOUT.OPEN_TIME, CPMM_POOL_LAYOUT.OPEN_TIME + 8)
-      openTime = Number(openTimeBytes.readBigUInt64LE()) * 1000 // Convert to ms
-      if (openTime < 1600000000000 || openTime > 2000000000000) {
-        openTime = null // Invalid timestamp
-      }
-    } catch {
-      openTime = null
-    }
+    const lpSupply = Number(data.readBigUInt64LE(CPMM_POOL_LAYOUT.LP_SUPPLY))
+
+    const openTime = readOpenTime(data, CPMM_POOL_LAYOUT.OPEN_TIME)
 
     // Determine which is the non-USD1 token
     const tokenMint = isTokenMint0USD1 ? tokenMint1 : tokenMint0
@@ -294,9 +485,12 @@ function parsePoolAccount(
       tokenVault,
       usd1Vault,
       lpMint,
+      lpSupply,
       poolCreator,
       openTime,
       isTokenMint0USD1,
+      poolType: 'cpmm',
+      ammConfig,
     }
   } catch (e) {
     console.error('[PoolDiscovery] Error parsing pool account:', e)
@@ -304,6 +498,459 @@ function parsePoolAccount(
   }
 }
 
+/**
+ * Parse an AMM v4 pool account from raw bytes
+ * AMM v4 pools are created by the Raydium authority, so there is no pool creator
+ */
+function parseAmmV4PoolAccount(
+  pubkey: string,
+  data: Buffer,
+  isBaseUSD1: boolean
+): DiscoveredPool | null {
+  if (data.length < AMM_V4_POOL_LAYOUT.ACCOUNT_SIZE) {
+    return null
+  }
+
+  const readPubkey = (offset: number) => bytesToBase58(data.slice(offset, offset + 32))
+
+  const baseMint = readPubkey(AMM_V4_POOL_LAYOUT.BASE_MINT)
+  const quoteMint = readPubkey(AMM_V4_POOL_LAYOUT.QUOTE_MINT)
+  const baseVault = readPubkey(AMM_V4_POOL_LAYOUT.BASE_VAULT)
+  const quoteVault = readPubkey(AMM_V4_POOL_LAYOUT.QUOTE_VAULT)
+
+  return {
+    poolAddress: pubkey,
+    tokenMint: isBaseUSD1 ? quoteMint : baseMint,
+    tokenVault: isBaseUSD1 ? quoteVault : baseVault,
+    usd1Vault: isBaseUSD1 ? baseVault : quoteVault,
+    lpMint: readPubkey(AMM_V4_POOL_LAYOUT.LP_MINT),
+    lpSupply: Number(data.readBigUInt64LE(AMM_V4_POOL_LAYOUT.LP_RESERVE)),
+    poolCreator: '',
+    openTime: readOpenTime(data, AMM_V4_POOL_LAYOUT.POOL_OPEN_TIME),
+    isTokenMint0USD1: isBaseUSD1,
+    poolType: 'amm-v4',
+  }
+}
+
+/**
+ * Parse a CLMM pool account from raw bytes
+ * Liquidity positions are NFTs rather than an LP mint, so lpMint is empty
+ */
+function parseClmmPoolAccount(
+  pubkey: string,
+  data: Buffer,
+  isTokenMint0USD1: boolean
+): DiscoveredPool | null {
+  if (data.length < CLMM_POOL_LAYOUT.ACCOUNT_SIZE) {
+    return null
+  }
+
+  const readPubkey = (offset: number) => bytesToBase58(data.slice(offset, offset + 32))
+
+  const tokenMint0 = readPubkey(CLMM_POOL_LAYOUT.TOKEN_MINT_0)
+  const tokenMint1 = readPubkey(CLMM_POOL_LAYOUT.TOKEN_MINT_1)
+  const tokenVault0 = readPubkey(CLMM_POOL_LAYOUT.TOKEN_VAULT_0)
+  const tokenVault1 = readPubkey(CLMM_POOL_LAYOUT.TOKEN_VAULT_1)
+
+  return {
+    poolAddress: pubkey,
+    tokenMint: isTokenMint0USD1 ? tokenMint1 : tokenMint0,
+    tokenVault: isTokenMint0USD1 ? tokenVault1 : tokenVault0,
+    usd1Vault: isTokenMint0USD1 ? tokenVault0 : tokenVault1,
+    lpMint: '',
+    lpSupply: 0,
+    poolCreator: readPubkey(CLMM_POOL_LAYOUT.OWNER),
+    openTime: readOpenTime(data, CLMM_POOL_LAYOUT.OPEN_TIME),
+    isTokenMint0USD1,
+    poolType: 'clmm',
+    ammConfig: readPubkey(CLMM_POOL_LAYOUT.AMM_CONFIG),
+  }
+}
+
+/**
+ * USD1 per token at a CLMM pool's current sqrt price
+ * sqrt_price_x64 is sqrt(token1 / token0) in raw units as a Q64.64 fixed-point number
+ */
+export function decodeClmmPrice(data: Buffer, isTokenMint0USD1: boolean): number | null {
+  if (data.length < CLMM_POOL_LAYOUT.ACCOUNT_SIZE) return null
+
+  const low = Number(data.readBigUInt64LE(CLMM_POOL_LAYOUT.SQRT_PRICE_X64))
+  const high = Number(data.readBigUInt64LE(CLMM_POOL_LAYOUT.SQRT_PRICE_X64 + 8))
+  const sqrtPrice = high + low / Math.pow(2, 64)
+  if (!(sqrtPrice > 0)) return null
+
+  const decimals0 = data[CLMM_POOL_LAYOUT.MINT_DECIMALS_0]
+  const decimals1 = data[CLMM_POOL_LAYOUT.MINT_DECIMALS_1]
+  const price1Per0 = sqrtPrice * sqrtPrice * Math.pow(10, decimals0 - decimals1)
+
+  const price = isTokenMint0USD1 ? 1 / price1Per0 : price1Per0
+  return isFinite(price) ? price : null
+}
+
+/**
+ * Swap fee of an AMM v4 pool, % of the trade
+ */
+export function decodeAmmV4FeeTier(data: Buffer): number | null {
+  if (data.length < AMM_V4_POOL_LAYOUT.ACCOUNT_SIZE) return null
+
+  const numerator = Number(data.readBigUInt64LE(AMM_V4_POOL_LAYOUT.SWAP_FEE_NUMERATOR))
+  const denominator = Number(data.readBigUInt64LE(AMM_V4_POOL_LAYOUT.SWAP_FEE_DENOMINATOR))
+  return denominator > 0 ? (numerator / denominator) * 100 : null
+}
+
+/**
+ * Current raw LP supply of a CPMM or AMM v4 pool
+ * Withdrawals lower it together with the LP mint's supply; SPL burns only lower the mint's
+ */
+export function decodePoolLpSupply(data: Buffer, poolType: 'cpmm' | 'amm-v4'): number | null {
+  if (poolType === 'cpmm') {
+    if (data.length < CPMM_POOL_LAYOUT.ACCOUNT_SIZE) return null
+    return Number(data.readBigUInt64LE(CPMM_POOL_LAYOUT.LP_SUPPLY))
+  }
+
+  if (data.length < AMM_V4_POOL_LAYOUT.ACCOUNT_SIZE) return null
+  return Number(data.readBigUInt64LE(AMM_V4_POOL_LAYOUT.LP_RESERVE))
+}
+
+/**
+ * Trade fee of a CPMM or CLMM AmmConfig account, % of the trade
+ */
+export function decodeAmmConfigFeeTier(data: Buffer, poolType: 'cpmm' | 'clmm'): number | null {
+  if (poolType === 'cpmm') {
+    if (data.length < CPMM_AMM_CONFIG_LAYOUT.ACCOUNT_SIZE) return null
+    return (Number(data.readBigUInt64LE(CPMM_AMM_CONFIG_LAYOUT.TRADE_FEE_RATE)) / FEE_RATE_DENOMINATOR) * 100
+  }
+
+  if (data.length < CLMM_AMM_CONFIG_LAYOUT.ACCOUNT_SIZE) return null
+  return (data.readUInt32LE(CLMM_AMM_CONFIG_LAYOUT.TRADE_FEE_RATE) / FEE_RATE_DENOMINATOR) * 100
+}
+
+const POOL_PROGRAM_SCANS: PoolProgramScan[] = [
+  {
+    label: 'CPMM',
+    poolType: 'cpmm',
+    program: PROGRAMS.RAYDIUM_CPMM,
+    accountSize: CPMM_POOL_LAYOUT.ACCOUNT_SIZE,
+    mint0Offset: CPMM_POOL_LAYOUT.TOKEN_MINT_0,
+    mint1Offset: CPMM_POOL_LAYOUT.TOKEN_MINT_1,
+    parse: parsePoolAccount,
+  },
+  {
+    label: 'AMM v4',
+    poolType: 'amm-v4',
+    program: PROGRAMS.RAYDIUM_AMM_V4,
+    accountSize: AMM_V4_POOL_LAYOUT.ACCOUNT_SIZE,
+    mint0Offset: AMM_V4_POOL_LAYOUT.BASE_MINT,
+    mint1Offset: AMM_V4_POOL_LAYOUT.QUOTE_MINT,
+    parse: parseAmmV4PoolAccount,
+  },
+  {
+    label: 'CLMM',
+    poolType: 'clmm',
+    program: PROGRAMS.RAYDIUM_CLMM,
+    accountSize: CLMM_POOL_LAYOUT.ACCOUNT_SIZE,
+    mint0Offset: CLMM_POOL_LAYOUT.TOKEN_MINT_0,
+    mint1Offset: CLMM_POOL_LAYOUT.TOKEN_MINT_1,
+    parse: parseClmmPoolAccount,
+  },
+]
+
+// ============================================
+// INCREMENTAL DISCOVERY
+// ============================================
+
+/**
+ * Newest pool-creation signature, used as the starting cursor for incremental discovery
+ */
+export async function getLatestPoolCreationSignature(): Promise<string | null> {
+  return rpcManager.executeWithFallback(async (rpcUrl) => {
+    const signatures = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+      CPMM_CREATE_POOL_FEE_RECEIVER,
+      { limit: 1 },
+    ])
+    return signatures?.[0]?.signature || null
+  })
+}
+
+/**
+ * USD1 pools created after `until` (a pool-creation signature)
+ * Walks the create-pool fee receiver's signatures, reads each creation's
+ * `initialize` accounts and fetches only the USD1 pool accounts.
+ * `complete` is false when more than MAX_CREATION_PAGES of creations happened
+ * since the cursor - the caller should fall back to a full scan.
+ */
+export async function discoverNewUSD1Pools(until: string): Promise<{
+  pools: DiscoveredPool[]
+  newestSignature: string
+  complete: boolean
+  scannedSignatures: number
+}> {
+  const startTime = Date.now()
+
+  const result = await rpcManager.executeWithFallback(async (rpcUrl) => {
+    const signatures: any[] = []
+    let before: string | undefined
+    let complete = false
+
+    for (let page = 0; page < MAX_CREATION_PAGES; page++) {
+      const batch: any[] = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+        CPMM_CREATE_POOL_FEE_RECEIVER,
+        { limit: CREATION_SIGNATURES_PER_PAGE, until, ...(before ? { before } : {}) },
+      ]) || []
+
+      signatures.push(...batch)
+      if (batch.length < CREATION_SIGNATURES_PER_PAGE) {
+        complete = true
+        break
+      }
+      before = batch[batch.length - 1].signature
+    }
+
+    // Pool state -> whether USD1 is token 0
+    const candidates = new Map<string, boolean>()
+    const successful = signatures.filter(s => !s.err)
+    for (let i = 0; i < successful.length; i += CREATION_TX_CONCURRENCY) {
+      const batch = successful.slice(i, i + CREATION_TX_CONCURRENCY)
+      const txs = await Promise.all(batch.map(s =>
+        rpcRequest(rpcUrl, 'getTransaction', [
+          s.signature,
+          { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+        ])
+      ))
+
+      for (const tx of txs) {
+        for (const [poolState, isTokenMint0USD1] of findUSD1PoolCreations(tx)) {
+          candidates.set(poolState, isTokenMint0USD1)
+        }
+      }
+    }
+
+    const pools: DiscoveredPool[] = []
+    const addresses = Array.from(candidates.keys())
+    for (let i = 0; i < addresses.length; i += 100) {
+      const chunk = addresses.slice(i, i + 100)
+      const response = await rpcRequest(rpcUrl, 'getMultipleAccounts', [chunk, { encoding: 'base64' }])
+
+      const accounts: any[] = response?.value || []
+      accounts.forEach((account, j) => {
+        if (!account || account.owner !== PROGRAMS.RAYDIUM_CPMM) return
+        const data = Buffer.from(account.data[0], 'base64')
+        const pool = parsePoolAccount(chunk[j], data, candidates.get(chunk[j])!)
+        if (pool && pool.tokenMint !== PROGRAMS.USD1_MINT) pools.push(pool)
+      })
+    }
+
+    return {
+      pools,
+      newestSignature: signatures[0]?.signature || until,
+      complete,
+      scannedSignatures: signatures.length,
+    }
+  })
+
+  console.log(`[PoolDiscovery] Incremental scan: ${result.scannedSignatures} creations, ${result.pools.length} USD1 pools in ${Date.now() - startTime}ms`)
+  return result
+}
+
+/**
+ * CPMM `initialize` instructions in a transaction (top-level or CPI, e.g. LaunchLab
+ * migrations) that pair a token with USD1, as [pool state, isTokenMint0USD1]
+ */
+function findUSD1PoolCreations(tx: any): [string, boolean][] {
+  if (!tx?.transaction?.message || tx.meta?.err) return []
+
+  const instructions: any[] = [
+    ...(tx.transaction.message.instructions || []),
+    ...(tx.meta?.innerInstructions || []).flatMap((inner: any) => inner.instructions || []),
+  ]
+
+  const creations: [string, boolean][] = []
+  for (const ix of instructions) {
+    const accounts: string[] = ix.accounts || []
+    if (ix.programId !== PROGRAMS.RAYDIUM_CPMM || !accounts.includes(CPMM_CREATE_POOL_FEE_RECEIVER)) continue
+
+    const mint0 = accounts[CPMM_INITIALIZE_ACCOUNTS.TOKEN_MINT_0]
+    const mint1 = accounts[CPMM_INITIALIZE_ACCOUNTS.TOKEN_MINT_1]
+    if (mint0 !== PROGRAMS.USD1_MINT && mint1 !== PROGRAMS.USD1_MINT) continue
+
+    creations.push([accounts[CPMM_INITIALIZE_ACCOUNTS.POOL_STATE], mint0 === PROGRAMS.USD1_MINT])
+  }
+  return creations
+}
+
+/**
+ * Discover LaunchLab bonding-curve pools quoted in USD1
+ * Pass a platform config to only return one launchpad's pools (e.g. BonkFun)
+ */
+export async function discoverLaunchLabPools(platformId?: string): Promise<BondingCurvePool[]> {
+  const startTime = Date.now()
+  const pools: BondingCurvePool[] = []
+
+  await rpcManager.executeWithFallback(async (rpcUrl) => {
+    const filters: object[] = [
+      { memcmp: { offset: LAUNCHLAB_POOL_LAYOUT.MINT_B, bytes: PROGRAMS.USD1_MINT } },
+    ]
+    if (platformId) {
+      filters.push({ memcmp: { offset: LAUNCHLAB_POOL_LAYOUT.PLATFORM_ID, bytes: platformId } })
+    }
+
+    const accounts = await rpcRequest(rpcUrl, 'getProgramAccounts', [
+      PROGRAMS.LAUNCHLAB,
+      { encoding: 'base64', filters },
+    ])
+
+    for (const account of accounts || []) {
+      try {
+        const data = Buffer.from(account.account.data[0], 'base64')
+        const pool = parseLaunchLabPoolAccount(account.pubkey, data)
+        if (pool) pools.push(pool)
+      } catch (e) {
+        console.warn('[PoolDiscovery] Failed to parse LaunchLab pool:', e)
+      }
+    }
+
+    return true
+  })
+
+  console.log(`[PoolDiscovery] LaunchLab scan completed in ${Date.now() - startTime}ms. Found ${pools.length} USD1 pools`)
+  return pools
+}
+
+const LAUNCHLAB_STATUS: Record<number, LaunchLabPoolStatus> = {
+  0: 'trading',
+  1: 'migrating',
+  2: 'migrated',
+}
+
+/**
+ * Parse a LaunchLab pool account from raw bytes
+ * Curve price uses virtual + real reserves: (virtualB + realB) / (virtualA - realA)
+ */
+export function parseLaunchLabPoolAccount(pubkey: string, data: Buffer): BondingCurvePool | null {
+  if (data.length < LAUNCHLAB_POOL_LAYOUT.MIN_ACCOUNT_SIZE) {
+    return null
+  }
+
+  const readU64 = (offset: number) => Number(data.readBigUInt64LE(offset))
+  const readPubkey = (offset: number) => bytesToBase58(data.slice(offset, offset + 32))
+
+  const status = LAUNCHLAB_STATUS[data[LAUNCHLAB_POOL_LAYOUT.STATUS]]
+  if (!status) return null
+
+  const decimalsA = data[LAUNCHLAB_POOL_LAYOUT.MINT_DECIMALS_A]
+  const decimalsB = data[LAUNCHLAB_POOL_LAYOUT.MINT_DECIMALS_B]
+  const virtualA = readU64(LAUNCHLAB_POOL_LAYOUT.VIRTUAL_A)
+  const virtualB = readU64(LAUNCHLAB_POOL_LAYOUT.VIRTUAL_B)
+  const realA = readU64(LAUNCHLAB_POOL_LAYOUT.REAL_A)
+  const realB = readU64(LAUNCHLAB_POOL_LAYOUT.REAL_B)
+  const totalFundRaisingB = readU64(LAUNCHLAB_POOL_LAYOUT.TOTAL_FUND_RAISING_B)
+
+  const baseReserve = virtualA - realA
+  if (baseReserve <= 0) return null
+
+  const price = ((virtualB + realB) / baseReserve) * Math.pow(10, decimalsA - decimalsB)
+  const raised = realB / Math.pow(10, decimalsB)
+  const target = totalFundRaisingB / Math.pow(10, decimalsB)
+
+  return {
+    poolAddress: pubkey,
+    tokenMint: readPubkey(LAUNCHLAB_POOL_LAYOUT.MINT_A),
+    platformId: readPubkey(LAUNCHLAB_POOL_LAYOUT.PLATFORM_ID),
+    creator: readPubkey(LAUNCHLAB_POOL_LAYOUT.CREATOR),
+    tokenVault: readPubkey(LAUNCHLAB_POOL_LAYOUT.VAULT_A),
+    quoteVault: readPubkey(LAUNCHLAB_POOL_LAYOUT.VAULT_B),
+    status,
+    price,
+    supply: readU64(LAUNCHLAB_POOL_LAYOUT.SUPPLY) / Math.pow(10, decimalsA),
+    raised,
+    target,
+    progress: target > 0 ? Math.min(100, (raised / target) * 100) : 0,
+  }
+}
+
+/**
+ * Decode an SPL mint account from raw bytes
+ * `owner` is the account's owning program, which tells Token-2022 mints apart
+ */
+export function decodeMintAccount(data: Buffer, owner: string): DecodedMint | null {
+  if (data.length < MINT_LAYOUT.ACCOUNT_SIZE || data[MINT_LAYOUT.IS_INITIALIZED] !== 1) {
+    return null
+  }
+
+  // Token-2022 "optional" pubkeys inside extensions are all-zero when unset
+  const readPubkey = (offset: number) => {
+    const bytes = data.slice(offset, offset + 32)
+    return bytes.every(b => b === 0) ? null : bytesToBase58(bytes)
+  }
+  const readOptionalPubkey = (optionOffset: number, offset: number) =>
+    data.readUInt32LE(optionOffset) === 1 ? bytesToBase58(data.slice(offset, offset + 32)) : null
+
+  const isToken2022 = owner === PROGRAMS.TOKEN_2022
+
+  return {
+    decimals: data[MINT_LAYOUT.DECIMALS],
+    supply: Number(data.readBigUInt64LE(MINT_LAYOUT.SUPPLY)),
+    authorities: {
+      mintAuthority: readOptionalPubkey(MINT_LAYOUT.MINT_AUTHORITY_OPTION, MINT_LAYOUT.MINT_AUTHORITY),
+      freezeAuthority: readOptionalPubkey(MINT_LAYOUT.FREEZE_AUTHORITY_OPTION, MINT_LAYOUT.FREEZE_AUTHORITY),
+    },
+    tokenProgram: isToken2022 ? 'token-2022' : 'token',
+    token2022Extensions: isToken2022 ? decodeToken2022Extensions(data, readPubkey) : null,
+  }
+}
+
+/**
+ * Walk the TLV extension entries after a Token-2022 mint's base data
+ */
+function decodeToken2022Extensions(
+  data: Buffer,
+  readPubkey: (offset: number) => string | null
+): Token2022Extensions {
+  const extensions: Token2022Extensions = { enabled: [] }
+  if (data.length <= MINT_LAYOUT.EXTENSIONS_START) return extensions
+
+  let offset = MINT_LAYOUT.EXTENSIONS_START
+  while (offset + 4 <= data.length) {
+    const type = data.readUInt16LE(offset)
+    const length = data.readUInt16LE(offset + 2)
+    const value = offset + 4
+    if (type === 0 || value + length > data.length) break // Uninitialized padding or truncated entry
+
+    extensions.enabled.push(TOKEN_2022_EXTENSION_NAMES[type] || `Extension${type}`)
+
+    switch (type) {
+      case 1: {
+        // Config authority (32), withdraw authority (32), withheld (8), older fee (18), newer fee (18)
+        // Each fee is epoch (8), maximum fee (8), basis points (2) - the newer one is what applies going forward
+        const newerFee = value + 32 + 32 + 8 + 18
+        extensions.maxTransferFee = Number(data.readBigUInt64LE(newerFee + 8))
+        extensions.transferFeeBps = data.readUInt16LE(newerFee + 16)
+        break
+      }
+      case 3:
+        extensions.mintCloseAuthority = readPubkey(value) || undefined
+        break
+      case 6:
+        extensions.defaultAccountFrozen = data[value] === 2 // AccountState::Frozen
+        break
+      case 12:
+        extensions.permanentDelegate = readPubkey(value) || undefined
+        break
+      case 14:
+        // Authority (32), then hook program id (32)
+        extensions.transferHookProgram = readPubkey(value + 32) || undefined
+        break
+      case 26:
+        extensions.pausable = true
+        break
+    }
+
+    offset = value + length
+  }
+
+  return extensions
+}
+
 /**
  * Get vault balances for price calculation
  * This is a lighter weight call to get current pool state
@@ -341,16 +988,38 @@ export async function getPoolVaultBalances(
   }
 }
 
+/**
+ * USD1 balance of many pool vaults in batched calls, keyed by vault address
+ * Vaults that fail to load are left out
+ */
+export async function getUSD1VaultBalances(usd1Vaults: string[]): Promise<Map<string, number>> {
+  const balances = new Map<string, number>()
+
+  for (let i = 0; i < usd1Vaults.length; i += 100) {
+    const batch = usd1Vaults.slice(i, i + 100)
+    try {
+      const response = await rpcManager.executeWithFallback(rpcUrl =>
+        rpcRequest(rpcUrl, 'getMultipleAccounts', [batch, { encoding: 'jsonParsed' }])
+      )
+
+      batch.forEach((vault, j) => {
+        const amount = response?.value?.[j]?.data?.parsed?.info?.tokenAmount?.uiAmount
+        if (typeof amount === 'number') balances.set(vault, amount)
+      })
+    } catch (e) {
+      console.error('[PoolDiscovery] Error fetching USD1 vault balances:', e)
+    }
+  }
+
+  return balances
+}
+
 /**
  * Batch get token metadata from on-chain
+ * Mints are fetched raw so Token-2022 extensions can be decoded too
  */
-export async function getTokenMetadata(mints: string[]): Promise<Map<string, {
-  decimals: number
-  supply: number
-  freezeAuthority: string | null
-  mintAuthority: string | null
-}>> {
-  const metadata = new Map()
+export async function getTokenMetadata(mints: string[]): Promise<Map<string, DecodedMint>> {
+  const metadata = new Map<string, DecodedMint>()
 
   // Batch in groups of 100
   const batches: string[][] = []
@@ -363,21 +1032,16 @@ export async function getTokenMetadata(mints: string[]): Promise<Map<string, {
       await rpcManager.executeWithFallback(async (rpcUrl) => {
         const response = await rpcRequest(rpcUrl, 'getMultipleAccounts', [
           batch,
-          { encoding: 'jsonParsed' },
+          { encoding: 'base64' },
         ])
 
         if (response?.value) {
           for (let i = 0; i < response.value.length; i++) {
             const account = response.value[i]
-            if (account?.data?.parsed?.info) {
-              const info = account.data.parsed.info
-              metadata.set(batch[i], {
-                decimals: info.decimals || 9,
-                supply: Number(info.supply || 0),
-                freezeAuthority: info.freezeAuthority || null,
-                mintAuthority: info.mintAuthority || null,
-              })
-            }
+            if (!account?.data?.[0]) continue
+
+            const decoded = decodeMintAccount(Buffer.from(account.data[0], 'base64'), account.owner)
+            if (decoded) metadata.set(batch[i], decoded)
           }
         }
 
@@ -0,0 +1,147 @@
+/**
+ * Pool Event Log
+ *
+ * Server-side record of USD1 pools appearing in on-chain discovery, so
+ * clients can catch up on every pool created since their last visit
+ * instead of only those that appear between two polls of an open tab.
+ *
+ * Each discovery result (full or incremental, see lib/pool-sync.ts) is
+ * compared with the previous pool list (getCachedPools) and the log's own
+ * set of known pools, which outlives the pool list. The first successful
+ * scan of each pool program only seeds the known set, so a program's
+ * existing pools aren't reported as new when it's first (or again) scanned.
+ */
+
+import type { DiscoveredPool } from './pool-discovery'
+import type { PoolType } from './types'
+import {
+  getCachedPools,
+  getCachedPoolEvents,
+  setCachedPoolEvents,
+  getCachedTokenMetadataBatch,
+  getCachedEnrichedTokens,
+} from './pool-cache'
+
+const MAX_EVENTS = 500
+const MAX_KNOWN_POOLS = 20_000
+
+export interface PoolEvent {
+  type: 'created'
+  poolAddress: string
+  tokenMint: string
+  openTime: number | null // Pool open time from the pool account, ms
+  detectedAt: number // First discovery run that saw the pool
+}
+
+export interface PoolEventLog {
+  events: PoolEvent[] // Newest first
+  knownPools: string[] // Oldest first
+  seededTypes?: PoolType[] // Programs whose pools are in knownPools - absent on logs from before AMM v4/CLMM
+  updatedAt: number
+}
+
+export interface PoolEventWithToken extends PoolEvent {
+  symbol: string | null
+  name: string | null
+}
+
+// ============================================
+// RECORDING
+// ============================================
+
+/**
+ * Record pools in a discovery result that weren't seen before
+ * `scannedTypes` are the programs whose scans completed for this result -
+ * pass only their pools. A program seen for the first time is seeded silently.
+ * Call before setCachedPools so the previous pool list is still available
+ */
+export async function recordPoolEvents(
+  pools: DiscoveredPool[],
+  scannedTypes: PoolType[]
+): Promise<PoolEvent[]> {
+  if (scannedTypes.length === 0) return []
+
+  try {
+    const [log, previous] = await Promise.all([getCachedPoolEvents(), getCachedPools()])
+
+    const known = new Set(log?.knownPools || [])
+    for (const pool of previous?.pools || []) known.add(pool.poolAddress)
+
+    // Logs written before AMM v4/CLMM discovery only hold CPMM pools
+    const seeded = new Set<PoolType>(log?.seededTypes || (log ? ['cpmm'] : []))
+
+    const now = Date.now()
+    const created: PoolEvent[] = []
+    let seededCount = 0
+    for (const pool of pools) {
+      if (known.has(pool.poolAddress)) continue
+      known.add(pool.poolAddress)
+
+      // Nothing to compare this program's pools against yet - all would look new
+      if (!seeded.has(pool.poolType)) {
+        seededCount++
+        continue
+      }
+
+      created.push({
+        type: 'created',
+        poolAddress: pool.poolAddress,
+        tokenMint: pool.tokenMint,
+        openTime: pool.openTime,
+        detectedAt: now,
+      })
+    }
+    const newlySeeded = scannedTypes.filter(type => !seeded.has(type))
+    for (const type of newlySeeded) seeded.add(type)
+
+    // A log only rewritten when something changed would expire despite steady discovery.
+    // Listed pools are re-added from the pool list every run, so the cap only
+    // drops pools long gone from it
+    await setCachedPoolEvents({
+      events: [...created, ...(log?.events || [])].slice(0, MAX_EVENTS),
+      knownPools: Array.from(known).slice(-MAX_KNOWN_POOLS),
+      seededTypes: Array.from(seeded),
+      updatedAt: now,
+    })
+
+    if (created.length > 0) {
+      console.log(`[PoolEvents] ${created.length} new pools`)
+    }
+    if (newlySeeded.length > 0) {
+      console.log(`[PoolEvents] Seeded ${seededCount} known pools for ${newlySeeded.join(', ')}`)
+    }
+
+    return created
+  } catch (e) {
+    console.warn('[PoolEvents] Failed to record pool events:', e)
+    return []
+  }
+}
+
+// ============================================
+// QUERIES
+// ============================================
+
+/**
+ * Pool events detected after `since` (ms), newest first, with token symbol/name when known
+ */
+export async function getPoolEvents(since: number, limit = 100): Promise<PoolEventWithToken[]> {
+  const log = await getCachedPoolEvents()
+  const events = (log?.events || []).filter(e => e.detectedAt > since).slice(0, limit)
+  if (events.length === 0) return []
+
+  // Enriched tokens via the cache - token-feed builds on the pipeline, which records these events
+  const enriched = (await getCachedEnrichedTokens())?.tokens || []
+  const tokens = new Map<string, { symbol?: string; name?: string }>(enriched.map(t => [t.address, t]))
+  const metadata = await getCachedTokenMetadataBatch(events.map(e => e.tokenMint))
+
+  return events.map(e => {
+    const token = tokens.get(e.tokenMint)
+    const meta = metadata.get(e.tokenMint)
+    return {
+      ...e,
+      symbol: token?.symbol || meta?.symbol || null,
+      name: token?.name || meta?.name || null,
+    }
+  })
+}
@@ -0,0 +1,145 @@
+/**
+ * USD1 Pool List Sync
+ *
+ * Keeps the cached USD1 pool list (lib/pool-cache.ts) current without a
+ * getProgramAccounts scan on every cache miss:
+ * - Incremental (every 5 minutes): CPMM pool-creation transactions since the
+ *   stored cursor, only the new USD1 pools are fetched and appended
+ * - Full rescan (once a day, or when there is no list or cursor yet):
+ *   discoverUSD1Pools() across CPMM, AMM v4 and CLMM, which also drops
+ *   pools that no longer exist (a program whose scan failed keeps its
+ *   cached pools until a later full scan succeeds)
+ *
+ * The cursor is taken before a full scan starts, so pools created during
+ * the scan are picked up by the next incremental run. New pools from either
+ * mode are recorded in the pool event log (lib/pool-events.ts).
+ */
+
+import {
+  discoverUSD1Pools,
+  discoverNewUSD1Pools,
+  getLatestPoolCreationSignature,
+} from './pool-discovery'
+import {
+  CACHE_TTL,
+  getCachedPools,
+  setCachedPools,
+  getCachedPoolSyncState,
+  setCachedPoolSyncState,
+  type CachedPoolData,
+  type PoolSyncState,
+} from './pool-cache'
+import { recordPoolEvents, type PoolEvent } from './pool-events'
+
+export type PoolSyncMode = 'cached' | 'incremental' | 'full'
+
+export interface PoolSyncResult {
+  data: CachedPoolData | null
+  mode: PoolSyncMode
+  created: PoolEvent[]
+}
+
+// ============================================
+// SYNC MODES
+// ============================================
+
+async function fullSync(
+  cached: CachedPoolData | null,
+  state: PoolSyncState,
+  now: number
+): Promise<PoolSyncResult | null> {
+  const cursor = await getLatestPoolCreationSignature()
+  const discovery = await discoverUSD1Pools()
+  if (discovery.tokenMints.length === 0) return null
+
+  // A program whose scan failed keeps its cached pools, and the full scan
+  // stays due so the next attempt retries it
+  const failed = new Set(discovery.failedScans)
+  const kept = (cached?.pools || []).filter(p => failed.has(p.poolType))
+  const pools = [...discovery.pools, ...kept]
+  const tokenMints = Array.from(new Set([...discovery.tokenMints, ...kept.map(p => p.tokenMint)]))
+
+  const created = await recordPoolEvents(discovery.pools, discovery.scannedTypes)
+  await setCachedPools(pools, tokenMints)
+  if (failed.size === 0) {
+    await setCachedPoolSyncState({ ...state, cursor, lastFullScan: now })
+  }
+
+  return {
+    data: { pools, tokenMints, discoveredAt: now },
+    mode: 'full',
+    created,
+  }
+}
+
+async function incrementalSync(
+  cached: CachedPoolData,
+  state: PoolSyncState & { cursor: string },
+  now: number
+): Promise<PoolSyncResult | null> {
+  const scan = await discoverNewUSD1Pools(state.cursor)
+  if (!scan.complete) return null
+
+  const known = new Set(cached.pools.map(p => p.poolAddress))
+  const added = scan.pools.filter(p => !known.has(p.poolAddress))
+
+  // Creation signatures come from the CPMM create-pool fee receiver
+  const created = await recordPoolEvents(added, ['cpmm'])
+  const pools = [...cached.pools, ...added]
+  const tokenMints = Array.from(new Set([...cached.tokenMints, ...added.map(p => p.tokenMint)]))
+
+  await setCachedPools(pools, tokenMints)
+  await setCachedPoolSyncState({ ...state, cursor: scan.newestSignature })
+
+  return {
+    data: { pools, tokenMints, discoveredAt: now },
+    mode: 'incremental',
+    created,
+  }
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+/**
+ * Return the USD1 pool list, refreshing it first when it's due
+ * With `forceFull`, a full rescan runs regardless of schedule (cron/debug use)
+ */
+export async function syncUSD1Pools(forceFull = false): Promise<PoolSyncResult> {
+  const [cached, storedState] = await Promise.all([getCachedPools(), getCachedPoolSyncState()])
+  const state: PoolSyncState = storedState || { cursor: null, lastFullScan: 0, lastAttempt: 0 }
+  const now = Date.now()
+
+  const hasList = !!cached && cached.pools.length > 0
+  const fullDue = forceFull || !hasList || !state.cursor || now - state.lastFullScan >= CACHE_TTL.POOL_FULL_SCAN
+  const refreshDue = !cached || now - cached.discoveredAt >= CACHE_TTL.POOL_LIST
+
+  if (!fullDue && !refreshDue) {
+    return { data: cached, mode: 'cached', created: [] }
+  }
+
+  // Back off after a failed attempt rather than rescanning on every request,
+  // including while there is no list yet - several stages and routes sync on demand
+  if (!forceFull && now - state.lastAttempt < CACHE_TTL.POOL_LIST) {
+    return { data: cached, mode: 'cached', created: [] }
+  }
+
+  const attempt = { ...state, lastAttempt: now }
+  await setCachedPoolSyncState(attempt)
+
+  try {
+    if (!fullDue && hasList && attempt.cursor) {
+      const incremental = await incrementalSync(cached!, { ...attempt, cursor: attempt.cursor }, now)
+      if (incremental) return incremental
+      console.log('[PoolSync] Too many creations since the cursor, running a full scan')
+    }
+
+    const full = await fullSync(cached, attempt, now)
+    if (full) return full
+  } catch (e) {
+    console.error('[PoolSync] Sync failed:', e)
+  }
+
+  return { data: cached, mode: 'cached', created: [] }
+}
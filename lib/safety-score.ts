@@ -0,0 +1,149 @@
+/**
+ * Token Safety Score
+ *
+ * 0-100 heuristic score plus human-readable warnings, computed from market
+ * data we already have for every token. Warning strings match the keys of
+ * SAFETY_WARNING_EXPLANATIONS in lib/utils.ts so the UI can explain them.
+ */
+
+import type { Token } from './types'
+import { LOW_ORGANIC_SHARE } from './wash-trading'
+
+export interface SafetyAssessment {
+  score: number
+  warnings: string[]
+}
+
+export type SafetyLevel = 'safe' | 'caution' | 'risky'
+
+// Score thresholds for the UI badge
+export const SAFETY_LEVELS = {
+  SAFE: 70,
+  CAUTION: 40,
+}
+
+// Earlier launches with pulled liquidity before a creator counts as a serial rugger
+export const SERIAL_RUGGER_MIN_RUGS = 2
+
+const THRESHOLDS = {
+  VERY_LOW_LIQUIDITY: 1_000,
+  LOW_LIQUIDITY: 5_000,
+  LOW_LIQ_MCAP_RATIO: 0.05,
+  HIGH_LIQ_MCAP_RATIO: 1,
+  LOW_TXNS_24H: 10,
+  MIN_TXNS_FOR_BALANCE: 20,
+  UNBALANCED_BUY_RATIO: 0.85, // Either side above 85% of trades
+  VERY_NEW_AGE_MS: 6 * 60 * 60 * 1000,
+  MIN_TXNS_FOR_AVG_SIZE: 50,
+  MIN_AVG_TXN_USD: 5,
+  FEW_HOLDERS: 100,
+}
+
+// Points deducted per warning
+const PENALTIES: Record<string, number> = {
+  'Low liquidity': 20,
+  'Low liq/mcap ratio': 15,
+  'Suspicious liquidity ratio': 10,
+  'Low trading activity': 10,
+  'Unbalanced buy/sell': 15,
+  'Very new token': 15,
+  'Unknown age': 10,
+  'Abnormal transaction pattern': 15,
+  'Few holders': 10,
+  'Unlocked liquidity': 20,
+  'Mint authority active': 25,
+  'Freeze authority active': 20,
+  'Transfer fee': 15,
+  'Permanent delegate': 30,
+  'Transfer hook': 15,
+  'Pausable token': 20,
+  'Serial rugger': 40,
+}
+
+export function computeSafetyScore(token: Token, now = Date.now()): SafetyAssessment {
+  const warnings: string[] = []
+  let score = 100
+
+  const warn = (warning: string, extra = 0) => {
+    warnings.push(warning)
+    score -= PENALTIES[warning] + extra
+  }
+
+  // Liquidity
+  if (token.liquidity < THRESHOLDS.LOW_LIQUIDITY) {
+    warn('Low liquidity', token.liquidity < THRESHOLDS.VERY_LOW_LIQUIDITY ? 10 : 0)
+  }
+
+  // Liq/mcap - not meaningful on a bonding curve, where liquidity is USD1 raised
+  if (token.stage !== 'bonding' && token.mcap > 0) {
+    const ratio = token.liquidity / token.mcap
+    if (ratio < THRESHOLDS.LOW_LIQ_MCAP_RATIO) warn('Low liq/mcap ratio')
+    else if (ratio > THRESHOLDS.HIGH_LIQ_MCAP_RATIO) warn('Suspicious liquidity ratio')
+  }
+
+  // Activity and buy/sell balance
+  if (token.txns24h < THRESHOLDS.LOW_TXNS_24H) {
+    warn('Low trading activity')
+  } else if (token.txns24h >= THRESHOLDS.MIN_TXNS_FOR_BALANCE) {
+    const buyRatio = token.buys24h / Math.max(token.buys24h + token.sells24h, 1)
+    if (buyRatio > THRESHOLDS.UNBALANCED_BUY_RATIO || buyRatio < 1 - THRESHOLDS.UNBALANCED_BUY_RATIO) {
+      warn('Unbalanced buy/sell')
+    }
+  }
+
+  // Age
+  if (!token.created) warn('Unknown age')
+  else if (now - token.created < THRESHOLDS.VERY_NEW_AGE_MS) warn('Very new token')
+
+  // Many tiny trades are a common wash-trading signature
+  if (token.txns24h >= THRESHOLDS.MIN_TXNS_FOR_AVG_SIZE) {
+    const avgTxnSize = token.volume24h / token.txns24h
+    if (avgTxnSize < THRESHOLDS.MIN_AVG_TXN_USD) warn('Abnormal transaction pattern')
+  }
+
+  // Wash-trading detection only runs on the top tokens by volume
+  if (
+    !warnings.includes('Abnormal transaction pattern') &&
+    token.organicVolume24h !== undefined &&
+    token.volume24h > 0 &&
+    token.organicVolume24h / token.volume24h < LOW_ORGANIC_SHARE
+  ) {
+    warn('Abnormal transaction pattern')
+  }
+
+  // Holder count is only known for the top tokens
+  if (token.holders !== undefined && token.holders < THRESHOLDS.FEW_HOLDERS) {
+    warn('Few holders')
+  }
+
+  // Mint account - authorities can inflate supply or freeze wallets
+  if (token.authorities?.mintAuthority) warn('Mint authority active')
+  if (token.authorities?.freezeAuthority) warn('Freeze authority active')
+
+  // Token-2022 extensions that tax, seize or block transfers
+  const extensions = token.token2022Extensions
+  if (extensions) {
+    if (extensions.transferFeeBps) warn('Transfer fee')
+    if (extensions.permanentDelegate) warn('Permanent delegate')
+    if (extensions.transferHookProgram) warn('Transfer hook')
+    if (extensions.pausable) warn('Pausable token')
+  }
+
+  // LP status is only checked for the top graduated tokens
+  if (token.lpStatus === 'wallet') {
+    warn('Unlocked liquidity')
+  }
+
+  // Creator history is built a few profiles per refresh, highest volume first - unknown until then
+  if (token.creatorRugs !== undefined && token.creatorRugs >= SERIAL_RUGGER_MIN_RUGS) {
+    warn('Serial rugger')
+  }
+
+  return { score: Math.max(0, Math.min(100, score)), warnings }
+}
+
+export function getSafetyLevel(score: number): SafetyLevel {
+  if (score >= SAFETY_LEVELS.SAFE) return 'safe'
+  if (score >= SAFETY_LEVELS.CAUTION) return 'caution'
+  return 'risky'
+}
@@ -6,6 +6,7 @@
  * - volume_snapshots: Hourly volume data per token
  * - total_volume_snapshots: Aggregate volume for charts
  * - daily_aggregates: Pre-computed daily totals
+ * - watchlists: Shared watchlists keyed by share slug
  */
 
 import { createClient, SupabaseClient } from "@supabase/supabase-js"
@@ -28,6 +29,7 @@ export interface BonkFunToken {
   image_url?: string
   graduated_at?: string
   graduation_tx?: string
+  creator?: string
   is_active?: boolean
   created_at?: string
   updated_at?: string
@@ -79,6 +81,15 @@ export interface DailyAggregate {
   updated_at?: string
 }
 
+export interface WatchlistRow {
+  slug: string
+  name: string
+  tokens: string[]
+  edit_key_hash: string
+  created_at?: string
+  updated_at?: string
+}
+
 // ============================================
 // SUPABASE CLIENT SINGLETON
 // ============================================
@@ -148,6 +159,51 @@ export async function getBonkFunTokenMints(): Promise<Set<string>> {
   return new Set((data || []).map((t) => t.mint))
 }
 
+/**
+ * Get every BonkFun token launched by a creator wallet
+ */
+export async function getBonkFunTokensByCreator(creator: string): Promise<BonkFunToken[]> {
+  const supabase = getSupabaseClient()
+
+  const { data, error } = await supabase
+    .from("bonkfun_tokens")
+    .select("*")
+    .eq("creator", creator)
+    .order("verified_at", { ascending: false })
+
+  if (error) {
+    console.error("[Supabase] Error fetching creator tokens:", error)
+    return []
+  }
+
+  return data || []
+}
+
+/**
+ * Get tokens that graduated in [since, until), newest first
+ */
+export async function getGraduatedTokens(since: Date, until?: Date): Promise<BonkFunToken[]> {
+  const supabase = getSupabaseClient()
+
+  let query = supabase
+    .from("bonkfun_tokens")
+    .select("*")
+    .gte("graduated_at", since.toISOString())
+
+  if (until) {
+    query = query.lt("graduated_at", until.toISOString())
+  }
+
+  const { data, error } = await query.order("graduated_at", { ascending: false })
+
+  if (error) {
+    console.error("[Supabase] Error fetching graduated tokens:", error)
+    return []
+  }
+
+  return data || []
+}
+
 /**
  * Check if a token exists in the database
  */
@@ -406,6 +462,48 @@ export async function getDailyAggregates(
   return data || []
 }
 
+// ============================================
+// WATCHLISTS OPERATIONS
+// ============================================
+
+/**
+ * Get a shared watchlist by its share slug
+ */
+export async function getWatchlistBySlug(slug: string): Promise<WatchlistRow | null> {
+  const supabase = getSupabaseClient()
+
+  const { data, error } = await supabase
+    .from("watchlists")
+    .select("*")
+    .eq("slug", slug)
+    .maybeSingle()
+
+  if (error) {
+    console.error("[Supabase] Error fetching watchlist:", error)
+    return null
+  }
+
+  return data
+}
+
+/**
+ * Create or update a shared watchlist
+ */
+export async function upsertWatchlist(watchlist: WatchlistRow): Promise<boolean> {
+  const supabase = getSupabaseClient()
+
+  const { error } = await supabase
+    .from("watchlists")
+    .upsert(watchlist, { onConflict: "slug" })
+
+  if (error) {
+    console.error("[Supabase] Error upserting watchlist:", error)
+    return false
+  }
+
+  return true
+}
+
 // ============================================
 // UTILITY FUNCTIONS
 // ============================================
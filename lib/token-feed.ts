@@ -0,0 +1,228 @@
+/**
+ * Token Feed
+ *
+ * Shared in-memory token cache for /api/tokens and /api/tokens/stream.
+ * Every cache update is diffed against the previous list and the per-token
+ * changes are pushed to stream subscribers, so clients only receive what
+ * actually moved.
+ */
+
+import type { Token } from './types'
+import {
+  runTokenPipeline,
+  raydiumDiscovery,
+  dexScreenerEnrichment,
+  geckoTerminalEnrichment,
+  onchainPriceEnrichment,
+  mintAccountEnrichment,
+  bonkFunVerification,
+  bondingCurveStage,
+  holderEnrichment,
+  lpStatusEnrichment,
+  creatorHistory,
+  washTradingDetection,
+  safetyScoring,
+  type TokenPipeline,
+} from './token-pipeline'
+import { fetchRaydiumTotalVolume } from './token-sources'
+import { getCachedEnrichedTokens } from './pool-cache'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const TOKEN_FEED_CONFIG = {
+  CACHE_TTL: 15 * 1000, // 15 seconds for blazing fast updates
+  STALE_WHILE_REVALIDATE: 45 * 1000, // Serve stale for 45s while fetching
+}
+
+// Raydium API is the source of truth for BonkFun tokens on this feed
+const PIPELINE: TokenPipeline = {
+  discovery: [raydiumDiscovery],
+  enrichment: [dexScreenerEnrichment, geckoTerminalEnrichment, onchainPriceEnrichment, mintAccountEnrichment],
+  tokenStages: [bonkFunVerification, bondingCurveStage, holderEnrichment, lpStatusEnrichment, creatorHistory, washTradingDetection, safetyScoring],
+}
+
+// Fields streamed as per-token diffs
+const DIFF_FIELDS = [
+  'price',
+  'priceNative',
+  'change24h',
+  'change1h',
+  'volume24h',
+  'volume1h',
+  'organicVolume24h',
+  'organicSampleSize',
+  'liquidity',
+  'mcap',
+  'txns24h',
+  'buys24h',
+  'sells24h',
+  'holders',
+  'stage',
+  'bondingProgress',
+  'lpStatus',
+  'lpSecuredShare',
+  'safetyScore',
+  'safetyWarnings',
+] as const
+
+export type TokenUpdate = Pick<Token, 'address'> & Partial<Pick<Token, typeof DIFF_FIELDS[number]>>
+
+export interface TokenDiff {
+  timestamp: number
+  updated: TokenUpdate[]
+  added: Token[]
+  removed: string[]
+  raydiumTotalVolume?: number
+}
+
+// ============================================
+// IN-MEMORY CACHE WITH STALE-WHILE-REVALIDATE
+// ============================================
+
+interface CacheEntry {
+  data: Token[]
+  timestamp: number
+  isRefreshing: boolean
+  raydiumTotalVolume: number
+}
+
+const cache: CacheEntry = {
+  data: [],
+  timestamp: 0,
+  isRefreshing: false,
+  raydiumTotalVolume: 0,
+}
+
+const subscribers = new Set<(diff: TokenDiff) => void>()
+
+export function getTokenCache(): Readonly<CacheEntry> {
+  return cache
+}
+
+/**
+ * Token list for routes outside the feed: this instance's cache, else the
+ * enriched list /api/tokens-v2 shares through KV. Edge routes run as separate
+ * functions, so the in-memory feed cache is often empty there
+ */
+export async function getSharedTokens(): Promise<Token[]> {
+  if (cache.data.length > 0) return cache.data
+  const enriched = await getCachedEnrichedTokens()
+  return enriched?.tokens || []
+}
+
+// ============================================
+// DIFFING
+// ============================================
+
+// Arrays (e.g. safety warnings) are rebuilt every refresh, so compare by content
+function sameValue(a: unknown, b: unknown): boolean {
+  if (Array.isArray(a) && Array.isArray(b)) {
+    return a.length === b.length && a.every((v, i) => v === b[i])
+  }
+  return a === b
+}
+
+/**
+ * Per-token changes between two token lists
+ */
+export function diffTokens(prev: Token[], next: Token[]): Omit<TokenDiff, 'timestamp'> {
+  const prevMap = new Map(prev.map(t => [t.address, t]))
+  const nextAddresses = new Set(next.map(t => t.address))
+
+  const updated: TokenUpdate[] = []
+  const added: Token[] = []
+
+  for (const token of next) {
+    const before = prevMap.get(token.address)
+    if (!before) {
+      added.push(token)
+      continue
+    }
+
+    const update: TokenUpdate = { address: token.address }
+    let changed = false
+    for (const field of DIFF_FIELDS) {
+      if (!sameValue(token[field], before[field])) {
+        (update as Record<string, unknown>)[field] = token[field]
+        changed = true
+      }
+    }
+    if (changed) updated.push(update)
+  }
+
+  const removed = prev.filter(t => !nextAddresses.has(t.address)).map(t => t.address)
+
+  return { updated, added, removed }
+}
+
+// ============================================
+// CACHE UPDATES
+// ============================================
+
+export async function fetchTokenData(): Promise<{ tokens: Token[]; raydiumTotalVolume: number }> {
+  const [{ tokens }, raydiumTotalVolume] = await Promise.all([
+    runTokenPipeline(PIPELINE, '[API]'),
+    fetchRaydiumTotalVolume(),
+  ])
+  return { tokens, raydiumTotalVolume }
+}
+
+/**
+ * Replace the cached list and notify stream subscribers of what changed
+ */
+export function updateTokenCache(tokens: Token[], raydiumTotalVolume: number) {
+  const diff = diffTokens(cache.data, tokens)
+  const volumeChanged = raydiumTotalVolume !== cache.raydiumTotalVolume
+
+  cache.data = tokens
+  cache.timestamp = Date.now()
+  cache.raydiumTotalVolume = raydiumTotalVolume
+
+  if (diff.updated.length === 0 && diff.added.length === 0 && diff.removed.length === 0 && !volumeChanged) {
+    return
+  }
+
+  const event: TokenDiff = {
+    timestamp: cache.timestamp,
+    ...diff,
+    ...(volumeChanged ? { raydiumTotalVolume } : {}),
+  }
+  for (const listener of subscribers) {
+    try {
+      listener(event)
+    } catch (e) {
+      console.warn('[TokenFeed] Subscriber error:', e)
+    }
+  }
+}
+
+/**
+ * Background refresh - concurrent calls share a single in-flight fetch
+ */
+export async function refreshTokenCache() {
+  if (cache.isRefreshing) return
+
+  cache.isRefreshing = true
+  try {
+    const { tokens, raydiumTotalVolume } = await fetchTokenData()
+    if (tokens.length > 0) {
+      updateTokenCache(tokens, raydiumTotalVolume)
+    }
+  } catch (e) {
+    console.error('[TokenFeed] Refresh failed:', e)
+  } finally {
+    cache.isRefreshing = false
+  }
+}
+
+/**
+ * Subscribe to token diffs, returns an unsubscribe function
+ */
+export function subscribeTokenDiffs(listener: (diff: TokenDiff) => void): () => void {
+  subscribers.add(listener)
+  return () => {
+    subscribers.delete(listener)
+  }
+}
@@ -0,0 +1,688 @@
+/**
+ * Token Data Pipeline
+ *
+ * Builds the dashboard's `Token` list from pluggable stages:
+ *
+ * 1. Discovery - which mints exist (Raydium API, on-chain CPMM scan, cache).
+ *    Stages are tried in order; the first one that finds tokens wins.
+ * 2. Enrichment - per-mint market data (DexScreener, GeckoTerminal, on-chain
+ *    pool reserves) and mint authorities/Token-2022 extensions. For every
+ *    field, the first stage that reports a value wins, with the discovery
+ *    data as the last fallback. Prices from every stage are cross-checked
+ *    and disagreements flag the token.
+ * 3. Token stages - run on the built, filtered and sorted list
+ *    (BonkFun verification, LaunchLab bonding curves, holders, LP status,
+ *    creator history, wash trading, safety score).
+ *
+ * Both /api/tokens and /api/tokens-v2 are thin adapters over this module,
+ * so they produce the same `Token` shape for the same upstream data.
+ */
+
+import type { Token, TokenPool } from './types'
+import { getTokenEmoji, validatePriceSources } from './utils'
+import {
+  discoverLaunchLabPools,
+  getTokenMetadata,
+  type BondingCurvePool,
+  type DiscoveredPool,
+} from './pool-discovery'
+import {
+  CACHE_TTL,
+  getCachedPools,
+  getCachedBondingPools,
+  setCachedBondingPools,
+  getCachedCreatorProfilesBatch,
+  getCachedTokenMetadataBatch,
+  setCachedTokenMetadata,
+  type TokenMetadata,
+} from './pool-cache'
+import { syncUSD1Pools } from './pool-sync'
+import { fetchHolderCountsBatch } from './holder-fetcher'
+import { verifyBonkFunTokens } from './bonkfun-verification'
+import { fetchOnchainPrices } from './onchain-pricing'
+import { fetchLpStatuses } from './lp-status'
+import { fetchCreatorProfile } from './creator-profile'
+import { getTradePool, fetchRecentTrades, hasFreshTrades } from './trades'
+import { detectWashTrading } from './wash-trading'
+import { computeSafetyScore } from './safety-score'
+import {
+  SourceTokenData,
+  TOKEN_CONFIG,
+  fetchRaydiumTokens,
+  fetchDexScreenerTokens,
+  fetchGeckoTerminalTokens,
+  shouldExclude,
+  isFakeBonkFunToken,
+  hasSuspiciousMetrics,
+  markApiError,
+  resetApiHealth,
+} from './token-sources'
+
+// ============================================
+// STAGE TYPES
+// ============================================
+
+export interface DiscoveryResult {
+  tokens: Map<string, SourceTokenData>
+  source: string
+}
+
+export interface DiscoveryStage {
+  name: string
+  discover: () => Promise<DiscoveryResult>
+}
+
+export interface EnrichmentStage {
+  name: string
+  enrich: (mints: string[]) => Promise<Map<string, SourceTokenData>>
+}
+
+export interface TokenStage {
+  name: string
+  apply: (tokens: Token[]) => Promise<void>
+}
+
+export interface TokenPipeline {
+  discovery: DiscoveryStage[]
+  enrichment: EnrichmentStage[]
+  tokenStages: TokenStage[]
+}
+
+export interface TokenPipelineResult {
+  tokens: Token[]
+  discoverySource: string
+}
+
+// ============================================
+// DISCOVERY STAGES
+// ============================================
+
+/**
+ * Raydium API discovery - LaunchLab/CPMM USD1 pools with market data
+ */
+export const raydiumDiscovery: DiscoveryStage = {
+  name: 'raydium-api',
+  discover: async () => ({
+    tokens: await fetchRaydiumTokens(),
+    source: 'raydium-api',
+  }),
+}
+
+/**
+ * Previously discovered pools from lib/pool-cache, while within the refresh interval
+ * Older lists fall through to onchainDiscovery, which refreshes them incrementally
+ */
+export const cachedPoolDiscovery: DiscoveryStage = {
+  name: 'cache',
+  discover: async () => {
+    const tokens = new Map<string, SourceTokenData>()
+    const cached = await getCachedPools()
+    const isFresh = !!cached && Date.now() - cached.discoveredAt < CACHE_TTL.POOL_LIST
+
+    // Don't use cache if it's empty (bad cache from failed discovery)
+    if (cached && isFresh && cached.tokenMints.length > 0) {
+      for (const mint of cached.tokenMints) {
+        tokens.set(mint, { poolType: 'cpmm' })
+      }
+      for (const pool of cached.pools) {
+        tokens.set(pool.tokenMint, { poolType: pool.poolType, pairAddress: pool.poolAddress })
+      }
+    }
+
+    return { tokens, source: 'cache' }
+  },
+}
+
+/**
+ * On-chain discovery of Raydium CPMM, AMM v4 and CLMM USD1 pools via lib/pool-sync
+ * Incremental from CPMM pool-creation transactions, with a daily getProgramAccounts rescan
+ */
+export const onchainDiscovery: DiscoveryStage = {
+  name: 'on-chain',
+  discover: async () => {
+    const tokens = new Map<string, SourceTokenData>()
+
+    try {
+      const { data: discovery } = await syncUSD1Pools()
+
+      if (discovery && discovery.pools.length > 0) {
+        for (const pool of discovery.pools) {
+          tokens.set(pool.tokenMint, { poolType: pool.poolType, pairAddress: pool.poolAddress })
+        }
+        resetApiHealth('onchain')
+      }
+    } catch (e) {
+      console.error('[Pipeline] On-chain discovery failed:', e)
+      markApiError('onchain')
+    }
+
+    return { tokens, source: 'on-chain' }
+  },
+}
+
+// ============================================
+// ENRICHMENT STAGES
+// ============================================
+
+export const dexScreenerEnrichment: EnrichmentStage = {
+  name: 'dexscreener',
+  enrich: fetchDexScreenerTokens,
+}
+
+export const geckoTerminalEnrichment: EnrichmentStage = {
+  name: 'geckoterminal',
+  enrich: () => fetchGeckoTerminalTokens(),
+}
+
+/**
+ * Price, liquidity and mcap from the state of every cached USD1 pool of each token
+ * Independent of the aggregators, so prices survive both being down.
+ * With no pool list cached yet (cold isolate, or discovery came from the
+ * Raydium API), the list is synced first rather than skipping the stage.
+ */
+export const onchainPriceEnrichment: EnrichmentStage = {
+  name: 'onchain',
+  enrich: async (mints) => {
+    let cached = await getCachedPools()
+    if (!cached?.pools.length) {
+      cached = (await syncUSD1Pools()).data
+    }
+
+    const wanted = new Set(mints)
+    const pools = (cached?.pools || []).filter(p => wanted.has(p.tokenMint))
+    if (pools.length === 0) return new Map()
+
+    return fetchOnchainPrices(pools)
+  },
+}
+
+/**
+ * Mint and freeze authorities plus Token-2022 extensions, decoded from the
+ * raw mint accounts. Cached with token metadata (1 hour) since they rarely change
+ */
+export const mintAccountEnrichment: EnrichmentStage = {
+  name: 'mint-account',
+  enrich: async (mints) => {
+    const metadata = await getCachedTokenMetadataBatch(mints)
+    const uncached = mints.filter(m => !metadata.get(m)?.authorities)
+
+    if (uncached.length > 0) {
+      const decoded = await getTokenMetadata(uncached)
+      const entries: TokenMetadata[] = []
+      for (const [mint, mintAccount] of decoded) {
+        const entry: TokenMetadata = {
+          ...metadata.get(mint),
+          mint,
+          decimals: mintAccount.decimals,
+          authorities: mintAccount.authorities,
+          token2022Extensions: mintAccount.token2022Extensions,
+          cachedAt: Date.now(),
+        }
+        metadata.set(mint, entry)
+        entries.push(entry)
+      }
+      await Promise.all(entries.map(setCachedTokenMetadata))
+    }
+
+    const results = new Map<string, SourceTokenData>()
+    for (const [mint, entry] of metadata) {
+      if (!entry.authorities) continue
+      results.set(mint, {
+        authorities: entry.authorities,
+        ...(entry.token2022Extensions ? { token2022Extensions: entry.token2022Extensions } : {}),
+      })
+    }
+    return results
+  },
+}
+
+// ============================================
+// TOKEN STAGES
+// ============================================
+
+/**
+ * BonkFun origin check against each mint's creation transaction
+ * Verified non-BonkFun tokens are removed; undetermined ones stay unflagged
+ */
+export const bonkFunVerification: TokenStage = {
+  name: 'bonkfun-verification',
+  apply: async (tokens) => {
+    const verifications = await verifyBonkFunTokens(
+      tokens.map(t => ({
+        mint: t.address,
+        symbol: t.symbol,
+        name: t.name,
+        poolAddress: t.pairAddress || undefined,
+        poolType: t.poolType,
+        imageUrl: t.imageUrl,
+      }))
+    )
+
+    for (let i = tokens.length - 1; i >= 0; i--) {
+      const verification = verifications.get(tokens[i].address)
+      if (!verification) continue
+
+      if (verification.isBonkFun) {
+        tokens[i].isBonkFun = true
+      } else {
+        tokens.splice(i, 1)
+      }
+    }
+  },
+}
+
+// Cap on pre-graduation tokens added to the list, most advanced curves first
+const MAX_BONDING_TOKENS = 100
+
+function bondingCurveSource(pool: BondingCurvePool): SourceTokenData {
+  return {
+    price: pool.price,
+    liquidity: pool.raised,
+    fdv: pool.price * pool.supply,
+    pairAddress: pool.poolAddress,
+    dex: 'launchlab',
+    url: `https://bonk.fun/token/${pool.tokenMint}`,
+    poolType: 'launchlab',
+    stage: 'bonding',
+    bondingProgress: pool.progress,
+  }
+}
+
+/**
+ * BonkFun LaunchLab bonding curves quoted in USD1
+ * Listed tokens are tagged graduated (or bonding if their curve is still open),
+ * and tokens still on their curve are appended with curve pricing and progress
+ */
+export const bondingCurveStage: TokenStage = {
+  name: 'bonding-curve',
+  apply: async (tokens) => {
+    let pools = await getCachedBondingPools()
+    if (!pools) {
+      pools = await discoverLaunchLabPools(TOKEN_CONFIG.BONKFUN.PLATFORM_CONFIG)
+      await setCachedBondingPools(pools)
+    }
+
+    const curves = new Map(
+      pools.filter(p => p.status !== 'migrated').map(p => [p.tokenMint, p])
+    )
+
+    for (const token of tokens) {
+      const curve = curves.get(token.address)
+      if (curve) {
+        token.stage = 'bonding'
+        token.bondingProgress = curve.progress
+        curves.delete(token.address)
+      } else {
+        token.stage = 'graduated'
+      }
+    }
+
+    const unlisted = Array.from(curves.values())
+      .sort((a, b) => b.progress - a.progress)
+      .slice(0, MAX_BONDING_TOKENS)
+    if (unlisted.length === 0) return
+
+    // Names, images and volume where DexScreener already indexes the curve
+    const dexData = await fetchDexScreenerTokens(unlisted.map(p => p.tokenMint))
+
+    for (const pool of unlisted) {
+      const sources = [bondingCurveSource(pool)]
+      const dex = dexData.get(pool.tokenMint)
+      if (dex) sources.push(dex)
+
+      const token = buildToken(pool.tokenMint, sources, 'launchlab')
+      if (!token) continue
+      token.isBonkFun = true // Platform-filtered scan
+      tokens.push(token)
+    }
+
+    // Later stages take the top of the list by market cap
+    tokens.sort((a, b) => b.mcap - a.mcap)
+  },
+}
+
+/**
+ * Holder counts for the top 50 tokens by market cap (to minimize API calls)
+ */
+export const holderEnrichment: TokenStage = {
+  name: 'holders',
+  apply: async (tokens) => {
+    const topMints = tokens.slice(0, 50).map(t => t.address)
+    const holderCounts = await fetchHolderCountsBatch(topMints, 5)
+
+    for (const token of tokens) {
+      const holders = holderCounts.get(token.address)
+      if (holders !== undefined) {
+        token.holders = holders
+      }
+    }
+  },
+}
+
+/**
+ * LP burn/lock status for the top graduated tokens with a cached LP-mint pool
+ * CLMM positions are NFTs rather than LP tokens, so CLMM pools are skipped
+ */
+export const lpStatusEnrichment: TokenStage = {
+  name: 'lp-status',
+  apply: async (tokens) => {
+    const cached = await getCachedPools()
+    if (!cached) return
+
+    // Prefer the pool the token is priced from when it has several
+    const pricedPools = new Set(tokens.map(t => t.pairAddress))
+    const poolsByMint = new Map<string, DiscoveredPool>()
+    for (const pool of cached.pools) {
+      if (!pool.lpMint) continue
+      if (!poolsByMint.has(pool.tokenMint) || pricedPools.has(pool.poolAddress)) {
+        poolsByMint.set(pool.tokenMint, pool)
+      }
+    }
+
+    const pools = tokens
+      .filter(t => t.stage !== 'bonding')
+      .slice(0, 50)
+      .map(t => poolsByMint.get(t.address))
+      .filter((p): p is DiscoveredPool => !!p)
+    const statuses = await fetchLpStatuses(pools)
+
+    for (const token of tokens) {
+      const info = statuses.get(token.address)
+      if (info) {
+        token.lpStatus = info.status
+        token.lpSecuredShare = info.burnedShare + info.lockedShare
+      }
+    }
+  },
+}
+
+/**
+ * Creator rug history from creator profiles (memory or KV)
+ * Profiles cost several RPC calls each, so besides those built when a Dev
+ * section is opened, at most 2 missing ones are built per run, by volume.
+ * Tokens without a resolvable creator are remembered and passed over quickly
+ */
+export const creatorHistory: TokenStage = {
+  name: 'creator',
+  apply: async (tokens) => {
+    const profiles = await getCachedCreatorProfilesBatch(tokens.map(t => t.address))
+
+    const missing = tokens
+      .filter(t => !profiles.has(t.address))
+      .sort((a, b) => b.volume24h - a.volume24h)
+      .slice(0, 20)
+    let built = 0
+    for (const token of missing) {
+      if (built >= 2) break
+      const profile = await fetchCreatorProfile(token.address)
+      if (profile) {
+        profiles.set(token.address, profile)
+        built++
+      }
+    }
+
+    for (const token of tokens) {
+      const profile = profiles.get(token.address)
+      if (profile) {
+        token.creatorRugs = profile.rugCount
+      }
+    }
+  },
+}
+
+/**
+ * Organic volume for the highest-volume tokens from their recent swaps
+ * A pool refresh costs up to ~90 RPC calls, so at most one stale pool is
+ * refetched per run - the others are scored from their cached trade logs
+ */
+export const washTradingDetection: TokenStage = {
+  name: 'wash-trading',
+  apply: async (tokens) => {
+    const topByVolume = [...tokens].sort((a, b) => b.volume24h - a.volume24h).slice(0, 10)
+    const maxAge = 5 * 60 * 1000
+    let refreshes = 0
+
+    for (const token of topByVolume) {
+      const pool = await getTradePool(token.address, token.pairAddress)
+      if (!pool) continue
+
+      let tradesMaxAge = maxAge
+      if (!hasFreshTrades(pool.poolAddress, maxAge)) {
+        if (refreshes >= 1) tradesMaxAge = Infinity
+        else refreshes++
+      }
+
+      const trades = await fetchRecentTrades(pool, token, tradesMaxAge)
+      const report = detectWashTrading(trades)
+      if (report) {
+        token.organicVolume24h = token.volume24h * report.organicShare
+        token.organicSampleSize = report.sampleSize
+        token.washTradingFlags = report.flags
+      }
+    }
+  },
+}
+
+/**
+ * Safety score and warnings - runs last so holder counts are included
+ */
+export const safetyScoring: TokenStage = {
+  name: 'safety',
+  apply: async (tokens) => {
+    const now = Date.now()
+    for (const token of tokens) {
+      const { score, warnings } = computeSafetyScore(token, now)
+      token.safetyScore = score
+      token.safetyWarnings = warnings
+    }
+  },
+}
+
+// ============================================
+// TOKEN BUILDER
+// ============================================
+
+/**
+ * First truthy value of a field across sources (in priority order)
+ */
+function pick<K extends keyof SourceTokenData>(
+  sources: SourceTokenData[],
+  key: K
+): SourceTokenData[K] | undefined {
+  for (const source of sources) {
+    const value = source[key]
+    if (value) return value
+  }
+  return undefined
+}
+
+/**
+ * Merge each source's pool list by address, deepest first
+ * Per field, the first source with a value wins - same priority as pick()
+ */
+function mergePools(sources: SourceTokenData[]): TokenPool[] {
+  const merged = new Map<string, TokenPool>()
+
+  for (const source of sources) {
+    for (const pool of source.pools || []) {
+      const existing = merged.get(pool.address)
+      if (!existing) {
+        merged.set(pool.address, { ...pool })
+        continue
+      }
+
+      existing.type = existing.type || pool.type
+      existing.liquidity = existing.liquidity || pool.liquidity
+      existing.volume24h = existing.volume24h ?? pool.volume24h
+      existing.price = existing.price || pool.price
+      existing.feeTier = existing.feeTier ?? pool.feeTier
+    }
+  }
+
+  return Array.from(merged.values()).sort((a, b) => b.liquidity - a.liquidity)
+}
+
+/**
+ * Merge per-source data into a `Token`
+ * Liquidity and volume are totals across the merged pools when there are any
+ * Returns null for tokens that fail the BonkFun / sanity filters
+ */
+export function buildToken(
+  mint: string,
+  sources: SourceTokenData[],
+  discoverySource: string
+): Token | null {
+  if (isFakeBonkFunToken(mint)) return null
+
+  const symbol = pick(sources, 'symbol') || '???'
+  const name = pick(sources, 'name') || 'Unknown'
+  if (shouldExclude(symbol, name)) return null
+
+  const price = pick(sources, 'price') || 0
+  const stage = pick(sources, 'stage')
+  const mcap = pick(sources, 'fdv') || price * 1_000_000_000
+
+  // Bonding tokens keep the curve's raised amount as liquidity
+  const pools = mergePools(sources)
+  const poolTotals = stage !== 'bonding' && pools.length > 0
+  const liquidity = (poolTotals && pools.reduce((sum, p) => sum + p.liquidity, 0)) || pick(sources, 'liquidity') || 0
+  const volume24h = (poolTotals && pools.reduce((sum, p) => sum + (p.volume24h || 0), 0)) || pick(sources, 'volume24h') || 0
+
+  // Curve "liquidity" is USD1 raised so far, so mcap/liquidity ratios don't apply
+  if (stage !== 'bonding' && hasSuspiciousMetrics(mcap, liquidity)) return null
+  if (price <= 0) return null
+
+  const pairAddress = pick(sources, 'pairAddress') || ''
+  const authorities = pick(sources, 'authorities')
+  const token2022Extensions = pick(sources, 'token2022Extensions')
+
+  return {
+    id: 0, // Assigned by runTokenPipeline once every stage has run
+    name,
+    symbol,
+    address: mint,
+    emoji: getTokenEmoji(name),
+    imageUrl: pick(sources, 'imageUrl') || null,
+    price,
+    priceNative: pick(sources, 'priceNative') || 0,
+    change24h: pick(sources, 'change24h') || 0,
+    change1h: pick(sources, 'change1h') || 0,
+    volume24h,
+    volume1h: pick(sources, 'volume1h') || 0,
+    liquidity,
+    mcap,
+    pairAddress,
+    dex: pick(sources, 'dex') || 'raydium',
+    url: pick(sources, 'url') || `https://dexscreener.com/solana/${pairAddress || mint}`,
+    created: pick(sources, 'created') || null,
+    txns24h: pick(sources, 'txns24h') || 0,
+    buys24h: pick(sources, 'buys24h') || 0,
+    sells24h: pick(sources, 'sells24h') || 0,
+    twitter: pick(sources, 'twitter') || null,
+    telegram: pick(sources, 'telegram') || null,
+    website: pick(sources, 'website') || null,
+    poolType: pick(sources, 'poolType') || 'unknown',
+    ...(pools.length > 0 ? { pools } : {}),
+    discoverySource,
+    ...(stage ? { stage } : {}),
+    ...(stage === 'bonding' ? { bondingProgress: pick(sources, 'bondingProgress') || 0 } : {}),
+    ...(authorities ? { authorities } : {}),
+    ...(token2022Extensions ? { token2022Extensions } : {}),
+  }
+}
+
+// ============================================
+// PIPELINE RUNNER
+// ============================================
+
+/**
+ * Run a token pipeline end to end
+ * `label` prefixes log lines so each route's logs stay distinguishable
+ */
+export async function runTokenPipeline(
+  pipeline: TokenPipeline,
+  label = '[Pipeline]'
+): Promise<TokenPipelineResult> {
+  const startTime = Date.now()
+
+  // STEP 1: Discovery - first stage with results wins
+  let discovered: DiscoveryResult = { tokens: new Map(), source: 'none' }
+  for (const stage of pipeline.discovery) {
+    try {
+      const result = await stage.discover()
+      if (result.tokens.size > 0) {
+        discovered = result
+        break
+      }
+      console.log(`${label} Discovery stage ${stage.name} found 0 tokens, trying next...`)
+    } catch (e) {
+      console.error(`${label} Discovery stage ${stage.name} failed:`, e)
+    }
+  }
+
+  const mints = Array.from(discovered.tokens.keys())
+  console.log(`${label} Discovery (${discovered.source}): ${mints.length} tokens in ${Date.now() - startTime}ms`)
+
+  if (mints.length === 0) {
+    console.error(`${label} No tokens discovered from any source!`)
+    return { tokens: [], discoverySource: discovered.source }
+  }
+
+  // STEP 2: Enrichment - all stages in parallel
+  const enrichStart = Date.now()
+  const enriched = await Promise.all(
+    pipeline.enrichment.map(stage =>
+      stage.enrich(mints).catch((e) => {
+        console.warn(`${label} Enrichment stage ${stage.name} failed:`, e)
+        return new Map<string, SourceTokenData>()
+      })
+    )
+  )
+
+  console.log(
+    `${label} Enrichment completed in ${Date.now() - enrichStart}ms: ` +
+    pipeline.enrichment.map((stage, i) => `${stage.name}=${enriched[i].size}`).join(', ')
+  )
+
+  // STEP 3: Build token list
+  const tokens: Token[] = []
+  for (const mint of mints) {
+    const sources: SourceTokenData[] = []
+    for (const stageData of enriched) {
+      const data = stageData.get(mint)
+      if (data) sources.push(data)
+    }
+    sources.push(discovered.tokens.get(mint)!)
+
+    const token = buildToken(mint, sources, discovered.source)
+    if (!token) continue
+
+    // Cross-check prices from every stage that reported one
+    const { warning } = validatePriceSources(
+      pipeline.enrichment.map((stage, i) => ({ name: stage.name, price: enriched[i].get(mint)?.price || 0 }))
+    )
+    if (warning) token.priceWarning = warning
+
+    tokens.push(token)
+  }
+
+  tokens.sort((a, b) => b.mcap - a.mcap)
+
+  // STEP 4: Token stages
+  for (const stage of pipeline.tokenStages) {
+    const stageStart = Date.now()
+    try {
+      await stage.apply(tokens)
+      console.log(`${label} Token stage ${stage.name} completed in ${Date.now() - stageStart}ms`)
+    } catch (e) {
+      console.warn(`${label} Token stage ${stage.name} failed:`, e)
+    }
+  }
+
+  // Ids in one pass - stages remove and append tokens, so build-time positions collide
+  tokens.forEach((token, i) => { token.id = i })
+
+  console.log(`${label} Completed in ${Date.now() - startTime}ms with ${tokens.length} tokens`)
+
+  return { tokens, discoverySource: discovered.source }
+}
@@ -0,0 +1,121 @@
+/**
+ * Per-Token Snapshot Writer
+ *
+ * Records hourly history in Supabase from a built token list:
+ * - volume_snapshots: one row per token
+ * - total_volume_snapshots: ecosystem totals + top tokens by 1h volume
+ * - daily_aggregates: rolled up from the day's total snapshots, plus the
+ *   day's graduations from bonkfun_tokens (lib/graduations.ts)
+ *
+ * All writes are upserts keyed on the hour (or day), so re-running the
+ * cron within the same hour overwrites rows instead of duplicating them.
+ */
+
+import type { Token } from './types'
+import {
+  insertVolumeSnapshots,
+  insertTotalVolumeSnapshot,
+  getVolumeChartData,
+  upsertDailyAggregate,
+  isSupabaseConfigured,
+  type VolumeSnapshot,
+  type TotalVolumeSnapshot,
+  type DailyAggregate,
+} from './supabase'
+import { countDailyGraduations } from './graduations'
+
+const TOP_TOKENS_COUNT = 10
+
+export interface TokenSnapshotResult {
+  tokenRows: number
+  totalSnapshot: boolean
+  dailyAggregate: boolean
+}
+
+/**
+ * Build the total snapshot row for a token list
+ */
+function buildTotalSnapshot(tokens: Token[], snapshotTime: Date): TotalVolumeSnapshot {
+  const topTokens = [...tokens]
+    .sort((a, b) => (b.volume1h || 0) - (a.volume1h || 0))
+    .slice(0, TOP_TOKENS_COUNT)
+    .map(t => ({
+      mint: t.address,
+      symbol: t.symbol,
+      volume_1h: t.volume1h || 0,
+      price_change: t.change24h,
+    }))
+
+  return {
+    snapshot_time: snapshotTime.toISOString(),
+    total_volume_1h: tokens.reduce((sum, t) => sum + (t.volume1h || 0), 0),
+    total_volume_24h: tokens.reduce((sum, t) => sum + t.volume24h, 0),
+    total_liquidity_usd: tokens.reduce((sum, t) => sum + t.liquidity, 0),
+    total_market_cap_usd: tokens.reduce((sum, t) => sum + t.mcap, 0),
+    active_token_count: tokens.length,
+    tokens_with_volume: tokens.filter(t => t.volume24h > 0).length,
+    top_tokens: topTokens,
+  }
+}
+
+/**
+ * Roll up the day's hourly total snapshots (including the one just written)
+ */
+async function buildDailyAggregate(snapshotTime: Date): Promise<DailyAggregate | null> {
+  const dayStart = new Date(snapshotTime)
+  dayStart.setUTCHours(0, 0, 0, 0)
+  const dayEnd = new Date(dayStart.getTime() + 24 * 60 * 60 * 1000)
+
+  const snapshots = await getVolumeChartData(dayStart, dayEnd)
+  if (snapshots.length === 0) return null
+
+  const hourlyVolumes = snapshots.map(s => s.total_volume_1h || 0)
+  const liquidities = snapshots.map(s => s.total_liquidity_usd || 0)
+  const latest = snapshots[snapshots.length - 1]
+  const totalVolume = hourlyVolumes.reduce((sum, v) => sum + v, 0)
+  const graduated = await countDailyGraduations(dayStart)
+
+  return {
+    day: dayStart.toISOString().split('T')[0],
+    total_volume: totalVolume,
+    avg_hourly_volume: totalVolume / snapshots.length,
+    peak_hourly_volume: Math.max(...hourlyVolumes),
+    avg_liquidity: liquidities.reduce((sum, l) => sum + l, 0) / liquidities.length,
+    end_of_day_liquidity: latest.total_liquidity_usd || 0,
+    active_token_count: latest.active_token_count || 0,
+    new_tokens_graduated: graduated,
+  }
+}
+
+/**
+ * Write per-token, total and daily rows for the current hour
+ * Returns null when Supabase isn't configured
+ */
+export async function writeTokenSnapshots(
+  tokens: Token[],
+  snapshotTime = new Date()
+): Promise<TokenSnapshotResult | null> {
+  if (!isSupabaseConfigured()) return null
+
+  const rows: VolumeSnapshot[] = tokens.map(t => ({
+    snapshot_time: snapshotTime.toISOString(),
+    token_mint: t.address,
+    volume_1h: t.volume1h || 0,
+    volume_24h: t.volume24h,
+    price_usd: t.price,
+    liquidity_usd: t.liquidity,
+    market_cap_usd: t.mcap,
+    buy_count: t.buys24h,
+    sell_count: t.sells24h,
+  }))
+
+  const tokenRows = await insertVolumeSnapshots(rows)
+  const totalSnapshot = await insertTotalVolumeSnapshot(buildTotalSnapshot(tokens, snapshotTime))
+
+  const aggregate = await buildDailyAggregate(snapshotTime)
+  const dailyAggregate = aggregate ? await upsertDailyAggregate(aggregate) : false
+
+  console.log(`[Snapshots] Wrote ${tokenRows} token rows (total: ${totalSnapshot}, daily: ${dailyAggregate})`)
+
+  return { tokenRows, totalSnapshot, dailyAggregate }
+}
@@ -0,0 +1,600 @@
+/**
+ * Upstream Token Data Sources
+ *
+ * Shared fetchers for the public APIs the token pipeline reads from
+ * (Raydium, DexScreener, GeckoTerminal). Every fetcher normalizes its
+ * response into `SourceTokenData` keyed by token mint, so the pipeline
+ * can merge sources without knowing their wire formats.
+ *
+ * Health tracking with exponential backoff lives here too, so both
+ * token routes back off from a rate-limited API together.
+ */
+
+import { PROGRAMS } from './pool-discovery'
+import type { LaunchStage, MintAuthorities, PoolType, Token2022Extensions, TokenPool } from './types'
+
+// ============================================
+// CONFIGURATION
+// ============================================
+
+export const TOKEN_CONFIG = {
+  USD1_MINT: PROGRAMS.USD1_MINT,
+  DEXSCREENER_API: 'https://api.dexscreener.com',
+  RAYDIUM_API: 'https://api-v3.raydium.io',
+  GECKOTERMINAL_API: 'https://api.geckoterminal.com/api/v2',
+  HELIUS_API: 'https://mainnet.helius-rpc.com',
+  EXCLUDED_SYMBOLS: ['WLFI', 'USD1', 'USDC', 'USDT', 'SOL', 'WSOL', 'RAY', 'FREYA', 'REAL', 'AOL'],
+  MAX_MCAP_LIQUIDITY_RATIO: 100,
+  MIN_LIQUIDITY_USD: 100,
+  // BonkFun identification - tokens must be created via these programs
+  BONKFUN: {
+    // Raydium LaunchLab program - creates tokens via initialize_v2
+    LAUNCHLAB_PROGRAM: PROGRAMS.LAUNCHLAB,
+    // BonkFun platform config - must be in accounts to identify BonkFun vs other LaunchLab
+    PLATFORM_CONFIG: 'FfYek5vEz23cMkWsdJwG2oa6EphsvXSHrGpdALN4g6W1',
+    // BonkFun graduation program
+    GRADUATE_PROGRAM: 'boop8hVGQGqehUK2iVEMEnMrL5RbjywRzHKBmBE7ry4',
+  },
+}
+
+/**
+ * Token fields as reported by a single upstream source.
+ * Every field is optional - the pipeline picks the first source that has a value.
+ */
+export interface SourceTokenData {
+  symbol?: string
+  name?: string
+  imageUrl?: string | null
+  price?: number
+  priceNative?: number
+  liquidity?: number
+  fdv?: number
+  volume24h?: number
+  volume1h?: number
+  change24h?: number
+  change1h?: number
+  txns24h?: number
+  buys24h?: number
+  sells24h?: number
+  pairAddress?: string
+  dex?: string
+  url?: string
+  created?: number | null
+  twitter?: string | null
+  telegram?: string | null
+  website?: string | null
+  poolType?: string
+  pools?: TokenPool[]
+  stage?: LaunchStage
+  bondingProgress?: number
+  authorities?: MintAuthorities
+  token2022Extensions?: Token2022Extensions
+}
+
+// ============================================
+// API HEALTH TRACKING
+// ============================================
+
+const apiHealth = {
+  raydium: { healthy: true, lastError: 0, errorCount: 0 },
+  onchain: { healthy: true, lastError: 0, errorCount: 0 },
+  dexscreener: { healthy: true, lastError: 0, errorCount: 0 },
+  geckoterminal: { healthy: true, lastError: 0, errorCount: 0 },
+}
+
+export type ApiName = keyof typeof apiHealth
+
+export function markApiError(api: ApiName) {
+  apiHealth[api].healthy = false
+  apiHealth[api].lastError = Date.now()
+  apiHealth[api].errorCount++
+}
+
+export function resetApiHealth(api: ApiName) {
+  apiHealth[api].healthy = true
+  apiHealth[api].errorCount = 0
+}
+
+export function isApiHealthy(api: ApiName): boolean {
+  const health = apiHealth[api]
+  if (health.healthy) return true
+
+  // Exponential backoff: 30s, 60s, 120s, max 5min
+  const backoffMs = Math.min(30000 * Math.pow(2, health.errorCount - 1), 300000)
+  if (Date.now() - health.lastError > backoffMs) {
+    health.healthy = true
+    return true
+  }
+  return false
+}
+
+/**
+ * Snapshot of upstream health for API responses
+ */
+export function getApiHealthStatus(): Record<ApiName, boolean> {
+  return {
+    raydium: apiHealth.raydium.healthy,
+    onchain: apiHealth.onchain.healthy,
+    dexscreener: apiHealth.dexscreener.healthy,
+    geckoterminal: apiHealth.geckoterminal.healthy,
+  }
+}
+
+// ============================================
+// HELPER FUNCTIONS
+// ============================================
+
+export async function fetchWithTimeout(url: string, timeout = 8000): Promise<Response> {
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), timeout)
+
+  try {
+    const response = await fetch(url, {
+      signal: controller.signal,
+      headers: { Accept: 'application/json' },
+    })
+    clearTimeout(timeoutId)
+    return response
+  } catch (error) {
+    clearTimeout(timeoutId)
+    throw error
+  }
+}
+
+export function shouldExclude(symbol?: string, name?: string): boolean {
+  const s = (symbol || '').toUpperCase()
+  const n = (name || '').toUpperCase()
+  return TOKEN_CONFIG.EXCLUDED_SYMBOLS.some(
+    (excluded) => s === excluded || s.includes(excluded) || n === excluded
+  )
+}
+
+/**
+ * Check if address is a fake BonkFun token
+ * Real BonkFun tokens don't end with "USA" - those are from a different launchpad
+ */
+export function isFakeBonkFunToken(address: string): boolean {
+  return address.endsWith('USA')
+}
+
+/**
+ * Check if a Raydium pool type indicates LaunchLab/BonkFun origin
+ * BonkFun tokens graduate to CPMM pools via LaunchLab
+ */
+export function isLaunchLabPoolType(poolType?: string): boolean {
+  if (!poolType) return false
+  const type = poolType.toLowerCase()
+  return type.includes('launch') ||
+         type.includes('cpmm') ||
+         type === 'standard' ||
+         type === 'concentrated'
+}
+
+export function hasSuspiciousMetrics(fdv: number, liquidity: number): boolean {
+  if (liquidity < TOKEN_CONFIG.MIN_LIQUIDITY_USD) return true
+  if (fdv > 0 && liquidity > 0 && fdv / liquidity > TOKEN_CONFIG.MAX_MCAP_LIQUIDITY_RATIO) return true
+  return false
+}
+
+export function extractSocialLinks(dexData: any): { twitter?: string; telegram?: string; website?: string } {
+  const socials: { twitter?: string; telegram?: string; website?: string } = {}
+  if (dexData?.info?.socials) {
+    for (const social of dexData.info.socials) {
+      if (social.type === 'twitter') socials.twitter = social.url
+      if (social.type === 'telegram') socials.telegram = social.url
+    }
+  }
+  if (dexData?.info?.websites?.length > 0) {
+    socials.website = dexData.info.websites[0].url
+  }
+  return socials
+}
+
+// ============================================
+// RAYDIUM (FREE)
+// ============================================
+
+function raydiumPoolsUrl(page: number, pageSize: number): string {
+  return `${TOKEN_CONFIG.RAYDIUM_API}/pools/info/mint?mint1=${TOKEN_CONFIG.USD1_MINT}&poolType=all&poolSortField=liquidity&sortType=desc&pageSize=${pageSize}&page=${page}`
+}
+
+/**
+ * Fetch all Raydium pools paired with USD1 (raw API objects)
+ * First page is fetched to learn the total count, remaining pages in parallel
+ */
+async function fetchRaydiumUSD1Pools(): Promise<any[]> {
+  const pageSize = 500
+  const maxPages = 5
+
+  const firstResponse = await fetchWithTimeout(raydiumPoolsUrl(1, pageSize))
+  if (!firstResponse.ok) {
+    if (firstResponse.status === 429) markApiError('raydium')
+    return []
+  }
+
+  const firstJson = await firstResponse.json()
+  if (!firstJson.success || !firstJson.data?.data) return []
+
+  const pools: any[] = [...firstJson.data.data]
+  const totalCount = firstJson.data.count || pools.length
+  const totalPages = Math.min(Math.ceil(totalCount / pageSize), maxPages)
+
+  if (totalPages > 1 && pools.length >= pageSize) {
+    const pagePromises = []
+    for (let page = 2; page <= totalPages; page++) {
+      pagePromises.push(
+        fetchWithTimeout(raydiumPoolsUrl(page, pageSize), 6000)
+          .then(res => res.ok ? res.json() : null)
+          .catch(() => null)
+      )
+    }
+
+    const results = await Promise.all(pagePromises)
+    for (const json of results) {
+      if (json?.success && json.data?.data) {
+        pools.push(...json.data.data)
+      }
+    }
+  }
+
+  return pools
+}
+
+/**
+ * Discover BonkFun tokens from Raydium USD1 pools (LaunchLab/CPMM pool types)
+ * Keeps the deepest pool per token
+ */
+export async function fetchRaydiumTokens(): Promise<Map<string, SourceTokenData & { tvl: number }>> {
+  const tokenMap = new Map<string, SourceTokenData & { tvl: number }>()
+  if (!isApiHealthy('raydium')) return tokenMap
+
+  try {
+    const pools = await fetchRaydiumUSD1Pools()
+
+    for (const pool of pools) {
+      const isAUSD1 = pool.mintA?.address === TOKEN_CONFIG.USD1_MINT
+      const isBUSD1 = pool.mintB?.address === TOKEN_CONFIG.USD1_MINT
+      if (!isAUSD1 && !isBUSD1) continue
+
+      const baseToken = isAUSD1 ? pool.mintB : pool.mintA
+      const baseMint = baseToken?.address
+      if (!baseMint || baseMint === TOKEN_CONFIG.USD1_MINT) continue
+      if (shouldExclude(baseToken?.symbol, baseToken?.name)) continue
+
+      const poolType = pool.type || pool.poolType || ''
+      const isLikelyBonkFun = isLaunchLabPoolType(poolType) ||
+                              pool.programId === TOKEN_CONFIG.BONKFUN.LAUNCHLAB_PROGRAM
+      if (!isLikelyBonkFun) continue
+
+      const existing = tokenMap.get(baseMint)
+      const tvl = pool.tvl || 0
+
+      if (!existing || tvl > existing.tvl) {
+        tokenMap.set(baseMint, {
+          symbol: baseToken?.symbol,
+          name: baseToken?.name,
+          imageUrl: baseToken?.logoURI,
+          pairAddress: pool.id,
+          poolType,
+          dex: poolType,
+          tvl,
+          liquidity: tvl,
+          volume24h: pool.day?.volume || 0,
+          price: pool.price ? (isAUSD1 ? pool.price : 1 / pool.price) : 0,
+          change24h: pool.day?.priceChange || 0,
+        })
+      }
+    }
+
+    resetApiHealth('raydium')
+    console.log(`[Raydium] Found ${tokenMap.size} BonkFun token pools`)
+  } catch (error) {
+    console.error('[Raydium] Error:', error)
+    markApiError('raydium')
+  }
+
+  return tokenMap
+}
+
+/**
+ * Fetch total 24h volume across ALL USD1 pools from Raydium
+ * This is the source of truth for total ecosystem volume
+ */
+export async function fetchRaydiumTotalVolume(): Promise<number> {
+  if (!isApiHealthy('raydium')) return 0
+
+  try {
+    const pools = await fetchRaydiumUSD1Pools()
+    const seenPools = new Set<string>()
+    let totalVolume = 0
+
+    for (const pool of pools) {
+      if (seenPools.has(pool.id)) continue
+      seenPools.add(pool.id)
+
+      const isAUSD1 = pool.mintA?.address === TOKEN_CONFIG.USD1_MINT
+      const isBUSD1 = pool.mintB?.address === TOKEN_CONFIG.USD1_MINT
+      if (!isAUSD1 && !isBUSD1) continue
+
+      totalVolume += pool.day?.volume || 0
+    }
+
+    console.log(`[Raydium Total Volume] $${totalVolume.toLocaleString()} from ${seenPools.size} pools`)
+    return totalVolume
+  } catch (error) {
+    console.error('[Raydium Total Volume] Error:', error)
+    return 0
+  }
+}
+
+// ============================================
+// DEXSCREENER (FREE)
+// ============================================
+
+function normalizeDexScreenerPair(pair: any): SourceTokenData {
+  const socials = extractSocialLinks(pair)
+  const buys = pair.txns?.h24?.buys || 0
+  const sells = pair.txns?.h24?.sells || 0
+
+  return {
+    symbol: pair.baseToken?.symbol,
+    name: pair.baseToken?.name,
+    imageUrl: pair.info?.imageUrl,
+    price: pair.priceUsd ? Number.parseFloat(pair.priceUsd) : 0,
+    priceNative: pair.priceNative ? Number.parseFloat(pair.priceNative) : 0,
+    liquidity: pair.liquidity?.usd ? Number.parseFloat(pair.liquidity.usd) : 0,
+    fdv: pair.fdv ? Number.parseFloat(pair.fdv) : 0,
+    volume24h: pair.volume?.h24 ? Number.parseFloat(pair.volume.h24) : 0,
+    volume1h: pair.volume?.h1 ? Number.parseFloat(pair.volume.h1) : 0,
+    change24h: pair.priceChange?.h24 ? Number.parseFloat(pair.priceChange.h24) : 0,
+    change1h: pair.priceChange?.h1 ? Number.parseFloat(pair.priceChange.h1) : 0,
+    txns24h: buys + sells,
+    buys24h: buys,
+    sells24h: sells,
+    pairAddress: pair.pairAddress,
+    dex: pair.dexId,
+    url: pair.url,
+    created: pair.pairCreatedAt || null,
+    twitter: socials.twitter,
+    telegram: socials.telegram,
+    website: socials.website,
+  }
+}
+
+/**
+ * Collect every USD1 pair of each token, keyed by pair address so
+ * pairs returned by several requests are only counted once
+ */
+function collectUSD1Pairs(pairs: any[], pairMap: Map<string, Map<string, any>>) {
+  for (const pair of pairs) {
+    if (pair.chainId !== 'solana' || !pair.pairAddress) continue
+
+    const isBaseUSD1 = pair.baseToken?.address === TOKEN_CONFIG.USD1_MINT
+    const isQuoteUSD1 = pair.quoteToken?.address === TOKEN_CONFIG.USD1_MINT
+    if (!isBaseUSD1 && !isQuoteUSD1) continue
+
+    const tokenAddress = isQuoteUSD1 ? pair.baseToken?.address : pair.quoteToken?.address
+    if (!tokenAddress || tokenAddress === TOKEN_CONFIG.USD1_MINT) continue
+
+    const tokenPairs = pairMap.get(tokenAddress) || new Map<string, any>()
+    tokenPairs.set(pair.pairAddress, pair)
+    pairMap.set(tokenAddress, tokenPairs)
+  }
+}
+
+// DexScreener labels Raydium pairs by program; unlabeled Raydium pairs can't be told apart reliably
+const DEXSCREENER_POOL_TYPES: Record<string, PoolType> = {
+  CPMM: 'cpmm',
+  CLMM: 'clmm',
+}
+
+function dexScreenerPool(pair: any, data: SourceTokenData): TokenPool {
+  const label = (pair.labels || []).find((l: string) => DEXSCREENER_POOL_TYPES[l])
+
+  return {
+    address: pair.pairAddress,
+    dex: pair.dexId || 'unknown',
+    type: pair.dexId === 'raydium' && label ? DEXSCREENER_POOL_TYPES[label] : null,
+    liquidity: data.liquidity || 0,
+    volume24h: data.volume24h || 0,
+    price: data.price || 0,
+    feeTier: null,
+  }
+}
+
+/**
+ * Merge a token's USD1 pairs: price, changes and links come from the pair
+ * with the highest 24h volume, liquidity, volume and txns are summed
+ */
+function mergeUSD1Pairs(pairs: any[]): SourceTokenData {
+  const normalized = pairs
+    .map(pair => ({ pair, data: normalizeDexScreenerPair(pair) }))
+    .sort((a, b) => (b.data.volume24h || 0) - (a.data.volume24h || 0))
+
+  const sum = (key: 'liquidity' | 'volume24h' | 'volume1h' | 'txns24h' | 'buys24h' | 'sells24h') =>
+    normalized.reduce((total, { data }) => total + (data[key] || 0), 0)
+
+  return {
+    ...normalized[0].data,
+    pools: normalized.map(({ pair, data }) => dexScreenerPool(pair, data)),
+    liquidity: sum('liquidity'),
+    volume24h: sum('volume24h'),
+    volume1h: sum('volume1h'),
+    txns24h: sum('txns24h'),
+    buys24h: sum('buys24h'),
+    sells24h: sum('sells24h'),
+  }
+}
+
+/**
+ * Fetch DexScreener pairs for the given mints (batched, 30 per request)
+ * plus the USD1 token-pairs endpoint for additional coverage
+ */
+export async function fetchDexScreenerTokens(mints: string[]): Promise<Map<string, SourceTokenData>> {
+  const pairMap = new Map<string, Map<string, any>>()
+  if (!isApiHealthy('dexscreener') || mints.length === 0) return new Map()
+
+  const batches: string[][] = []
+  for (let i = 0; i < mints.length; i += 30) {
+    batches.push(mints.slice(i, i + 30))
+  }
+
+  console.log(`[DexScreener] Fetching data for ${mints.length} tokens in ${batches.length} batches`)
+
+  const batchPromises = batches.map(async (batch, index) => {
+    try {
+      // Add small delay between batches to avoid rate limits
+      if (index > 0) {
+        await new Promise((r) => setTimeout(r, 200))
+      }
+
+      const response = await fetchWithTimeout(
+        `${TOKEN_CONFIG.DEXSCREENER_API}/latest/dex/tokens/${batch.join(',')}`
+      )
+
+      if (response.ok) {
+        const data = await response.json()
+        collectUSD1Pairs(data.pairs || [], pairMap)
+      } else if (response.status === 429) {
+        markApiError('dexscreener')
+      }
+    } catch (e) {
+      console.warn(`[DexScreener] Batch ${index} error:`, e)
+    }
+  })
+
+  // Token-pairs endpoint only fills tokens the batches missed
+  const usd1PairsPromise = (async () => {
+    const usd1Pairs = new Map<string, Map<string, any>>()
+    try {
+      const response = await fetchWithTimeout(
+        `${TOKEN_CONFIG.DEXSCREENER_API}/token-pairs/v1/solana/${TOKEN_CONFIG.USD1_MINT}`
+      )
+      if (response.ok) {
+        const pairs = await response.json()
+        if (Array.isArray(pairs)) collectUSD1Pairs(pairs, usd1Pairs)
+      }
+    } catch (e) {
+      console.warn('[DexScreener] USD1 pairs error:', e)
+    }
+    return usd1Pairs
+  })()
+
+  const [, usd1Pairs] = await Promise.all([Promise.allSettled(batchPromises), usd1PairsPromise])
+
+  for (const [mint, pairs] of usd1Pairs) {
+    if (!pairMap.has(mint)) pairMap.set(mint, pairs)
+  }
+
+  resetApiHealth('dexscreener')
+
+  const tokens = new Map<string, SourceTokenData>()
+  for (const [mint, pairs] of pairMap) {
+    tokens.set(mint, mergeUSD1Pairs(Array.from(pairs.values())))
+  }
+
+  console.log(`[DexScreener] Got data for ${tokens.size} tokens`)
+  return tokens
+}
+
+// ============================================
+// GECKOTERMINAL (FREE)
+// ============================================
+
+/**
+ * Fetch USD1 pools from GeckoTerminal (first 5 pages in parallel)
+ * Keeps the deepest pool per token
+ */
+export async function fetchGeckoTerminalTokens(): Promise<Map<string, SourceTokenData>> {
+  const poolMap = new Map<string, SourceTokenData>()
+  if (!isApiHealthy('geckoterminal')) return poolMap
+
+  try {
+    const maxPages = 5
+    const pageUrls = Array.from({ length: maxPages }, (_, i) =>
+      `${TOKEN_CONFIG.GECKOTERMINAL_API}/networks/solana/tokens/${TOKEN_CONFIG.USD1_MINT}/pools?page=${i + 1}&include=base_token,quote_token`
+    )
+
+    const pageResults = await Promise.all(
+      pageUrls.map((url) =>
+        fetchWithTimeout(url, 6000)
+          .then((res) => {
+            if (!res.ok) {
+              if (res.status === 429) markApiError('geckoterminal')
+              return null
+            }
+            return res.json()
+          })
+          .catch(() => null)
+      )
+    )
+
+    for (const json of pageResults) {
+      if (!json) continue
+
+      const tokenLookup = new Map<string, any>()
+      for (const item of json.included || []) {
+        if (item.type === 'token') {
+          tokenLookup.set(item.id, item.attributes)
+        }
+      }
+
+      for (const pool of json.data || []) {
+        const attrs = pool.attributes
+        const baseToken = tokenLookup.get(pool.relationships?.base_token?.data?.id)
+        const quoteToken = tokenLookup.get(pool.relationships?.quote_token?.data?.id)
+
+        let tokenData: any = null
+        let isBaseUSD1 = false
+
+        if (baseToken?.address === TOKEN_CONFIG.USD1_MINT) {
+          tokenData = quoteToken
+          isBaseUSD1 = true
+        } else if (quoteToken?.address === TOKEN_CONFIG.USD1_MINT) {
+          tokenData = baseToken
+        } else {
+          continue
+        }
+
+        if (!tokenData || shouldExclude(tokenData.symbol, tokenData.name)) continue
+
+        const mint = tokenData.address
+        const existing = poolMap.get(mint)
+        const poolLiquidity = Number.parseFloat(attrs.reserve_in_usd) || 0
+
+        if (!existing || poolLiquidity > (existing.liquidity || 0)) {
+          const buys = attrs.transactions?.h24?.buys || 0
+          const sells = attrs.transactions?.h24?.sells || 0
+
+          poolMap.set(mint, {
+            symbol: tokenData.symbol,
+            name: tokenData.name,
+            imageUrl: tokenData.image_url,
+            pairAddress: attrs.address,
+            liquidity: poolLiquidity,
+            volume24h: Number.parseFloat(attrs.volume_usd?.h24) || 0,
+            volume1h: Number.parseFloat(attrs.volume_usd?.h1) || 0,
+            price: isBaseUSD1
+              ? Number.parseFloat(attrs.quote_token_price_usd) || 0
+              : Number.parseFloat(attrs.base_token_price_usd) || 0,
+            change24h: Number.parseFloat(attrs.price_change_percentage?.h24) || 0,
+            change1h: Number.parseFloat(attrs.price_change_percentage?.h1) || 0,
+            txns24h: buys + sells,
+            buys24h: buys,
+            sells24h: sells,
+            fdv: Number.parseFloat(attrs.fdv_usd) || 0,
+            created: attrs.pool_created_at ? new Date(attrs.pool_created_at).getTime() : null,
+          })
+        }
+      }
+    }
+
+    resetApiHealth('geckoterminal')
+  } catch (e) {
+    console.warn('[GeckoTerminal] Error:', e)
+    markApiError('geckoterminal')
+  }
+
+  console.log(`[GeckoTerminal] Got data for ${poolMap.size} tokens`)
+  return poolMap
+}
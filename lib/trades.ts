@@ -0,0 +1,214 @@
+/**
+ * Recent Trades
+ *
+ * Swaps on a token's USD1 pool, parsed from the pool's own signatures.
+ * A swap is any successful transaction that moves both pool vaults in
+ * opposite directions: token vault down + USD1 vault up is a buy,
+ * the reverse is a sell. The fee payer is reported as the trader.
+ *
+ * Trades are kept per pool in memory and refreshed incrementally with
+ * `until`, so polling only fetches transactions newer than the last one seen.
+ * A refresh pages back to the last seen signature; when more swaps arrived
+ * than it will page through, the old log is dropped rather than kept with
+ * a hole in it. Only the most recently used pools keep a log.
+ */
+
+import type { Transaction } from './types'
+import { rpcManager } from './rpc-manager'
+import { rpcRequest } from './pool-discovery'
+import { getCachedBondingPools } from './pool-cache'
+import { syncUSD1Pools } from './pool-sync'
+import { getTokenEmoji } from './utils'
+
+const MAX_TRADES = 100
+const SIGNATURES_PER_REFRESH = 30
+const MAX_REFRESH_PAGES = 3 // Signature pages per refresh before giving up on the gap
+const FETCH_CONCURRENCY = 5
+const MAX_TRADE_LOGS = 200
+
+export interface TradePool {
+  poolAddress: string
+  tokenVault: string
+  usd1Vault: string
+}
+
+interface TradeLog {
+  trades: Transaction[]
+  newestSignature: string | null
+  fetchedAt: number
+}
+
+// Insertion order doubles as recency - logs are re-inserted on every write
+const tradeLogs = new Map<string, TradeLog>()
+
+function saveTradeLog(poolAddress: string, log: TradeLog) {
+  tradeLogs.delete(poolAddress)
+  tradeLogs.set(poolAddress, log)
+  while (tradeLogs.size > MAX_TRADE_LOGS) {
+    tradeLogs.delete(tradeLogs.keys().next().value!)
+  }
+}
+
+// ============================================
+// POOL LOOKUP
+// ============================================
+
+/**
+ * The token's USD1 pool - graduated AMM pool first, then its bonding curve
+ * The pool list is synced first when due, so a cold isolate still finds the pool
+ * `preferred` picks between several pools (usually the token's pairAddress)
+ * Trades are read from vault balance changes, so CPMM, AMM v4 and CLMM pools all work
+ */
+export async function getTradePool(mint: string, preferred?: string): Promise<TradePool | null> {
+  const [{ data: pools }, bondingPools] = await Promise.all([syncUSD1Pools(), getCachedBondingPools()])
+
+  const graduated = (pools?.pools || []).filter(p => p.tokenMint === mint)
+  const pool = graduated.find(p => p.poolAddress === preferred) || graduated[0]
+  if (pool) {
+    return { poolAddress: pool.poolAddress, tokenVault: pool.tokenVault, usd1Vault: pool.usd1Vault }
+  }
+
+  const curve = bondingPools?.find(p => p.tokenMint === mint)
+  if (curve?.quoteVault) {
+    return { poolAddress: curve.poolAddress, tokenVault: curve.tokenVault, usd1Vault: curve.quoteVault }
+  }
+
+  return null
+}
+
+// ============================================
+// PARSING
+// ============================================
+
+/**
+ * Balance change of a token account across a transaction (UI units)
+ */
+function vaultChange(tx: any, accountKeys: string[], vault: string): number {
+  const index = accountKeys.indexOf(vault)
+  if (index < 0) return 0
+
+  const amount = (balances: any[] | undefined) =>
+    Number((balances || []).find(b => b.accountIndex === index)?.uiTokenAmount?.uiAmount || 0)
+
+  return amount(tx?.meta?.postTokenBalances) - amount(tx?.meta?.preTokenBalances)
+}
+
+/**
+ * Parse a getTransaction (jsonParsed) result into a trade on this pool
+ * Returns null for anything that isn't a swap (deposits, withdrawals, failed txs)
+ */
+export function parseSwap(
+  tx: any,
+  signature: string,
+  pool: TradePool,
+  token: { symbol: string; name: string }
+): Transaction | null {
+  if (!tx?.transaction?.message || tx.meta?.err) return null
+
+  const accountKeys: string[] = (tx.transaction.message.accountKeys || []).map((k: any) =>
+    typeof k === 'string' ? k : k.pubkey
+  )
+  const tokenChange = vaultChange(tx, accountKeys, pool.tokenVault)
+  const usd1Change = vaultChange(tx, accountKeys, pool.usd1Vault)
+
+  // Liquidity adds/removes move both vaults the same way
+  const isBuy = tokenChange < 0 && usd1Change > 0
+  const isSell = tokenChange > 0 && usd1Change < 0
+  if (!isBuy && !isSell) return null
+
+  const tokenAmount = Math.abs(tokenChange)
+  const amount = Math.abs(usd1Change)
+
+  return {
+    id: signature,
+    symbol: token.symbol,
+    emoji: getTokenEmoji(token.name),
+    type: isBuy ? 'buy' : 'sell',
+    amount,
+    timestamp: (tx.blockTime || 0) * 1000,
+    tokenAmount,
+    price: tokenAmount > 0 ? amount / tokenAmount : 0,
+    wallet: accountKeys[0],
+  }
+}
+
+// ============================================
+// FETCHING
+// ============================================
+
+/**
+ * Whether a pool's trades were fetched within `maxAge`
+ */
+export function hasFreshTrades(poolAddress: string, maxAge: number): boolean {
+  const log = tradeLogs.get(poolAddress)
+  return !!log && Date.now() - log.fetchedAt < maxAge
+}
+
+/**
+ * Most recent swaps on a pool, newest first
+ * With `maxAge`, a log fetched more recently than that is returned as is
+ */
+export async function fetchRecentTrades(
+  pool: TradePool,
+  token: { symbol: string; name: string },
+  maxAge = 0
+): Promise<Transaction[]> {
+  const log = tradeLogs.get(pool.poolAddress) || { trades: [], newestSignature: null, fetchedAt: 0 }
+  if (maxAge > 0 && Date.now() - log.fetchedAt < maxAge) return log.trades
+
+  try {
+    const fresh = await rpcManager.executeWithFallback(async (rpcUrl) => {
+      // Page back to the last seen signature - a first fetch only needs the newest page
+      const signatures: any[] = []
+      let reachedLog = !log.newestSignature
+      const pages = log.newestSignature ? MAX_REFRESH_PAGES : 1
+      for (let page = 0; page < pages; page++) {
+        const batch: any[] = await rpcRequest(rpcUrl, 'getSignaturesForAddress', [
+          pool.poolAddress,
+          {
+            limit: SIGNATURES_PER_REFRESH,
+            ...(log.newestSignature ? { until: log.newestSignature } : {}),
+            ...(signatures.length > 0 ? { before: signatures[signatures.length - 1].signature } : {}),
+          },
+        ]) || []
+
+        signatures.push(...batch)
+        if (batch.length < SIGNATURES_PER_REFRESH) {
+          reachedLog = true
+          break
+        }
+      }
+
+      const trades: Transaction[] = []
+      const successful = signatures.filter(s => !s.err)
+      for (let i = 0; i < successful.length; i += FETCH_CONCURRENCY) {
+        const batch = successful.slice(i, i + FETCH_CONCURRENCY)
+        const txs = await Promise.all(batch.map(s =>
+          rpcRequest(rpcUrl, 'getTransaction', [
+            s.signature,
+            { encoding: 'jsonParsed', maxSupportedTransactionVersion: 0 },
+          ])
+        ))
+
+        txs.forEach((tx, j) => {
+          const trade = parseSwap(tx, batch[j].signature, pool, token)
+          if (trade) trades.push(trade)
+        })
+      }
+
+      return { trades, newestSignature: signatures[0]?.signature || log.newestSignature, reachedLog }
+    })
+
+    // Past the page cap the fetched trades don't connect to the log, so they replace it
+    const merged: TradeLog = {
+      trades: (fresh.reachedLog ? [...fresh.trades, ...log.trades] : fresh.trades).slice(0, MAX_TRADES),
+      newestSignature: fresh.newestSignature,
+      fetchedAt: Date.now(),
+    }
+    saveTradeLog(pool.poolAddress, merged)
+    return merged.trades
+  } catch (e) {
+    console.warn(`[Trades] Failed to fetch trades for ${pool.poolAddress}:`, e)
+    return log.trades
+  }
+}
@@ -1,3 +1,41 @@
+// Launch lifecycle: trading on the LaunchLab bonding curve, or graduated to an AMM pool
+export type LaunchStage = 'bonding' | 'graduated'
+
+// Who controls a CPMM pool's LP tokens - 'wallet' means the liquidity can be pulled
+export type LpStatus = 'burned' | 'locked' | 'wallet'
+
+// Raydium pool program a USD1 pool lives in
+export type PoolType = 'cpmm' | 'amm-v4' | 'clmm'
+
+// One of a token's USD1 pools, merged across sources by address
+export interface TokenPool {
+  address: string
+  dex: string
+  type: PoolType | null // Raydium pool program, null for other DEXes or when unknown
+  liquidity: number
+  volume24h: number | null // null when only seen on-chain
+  price: number
+  feeTier: number | null // Swap fee, % of the trade
+}
+
+// SPL mint authorities - null once revoked
+export interface MintAuthorities {
+  mintAuthority: string | null
+  freezeAuthority: string | null
+}
+
+// Token-2022 mint extensions, decoded from the mint account's TLV data
+export interface Token2022Extensions {
+  enabled: string[] // Every extension on the mint, e.g. 'TransferFeeConfig'
+  transferFeeBps?: number
+  maxTransferFee?: number // Raw units
+  permanentDelegate?: string
+  transferHookProgram?: string
+  mintCloseAuthority?: string
+  defaultAccountFrozen?: boolean
+  pausable?: boolean
+}
+
 export interface Token {
   id: number
   name: string
@@ -10,6 +48,10 @@ export interface Token {
   change24h: number
   change1h: number
   volume24h: number
+  volume1h?: number
+  organicVolume24h?: number // Estimate: volume24h times the organic share of a recent swap sample, see lib/wash-trading.ts
+  organicSampleSize?: number // Swaps in that sample
+  washTradingFlags?: string[]
   liquidity: number
   mcap: number
   pairAddress: string
@@ -23,6 +65,21 @@ export interface Token {
   twitter: string | null
   telegram: string | null
   website: string | null
+  // Pipeline provenance
+  isBonkFun?: boolean
+  poolType?: string
+  pools?: TokenPool[] // Every known USD1 pool, deepest first; liquidity and volume are totals across them
+  discoverySource?: string
+  priceWarning?: string // Set when price sources disagree by >15%
+  stage?: LaunchStage
+  bondingProgress?: number // 0-100, % of the graduation target raised (bonding only)
+  safetyScore?: number // 0-100, see lib/safety-score.ts
+  safetyWarnings?: string[]
+  authorities?: MintAuthorities
+  token2022Extensions?: Token2022Extensions // Token-2022 mints only
+  lpStatus?: LpStatus // Graduated tokens only, see lib/lp-status.ts
+  lpSecuredShare?: number // % of LP burned or locked
+  creatorRugs?: number // Creator's other launches with pulled liquidity, see lib/creator-profile.ts
   // Real-time tracking
   prevPrice?: number
   priceDirection?: 'up' | 'down' | 'neutral'
@@ -30,12 +87,15 @@ export interface Token {
 }
 
 export interface Transaction {
-  id: string
+  id: string // Transaction signature
   symbol: string
   emoji: string
   type: "buy" | "sell"
-  amount: number
+  amount: number // USD1 value
   timestamp: number
+  tokenAmount?: number
+  price?: number // USD1 per token
+  wallet?: string // Fee payer - the trader for direct and aggregator swaps
 }
 
 export interface BannerState {
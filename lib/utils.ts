@@ -106,76 +106,6 @@ export function shortenAddress(address: string, chars = 4): string {
   return `${address.slice(0, chars)}...${address.slice(-chars)}`
 }
 
-// ============================================
-// CHART DATA GENERATION
-// ============================================
-
-export function generateChartData(
-  currentMcap: number,
-  change24h: number,
-  points = 24
-): number[] {
-  const change = change24h / 100
-  const volatility = Math.min(Math.abs(change) * 0.5, 0.15)
-  
-  const data: number[] = []
-  let value = 100
-  const target = 100 * (1 + change)
-  
-  for (let i = 0; i < points; i++) {
-    const progress = i / (points - 1)
-    const trendPull = (target - value) * 0.15
-    const noise = (Math.random() - 0.5) * volatility * 100
-    const hourVolatility = Math.sin(i * 0.5) * 0.3 + 1
-    
-    value += trendPull + noise * hourVolatility
-    
-    if (i === points - 1) {
-      value = target
-    }
-    
-    data.push(value)
-  }
-  
-  return data
-}
-
-// Deterministic chart data based on token address (for consistent rendering)
-export function generateDeterministicChartData(
-  tokenAddress: string,
-  change24h: number,
-  points = 24
-): number[] {
-  const seed = tokenAddress.split('').reduce((a, b) => a + b.charCodeAt(0), 0)
-  const pseudoRandom = (i: number) => {
-    const x = Math.sin(seed + i * 12.9898) * 43758.5453
-    return x - Math.floor(x)
-  }
-  
-  const change = change24h / 100
-  const volatility = Math.min(Math.abs(change) * 0.5, 0.15)
-  
-  const data: number[] = []
-  let value = 100
-  const target = 100 * (1 + change)
-  
-  for (let i = 0; i < points; i++) {
-    const trendPull = (target - value) * 0.15
-    const noise = (pseudoRandom(i) - 0.5) * volatility * 100
-    const hourVolatility = Math.sin(i * 0.5) * 0.3 + 1
-    
-    value += trendPull + noise * hourVolatility
-    
-    if (i === points - 1) {
-      value = target
-    }
-    
-    data.push(value)
-  }
-  
-  return data
-}
-
 // ============================================
 // INPUT SANITIZATION & VALIDATION
 // ============================================
@@ -365,7 +295,16 @@ const SAFETY_WARNING_EXPLANATIONS: Record<string, string> = {
   "Very new token": "Token created within 6 hours. Higher risk of rug pull or abandonment.",
   "Unknown age": "Cannot verify when this token was created. Exercise extra caution.",
   "Suspicious liquidity ratio": "Liquidity is unusually high relative to market cap. Data may be inaccurate.",
-  "Abnormal transaction pattern": "Average transaction size is unusually small. Could indicate wash trading.",
+  "Abnormal transaction pattern": "Tiny average trades, self-trading, round-trip loops or uniform bot trades. Much of the volume is likely wash trading.",
+  "Few holders": "Fewer than 100 wallets hold this token. Supply is likely concentrated in a few hands.",
+  "Mint authority active": "Someone can still mint new tokens and dilute every holder.",
+  "Freeze authority active": "Someone can freeze any holder's token account, so you might not be able to sell.",
+  "Transfer fee": "This Token-2022 mint takes a fee on every transfer, including buys and sells.",
+  "Permanent delegate": "A permanent delegate can move or burn tokens from any wallet without permission.",
+  "Transfer hook": "Every transfer runs a custom program, which can block or tax sells.",
+  "Pausable token": "Transfers of this token can be paused by its authority.",
+  "Unlocked liquidity": "Most of the pool's LP tokens sit in a regular wallet, so its liquidity can be withdrawn at any time.",
+  "Serial rugger": "The creator wallet launched other tokens whose liquidity was later pulled.",
 }
 
 /**
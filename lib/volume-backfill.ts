@@ -0,0 +1,258 @@
+/**
+ * Volume History Backfill
+ *
+ * Finds and fills gaps in the `volume:daily` store (lib/volume-store.ts):
+ * - Missing days: Dune daily volume query first, then GeckoTerminal daily
+ *   OHLCV summed across the top pools
+ * - Missing hours on stored days: GeckoTerminal hourly OHLCV, written to the
+ *   day's `hourly` array
+ *
+ * GeckoTerminal only covers the pools it is given (the current top pools), so
+ * its numbers are a floor rather than the full ecosystem total. Anything
+ * neither source has stays missing - nothing is interpolated.
+ */
+
+import { getDailyVolume, saveDailyVolume, type DailyVolumeData } from './volume-store'
+import { fetchBatchedOHLCV } from './hourly-volume'
+
+// ============================================
+// TYPES & CONFIGURATION
+// ============================================
+
+const DUNE_API = 'https://api.dune.com/api/v1'
+const DUNE_QUERY_ID = '6572422' // BonkFun USD1 Daily Volume query
+const DUNE_CACHE_TTL = 60 * 60 * 1000 // Daily rows only change once a day
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+export const DAILY_BACKFILL_DAYS = 30
+export const HOURLY_BACKFILL_DAYS = 7 // GeckoTerminal hourly history is limited
+
+export interface DuneVolumeRow {
+  date: string
+  num_trades: number
+  unique_tokens: number
+  total_volume_usd: number
+}
+
+interface DuneApiResponse {
+  execution_id: string
+  query_id: number
+  state: string
+  result?: {
+    rows: DuneVolumeRow[]
+  }
+}
+
+export interface VolumeGaps {
+  days: string[] // YYYY-MM-DD with no daily record
+  hours: { date: string; hours: number[] }[] // UTC hours missing from complete days
+}
+
+export interface BackfillResult {
+  gaps: VolumeGaps
+  filledDays: { dune: number; geckoterminal: number }
+  filledHours: number
+  remaining: VolumeGaps
+}
+
+let duneCache: { rows: DuneVolumeRow[]; timestamp: number } | null = null
+
+function toDateString(timestamp: number): string {
+  return new Date(timestamp).toISOString().split('T')[0]
+}
+
+function startOfUtcDay(timestamp: number): number {
+  return Math.floor(timestamp / DAY_MS) * DAY_MS
+}
+
+// ============================================
+// DUNE
+// ============================================
+
+/**
+ * Latest results of the Dune daily volume query (null without DUNE_API_KEY or on error)
+ */
+export async function fetchDuneDailyVolume(): Promise<DuneVolumeRow[] | null> {
+  if (duneCache && Date.now() - duneCache.timestamp < DUNE_CACHE_TTL) {
+    return duneCache.rows
+  }
+
+  const duneApiKey = process.env.DUNE_API_KEY
+  if (!duneApiKey) {
+    console.log('[Backfill] No DUNE_API_KEY configured')
+    return null
+  }
+
+  const controller = new AbortController()
+  const timeoutId = setTimeout(() => controller.abort(), 15000)
+
+  try {
+    const response = await fetch(`${DUNE_API}/query/${DUNE_QUERY_ID}/results?limit=1000`, {
+      signal: controller.signal,
+      headers: {
+        'x-dune-api-key': duneApiKey,
+        Accept: 'application/json',
+      },
+    })
+
+    if (!response.ok) {
+      console.error('[Backfill] Dune API error:', response.status)
+      return null
+    }
+
+    const data: DuneApiResponse = await response.json()
+    if (data.state !== 'QUERY_STATE_COMPLETED' || !data.result?.rows) {
+      console.error('[Backfill] Dune query not ready or no results')
+      return null
+    }
+
+    duneCache = { rows: data.result.rows, timestamp: Date.now() }
+    return data.result.rows
+  } catch (error) {
+    console.error('[Backfill] Error fetching from Dune:', error)
+    return null
+  } finally {
+    clearTimeout(timeoutId)
+  }
+}
+
+// ============================================
+// GAP DETECTION
+// ============================================
+
+/**
+ * Days in the last `days` complete days with no record, and closed hours in the
+ * last `hourlyDays` complete days with no hourly value
+ */
+export async function findVolumeGaps(
+  days = DAILY_BACKFILL_DAYS,
+  hourlyDays = HOURLY_BACKFILL_DAYS
+): Promise<VolumeGaps> {
+  const todayStart = startOfUtcDay(Date.now())
+  const stored = await getDailyVolume(toDateString(todayStart - days * DAY_MS))
+  const byDate = new Map(stored.map(d => [d.date, d]))
+
+  const gaps: VolumeGaps = { days: [], hours: [] }
+
+  // Today is still open - the sync cron records it after midnight
+  for (let i = days; i >= 1; i--) {
+    const date = toDateString(todayStart - i * DAY_MS)
+    if (!byDate.has(date)) gaps.days.push(date)
+  }
+
+  for (let i = Math.min(hourlyDays, days); i >= 1; i--) {
+    const date = toDateString(todayStart - i * DAY_MS)
+    const hourly = byDate.get(date)?.hourly
+    const missing: number[] = []
+    for (let hour = 0; hour < 24; hour++) {
+      const volume = hourly?.[hour]
+      if (volume === undefined || volume === null) missing.push(hour)
+    }
+    if (missing.length > 0) gaps.hours.push({ date, hours: missing })
+  }
+
+  return gaps
+}
+
+// ============================================
+// BACKFILL
+// ============================================
+
+/**
+ * Fill missing days and hours, then report what is still missing
+ * `poolAddresses` are the pools summed for GeckoTerminal OHLCV
+ */
+export async function backfillVolume(
+  poolAddresses: string[],
+  days = DAILY_BACKFILL_DAYS,
+  hourlyDays = HOURLY_BACKFILL_DAYS
+): Promise<BackfillResult> {
+  const gaps = await findVolumeGaps(days, hourlyDays)
+  const filledDays = { dune: 0, geckoterminal: 0 }
+  let filledHours = 0
+
+  const todayStart = startOfUtcDay(Date.now())
+  const existing = new Map(
+    (await getDailyVolume(toDateString(todayStart - days * DAY_MS))).map(d => [d.date, d])
+  )
+  const updates = new Map<string, DailyVolumeData>()
+
+  // Missing days from Dune
+  if (gaps.days.length > 0) {
+    const missingDays = new Set(gaps.days)
+    const rows = await fetchDuneDailyVolume()
+    for (const row of rows || []) {
+      const date = row.date.split('T')[0]
+      if (!missingDays.has(date)) continue
+
+      updates.set(date, {
+        date,
+        timestamp: new Date(date + 'T00:00:00Z').getTime(),
+        volume: Math.round(row.total_volume_usd),
+        trades: row.num_trades,
+        uniqueTokens: row.unique_tokens,
+        source: 'dune',
+      })
+      filledDays.dune++
+    }
+  }
+
+  // Days Dune didn't have, from GeckoTerminal daily candles
+  const stillMissing = gaps.days.filter(date => !updates.has(date))
+  if (stillMissing.length > 0 && poolAddresses.length > 0) {
+    const { candles } = await fetchBatchedOHLCV(poolAddresses, 'day', 1)
+    for (const date of stillMissing) {
+      const timestamp = new Date(date + 'T00:00:00Z').getTime()
+      const candle = candles.get(timestamp)
+      if (!candle) continue
+
+      updates.set(date, {
+        date,
+        timestamp,
+        volume: Math.round(candle.volume),
+        trades: 0, // Not available from OHLCV
+        uniqueTokens: candle.pools,
+        source: 'geckoterminal',
+      })
+      filledDays.geckoterminal++
+    }
+  }
+
+  // Missing hours on days that now have a record
+  if (gaps.hours.length > 0 && poolAddresses.length > 0) {
+    const { candles } = await fetchBatchedOHLCV(poolAddresses, 'hour', 1)
+    for (const { date, hours } of gaps.hours) {
+      const record = updates.get(date) || existing.get(date)
+      if (!record) continue
+
+      const hourly = record.hourly ? [...record.hourly] : new Array<number | null>(24).fill(null)
+      let changed = false
+      for (const hour of hours) {
+        const candle = candles.get(record.timestamp + hour * HOUR_MS)
+        if (!candle) continue
+        hourly[hour] = Math.round(candle.volume)
+        filledHours++
+        changed = true
+      }
+
+      if (changed) updates.set(date, { ...record, hourly })
+    }
+  }
+
+  for (const record of updates.values()) {
+    await saveDailyVolume(record)
+  }
+
+  console.log(
+    `[Backfill] Filled ${filledDays.dune} days from Dune, ${filledDays.geckoterminal} from GeckoTerminal, ${filledHours} hours`
+  )
+
+  return {
+    gaps,
+    filledDays,
+    filledHours,
+    remaining: await findVolumeGaps(days, hourlyDays),
+  }
+}
@@ -0,0 +1,277 @@
+/**
+ * Volume History
+ *
+ * Shared shape for the ecosystem (/api/volume-history) and per-token
+ * (/api/tokens/[mint]/volume-history) history endpoints:
+ * - Every period has a fixed bucket grid; buckets no source covers are
+ *   returned with `volume: null` instead of invented numbers
+ * - Stats skip gaps rather than counting them as zero
+ *
+ * Per-token history is built from the token's candles (lib/candles.ts),
+ * i.e. stored volume snapshots with GeckoTerminal OHLCV filling the rest.
+ */
+
+import type { HourlyVolumePoint, HourlyVolumeSource } from './hourly-volume'
+import { getTokenCandles, CANDLE_INTERVALS, type CandleInterval } from './candles'
+
+// ============================================
+// TYPES & GRID
+// ============================================
+
+export type VolumeHistoryPeriod = '24h' | '7d' | '1m' | 'all'
+
+export type PointSource = 'kv' | 'dune' | 'live' | HourlyVolumeSource
+
+export interface VolumeDataPoint {
+  timestamp: number
+  volume: number | null // null = no data for this bucket
+  trades: number
+  poolCount?: number
+  source: PointSource | null
+}
+
+export interface CoverageMap {
+  expected: number // Buckets in the period
+  covered: number
+  percent: number
+  gaps: number[] // Bucket timestamps with no data
+  sources: Partial<Record<PointSource, number>> // Buckets per source
+}
+
+export interface VolumeStats {
+  current: number
+  previous: number
+  change: number
+  peak: number
+  low: number
+  average: number
+  totalVolume: number
+  poolCount: number
+}
+
+export interface VolumeHistoryResponse {
+  history: VolumeDataPoint[]
+  stats: VolumeStats
+  period: VolumeHistoryPeriod
+  dataPoints: number
+  coverage: CoverageMap
+  source: string
+  cached?: boolean
+  poolCount?: number
+  livePoolCount?: number
+}
+
+const HOUR_MS = 60 * 60 * 1000
+const DAY_MS = 24 * HOUR_MS
+
+// Bucket grid per period
+export const PERIOD_GRIDS: Record<VolumeHistoryPeriod, { bucketMs: number; buckets: number | null }> = {
+  '24h': { bucketMs: HOUR_MS, buckets: 24 },
+  '7d': { bucketMs: 4 * HOUR_MS, buckets: 42 },
+  '1m': { bucketMs: DAY_MS, buckets: 30 },
+  'all': { bucketMs: DAY_MS, buckets: null }, // From the first known day, weekly once over 30 days
+}
+
+export function isVolumeHistoryPeriod(value: string | null): value is VolumeHistoryPeriod {
+  return value === '24h' || value === '7d' || value === '1m' || value === 'all'
+}
+
+// ============================================
+// AGGREGATION & STATS
+// ============================================
+
+/**
+ * Group hourly points (oldest first) into buckets of `bucketHours`
+ * A bucket missing any hour is a gap - summing the known hours would undercount it
+ */
+export function bucketHourlyPoints(
+  hours: HourlyVolumePoint[],
+  bucketHours: number,
+  poolCount: number
+): VolumeDataPoint[] {
+  const data: VolumeDataPoint[] = []
+  for (let i = 0; i < hours.length; i += bucketHours) {
+    const bucket = hours.slice(i, i + bucketHours)
+    const complete = bucket.every(h => h.volume !== null)
+    data.push({
+      timestamp: hours[i].time,
+      volume: complete ? Math.round(bucket.reduce((sum, h) => sum + h.volume!, 0)) : null,
+      trades: 0,
+      poolCount,
+      source: complete ? bucket[0].source : null,
+    })
+  }
+  return data
+}
+
+/**
+ * Aggregate daily data into weekly data points
+ * Used for ALL period to show weekly candles - a week with any unknown day stays a gap
+ * (the first and current weeks only need the days the daily data covers)
+ */
+export function aggregateToWeekly(dailyData: VolumeDataPoint[]): VolumeDataPoint[] {
+  if (dailyData.length === 0) return []
+
+  const weeklyMap = new Map<number, VolumeDataPoint>()
+  const incompleteWeeks = new Set<number>()
+
+  for (const day of dailyData) {
+    // Get the start of the week (Monday) for this day
+    const date = new Date(day.timestamp)
+    const dayOfWeek = date.getUTCDay()
+    // Adjust to get Monday as start of week (0 = Sunday, so we shift)
+    const daysToMonday = dayOfWeek === 0 ? 6 : dayOfWeek - 1
+    const weekStart = new Date(date)
+    weekStart.setUTCDate(date.getUTCDate() - daysToMonday)
+    weekStart.setUTCHours(0, 0, 0, 0)
+    const weekTimestamp = weekStart.getTime()
+
+    const week = weeklyMap.get(weekTimestamp) || {
+      timestamp: weekTimestamp,
+      volume: null,
+      trades: 0,
+      poolCount: 0,
+      source: null,
+    }
+
+    if (day.volume !== null) {
+      week.volume = (week.volume ?? 0) + day.volume
+      week.trades += day.trades
+      week.poolCount = Math.max(week.poolCount || 0, day.poolCount || 0)
+      week.source = week.source ?? day.source
+    } else {
+      incompleteWeeks.add(weekTimestamp)
+    }
+    weeklyMap.set(weekTimestamp, week)
+  }
+
+  for (const weekTimestamp of incompleteWeeks) {
+    weeklyMap.set(weekTimestamp, { timestamp: weekTimestamp, volume: null, trades: 0, poolCount: 0, source: null })
+  }
+
+  return Array.from(weeklyMap.values()).sort((a, b) => a.timestamp - b.timestamp)
+}
+
+/**
+ * Summarize which buckets have data and where it came from
+ */
+export function buildCoverage(data: VolumeDataPoint[]): CoverageMap {
+  const sources: Partial<Record<PointSource, number>> = {}
+  const gaps: number[] = []
+
+  for (const point of data) {
+    if (point.volume === null || !point.source) {
+      gaps.push(point.timestamp)
+    } else {
+      sources[point.source] = (sources[point.source] || 0) + 1
+    }
+  }
+
+  const covered = data.length - gaps.length
+  return {
+    expected: data.length,
+    covered,
+    percent: data.length > 0 ? (covered / data.length) * 100 : 0,
+    gaps,
+    sources,
+  }
+}
+
+/**
+ * Calculate statistics from volume data (gaps are skipped, not counted as zero)
+ */
+export function calculateStats(
+  data: VolumeDataPoint[],
+  totalVolume24h: number,
+  poolCount: number
+): VolumeStats {
+  const volumes = data.map(d => d.volume).filter((v): v is number => v !== null)
+
+  if (volumes.length === 0) {
+    return {
+      current: 0,
+      previous: 0,
+      change: 0,
+      peak: 0,
+      low: 0,
+      average: 0,
+      totalVolume: totalVolume24h,
+      poolCount,
+    }
+  }
+
+  const current = volumes[volumes.length - 1] || 0
+  const previous = volumes[0] || current
+  const change = previous > 0 ? ((current - previous) / previous) * 100 : 0
+  const sumVolume = volumes.reduce((sum, v) => sum + v, 0)
+  const nonZero = volumes.filter(v => v > 0)
+
+  // Use the live total if it's more accurate
+  const totalVolume = Math.max(totalVolume24h, sumVolume)
+
+  return {
+    current,
+    previous,
+    change,
+    peak: Math.max(...volumes),
+    low: nonZero.length > 0 ? Math.min(...nonZero) : 0,
+    average: sumVolume / volumes.length,
+    totalVolume,
+    poolCount,
+  }
+}
+
+// ============================================
+// TOKEN HISTORY
+// ============================================
+
+/**
+ * A token's volume on the period's bucket grid, ending with the current hour/day
+ */
+export async function fetchTokenVolumeHistory(
+  mint: string,
+  period: VolumeHistoryPeriod,
+  poolAddress?: string
+): Promise<VolumeDataPoint[]> {
+  const { bucketMs, buckets } = PERIOD_GRIDS[period]
+  const interval: CandleInterval = bucketMs < DAY_MS ? '1h' : '1d'
+  const unitMs = CANDLE_INTERVALS[interval].bucketMs
+
+  const { candles } = await getTokenCandles(mint, interval, poolAddress)
+  const byTime = new Map(candles.map(c => [c.time, c]))
+
+  // ALL starts at the first candle (bounded by the candle lookback)
+  const lastUnit = Math.floor(Date.now() / unitMs) * unitMs
+  const unitsPerBucket = bucketMs / unitMs
+  const bucketCount = buckets ?? (candles.length > 0
+    ? Math.floor((lastUnit - candles[0].time) / bucketMs) + 1
+    : 1)
+  const start = lastUnit - (bucketCount * unitsPerBucket - 1) * unitMs
+
+  let data: VolumeDataPoint[] = []
+  for (let b = 0; b < bucketCount; b++) {
+    const bucketStart = start + b * bucketMs
+    let volume: number | null = null
+    let source: PointSource | null = null
+
+    for (let u = 0; u < unitsPerBucket; u++) {
+      const candle = byTime.get(bucketStart + u * unitMs)
+      if (!candle) continue
+      volume = (volume ?? 0) + candle.volume
+      source = source ?? candle.source ?? null
+    }
+
+    data.push({
+      timestamp: bucketStart,
+      volume: volume === null ? null : Math.round(volume),
+      trades: 0,
+      source,
+    })
+  }
+
+  if (period === 'all' && data.length > 30) {
+    data = aggregateToWeekly(data)
+  }
+
+  return data
+}
@@ -28,7 +28,8 @@ export interface DailyVolumeData {
   volume: number // Total USD volume for the day
   trades: number // Number of trades
   uniqueTokens: number // Number of unique tokens traded
-  source: "dune" | "raydium" | "cron" // Data source
+  source: "dune" | "raydium" | "cron" | "geckoterminal" // Data source
+  hourly?: (number | null)[] // 24 UTC hourly volumes, null = hour not backfilled yet
 }
 
 export interface VolumeStoreConfig {
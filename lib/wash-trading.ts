@@ -0,0 +1,261 @@
+/**
+ * Wash-Trading Detection
+ *
+ * Runs over a token's recent swaps (lib/trades.ts) and flags volume that
+ * isn't organic:
+ * - Self-trading: one wallet buys and sells the same size within minutes
+ * - Round-trip loops: a small set of wallets repeatedly passing the same
+ *   size back and forth (buy by A matched by a sell by B)
+ * - Bot trades: a large share of trades at one uniform USD size, placed by
+ *   a handful of wallets or at clockwork intervals - retail buyers also pick
+ *   round sizes, but from many wallets at irregular times
+ *
+ * Each flagged trade counts once; the rest of the sample is the organic share.
+ * The sample is a pool's most recent swaps, so the share is an estimate for
+ * the recent past - charts apply it to the trailing 24h only.
+ * Pure functions only, so the UI can reuse the volume helpers.
+ */
+
+import type { Token, Transaction } from './types'
+
+export type WashTradingFlag = 'self-trading' | 'round-trip-loops' | 'uniform-bot-trades'
+
+export interface WashTradingReport {
+  sampleSize: number
+  totalVolume: number // USD1 across the sample
+  flaggedVolume: number
+  organicShare: number // 0-1
+  selfTraders: string[]
+  loopWallets: string[]
+  botTradeSize: number | null // USD size of the uniform bot bucket
+  flags: WashTradingFlag[]
+}
+
+const CONFIG = {
+  MIN_SAMPLE: 10,
+  SIZE_TOLERANCE: 0.05, // Legs within 5% of each other match
+  SELF_TRADE_WINDOW_MS: 10 * 60 * 1000,
+  LOOP_WINDOW_MS: 2 * 60 * 1000,
+  LOOP_MAX_WALLETS: 4,
+  LOOP_MIN_ROUND_TRIPS: 3,
+  BOT_MIN_TRADES: 5,
+  BOT_MIN_SHARE: 0.3,
+  BOT_MAX_WALLET_SHARE: 0.25, // At most 1 wallet per 4 bucket trades
+  BOT_MAX_INTERVAL_CV: 0.25, // Spread of the gaps between bucket trades, relative to their mean
+}
+
+// Below this organic share the token gets a safety warning
+export const LOW_ORGANIC_SHARE = 0.5
+
+// Organic estimates describe the trailing 24h - older volume has none
+export const ORGANIC_WINDOW_MS = 24 * 60 * 60 * 1000
+
+function sameSize(a: Transaction, b: Transaction): boolean {
+  const x = a.tokenAmount ?? a.amount
+  const y = b.tokenAmount ?? b.amount
+  return Math.abs(x - y) <= Math.max(x, y) * CONFIG.SIZE_TOLERANCE
+}
+
+// ============================================
+// DETECTORS
+// ============================================
+
+/**
+ * Buys matched by a same-size sell from the same wallet
+ */
+function findSelfTrades(trades: Transaction[], flagged: Set<string>): Set<string> {
+  const wallets = new Set<string>()
+
+  for (const buy of trades) {
+    if (buy.type !== 'buy' || !buy.wallet || flagged.has(buy.id)) continue
+    const sell = trades.find(t =>
+      t.type === 'sell' &&
+      t.wallet === buy.wallet &&
+      !flagged.has(t.id) &&
+      Math.abs(t.timestamp - buy.timestamp) <= CONFIG.SELF_TRADE_WINDOW_MS &&
+      sameSize(buy, t)
+    )
+    if (!sell) continue
+
+    flagged.add(buy.id)
+    flagged.add(sell.id)
+    wallets.add(buy.wallet)
+  }
+
+  return wallets
+}
+
+/**
+ * Same-size buy/sell pairs between different wallets, grouped into wallet
+ * clusters - small clusters with repeated round trips are loops
+ */
+function findLoops(trades: Transaction[], flagged: Set<string>): Set<string> {
+  const parent = new Map<string, string>()
+  const find = (w: string): string => {
+    const p = parent.get(w) ?? w
+    if (p === w) return w
+    const root = find(p)
+    parent.set(w, root)
+    return root
+  }
+
+  const pairs: [Transaction, Transaction][] = []
+  const used = new Set<string>()
+
+  for (const buy of trades) {
+    if (buy.type !== 'buy' || !buy.wallet || flagged.has(buy.id)) continue
+    const sell = trades.find(t =>
+      t.type === 'sell' &&
+      t.wallet &&
+      t.wallet !== buy.wallet &&
+      !flagged.has(t.id) &&
+      !used.has(t.id) &&
+      Math.abs(t.timestamp - buy.timestamp) <= CONFIG.LOOP_WINDOW_MS &&
+      sameSize(buy, t)
+    )
+    if (!sell) continue
+
+    used.add(sell.id)
+    pairs.push([buy, sell])
+    parent.set(find(buy.wallet), find(sell.wallet!))
+  }
+
+  // Cluster -> wallets and round trips
+  const clusters = new Map<string, { wallets: Set<string>; pairs: [Transaction, Transaction][] }>()
+  for (const pair of pairs) {
+    const root = find(pair[0].wallet!)
+    const cluster = clusters.get(root) || { wallets: new Set<string>(), pairs: [] }
+    cluster.wallets.add(pair[0].wallet!)
+    cluster.wallets.add(pair[1].wallet!)
+    cluster.pairs.push(pair)
+    clusters.set(root, cluster)
+  }
+
+  const wallets = new Set<string>()
+  for (const cluster of clusters.values()) {
+    if (cluster.wallets.size > CONFIG.LOOP_MAX_WALLETS) continue
+    if (cluster.pairs.length < CONFIG.LOOP_MIN_ROUND_TRIPS) continue
+
+    for (const [buy, sell] of cluster.pairs) {
+      flagged.add(buy.id)
+      flagged.add(sell.id)
+    }
+    cluster.wallets.forEach(w => wallets.add(w))
+  }
+
+  return wallets
+}
+
+/**
+ * Whether a bucket's trades come at near-constant intervals (sorted by time)
+ */
+function hasRegularTiming(trades: Transaction[]): boolean {
+  const gaps = trades.slice(1).map((t, i) => t.timestamp - trades[i].timestamp)
+  const mean = gaps.reduce((sum, g) => sum + g, 0) / gaps.length
+  if (!(mean > 0)) return false
+
+  const variance = gaps.reduce((sum, g) => sum + (g - mean) ** 2, 0) / gaps.length
+  return Math.sqrt(variance) / mean <= CONFIG.BOT_MAX_INTERVAL_CV
+}
+
+/**
+ * Largest bucket of trades at one USD size (2 significant digits) that looks automated:
+ * few distinct wallets, or regular timing
+ */
+function findBotTrades(trades: Transaction[], flagged: Set<string>): number | null {
+  const buckets = new Map<number, Transaction[]>()
+  for (const trade of trades) {
+    if (trade.amount <= 0) continue
+    const size = Number(trade.amount.toPrecision(2))
+    buckets.set(size, [...(buckets.get(size) || []), trade])
+  }
+
+  let botSize: number | null = null
+  let botTrades: Transaction[] = []
+  for (const [size, bucket] of buckets) {
+    if (bucket.length <= botTrades.length) continue
+    if (bucket.length < CONFIG.BOT_MIN_TRADES || bucket.length / trades.length < CONFIG.BOT_MIN_SHARE) continue
+
+    const wallets = new Set(bucket.map(t => t.wallet || t.id))
+    const fewWallets = wallets.size <= bucket.length * CONFIG.BOT_MAX_WALLET_SHARE
+    if (!fewWallets && !hasRegularTiming(bucket)) continue
+
+    botSize = size
+    botTrades = bucket
+  }
+
+  botTrades.forEach(t => flagged.add(t.id))
+  return botSize
+}
+
+// ============================================
+// REPORT
+// ============================================
+
+/**
+ * Detect wash trading in a trade sample
+ * Returns null when the sample is too small to judge
+ */
+export function detectWashTrading(trades: Transaction[]): WashTradingReport | null {
+  if (trades.length < CONFIG.MIN_SAMPLE) return null
+
+  const sorted = [...trades].sort((a, b) => a.timestamp - b.timestamp)
+  const flagged = new Set<string>()
+
+  const selfTraders = findSelfTrades(sorted, flagged)
+  const loopWallets = findLoops(sorted, flagged)
+  const botTradeSize = findBotTrades(sorted, flagged)
+
+  const totalVolume = sorted.reduce((sum, t) => sum + t.amount, 0)
+  const flaggedVolume = sorted.filter(t => flagged.has(t.id)).reduce((sum, t) => sum + t.amount, 0)
+
+  const flags: WashTradingFlag[] = []
+  if (selfTraders.size > 0) flags.push('self-trading')
+  if (loopWallets.size > 0) flags.push('round-trip-loops')
+  if (botTradeSize !== null) flags.push('uniform-bot-trades')
+
+  return {
+    sampleSize: sorted.length,
+    totalVolume,
+    flaggedVolume,
+    organicShare: totalVolume > 0 ? 1 - flaggedVolume / totalVolume : 1,
+    selfTraders: Array.from(selfTraders),
+    loopWallets: Array.from(loopWallets),
+    botTradeSize,
+    flags,
+  }
+}
+
+// ============================================
+// VOLUME HELPERS
+// ============================================
+
+/**
+ * A token's organic 24h volume - raw volume when it hasn't been scanned
+ */
+export function getOrganicVolume(token: Token): number {
+  return token.organicVolume24h ?? token.volume24h
+}
+
+/**
+ * Organic estimate for a volume bucket starting at `time` - null (no estimate)
+ * for buckets older than the trailing 24h that the organic share describes
+ */
+export function organicBucketVolume(
+  volume: number | null,
+  time: number,
+  organicRatio: number,
+  now = Date.now()
+): number | null {
+  if (volume === null || now - time > ORGANIC_WINDOW_MS) return null
+  return volume * organicRatio
+}
+
+/**
+ * Organic share of the combined 24h volume of a token list (0-1)
+ */
+export function getOrganicVolumeRatio(tokens: Token[]): number {
+  const raw = tokens.reduce((sum, t) => sum + t.volume24h, 0)
+  if (raw <= 0) return 1
+  return tokens.reduce((sum, t) => sum + getOrganicVolume(t), 0) / raw
+}
@@ -0,0 +1,220 @@
+/**
+ * Shared Watchlist Store
+ *
+ * Server-side watchlists identified by an unguessable share slug.
+ * Anyone with the slug can read a list; edits need the edit key that is
+ * returned once on creation (only its SHA-256 hash is stored).
+ *
+ * Storage: Supabase `watchlists` table when configured, otherwise
+ * Vercel KV, otherwise in-memory (dev only - lost on restart). A KV error
+ * is reported as a failed read/write, never papered over with memory that
+ * only this isolate would see.
+ */
+
+import type { WatchlistRow } from './supabase'
+
+export interface Watchlist {
+  slug: string
+  name: string
+  tokens: string[] // Mint addresses, in display order
+  createdAt: number
+  updatedAt: number
+}
+
+export const WATCHLIST_LIMITS = {
+  MAX_TOKENS: 200,
+  MAX_NAME_LENGTH: 64,
+}
+
+const KV_PREFIX = 'watchlist'
+
+// Slugs and edit keys: 128 bits of randomness, base64url encoded
+const SLUG_BYTES = 16
+const EDIT_KEY_BYTES = 24
+
+// Solana addresses are 32-44 base58 characters
+const MINT_REGEX = /^[1-9A-HJ-NP-Za-km-z]{32,44}$/
+
+const memoryStore = new Map<string, WatchlistRow>()
+
+// Type for Vercel KV
+interface KVClient {
+  get: (key: string) => Promise<unknown | null>
+  set: (key: string, value: unknown) => Promise<string | null>
+}
+
+/**
+ * Dynamically load Vercel KV if available
+ */
+async function getKV(): Promise<KVClient | null> {
+  if (!process.env.KV_REST_API_URL || !process.env.KV_REST_API_TOKEN) {
+    return null
+  }
+
+  try {
+    const module = await import('@vercel/kv')
+    return module.kv as KVClient
+  } catch {
+    return null
+  }
+}
+
+function isSupabaseEnabled(): boolean {
+  return !!(process.env.NEXT_PUBLIC_SUPABASE_URL && process.env.SUPABASE_SERVICE_ROLE_KEY)
+}
+
+// ============================================
+// HELPERS
+// ============================================
+
+function randomToken(bytes: number): string {
+  const buffer = new Uint8Array(bytes)
+  crypto.getRandomValues(buffer)
+  return btoa(String.fromCharCode(...buffer))
+    .replace(/\+/g, '-')
+    .replace(/\//g, '_')
+    .replace(/=+$/, '')
+}
+
+async function hashEditKey(editKey: string): Promise<string> {
+  const digest = await crypto.subtle.digest('SHA-256', new TextEncoder().encode(editKey))
+  return Array.from(new Uint8Array(digest))
+    .map(b => b.toString(16).padStart(2, '0'))
+    .join('')
+}
+
+/**
+ * Clean user-provided input: trim name, drop invalid/duplicate mints, cap length
+ */
+export function sanitizeWatchlistInput(name: unknown, tokens: unknown): { name: string; tokens: string[] } | null {
+  if (!Array.isArray(tokens)) return null
+
+  const cleanName = typeof name === 'string' && name.trim()
+    ? name.trim().slice(0, WATCHLIST_LIMITS.MAX_NAME_LENGTH)
+    : 'Watchlist'
+
+  const seen = new Set<string>()
+  const cleanTokens: string[] = []
+  for (const mint of tokens) {
+    if (typeof mint !== 'string' || !MINT_REGEX.test(mint) || seen.has(mint)) continue
+    seen.add(mint)
+    cleanTokens.push(mint)
+    if (cleanTokens.length >= WATCHLIST_LIMITS.MAX_TOKENS) break
+  }
+
+  return { name: cleanName, tokens: cleanTokens }
+}
+
+function toWatchlist(row: WatchlistRow): Watchlist {
+  return {
+    slug: row.slug,
+    name: row.name,
+    tokens: row.tokens,
+    createdAt: row.created_at ? new Date(row.created_at).getTime() : 0,
+    updatedAt: row.updated_at ? new Date(row.updated_at).getTime() : 0,
+  }
+}
+
+// ============================================
+// STORAGE
+// ============================================
+
+async function readRow(slug: string): Promise<WatchlistRow | null> {
+  if (isSupabaseEnabled()) {
+    const { getWatchlistBySlug } = await import('./supabase')
+    return getWatchlistBySlug(slug)
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      const cached = await kv.get(`${KV_PREFIX}:${slug}`)
+      if (cached) {
+        return typeof cached === 'string' ? JSON.parse(cached) : cached as WatchlistRow
+      }
+      return null
+    } catch (e) {
+      console.warn('[Watchlists] KV read error:', e)
+      return null
+    }
+  }
+
+  return memoryStore.get(slug) || null
+}
+
+async function writeRow(row: WatchlistRow): Promise<boolean> {
+  if (isSupabaseEnabled()) {
+    const { upsertWatchlist } = await import('./supabase')
+    return upsertWatchlist(row)
+  }
+
+  const kv = await getKV()
+  if (kv) {
+    try {
+      await kv.set(`${KV_PREFIX}:${row.slug}`, JSON.stringify(row))
+      return true
+    } catch (e) {
+      console.warn('[Watchlists] KV write error:', e)
+      return false
+    }
+  }
+
+  memoryStore.set(row.slug, row)
+  return true
+}
+
+// ============================================
+// PUBLIC API
+// ============================================
+
+export async function getWatchlist(slug: string): Promise<Watchlist | null> {
+  const row = await readRow(slug)
+  return row ? toWatchlist(row) : null
+}
+
+/**
+ * Create a shared watchlist; the edit key is only ever returned here
+ */
+export async function createWatchlist(
+  name: string,
+  tokens: string[]
+): Promise<{ watchlist: Watchlist; editKey: string } | null> {
+  const editKey = randomToken(EDIT_KEY_BYTES)
+  const now = new Date().toISOString()
+  const row: WatchlistRow = {
+    slug: randomToken(SLUG_BYTES),
+    name,
+    tokens,
+    edit_key_hash: await hashEditKey(editKey),
+    created_at: now,
+    updated_at: now,
+  }
+
+  if (!await writeRow(row)) return null
+  return { watchlist: toWatchlist(row), editKey }
+}
+
+/**
+ * Update name and/or tokens; returns null when the list doesn't exist,
+ * 'forbidden' when the edit key doesn't match and 'failed' when the write failed
+ */
+export async function updateWatchlist(
+  slug: string,
+  editKey: string,
+  changes: { name?: string; tokens?: string[] }
+): Promise<Watchlist | null | 'forbidden' | 'failed'> {
+  const row = await readRow(slug)
+  if (!row) return null
+
+  if (await hashEditKey(editKey) !== row.edit_key_hash) return 'forbidden'
+
+  const updated: WatchlistRow = {
+    ...row,
+    name: changes.name ?? row.name,
+    tokens: changes.tokens ?? row.tokens,
+    updated_at: new Date().toISOString(),
+  }
+
+  if (!await writeRow(updated)) return 'failed'
+  return toWatchlist(updated)
+}